@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { mapReaction } from "@/lib/chem/atomMapping";
+import { parseReactionSmiles } from "@/lib/chem/reactionSmiles";
+
+const summary = (reactants: string[], products: string[], agents: string[] = []) => {
+  const mapping = mapReaction({ reactants, agents, products });
+  return mapping && { type: mapping.reactionType, distance: mapping.chemicalDistance, changes: mapping.bondChanges.map((b) => `${b.kind} ${b.elements.join("–")}`) };
+};
+
+describe("atom mapping", () => {
+  it("maps the largest common substructures and writes a mapped reaction SMILES", () => {
+    const sn2 = mapReaction({ reactants: ["CCBr", "[C-]#N"], products: ["CCC#N", "[Br-]"] })!;
+    expect(sn2.mappedSmiles).toBe("[CH3:1][CH2:2][Br:3].[C-:4]#[N:5]>>[CH3:1][CH2:2][C:4]#[N:5].[Br-:3]");
+    expect(sn2.centre).toEqual([2, 3, 4]);
+    expect(sn2.bondChanges).toEqual([
+      { kind: "broken", elements: ["C", "Br"], maps: [2, 3], before: 1, after: 0 },
+      { kind: "formed", elements: ["C", "C"], maps: [2, 4], before: 0, after: 1 },
+    ]);
+    // Map numbers pair up atoms and are unique on each side
+    const { reactants, products } = parseReactionSmiles(sn2.mappedSmiles);
+    expect(reactants).toHaveLength(2);
+    expect(products).toHaveLength(2);
+  });
+
+  it("locates the reaction centre in each drawn species", () => {
+    const elimination = mapReaction({ reactants: ["CC(C)(C)Br"], products: ["CC(C)=C"] })!;
+    expect(elimination.reactants[0]).toMatchObject({ smiles: "[CH3:1][C:2]([CH3:3])([CH3:4])Br", centreAtoms: [1, 3, 4] });
+    expect(elimination.reactants[0].changedBonds).toEqual([
+      [1, 3],
+      [1, 4],
+    ]);
+    expect(elimination.products[0].changedBonds).toEqual([[1, 3]]);
+    // An unbalanced reaction leaves the bromine without a partner
+    expect(elimination.unmapped).toBe(1);
+  });
+
+  it("takes balanced coefficients and agents into account", () => {
+    const hydrolysis = mapReaction({ reactants: ["CC(=O)OCC"], agents: ["O"], products: ["CC(=O)O", "CCO"] })!;
+    expect(hydrolysis.reactants.map((s) => s.agent)).toEqual([false, true]);
+    expect(hydrolysis.unmapped).toBe(0);
+    expect(hydrolysis.reactionType).toBe("Hydrolysis");
+    const water = mapReaction({ reactants: ["[H][H]", "O=O"], products: ["O"] })!;
+    expect(water.products[0].coefficient).toBe(2);
+    expect(water.mappedSmiles).toBe("[H][H].[H][H].[O:1]=[O:2]>>[OH2:1].[OH2:2]");
+  });
+
+  it("moves the double bond to the middle of the diene in a Diels–Alder reaction", () => {
+    const da = mapReaction({ reactants: ["C=CC=C", "C=C"], products: ["C1=CCCCC1"] })!;
+    const changed = da.bondChanges.filter((b) => b.kind === "changed").map((b) => [...b.maps, b.before, b.after]);
+    expect(changed).toEqual([
+      [1, 2, 2, 1],
+      [2, 3, 1, 2],
+      [3, 4, 2, 1],
+      [5, 6, 2, 1],
+    ]);
+    // Both diene termini bond to the dienophile, one carbon each
+    const formed = da.bondChanges.filter((b) => b.kind === "formed");
+    expect(formed.map((b) => [...b.maps].sort()[0]).sort()).toEqual([1, 4]);
+    expect(formed.flatMap((b) => b.maps).sort()).toEqual([1, 4, 5, 6]);
+    expect(da.centre).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(da.chemicalDistance).toBe(6);
+
+    const norbornene = mapReaction({ reactants: ["C1=CCC=C1", "C=C"], products: ["C1=CC2CC1CC2"] })!;
+    expect(norbornene.bondChanges).toContainEqual({ kind: "changed", elements: ["C", "C"], maps: [1, 5], before: 1, after: 2 });
+    expect(norbornene.centre).not.toContain(3);
+  });
+
+  it("labels the reaction type from the bond changes", () => {
+    expect(summary(["CC(=O)O", "OCC"], ["CC(=O)OCC", "O"])).toEqual({
+      type: "Condensation",
+      distance: 4,
+      changes: ["broken O–C", "formed O–C"],
+    });
+    expect(summary(["C=CC=C", "C=C"], ["C1=CCCCC1"])?.type).toBe("Cycloaddition");
+    expect(summary(["C=C", "Br"], ["CCBr"])?.type).toBe("Addition");
+    expect(summary(["CCO"], ["C=C", "O"])?.type).toBe("Elimination");
+    expect(summary(["CCO"], ["CC=O"])?.type).toBe("Oxidation");
+    expect(summary(["CC(C)=O"], ["CC(C)O"])?.type).toBe("Reduction");
+    expect(summary(["CC(=O)O"], ["CC(=O)[O-]", "O"], ["[Na+].[OH-]"])?.type).toBe("Proton transfer");
+    expect(summary(["Brc1ccccc1", "OB(O)c1ccccc1"], ["c1ccc(cc1)-c1ccccc1"])?.type).toBe("Cross-coupling");
+    expect(summary(["[Fe+2]", "[O-][Mn](=O)(=O)=O", "[H+]"], ["[Fe+3]", "[Mn+2]", "O"])?.type).toBe("Redox");
+    expect(summary(["CCO"], ["C1CC"])).toBeNull();
+  });
+});
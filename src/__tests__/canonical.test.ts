@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { canonicalSmiles } from "@/lib/chem/canonical";
+import { parseSmiles } from "@/lib/chem/smiles";
+import { moleculeSignature } from "@/lib/chem/molecule";
+
+describe("canonicalSmiles", () => {
+  it("gives one string for every way of writing the same molecule", () => {
+    const groups = [
+      ["CCO", "OCC", "C(O)C", "[CH3][CH2][OH]", "[H]OCC"],
+      ["c1ccccc1", "C1=CC=CC=C1", "C1C=CC=CC=1"],
+      ["c1ccc2ccccc2c1", "C1=CC=C2C=CC=CC2=C1"],
+      ["c1cc[nH]c1", "N1C=CC=C1"],
+      ["O=c1cccc[nH]1", "O=C1NC=CC=C1"],
+      ["CN1C=NC2=C1C(=O)N(C(=O)N2C)C", "Cn1cnc2c1c(=O)n(C)c(=O)n2C"],
+      ["[Na+].[Cl-]", "[Cl-].[Na+]"],
+      ["CC(=O)Oc1ccccc1C(=O)O", "OC(=O)c1ccccc1OC(C)=O"],
+    ];
+    for (const group of groups) {
+      const forms = new Set(group.map((s) => canonicalSmiles(s)));
+      expect(forms.size, group.join(" / ")).toBe(1);
+    }
+  });
+
+  it("keeps isomers and isotopes apart", () => {
+    expect(canonicalSmiles("CCO")).not.toBe(canonicalSmiles("COC"));
+    expect(canonicalSmiles("[13CH4]")).not.toBe(canonicalSmiles("C"));
+  });
+
+  it("preserves tetrahedral and double-bond stereo", () => {
+    const l = canonicalSmiles("N[C@@H](C)C(=O)O");
+    expect(canonicalSmiles("C[C@H](N)C(=O)O")).toBe(l);
+    expect(canonicalSmiles("N[C@H](C)C(=O)O")).not.toBe(l);
+    expect(canonicalSmiles("F/C=C\\F")).toBe(canonicalSmiles("F\\C=C/F"));
+    expect(canonicalSmiles("F/C=C/F")).not.toBe(canonicalSmiles("F/C=C\\F"));
+  });
+
+  it("gives stereo-symmetric molecules one string whatever the atom order", () => {
+    const groups = [
+      // cis- and trans-1,4-dimethylcyclohexane
+      ["C[C@@H]1CC[C@H](C)CC1", "C[C@H]1CC[C@@H](C)CC1", "C1C[C@@H](C)CC[C@H]1C"],
+      ["C[C@@H]1CC[C@@H](C)CC1", "C[C@H]1CC[C@H](C)CC1", "C1C[C@H](C)CC[C@H]1C"],
+      // all-cis and cis,cis,trans-1,3,5-trimethylcyclohexane
+      ["C[C@@H]1C[C@H](C)C[C@H](C)C1", "C[C@H]1C[C@@H](C)C[C@@H](C)C1", "C1[C@H](C)C[C@H](C)C[C@@H]1C"],
+      ["C[C@@H]1C[C@H](C)C[C@@H](C)C1", "C[C@H]1C[C@@H](C)C[C@H](C)C1", "C[C@@H]1C[C@@H](C)C[C@@H](C)C1"],
+    ];
+    for (const group of groups) {
+      const forms = new Set(group.map((s) => canonicalSmiles(s)));
+      expect(forms.size, group.join(" / ")).toBe(1);
+    }
+    expect(canonicalSmiles(groups[0][0])).not.toBe(canonicalSmiles(groups[1][0]));
+    expect(canonicalSmiles(groups[2][0])).not.toBe(canonicalSmiles(groups[3][0]));
+  });
+
+  it("round-trips to the same molecular graph", () => {
+    for (const smiles of ["CC(C)Cc1ccc(cc1)C(C)C(=O)O", "C1CCC2CCCCC2C1", "c1ccc(cc1)-c1ccccc1", "C[N+](=O)[O-]"]) {
+      const canonical = canonicalSmiles(smiles);
+      expect(canonicalSmiles(canonical)).toBe(canonical);
+      expect(moleculeSignature(parseSmiles(canonical))).toBe(moleculeSignature(parseSmiles(smiles)));
+    }
+  });
+});
@@ -75,4 +75,139 @@ describe("cheminfo callFastApi", () => {
       cheminfoTest.callFastApi({}, "/validate", { structure: "X" }),
     ).rejects.toThrow(/FastAPI error 500 on \/validate: boom/);
   });
+
+  it("validates locally when FASTAPI_CHEM_BASE_URL is not set", async () => {
+    delete process.env.FASTAPI_CHEM_BASE_URL;
+    const fetchSpy = vi.spyOn(g, "fetch");
+
+    await expect(cheminfoTest.validateWithFallback({}, "CCO")).resolves.toEqual({
+      isValid: true,
+      engine: "local",
+    });
+    const bad = await cheminfoTest.validateWithFallback({}, "C1CC");
+    expect(bad.isValid).toBe(false);
+    expect(bad.engine).toBe("local");
+    expect(bad.message).toMatch(/Unclosed ring bond 1 at position 2/);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("tags FastAPI validation results with the engine", async () => {
+    process.env.FASTAPI_CHEM_BASE_URL = "https://chem.example.com";
+    vi.spyOn(g, "fetch").mockResolvedValue({
+      ok: true,
+      json: async () => ({ isValid: true }),
+    } as unknown as Response);
+
+    await expect(cheminfoTest.validateWithFallback({}, "CCO")).resolves.toEqual({
+      isValid: true,
+      engine: "fastapi",
+    });
+  });
+
+  it("canonicalizes locally when FASTAPI_CHEM_BASE_URL is not set", async () => {
+    delete process.env.FASTAPI_CHEM_BASE_URL;
+    const fetchSpy = vi.spyOn(g, "fetch");
+
+    const a = await cheminfoTest.normalizeWithFallback({}, "OCC");
+    const b = await cheminfoTest.normalizeWithFallback({}, "C(O)C");
+    expect(a.engine).toBe("local");
+    expect(a.canonicalSmiles).toBe(b.canonicalSmiles);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("reports the engine the actions answer with", () => {
+    delete process.env.FASTAPI_CHEM_BASE_URL;
+    expect(cheminfoTest.currentEngine()).toBe("local");
+    process.env.FASTAPI_CHEM_BASE_URL = "https://chem.example.com";
+    expect(cheminfoTest.currentEngine()).toBe("fastapi");
+  });
+
+  it("embeds 3D coordinates locally when FASTAPI_CHEM_BASE_URL is not set", async () => {
+    delete process.env.FASTAPI_CHEM_BASE_URL;
+
+    const result = await cheminfoTest.embed3DWithFallback({}, "CCO");
+    expect(result.engine).toBe("local");
+    expect(result.coordinates).toHaveLength(9);
+  });
+
+  it("lays out 2D coordinates locally when FASTAPI_CHEM_BASE_URL is not set", async () => {
+    delete process.env.FASTAPI_CHEM_BASE_URL;
+    const fetchSpy = vi.spyOn(g, "fetch");
+
+    const result = await cheminfoTest.layout2DWithFallback({}, "CCO");
+    expect(result.engine).toBe("local");
+    expect(result.coordinates).toHaveLength(3);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("computes descriptors locally when FASTAPI_CHEM_BASE_URL is not set", async () => {
+    delete process.env.FASTAPI_CHEM_BASE_URL;
+    const fetchSpy = vi.spyOn(g, "fetch");
+
+    const result = await cheminfoTest.descriptorsWithFallback({}, "CCO");
+    expect(result.engine).toBe("local");
+    expect(result.descriptors.tpsa).toBeCloseTo(20.23, 2);
+    expect(result.descriptors.hBondDonors).toBe(1);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("predicts products with the local templates when FASTAPI_CHEM_BASE_URL is not set", async () => {
+    delete process.env.FASTAPI_CHEM_BASE_URL;
+    const fetchSpy = vi.spyOn(g, "fetch");
+
+    const result = await cheminfoTest.predictWithFallback({}, {
+      reactants: ["CC(=O)O"],
+      reagents: ["O=S(=O)(O)O"],
+      conditions: { temperature: 343, solvent: "ethanol" },
+      solventSmiles: "CCO",
+    });
+    expect(result).toMatchObject({
+      products: ["CCOC(C)=O"],
+      byproducts: ["O"],
+      template: { id: "fischer_esterification" },
+      engine: "local",
+    });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("asks FastAPI for products when it is configured", async () => {
+    process.env.FASTAPI_CHEM_BASE_URL = "https://chem.example.com";
+    const fetchSpy = vi.spyOn(g, "fetch").mockResolvedValue({
+      ok: true,
+      json: async () => ({ products: ["CC=O"] }),
+    } as unknown as Response);
+
+    const result = await cheminfoTest.predictWithFallback({}, { reactants: ["CCO"] });
+    expect(result).toEqual({ products: ["CC=O"], byproducts: [], template: null, outcomes: [], engine: "fastapi" });
+    expect(fetchSpy).toHaveBeenCalledWith(
+      "https://chem.example.com/predict_products",
+      expect.objectContaining({ body: JSON.stringify({ reactants: ["CCO"], reagents: [], conditions: {} }) }),
+    );
+  });
+
+  it("answers locally when the configured FastAPI call fails", async () => {
+    process.env.FASTAPI_CHEM_BASE_URL = "https://chem.example.com";
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fetchSpy = vi.spyOn(g, "fetch").mockRejectedValue(new Error("connect ECONNREFUSED"));
+
+    const layout = await cheminfoTest.layout2DWithFallback({}, "CCO");
+    expect(layout).toMatchObject({ engine: "local" });
+    expect(layout.coordinates).toHaveLength(3);
+    const prediction = await cheminfoTest.predictWithFallback({}, {
+      reactants: ["CC(=O)O"],
+      reagents: ["O=S(=O)(O)O"],
+      conditions: { temperature: 343, solvent: "ethanol" },
+      solventSmiles: "CCO",
+    });
+    expect(prediction).toMatchObject({ products: ["CCOC(C)=O"], engine: "local" });
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects invalid SMILES with a readable error", async () => {
+    delete process.env.FASTAPI_CHEM_BASE_URL;
+
+    await expect(cheminfoTest.embed3DWithFallback({}, "C1CC")).rejects.toThrow(/Invalid SMILES: C1CC/);
+    await expect(cheminfoTest.descriptorsWithFallback({}, "C((")).rejects.toThrow(/Invalid SMILES/);
+    await expect(cheminfoTest.normalizeWithFallback({}, "C((")).rejects.toThrow(/Invalid SMILES/);
+  });
 });
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { embedMolecule, idealBondLength, type Point3D } from "@/lib/chem/conformer";
+import { parseSmiles } from "@/lib/chem/smiles";
+
+const distance = (p: Point3D, q: Point3D) => Math.hypot(p.x - q.x, p.y - q.y, p.z - q.z);
+
+// Signed volume of (p1 - p0, p2 - p0, p3 - p0)
+function signedVolume(points: Point3D[]): number {
+  const [p0, p1, p2, p3] = points;
+  const a = [p1.x - p0.x, p1.y - p0.y, p1.z - p0.z];
+  const b = [p2.x - p0.x, p2.y - p0.y, p2.z - p0.z];
+  const c = [p3.x - p0.x, p3.y - p0.y, p3.z - p0.z];
+  return (
+    a[0] * (b[1] * c[2] - b[2] * c[1]) + a[1] * (b[2] * c[0] - b[0] * c[2]) + a[2] * (b[0] * c[1] - b[1] * c[0])
+  );
+}
+
+describe("embedMolecule", () => {
+  it("reproduces ideal bond lengths and adds explicit hydrogens", () => {
+    for (const smiles of ["CCO", "c1ccccc1", "CC(=O)Oc1ccccc1C(=O)O", "Cn1cnc2c1c(=O)n(C)c(=O)n2C"]) {
+      const { molecule, coordinates } = embedMolecule(parseSmiles(smiles));
+      expect(coordinates).toHaveLength(molecule.atoms.length);
+      for (const bond of molecule.bonds) {
+        const d = distance(coordinates[bond.from], coordinates[bond.to]);
+        expect(Math.abs(d - idealBondLength(molecule, bond)), smiles).toBeLessThan(0.1);
+      }
+    }
+    expect(embedMolecule(parseSmiles("CCO")).molecule.atoms).toHaveLength(9);
+    expect(embedMolecule(parseSmiles("CCO"), { hydrogens: false }).molecule.atoms).toHaveLength(3);
+  });
+
+  it("keeps aromatic rings flat and sp3 angles tetrahedral", () => {
+    const benzene = embedMolecule(parseSmiles("c1ccccc1")).coordinates;
+    expect(Math.abs(signedVolume([benzene[0], benzene[1], benzene[2], benzene[4]]))).toBeLessThan(0.05);
+
+    const { coordinates: methane } = embedMolecule(parseSmiles("C"));
+    const angle = (i: number, j: number) => {
+      const [c, a, b] = [methane[0], methane[i], methane[j]];
+      const u = [a.x - c.x, a.y - c.y, a.z - c.z];
+      const v = [b.x - c.x, b.y - c.y, b.z - c.z];
+      const cos = (u[0] * v[0] + u[1] * v[1] + u[2] * v[2]) / (distance(a, c) * distance(b, c));
+      return (Math.acos(cos) * 180) / Math.PI;
+    };
+    expect(angle(1, 2)).toBeCloseTo(109.5, 0);
+  });
+
+  it("honours tetrahedral and double-bond stereo", () => {
+    for (const [smiles, sign] of [
+      ["N[C@@H](C)C(=O)O", 1],
+      ["N[C@H](C)C(=O)O", -1],
+    ] as const) {
+      const { molecule, coordinates } = embedMolecule(parseSmiles(smiles));
+      const centre = molecule.atoms.findIndex((a) => a.chirality);
+      const volume = signedVolume(molecule.atoms[centre].chiralNeighbors!.map((n) => coordinates[n]));
+      expect(Math.sign(volume), smiles).toBe(sign);
+    }
+    const trans = embedMolecule(parseSmiles("F/C=C/F")).coordinates;
+    const cis = embedMolecule(parseSmiles("F/C=C\\F")).coordinates;
+    expect(distance(trans[0], trans[3])).toBeGreaterThan(distance(cis[0], cis[3]) + 0.5);
+  });
+
+  it("is deterministic for a given seed", () => {
+    const a = embedMolecule(parseSmiles("CC(C)Cc1ccc(cc1)C(C)C(=O)O"));
+    const b = embedMolecule(parseSmiles("CC(C)Cc1ccc(cc1)C(C)C(=O)O"));
+    expect(a.coordinates).toEqual(b.coordinates);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { depictMolecule } from "@/lib/chem/depict";
+import { parseSmiles } from "@/lib/chem/smiles";
+
+const distance = (p: { x: number; y: number }, q: { x: number; y: number }) => Math.hypot(p.x - q.x, p.y - q.y);
+
+function layout(smiles: string) {
+  const mol = parseSmiles(smiles);
+  const depiction = depictMolecule(mol);
+  const bondLengths = mol.bonds.map((b) => distance(depiction.coordinates[b.from], depiction.coordinates[b.to]));
+  let closest = Infinity;
+  for (let i = 0; i < mol.atoms.length; i++) {
+    for (let j = i + 1; j < mol.atoms.length; j++) {
+      if (!mol.bonds.some((b) => (b.from === i && b.to === j) || (b.from === j && b.to === i))) {
+        closest = Math.min(closest, distance(depiction.coordinates[i], depiction.coordinates[j]));
+      }
+    }
+  }
+  return { mol, depiction, bondLengths, closest };
+}
+
+describe("depictMolecule", () => {
+  it("draws unit bonds without overlapping atoms", () => {
+    for (const smiles of ["CCCCCC", "CC(C)(C)C", "c1ccc2cc3ccccc3cc2c1", "C12(CCCC1)CCCC2", "Cn1cnc2c1c(=O)n(C)c(=O)n2C", "CC(=O)Oc1ccccc1C(=O)O"]) {
+      const { bondLengths, closest } = layout(smiles);
+      for (const length of bondLengths) expect(length, smiles).toBeCloseTo(1, 6);
+      expect(closest, smiles).toBeGreaterThan(0.9);
+    }
+  });
+
+  it("keeps triple bonds linear and places fragments side by side", () => {
+    const propyne = layout("CC#C").depiction.coordinates;
+    expect(distance(propyne[0], propyne[2])).toBeCloseTo(2, 6);
+    const salt = layout("[Na+].[Cl-]").depiction.coordinates;
+    expect(salt[1].x - salt[0].x).toBeGreaterThan(1);
+  });
+
+  it("marks aromatic rings and is deterministic", () => {
+    expect(layout("c1ccc2ccccc2c1").depiction.aromaticRings).toHaveLength(2);
+    expect(layout("C1=CC=CC=C1").depiction.aromaticRings).toHaveLength(0);
+    expect(layout("CC(C)Cc1ccc(cc1)C(C)C(=O)O").depiction).toEqual(layout("CC(C)Cc1ccc(cc1)C(C)C(=O)O").depiction);
+  });
+
+  it("draws E/Z double bonds with the right geometry", () => {
+    const cis = layout("F/C=C\\F").depiction.coordinates;
+    const trans = layout("F/C=C/F").depiction.coordinates;
+    expect(distance(cis[0], cis[3])).toBeLessThan(distance(trans[0], trans[3]));
+    // Substituents three bonds apart: 2 bond lengths when cis, √7 when trans
+    const z = layout("CC/C=C\\CC").depiction.coordinates;
+    const e = layout("CC/C=C/CC").depiction.coordinates;
+    expect(distance(z[1], z[4])).toBeCloseTo(2, 6);
+    expect(distance(e[1], e[4])).toBeCloseTo(Math.sqrt(7), 6);
+  });
+
+  it("turns the wedge into a hash for the opposite enantiomer", () => {
+    const l = layout("N[C@@H](C)C(=O)O").depiction;
+    const d = layout("N[C@H](C)C(=O)O").depiction;
+    expect(l.wedges).toHaveLength(1);
+    expect(d.wedges).toHaveLength(1);
+    expect(l.wedges[0].bond).toBe(d.wedges[0].bond);
+    expect(l.wedges[0].kind).not.toBe(d.wedges[0].kind);
+    expect(layout("NC(C)C(=O)O").depiction.wedges).toHaveLength(0);
+  });
+});
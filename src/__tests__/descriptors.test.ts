@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { descriptorsFromSmiles } from "@/lib/chem/descriptors";
+
+const d = (smiles: string) => descriptorsFromSmiles(smiles)!;
+
+describe("descriptors", () => {
+  it("computes Wildman–Crippen logP", () => {
+    // Reference values from the published atom contributions
+    const expected: Array<[string, number]> = [
+      ["CCO", -0.0014],
+      ["c1ccccc1", 1.6866],
+      ["C1CCCCC1", 2.3406],
+      ["CC(=O)O", 0.0909],
+      ["Oc1ccccc1", 1.3922],
+      ["c1ccncc1", 1.0816],
+      ["Nc1ccccc1", 1.2688],
+      ["CC(=O)Oc1ccccc1C(=O)O", 1.3101],
+      ["Cn1cnc2c1c(=O)n(C)c(=O)n2C", -1.0293],
+      ["CC(C)Cc1ccc(cc1)C(C)C(=O)O", 3.0732],
+    ];
+    for (const [smiles, logP] of expected) expect(d(smiles).logP, smiles).toBeCloseTo(logP, 3);
+  });
+
+  it("computes Ertl TPSA including the fallback for bare heteroatoms", () => {
+    expect(d("CC(=O)Oc1ccccc1C(=O)O").tpsa).toBeCloseTo(63.6, 2);
+    expect(d("Cn1cnc2c1c(=O)n(C)c(=O)n2C").tpsa).toBeCloseTo(61.82, 2);
+    expect(d("C[N+](=O)[O-]").tpsa).toBeCloseTo(43.14, 2);
+    expect(d("O").tpsa).toBeCloseTo(31.5, 2);
+  });
+
+  it("counts donors, acceptors, rotatable bonds, rings and sp3 carbons", () => {
+    expect(d("CC(=O)Oc1ccccc1C(=O)O")).toMatchObject({
+      hBondDonors: 1,
+      hBondAcceptors: 3,
+      rotatableBonds: 3,
+      heavyAtoms: 13,
+      rings: 1,
+      aromaticRings: 1,
+      formalCharge: 0,
+    });
+    expect(d("CC(=O)Oc1ccccc1C(=O)O").fractionCsp3).toBeCloseTo(1 / 9, 4);
+    // Bonds to an amide N–H are not counted as rotatable
+    expect(d("CC(=O)NCCC").rotatableBonds).toBe(1);
+    expect(d("CCCC").rotatableBonds).toBe(1);
+    expect(d("c1ccc2ccccc2c1")).toMatchObject({ rings: 2, aromaticRings: 2, fractionCsp3: 0 });
+    expect(d("CC(=O)[O-].[Na+]").formalCharge).toBe(0);
+    expect(d("[NH4+]").formalCharge).toBe(1);
+  });
+
+  it("counts only basic O and N lone pairs as acceptors", () => {
+    expect(d("F/C=C/F").hBondAcceptors).toBe(0);
+    expect(d("O=O").hBondAcceptors).toBe(0);
+    expect(d("Cn1cccc1").hBondAcceptors).toBe(0);
+    expect(d("c1ccncc1").hBondAcceptors).toBe(1);
+    expect(d("CS(=O)(=O)C").hBondAcceptors).toBe(2);
+    expect(d("Cn1cnc2c1c(=O)n(C)c(=O)n2C").hBondAcceptors).toBe(3);
+  });
+
+  it("gives the same values however the structure is written", () => {
+    expect(d("C1=CC=CC=C1O")).toEqual(d("Oc1ccccc1"));
+    expect(d("[H]OCC")).toEqual(d("CCO"));
+    expect(descriptorsFromSmiles("C1CC")).toBeNull();
+  });
+});
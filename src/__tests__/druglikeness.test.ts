@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { drugLikenessFromSmiles, meetsDrugLikenessFilters } from "@/lib/chem/druglikeness";
+
+const profile = (smiles: string) => drugLikenessFromSmiles(smiles)!;
+const rule = (smiles: string, id: string) => profile(smiles).rules.find((r) => r.id === id)!;
+const alertIds = (smiles: string) => profile(smiles).alerts.map((a) => a.id);
+
+describe("drug-likeness rules", () => {
+  it("reports each limit with the molecule's value", () => {
+    const lipinski = rule("CC(=O)Oc1ccccc1C(=O)O", "lipinski");
+    expect(lipinski.pass).toBe(true);
+    expect(lipinski.checks.map((c) => [c.label, c.limit, c.pass])).toEqual([
+      ["MW", "≤ 500", true],
+      ["LogP", "≤ 5", true],
+      ["H-bond donors", "≤ 5", true],
+      ["H-bond acceptors", "≤ 10", true],
+    ]);
+    expect(lipinski.checks[0].value).toBeCloseTo(180.16, 1);
+  });
+
+  it("applies the ranges and tolerated violations of each rule set", () => {
+    // Palmitic acid: logP above 5 is Lipinski's one allowed violation, 14 rotatable bonds fail Veber
+    expect(rule("CCCCCCCCCCCCCCCC(=O)O", "lipinski")).toMatchObject({ pass: true, violations: 1 });
+    expect(rule("CCCCCCCCCCCCCCCC(=O)O", "veber").pass).toBe(false);
+    // Benzene is below the Ghose MW, refractivity and atom count windows
+    expect(rule("c1ccccc1", "ghose").violations).toBe(3);
+    expect(rule("CC(C)Cc1ccc(cc1)C(C)C(=O)O", "ghose").pass).toBe(true);
+    expect(rule("CC(C)Cc1ccc(cc1)C(C)C(=O)O", "leadLike").pass).toBe(false);
+    expect(profile("CC(C)Cc1ccc(cc1)C(C)C(=O)O").atomCount).toBe(33);
+    expect(profile("c1ccccc1").molarRefractivity).toBeCloseTo(26.3, 1);
+  });
+});
+
+describe("structural alerts", () => {
+  it("finds PAINS and Brenk groups with the atoms that triggered them", () => {
+    const rhodanine = profile("S=C1SC(=Cc2ccccc2)C(=O)N1").alerts;
+    expect(rhodanine.find((a) => a.id === "ene_rhod")).toMatchObject({ set: "pains" });
+    expect(rhodanine.find((a) => a.id === "thiocarbonyl")?.atoms).toEqual([[1, 0]]);
+    expect(alertIds("Oc1ccccc1O")).toEqual(["catechol"]);
+    expect(alertIds("O=C1C=CC(=O)C=C1")).toContain("quinone");
+    expect(profile("CCCl").alerts).toEqual([{ set: "brenk", id: "alkyl_halide", name: "Alkyl halide", atoms: [[1, 2]] }]);
+    expect(alertIds("O=[N+]([O-])c1ccccc1")).toEqual(["nitro"]);
+    expect(alertIds("CC(=O)Oc1ccccc1C(=O)O")).toEqual(["phenol_ester"]);
+    expect(alertIds("CC(C)Cc1ccc(cc1)C(C)C(=O)O")).toEqual([]);
+  });
+
+  it("filters a library by rule sets and alert sets together", () => {
+    const ibuprofen = profile("CC(C)Cc1ccc(cc1)C(C)C(=O)O");
+    const aspirin = profile("CC(=O)Oc1ccccc1C(=O)O");
+    expect(meetsDrugLikenessFilters(ibuprofen, ["lipinski", "veber", "pains", "brenk"])).toBe(true);
+    expect(meetsDrugLikenessFilters(aspirin, ["lipinski", "pains"])).toBe(true);
+    expect(meetsDrugLikenessFilters(aspirin, ["brenk"])).toBe(false);
+    expect(meetsDrugLikenessFilters(ibuprofen, ["leadLike"])).toBe(false);
+    expect(drugLikenessFromSmiles("C1CC")).toBeNull();
+  });
+});
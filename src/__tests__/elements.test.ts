@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import {
+  allowedValences,
+  atomicMass,
+  atomicNumber,
+  ELEMENTS,
+  elementData,
+  monoisotopicMass,
+} from "@/lib/chem/elements";
+
+describe("element table", () => {
+  it("covers all 118 elements in atomic-number order", () => {
+    expect(ELEMENTS).toHaveLength(118);
+    ELEMENTS.forEach((e, i) => expect(e.atomicNumber).toBe(i + 1));
+    expect(atomicNumber("Og")).toBe(118);
+    expect(atomicNumber("*")).toBe(0);
+    for (const e of ELEMENTS) {
+      expect(e.name.length, e.symbol).toBeGreaterThan(0);
+      expect(e.covalentRadius, e.symbol).toBeGreaterThan(0);
+      expect(e.vdwRadius, e.symbol).toBeGreaterThan(0);
+      expect(e.isotopes.length, e.symbol).toBeGreaterThan(0);
+    }
+  });
+
+  it("has natural abundances that sum to one and match the atomic weight", () => {
+    for (const e of ELEMENTS) {
+      const total = e.isotopes.reduce((sum, iso) => sum + iso.abundance, 0);
+      if (total === 0) continue;
+      expect(total, e.symbol).toBeCloseTo(1, 2);
+      const weighted = e.isotopes.reduce((sum, iso) => sum + iso.mass * iso.abundance, 0) / total;
+      expect(Math.abs(weighted - e.atomicMass), e.symbol).toBeLessThan(0.02);
+    }
+  });
+
+  it("describes heavy elements past cerium", () => {
+    expect(elementData("Pt")).toMatchObject({ name: "Platinum", atomicNumber: 78, color: 0xd0d0e0 });
+    expect(elementData("Au")?.electronegativity).toBe(2.54);
+    expect(elementData("Hg")?.name).toBe("Mercury");
+    expect(elementData("U")?.valences).toContain(6);
+    expect(atomicMass("Pb")).toBeCloseTo(207.2, 1);
+    expect(monoisotopicMass("Cl")).toBeCloseTo(34.968853, 5);
+    expect(monoisotopicMass("Og")).toBeCloseTo(294.2, 0);
+    expect(elementData("Xx")).toBeNull();
+  });
+
+  it("derives valence rules from the group", () => {
+    expect(allowedValences("P")).toEqual([3, 5]);
+    expect(allowedValences("N", 1)).toEqual([4]);
+    expect(allowedValences("Na", 1)).toEqual([0]);
+    expect(allowedValences("Fe")).toBeNull();
+    expect(allowedValences("Ar")).toBeNull();
+  });
+});
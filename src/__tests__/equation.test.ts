@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { EquationParseError, parseEquation, structureFromFormula } from "@/lib/chem/equation";
+
+const summary = (text: string) => {
+  const { reactants, products } = parseEquation(text);
+  return [...reactants, ...products].map((s) => `${s.coefficient} ${s.formula} ${s.smiles}`);
+};
+
+describe("equation parser", () => {
+  it("reads coefficients, arrows and the balance as written", () => {
+    expect(summary("2 H2 + O2 -> 2 H2O")).toEqual(["2 H2 [H][H]", "1 O2 O=O", "2 H2O O"]);
+    expect(parseEquation("2 H2 + O2 → 2 H2O").balanced).toBe(true);
+    expect(parseEquation("H2 + O2 -> H2O").balanced).toBe(false);
+    expect(parseEquation("CH3COOCH2CH3 + H2O <=> CH3COOH + CH3CH2OH")).toMatchObject({ reversible: true, balanced: true });
+    expect(parseEquation("1/2 O2 + H2 = H2O").reactants[0].coefficient).toBe(0.5);
+  });
+
+  it("builds structures from condensed formulas", () => {
+    expect(summary("CH3COOH + NaOH -> CH3COONa + H2O")).toEqual([
+      "1 C2H4O2 CC(=O)O",
+      "1 HNaO [Na+].[OH-]",
+      "1 C2H3NaO2 CC(=O)[O-].[Na+]",
+      "1 H2O O",
+    ]);
+    expect(structureFromFormula("CH3CHO")).toBe("CC=O");
+    expect(structureFromFormula("(CH3)2CHOH")).toBe("CC(C)O");
+    expect(structureFromFormula("(CH3)2C=CH2")).toBe("CC(C)=C");
+    expect(structureFromFormula("C6H5OH")).toBe("c1ccccc1O");
+    // A Hill formula that fits several structures stays unresolved
+    expect(structureFromFormula("C2H6O")).toBeNull();
+  });
+
+  it("builds single-centre halides and hydrides", () => {
+    expect(structureFromFormula("CCl4")).toBe("ClC(Cl)(Cl)Cl");
+    expect(structureFromFormula("CHCl3")).toBe("ClC(Cl)Cl");
+    expect(structureFromFormula("CH2Cl2")).toBe("ClCCl");
+    expect(structureFromFormula("CCl2F2")).toBe("FC(F)(Cl)Cl");
+    expect(structureFromFormula("PCl5")).toBe("ClP(Cl)(Cl)(Cl)Cl");
+    expect(structureFromFormula("SF6")).toBe("FS(F)(F)(F)(F)F");
+    expect(structureFromFormula("SiCl4")).toBe("Cl[Si](Cl)(Cl)Cl");
+    expect(structureFromFormula("SiH4")).toBe("[SiH4]");
+    // No usual valence of carbon fits, and two carbons are not one centre
+    expect(structureFromFormula("CCl5")).toBeNull();
+    expect(structureFromFormula("C2Cl6")).toBeNull();
+    expect(summary("CH4 + 4 Cl2 -> CCl4 + 4 HCl")).toEqual(["1 CH4 C", "4 Cl2 ClCl", "1 CCl4 ClC(Cl)(Cl)Cl", "4 ClH Cl"]);
+  });
+
+  it("reads charges, hydrates, states and electrons", () => {
+    const ions = parseEquation("Ba2+(aq) + SO42-(aq) → BaSO4(s)");
+    expect(ions.reactants.map((s) => [s.formula, s.state])).toEqual([["Ba+2", "aq"], ["O4S-2", "aq"]]);
+    expect(ions.balanced).toBe(true);
+    expect(summary("NH4+ + OH- -> NH3 + H2O")).toEqual(["1 H4N+ [NH4+]", "1 HO- [OH-]", "1 H3N N", "1 H2O O"]);
+    const hydrate = parseEquation("CuSO4·5H2O(s) -> CuSO4(s) + 5 H2O(g)");
+    expect(hydrate.reactants[0]).toMatchObject({ formula: "CuH10O9S", hydrate: 5, state: "s" });
+    expect(hydrate.balanced).toBe(true);
+    expect(parseEquation("MnO4^- + 8 H^+ + 5 e- -> Mn^2+ + 4 H2O").balanced).toBe(true);
+  });
+
+  it("accepts SMILES species and reports bad input", () => {
+    expect(summary("C=C + Br2 -> BrCCBr")).toEqual(["1 C2H4 C=C", "1 Br2 BrBr", "1 C2H4Br2 BrCCBr"]);
+    expect(() => parseEquation("H2 + O2")).toThrow(EquationParseError);
+    expect(() => parseEquation("H2 + Xy -> H2Xy")).toThrow('Unknown element "X" at position 6');
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { EquilibriumError, minimizeGibbs, solveEquilibrium } from "@/lib/chem/equilibrium";
+
+const ammonia = (temperature: number, pressure: number) =>
+  solveEquilibrium({ reactants: ["N#N", "[H][H]"], products: ["N"], temperature, pressure })!;
+
+describe("equilibrium", () => {
+  it("minimises Gibbs energy under element balance", () => {
+    // A ⇌ B isomers with ΔG° = 0 split evenly; amounts of each element are kept
+    const { moles } = minimizeGibbs(
+      [
+        { name: "A", composition: { C: 4, H: 10 }, gibbs: -10, initial: 2 },
+        { name: "B", composition: { C: 4, H: 10 }, gibbs: -10, initial: 0 },
+      ],
+      { temperature: 298.15, pressure: 1 },
+    );
+    expect(moles[0]).toBeCloseTo(1, 8);
+    expect(moles[1]).toBeCloseTo(1, 8);
+    expect(() => minimizeGibbs([{ name: "A", composition: { C: 1 }, gibbs: 0, initial: 0 }], { temperature: 298.15, pressure: 1 })).toThrow(
+      EquilibriumError,
+    );
+  });
+
+  it("reproduces the ammonia equilibrium constant and Le Chatelier shifts", () => {
+    const room = ammonia(298.15, 1);
+    expect(room.log10K).toBeCloseTo(5.76, 1);
+    expect(room.conversion).toBeGreaterThan(0.95);
+    const n = room.species.map((s) => s.moles);
+    expect(2 * n[0] + n[2]).toBeCloseTo(2, 8); // nitrogen kept
+    expect(room.species.reduce((s, x) => s + x.fraction, 0)).toBeCloseTo(1, 10);
+
+    const hot = ammonia(700, 1);
+    expect(hot.conversion).toBeLessThan(0.05);
+    expect(ammonia(700, 200).conversion).toBeGreaterThan(0.4);
+
+    // Exothermic: K and conversion fall across the van 't Hoff span
+    expect(hot.vantHoff.slope).toBeGreaterThan(0);
+    const points = hot.vantHoff.points;
+    expect(points).toHaveLength(11);
+    expect(points[0].log10K).toBeGreaterThan(points[10].log10K);
+    expect(points[0].conversion).toBeGreaterThan(points[10].conversion);
+  });
+
+  it("handles reactions far to one side and returns null without data", () => {
+    const combustion = solveEquilibrium({ reactants: ["C", "O=O"], products: ["O=C=O", "O"], temperature: 298.15, pressure: 1 })!;
+    expect(combustion.log10K).toBeGreaterThan(100);
+    expect(combustion.conversion).toBeCloseTo(1, 10);
+    expect(combustion.species[0].moles).toBeGreaterThan(0);
+
+    expect(solveEquilibrium({ reactants: ["c1cc[nH]c1", "[H][H]"], products: ["C1CCNC1"], temperature: 298.15, pressure: 1 })).toBeNull();
+    expect(solveEquilibrium({ reactants: ["CCO"], products: ["CC=O"], temperature: 298.15, pressure: 1 })).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { moleculeFingerprints, morganFingerprint, pathFingerprint, tanimoto } from "@/lib/chem/fingerprint";
+import { parseSmiles } from "@/lib/chem/smiles";
+
+const fp = (smiles: string) => moleculeFingerprints(smiles)!;
+
+describe("fingerprints", () => {
+  it("are the same however the molecule is written", () => {
+    expect(fp("OCC")).toEqual(fp("C(O)C"));
+    expect(fp("C1=CC=CC=C1O")).toEqual(fp("Oc1ccccc1"));
+    expect(fp("[H]OCC")).toEqual(fp("CCO"));
+  });
+
+  it("are sparse, sorted bit lists within the fingerprint size", () => {
+    const bits = morganFingerprint(parseSmiles("CC(=O)Oc1ccccc1C(=O)O"), 2, 1024);
+    expect(bits.length).toBeGreaterThan(10);
+    expect(bits).toEqual([...bits].sort((a, b) => a - b));
+    expect(bits.every((b) => b >= 0 && b < 1024)).toBe(true);
+    expect(pathFingerprint(parseSmiles("C")).length).toBe(1);
+  });
+
+  it("ranks close analogues above unrelated molecules", () => {
+    const reference = fp("CCO");
+    for (const kind of ["ecfp4", "path"] as const) {
+      const propanol = tanimoto(reference[kind], fp("CCCO")[kind]);
+      const benzene = tanimoto(reference[kind], fp("c1ccccc1")[kind]);
+      expect(tanimoto(reference[kind], fp("OCC")[kind])).toBe(1);
+      expect(propanol).toBeGreaterThan(benzene);
+      expect(propanol).toBeLessThan(1);
+    }
+    const aspirin = fp("CC(=O)Oc1ccccc1C(=O)O").ecfp4;
+    expect(tanimoto(aspirin, fp("OC(=O)c1ccccc1O").ecfp4)).toBeGreaterThan(tanimoto(aspirin, fp("CCCCCC").ecfp4));
+  });
+
+  it("computes Tanimoto on sparse lists", () => {
+    expect(tanimoto([1, 2, 3], [2, 3, 4])).toBe(0.5);
+    expect(tanimoto([], [])).toBe(1);
+    expect(tanimoto([1], [])).toBe(0);
+    expect(moleculeFingerprints("C1CC")).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { formulaFromSmiles, hillFormula } from "@/lib/chem/formula";
+
+describe("molecularFormula", () => {
+  it("counts implicit hydrogens and orders elements by Hill", () => {
+    expect(formulaFromSmiles("CCO")?.formula).toBe("C2H6O");
+    expect(formulaFromSmiles("c1ccccc1")?.formula).toBe("C6H6");
+    expect(formulaFromSmiles("OCl(=O)(=O)=O")?.formula).toBe("ClHO4");
+    expect(hillFormula({ H: 2, O: 1 })).toBe("H2O");
+    expect(hillFormula({ Br: 1, C: 1, H: 3 })).toBe("CH3Br");
+  });
+
+  it("reports bracket hydrogen counts and charges", () => {
+    const ammonium = formulaFromSmiles("[NH4+]")!;
+    expect(ammonium.formula).toBe("H4N+");
+    expect(ammonium.charge).toBe(1);
+    expect(formulaFromSmiles("[O-]C(=O)[O-]")?.formula).toBe("CO3-2");
+    expect(formulaFromSmiles("[Na+].[Cl-]")?.formula).toBe("ClNa");
+  });
+
+  it("computes average and monoisotopic masses", () => {
+    const ethanol = formulaFromSmiles("CCO")!;
+    expect(ethanol.averageMass).toBeCloseTo(46.069, 2);
+    expect(ethanol.monoisotopicMass).toBeCloseTo(46.041865, 5);
+    const caffeine = formulaFromSmiles("Cn1cnc2c1c(=O)n(C)c(=O)n2C")!;
+    expect(caffeine.formula).toBe("C8H10N4O2");
+    expect(caffeine.averageMass).toBeCloseTo(194.19, 1);
+    expect(caffeine.monoisotopicMass).toBeCloseTo(194.080376, 5);
+  });
+
+  it("uses labelled isotope masses and electron-corrects ions", () => {
+    const labelled = formulaFromSmiles("[13CH4]")!;
+    expect(labelled.formula).toBe("CH4");
+    expect(labelled.monoisotopicMass - formulaFromSmiles("C")!.monoisotopicMass).toBeCloseTo(1.003355, 5);
+    expect(formulaFromSmiles("[Na+]")!.monoisotopicMass).toBeCloseTo(22.989221, 5);
+  });
+
+  it("gives mass percentages that sum to 100", () => {
+    const composition = formulaFromSmiles("CC(=O)O")!.composition;
+    expect(composition.map((c) => c.element)).toEqual(["C", "H", "O"]);
+    expect(composition.reduce((sum, c) => sum + c.massPercent, 0)).toBeCloseTo(100, 6);
+    expect(composition[0].massPercent).toBeCloseTo(40.0, 0);
+  });
+
+  it("returns null for malformed SMILES", () => {
+    expect(formulaFromSmiles("C1CC")).toBeNull();
+  });
+});
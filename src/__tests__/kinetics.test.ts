@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildKineticModel,
+  energyProfile,
+  type KineticModel,
+  KineticsError,
+  rateConstant,
+  simulateKinetics,
+} from "@/lib/chem/kinetics";
+import { balanceReaction } from "@/lib/chem/stoichiometry";
+
+const model = (steps: KineticModel["steps"], initial: Record<string, number>, species: string[]): KineticModel => ({
+  species,
+  intermediates: [],
+  steps,
+  initial,
+  overall: { reactants: { A: 1 }, products: { [species[species.length - 1]]: 1 } },
+  reactionType: "Test",
+});
+
+describe("kinetics", () => {
+  it("follows first-order decay", () => {
+    const decay = model([{ reactants: { A: 1 }, products: { B: 1 }, forward: { A: 0.01, Ea: 0 }, enthalpy: 0 }], { A: 2 }, ["A", "B"]);
+    const result = simulateKinetics(decay, { temperature: 298, duration: 300, timeStep: 30 });
+    expect(result.times).toHaveLength(11);
+    result.times.forEach((t, i) => expect(result.concentrations[0].values[i]).toBeCloseTo(2 * Math.exp(-0.01 * t), 4));
+    expect(result.conversion).toBeCloseTo(1 - Math.exp(-3), 4);
+    expect(result.yield).toBeCloseTo(1 - Math.exp(-3), 4);
+  });
+
+  it("integrates the stiff Robertson problem in few steps", () => {
+    const robertson = model(
+      [
+        { reactants: { A: 1 }, products: { B: 1 }, forward: { A: 0.04, Ea: 0 }, enthalpy: 0 },
+        { reactants: { B: 2 }, products: { B: 1, C: 1 }, forward: { A: 3e7, Ea: 0 }, enthalpy: 0 },
+        { reactants: { B: 1, C: 1 }, products: { A: 1, C: 1 }, forward: { A: 1e4, Ea: 0 }, enthalpy: 0 },
+      ],
+      { A: 1 },
+      ["A", "B", "C"],
+    );
+    const result = simulateKinetics(robertson, { temperature: 298, duration: 40, timeStep: 40 });
+    const final = result.concentrations.map((c) => c.values[1]);
+    expect(final[0]).toBeCloseTo(0.715827, 4);
+    expect(final[1] * 1e6).toBeCloseTo(9.1855, 2);
+    expect(final[2]).toBeCloseTo(0.284173, 4);
+    expect(result.accepted).toBeLessThan(1000);
+    // Deterministic: a second run gives the same numbers
+    expect(simulateKinetics(robertson, { temperature: 298, duration: 40, timeStep: 40 })).toEqual(result);
+  });
+
+  it("builds elementary steps with Arrhenius constants from a reaction", () => {
+    const esterification = buildKineticModel({ reactants: ["CC(=O)O", "OCC"], products: ["CC(=O)OCC", "O"] });
+    expect(esterification.reactionType).toBe("Condensation");
+    expect(esterification.steps).toHaveLength(1);
+    expect(esterification.initial).toEqual({ "CC(=O)O": 1, OCC: 1 });
+    // A balance and type worked out beforehand give the same model
+    const reaction = { reactants: ["CC(=O)O", "OCC"], products: ["CC(=O)OCC", "O"] };
+    expect(buildKineticModel(reaction, { balance: balanceReaction(reaction), reactionType: "Condensation" })).toEqual(esterification);
+    // The reverse step makes K = 4 at 298 K, so conversion levels off at 2/3
+    const step = esterification.steps[0];
+    expect(rateConstant(step.forward, 298.15) / rateConstant(step.reverse!, 298.15)).toBeCloseTo(4, 6);
+    const result = simulateKinetics(esterification, { temperature: 298.15, duration: 1e7, timeStep: 1e5 });
+    expect(result.conversion).toBeCloseTo(2 / 3, 3);
+
+    // Three molecules meet two at a time, through an intermediate
+    const water = buildKineticModel({ reactants: ["[H][H]", "O=O"], products: ["O"] });
+    expect(water.intermediates).toEqual(["I1"]);
+    expect(water.steps.map((s) => [s.reactants, s.products])).toEqual([
+      [{ "[H][H]": 2 }, { I1: 1 }],
+      [{ I1: 1, "O=O": 1 }, { O: 2 }],
+    ]);
+    expect(energyProfile(water)).toEqual([0, 40, -50, -30, -100]);
+    // Hotter is faster
+    const sn2 = buildKineticModel({ reactants: ["CCBr", "[C-]#N"], products: ["CCC#N", "[Br-]"] });
+    const at = (temperature: number) => simulateKinetics(sn2, { temperature, duration: 600, timeStep: 60 }).conversion;
+    expect(at(330)).toBeGreaterThan(at(300));
+  });
+
+  it("rejects settings it cannot integrate", () => {
+    const sn2 = buildKineticModel({ reactants: ["CCBr", "[C-]#N"], products: ["CCC#N", "[Br-]"] });
+    expect(() => simulateKinetics(sn2, { temperature: 0, duration: 10, timeStep: 1 })).toThrow(KineticsError);
+    expect(() => simulateKinetics(sn2, { temperature: 300, duration: 1e6, timeStep: 1 })).toThrow("At most 2000 time points");
+    expect(() => simulateKinetics(sn2, { temperature: 300, duration: 1e6, timeStep: 1e3, maxSteps: 5 })).toThrow("did not finish");
+    expect(() => buildKineticModel({ reactants: ["CCO"], products: [] })).toThrow("at least one reactant and one product");
+  });
+});
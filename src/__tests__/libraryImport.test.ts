@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { batches, parseCsv, previewLibraryImport } from "@/lib/chem/libraryImport";
+import { writeSdf } from "@/lib/chem/molfile";
+import { parseSmiles } from "@/lib/chem/smiles";
+
+describe("library import", () => {
+  it("parses quoted CSV fields and sniffs the delimiter", () => {
+    expect(parseCsv('name,smiles\r\n"ethyl, acetate",CCOC(C)=O\n"say ""hi""\nthere",C\n\n')).toEqual([
+      ["name", "smiles"],
+      ["ethyl, acetate", "CCOC(C)=O"],
+      ['say "hi"\nthere', "C"],
+    ]);
+    expect(parseCsv("Name;SMILES;LogP\nethanol;CCO;-0.31")).toEqual([["Name", "SMILES", "LogP"], ["ethanol", "CCO", "-0.31"]]);
+  });
+
+  it("validates CSV rows and maps extra columns onto properties", () => {
+    const csv = "Compound,SMILES,XLogP3,Supplier\nethanol,CCO,-0.1,Acme\nbroken,C1CC,,\nno structure,,,\n,c1ccccc1,,";
+    const { format, rows, error } = previewLibraryImport("library.csv", csv);
+    expect(format).toBe("csv");
+    expect(error).toBeUndefined();
+    expect(rows.map((r) => r.status)).toEqual(["ready", "invalid", "invalid", "ready"]);
+    expect(rows[0].properties).toEqual({ logP: -0.1, sdFields: [{ name: "Supplier", value: "Acme" }] });
+    expect(rows[1].messages[0]).toMatch(/ring/i);
+    expect(rows[2].messages).toEqual(["Missing SMILES"]);
+    // Unnamed rows fall back to the SMILES
+    expect(rows[3].name).toBe("c1ccccc1");
+  });
+
+  it("flags duplicates of the library and of earlier rows by canonical structure", () => {
+    const csv = "name,smiles\nethanol,CCO\nethanol again,OCC\nwater,O";
+    const { rows } = previewLibraryImport("library.csv", csv, ["O"]);
+    expect(rows.map((r) => r.status)).toEqual(["ready", "duplicate", "duplicate"]);
+    expect(rows[1].messages).toEqual(["Same structure as row 1"]);
+    expect(rows[2].messages).toEqual(["Already in your library"]);
+  });
+
+  it("reports a missing SMILES column", () => {
+    expect(previewLibraryImport("x.csv", "name,weight\nfoo,12").error).toMatch(/No SMILES column/);
+  });
+
+  it("reads SD files with data items and broken records", () => {
+    const sdf =
+      writeSdf([
+        { molecule: parseSmiles("CC(=O)O"), name: "acetic acid", properties: { MW: "60.05", SMILES: "CC(=O)O" } },
+        { molecule: parseSmiles("c1ccccc1"), name: "", properties: { Name: "benzene" } },
+      ]) + "broken\n\n\nxx  1  0  0  0  0  0  0  0  0999 V2000\nM  END\n$$$$\n";
+    const { format, rows } = previewLibraryImport("library.sdf", sdf);
+    expect(format).toBe("sdf");
+    expect(rows.map((r) => [r.name, r.smiles, r.status])).toEqual([
+      ["acetic acid", "CC(=O)O", "ready"],
+      ["benzene", "c1ccccc1", "ready"],
+      ["", "", "invalid"],
+    ]);
+    expect(rows[0].properties).toEqual({ molecularWeight: 60.05 });
+    expect(rows[2].row).toBe(3);
+  });
+
+  it("splits rows into batches", () => {
+    expect(batches([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(batches([], 2)).toEqual([]);
+  });
+});
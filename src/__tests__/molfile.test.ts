@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import { canonicalSmiles } from "@/lib/chem/canonical";
+import { librarySdf, propertiesFromSdFields } from "@/lib/chem/libraryFields";
+import { parseMolfile, parseSdf, writeMolfile, writeSdf } from "@/lib/chem/molfile";
+import { parseSmiles } from "@/lib/chem/smiles";
+
+const ACETATE = `acetate
+  hand-made
+
+  4  3  0  0  0  0  0  0  0  0999 V2000
+    0.0000    0.0000    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0
+    1.2990    0.7500    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0
+    2.5981    0.0000    0.0000 O   0  0  0  0  0  0  0  0  0  0  0  0
+    1.2990    2.2500    0.0000 O   0  0  0  0  0  0  0  0  0  0  0  0
+  1  2  1  0
+  2  3  1  0
+  2  4  2  0
+M  CHG  1   3  -1
+M  END
+`;
+
+describe("molfile", () => {
+  it("reads a V2000 molfile with implicit hydrogens and M  CHG charges", () => {
+    const record = parseMolfile(ACETATE);
+    expect(record.name).toBe("acetate");
+    expect(record.coordinates[1]).toEqual({ x: 1.299, y: 0.75, z: 0 });
+    expect(canonicalSmiles(record.molecule)).toBe(canonicalSmiles("CC(=O)[O-]"));
+  });
+
+  it("round-trips structures through V2000 and V3000", () => {
+    const smiles = [
+      "CC(=O)Oc1ccccc1C(=O)O",
+      "Cn1cnc2c1c(=O)n(C)c(=O)n2C",
+      "N[C@@H](C)C(=O)O",
+      "N[C@H](C)C(=O)O",
+      "F/C=C/F",
+      "F/C=C\\F",
+      "C/C=C/C=C\\C",
+      "C[N+](=O)[O-]",
+      "[13CH4]",
+      "[CH3]",
+      "[Na+].[Cl-]",
+      "[SiH4]",
+    ];
+    for (const s of smiles) {
+      for (const version of ["V2000", "V3000"] as const) {
+        const text = writeMolfile(parseSmiles(s), { name: s, version });
+        expect(text.split("\n")[3], s).toContain(version);
+        expect(canonicalSmiles(parseMolfile(text).molecule), `${s} ${version}`).toBe(canonicalSmiles(s));
+      }
+    }
+  });
+
+  it("keeps atom maps", () => {
+    const text = writeMolfile(parseSmiles("[CH3:1][OH:2]"));
+    const atoms = parseMolfile(text).molecule.atoms;
+    expect(atoms.map((a) => a.atomClass)).toEqual([1, 2]);
+  });
+
+  it("reads SD files with data items and reports broken records by index", () => {
+    const sdf =
+      writeSdf([
+        { molecule: parseSmiles("CCO"), name: "ethanol", properties: { MW: "46.07", Supplier: "Acme\nLot 7" } },
+        { molecule: parseSmiles("c1ccccc1"), name: "benzene" },
+      ]) + "broken\n\n\nxx  1  0  0  0  0  0  0  0  0999 V2000\nM  END\n$$$$\n";
+    const entries = parseSdf(sdf);
+    expect(entries).toHaveLength(3);
+    const [ethanol, benzene, broken] = entries;
+    expect(ethanol.ok && ethanol.record.properties).toEqual({ MW: "46.07", Supplier: "Acme\nLot 7" });
+    expect(benzene.ok && canonicalSmiles(benzene.record.molecule)).toBe("c1ccccc1");
+    expect(broken).toMatchObject({ ok: false, index: 2 });
+  });
+
+  it("reads wedge bonds as tetrahedral stereo", () => {
+    // L-alanine drawn with the amino group on a wedge below the alpha carbon
+    const text = `L-alanine
+  hand-made
+
+  6  5  0  0  1  0  0  0  0  0999 V2000
+    0.0000    0.0000    0.0000 C   0  0
+    0.0000   -1.5000    0.0000 N   0  0
+   -1.2990    0.7500    0.0000 C   0  0
+    1.2990    0.7500    0.0000 C   0  0
+    2.5981    0.0000    0.0000 O   0  0
+    1.2990    2.2500    0.0000 O   0  0
+  1  2  1  1
+  1  3  1  0
+  1  4  1  0
+  4  5  1  0
+  4  6  2  0
+M  END
+`;
+    expect(canonicalSmiles(parseMolfile(text).molecule)).toBe(canonicalSmiles("N[C@@H](C)C(=O)O"));
+    // The same drawing with a hash gives D-alanine
+    expect(canonicalSmiles(parseMolfile(text.replace("  1  2  1  1", "  1  2  1  6")).molecule)).toBe(canonicalSmiles("N[C@H](C)C(=O)O"));
+  });
+
+  it("reads chirality from 3D coordinates", () => {
+    // F, Cl and Br in front of the carbon, the implicit H behind it
+    const text = `bromochlorofluoromethane
+  hand-made         3D
+
+  4  3  0  0  0  0  0  0  0  0999 V2000
+    0.0000    0.0000    0.0000 C   0  0
+    1.0000    0.0000    0.3500 F   0  0
+   -0.5000    0.8660    0.3500 Cl  0  0
+   -0.5000   -0.8660    0.3500 Br  0  0
+  1  2  1  0
+  1  3  1  0
+  1  4  1  0
+M  END
+`;
+    const mol = parseMolfile(text).molecule;
+    // Seen from F, Cl → Br → H runs anticlockwise here, which SMILES writes as "@"
+    expect(canonicalSmiles(mol)).toBe(canonicalSmiles("F[C@H](Cl)Br"));
+  });
+
+  it("maps SD data items onto library properties and back", () => {
+    const properties = propertiesFromSdFields({ MW: "46.07", XLogP3: "-0.1", Hazard_Level: "Low", Supplier: "Acme" });
+    expect(properties).toEqual({ molecularWeight: 46.07, logP: -0.1, hazardLevel: "Low", sdFields: [{ name: "Supplier", value: "Acme" }] });
+
+    const { sdf, skipped } = librarySdf([
+      { name: "ethanol", smiles: "CCO", formula: "C2H6O", properties },
+      { name: "junk", smiles: "C1CC" },
+    ]);
+    expect(skipped).toEqual(["junk"]);
+    const [entry] = parseSdf(sdf);
+    expect(entry.ok && entry.record.properties).toMatchObject({ SMILES: "CCO", MolecularWeight: "46.07", LogP: "-0.1", Supplier: "Acme" });
+  });
+});
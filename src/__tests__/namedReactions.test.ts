@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { canonicalSmiles } from "@/lib/chem/canonical";
+import { NAMED_REACTIONS } from "@/lib/chem/namedReactions";
+import { explainReactions, predictReactions, type ReactionSetup } from "@/lib/chem/reactionTemplates";
+import { parseSmarts } from "@/lib/chem/smarts";
+import { parseSmirks } from "@/lib/chem/smirks";
+import { COMMON_SOLUTES, SOLVENT_OPTIONS } from "@/components/simulator/config";
+
+const setup = (overrides: Partial<ReactionSetup>): ReactionSetup => ({
+  reactants: [],
+  solutes: [],
+  solvent: "water",
+  solventSmiles: "[H]O[H]",
+  temperature: 298,
+  ...overrides,
+});
+const mains = (s: ReactionSetup) => predictReactions(s).map((o) => `${o.templateId}: ${o.products.join(".")}`);
+
+describe("named reaction catalogue", () => {
+  it("is consistent with the simulator's solvents and solutes", () => {
+    const solvents = new Set(SOLVENT_OPTIONS.map((o) => o.key));
+    const solutes = new Map(COMMON_SOLUTES.map((s) => [canonicalSmiles(s.smiles), s.label]));
+    expect(new Set(NAMED_REACTIONS.map((t) => t.id)).size).toBe(NAMED_REACTIONS.length);
+    for (const template of NAMED_REACTIONS) {
+      expect(parseSmirks(template.smirks).reactants).toHaveLength(template.reactants.length);
+      for (const group of template.incompatible ?? []) expect(() => parseSmarts(group.smarts)).not.toThrow();
+      for (const solvent of template.solvents ?? []) expect(solvents.has(solvent), `${template.id}: ${solvent}`).toBe(true);
+      for (const option of (template.reagents ?? []).flatMap((r) => r.anyOf)) {
+        expect(solutes.get(canonicalSmiles(option.smiles)), `${template.id}: ${option.name}`).toBe(option.name);
+      }
+    }
+  });
+
+  it("forms bonds for the named C–C, C–O and C–N reactions", () => {
+    expect(mains(setup({ reactants: ["CCO", "CBr"], solutes: ["[Na+].[H-]"], solvent: "dmf", solventSmiles: "CN(C)C=O" }))).toEqual([
+      "williamson_ether_synthesis: CCOC",
+    ]);
+    expect(mains(setup({ reactants: ["C[Mg]Br", "CC(C)=O"], solvent: "ether", solventSmiles: "CCOCC" }))).toEqual([
+      "grignard_addition: CC(C)(C)O",
+    ]);
+    expect(mains(setup({ reactants: ["C=CC=C", "C=C"], solvent: "toluene", solventSmiles: "Cc1ccccc1", temperature: 400 }))).toContain(
+      "diels_alder: C1=CCCCC1",
+    );
+    const suzuki = setup({
+      reactants: ["Brc1ccccc1", "OB(O)c1ccccc1"],
+      solutes: ["CC(=O)[O-].CC(=O)[O-].[Pd+2]", "[K+].[K+].[O-]C(=O)[O-]"],
+      solvent: "dioxane",
+      solventSmiles: "C1COCCO1",
+      temperature: 353,
+    });
+    expect(mains(suzuki)).toEqual(["suzuki_coupling: c1ccc(cc1)-c1ccccc1"]);
+    expect(mains({ ...suzuki, solutes: ["[K+].[K+].[O-]C(=O)[O-]"] })).toEqual([]);
+  });
+
+  it("explains why a template does or doesn't apply", () => {
+    const explain = (s: ReactionSetup, id: string) =>
+      explainReactions(s, { solventLabels: { water: "Water", thf: "THF" } }).find((e) => e.id === id)!;
+    const failures = (s: ReactionSetup, id: string) => explain(s, id).checks.filter((c) => !c.ok).map((c) => c.message);
+
+    expect(failures(setup({ reactants: ["CCO"], solutes: ["O=S(=O)(O)O"] }), "ether_formation")).toEqual([
+      "Runs at 393–433 K; currently 298 K",
+    ]);
+    expect(failures(setup({ reactants: ["CC(C)=O"] }), "carbonyl_reduction_lah")).toEqual([
+      "Needs ether, THF or dioxane; currently Water",
+      "Needs lithium aluminium hydride: Lithium Aluminum Hydride",
+    ]);
+    // An amine on a reactant is protonated by the acid catalyst instead of esterifying
+    const aminoAlcohol = setup({
+      reactants: ["CC(=O)O", "NCCO"],
+      solutes: ["O=S(=O)(O)O"],
+      solvent: "toluene",
+      solventSmiles: "Cc1ccccc1",
+      temperature: 373,
+    });
+    expect(failures(aminoAlcohol, "fischer_esterification")).toEqual([
+      "NCCO carries a basic amine, which the reaction does not tolerate",
+    ]);
+
+    const hydride = setup({ reactants: ["CC(C)=O"], solutes: ["[Li+].[AlH4-]"], solvent: "thf", solventSmiles: "C1CCOC1" });
+    const applied = explain(hydride, "carbonyl_reduction_lah");
+    expect(applied.applies).toBe(true);
+    expect(applied.checks.at(-1)).toEqual({ kind: "product", ok: true, message: "Gives CC(C)O" });
+  });
+});
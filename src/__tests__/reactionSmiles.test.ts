@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { parseReactionSmiles, ReactionSmilesError, stripAtomMaps, writeReactionSmiles } from "@/lib/chem/reactionSmiles";
+
+describe("reaction SMILES", () => {
+  it("splits reactants, agents and products, grouping fragments", () => {
+    expect(parseReactionSmiles("CC(=O)O.OCC>OS(=O)(=O)O>CC(=O)OCC.O")).toEqual({
+      reactants: ["CC(=O)O", "OCC"],
+      agents: ["OS(=O)(=O)O"],
+      products: ["CC(=O)OCC", "O"],
+    });
+    expect(parseReactionSmiles("CCBr.[Na+].[C-]#N>CS(C)=O>CCC#N.[Na+].[Br-] |f:1.2,5.6|")).toEqual({
+      reactants: ["CCBr", "[Na+].[C-]#N"],
+      agents: ["CS(C)=O"],
+      products: ["CCC#N", "[Na+].[Br-]"],
+    });
+    // Component-level parentheses, no agents, and a trailing title
+    expect(parseReactionSmiles("  ([Na+].[OH-]).CC(=O)O>>CC(=O)[O-].[Na+].O |f:3.4| neutralization")).toEqual({
+      reactants: ["[Na+].[OH-]", "CC(=O)O"],
+      agents: [],
+      products: ["CC(=O)[O-].[Na+]", "O"],
+    });
+  });
+
+  it("keeps atom maps and rejects reused map numbers", () => {
+    const mapped = "[CH3:1][C:2](=[O:3])[OH:4].[CH3:5][CH2:6][OH:7]>>[CH3:1][C:2](=[O:3])[O:7][CH2:6][CH3:5].[OH2:4]";
+    expect(parseReactionSmiles(mapped).products[0]).toBe("[CH3:1][C:2](=[O:3])[O:7][CH2:6][CH3:5]");
+    expect(stripAtomMaps("[CH3:1][C:2](=[O:3])[OH:4]")).toBe("[CH3][C](=[O])[OH]");
+    expect(() => parseReactionSmiles("[CH3:1][OH:1]>>C=O")).toThrow("Map number 1 is used twice among the reactants");
+  });
+
+  it("reports where a reaction SMILES is malformed", () => {
+    const error = (text: string) => {
+      try {
+        parseReactionSmiles(text);
+      } catch (e) {
+        return e instanceof ReactionSmilesError ? [e.message, e.position] : e;
+      }
+    };
+    expect(error("CCO")).toEqual(['A reaction SMILES needs the form "reactants>agents>products" at position 1', 0]);
+    expect(error("CCO.C1CC>>CC")).toEqual(['Unclosed ring bond 1 in reactant "C1CC" at position 6', 5]);
+    expect(error("C.C>>C |f:0.2|")).toEqual(["Fragment grouping spans two sides of the reaction at position 8", 7]);
+  });
+
+  it("writes grouped components back as CXSMILES", () => {
+    const reaction = { reactants: ["OCC", "CC(O)=O"], agents: ["[Na+].[OH-]", "[H]O[H]"], products: ["CCOC(C)=O"] };
+    const text = writeReactionSmiles(reaction);
+    expect(text).toBe("OCC.CC(O)=O>[Na+].[OH-].[H]O[H]>CCOC(C)=O |f:2.3|");
+    expect(parseReactionSmiles(text)).toEqual(reaction);
+    expect(writeReactionSmiles(reaction, { canonical: true })).toBe("CCO.CC(=O)O>[Na+].[OH-].O>CCOC(C)=O |f:2.3|");
+    expect(writeReactionSmiles({ reactants: ["[CH3:1][OH:2]"], agents: [], products: ["[CH2:1]=[O:2]"] }, { atomMaps: false })).toBe(
+      "[CH3][OH]>>[CH2]=[O]",
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { parseSmirks } from "@/lib/chem/smirks";
+import { predictReactions, REACTION_TEMPLATES, type ReactionSetup } from "@/lib/chem/reactionTemplates";
+
+const SULFURIC_ACID = "O=S(=O)(O)O";
+const setup = (overrides: Partial<ReactionSetup>): ReactionSetup => ({
+  reactants: [],
+  solutes: [],
+  solvent: "water",
+  solventSmiles: "[H]O[H]",
+  temperature: 298,
+  ...overrides,
+});
+const summary = (s: ReactionSetup) =>
+  predictReactions(s).map((o) => `${o.templateId}: ${o.products.join(".")} + ${o.byproducts.join(".")}`);
+
+describe("reaction templates", () => {
+  it("all parse", () => {
+    for (const template of REACTION_TEMPLATES) expect(() => parseSmirks(template.smirks)).not.toThrow();
+  });
+
+  it("let the solvent take part and require a reactant", () => {
+    expect(summary(setup({ reactants: ["CC(=O)O"], solutes: [SULFURIC_ACID], solvent: "ethanol", solventSmiles: "CCO", temperature: 343 }))).toEqual([
+      "fischer_esterification: CCOC(C)=O + O",
+    ]);
+    expect(summary(setup({ reactants: ["CC(=O)OCC"], solutes: ["[Na+].[OH-]"], temperature: 343 }))).toEqual([
+      "ester_hydrolysis: CC(=O)O + CCO",
+    ]);
+    // Ethanol solvent with acid alone has nothing to react with
+    expect(summary(setup({ solutes: [SULFURIC_ACID], solvent: "ethanol", solventSmiles: "CCO", temperature: 413 }))).toEqual([]);
+  });
+
+  it("follow the temperature, reagents and solvent", () => {
+    const ethanol = { reactants: ["CCO"], solutes: [SULFURIC_ACID] };
+    expect(summary(setup({ ...ethanol, temperature: 443 }))).toEqual(["alcohol_dehydration: C=C + O"]);
+    expect(summary(setup({ ...ethanol, temperature: 413 }))).toEqual(["ether_formation: CCOCC + O"]);
+    expect(summary(setup({ reactants: ["CCO"] }))).toEqual([]);
+    expect(summary(setup({ reactants: ["CCO"], solutes: ["[K+].[O-][Mn](=O)(=O)=O"] }))).toEqual([
+      "alcohol_oxidation_acid: CC(=O)O + ",
+    ]);
+    const hydride = { reactants: ["CC(C)=O"], solutes: ["[Li+].[AlH4-]"] };
+    expect(summary(setup({ ...hydride, solvent: "thf", solventSmiles: "C1CCOC1" }))).toEqual(["carbonyl_reduction_lah: CC(C)O + "]);
+    expect(summary(setup(hydride))).toEqual([]);
+  });
+
+  it("list regioisomers as separate outcomes", () => {
+    const outcomes = predictReactions(setup({ reactants: ["Cc1ccccc1"], solutes: [SULFURIC_ACID, "O[N+](=O)[O-]"] }));
+    expect(outcomes.map((o) => o.templateName)).toEqual(Array(3).fill("Electrophilic aromatic nitration"));
+    expect(new Set(outcomes.map((o) => o.products[0])).size).toBe(3);
+  });
+
+  it("put crossed reactions ahead of self-reactions", () => {
+    // Butadiene dimerises too, but with methyl acrylate present the crossed adduct is the main product
+    const outcomes = predictReactions(setup({ reactants: ["C=CC=C", "C=CC(=O)OC"], solvent: "toluene", solventSmiles: "Cc1ccccc1", temperature: 373 }));
+    expect(outcomes[0].products).toEqual(["COC(=O)C1CC=CCC1"]);
+    expect(outcomes.map((o) => o.products[0])).toContain("C=CC1CC=CCC1");
+    expect(predictReactions(setup({ reactants: ["C=CC=C", "C=CC(=O)OC"], temperature: 373 }), undefined, { maxOutcomes: 1 })[0].products).toEqual([
+      "COC(=O)C1CC=CCC1",
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { buildKineticModel, type KineticModel } from "@/lib/chem/kinetics";
+import { estimateReactionTime, SOLVENT_POLARITY } from "@/lib/chem/reactionTime";
+
+const isomerisation = (reactionType: string, forward: number, reverse?: number): KineticModel => ({
+  species: ["A", "B"],
+  intermediates: [],
+  steps: [
+    {
+      reactants: { A: 1 },
+      products: { B: 1 },
+      forward: { A: forward, Ea: 0 },
+      ...(reverse !== undefined ? { reverse: { A: reverse, Ea: 0 } } : {}),
+      enthalpy: 0,
+    },
+  ],
+  initial: { A: 1 },
+  overall: { reactants: { A: 1 }, products: { B: 1 } },
+  reactionType,
+});
+
+describe("reactionTime", () => {
+  it("finds the time to the target conversion with a range", () => {
+    // First order: t = ln(1 / (1 − X)) / k; cycloadditions do not feel the solvent
+    const estimate = estimateReactionTime(isomerisation("Cycloaddition", 0.01), { temperature: 298, solvent: "toluene" });
+    expect(estimate.seconds).toBeCloseTo(Math.log(10) / 0.01, 0);
+    expect(estimate.targetConversion).toBe(0.9);
+    expect(estimate.low!).toBeLessThan(estimate.seconds!);
+    expect(estimate.high!).toBeGreaterThan(estimate.seconds!);
+    expect(estimate.seconds! / estimate.low!).toBeCloseTo(estimate.high! / estimate.seconds!, 6);
+    expect(estimate.assumptions.length).toBeGreaterThan(3);
+  });
+
+  it("speeds polar reactions up in polar solvents", () => {
+    const model = isomerisation("Substitution", 0.01);
+    const water = estimateReactionTime(model, { temperature: 298, solvent: "water" }).seconds!;
+    const hexane = estimateReactionTime(model, { temperature: 298, solvent: "hexane" }).seconds!;
+    expect(hexane / water).toBeCloseTo(Math.pow(10, 2 * (SOLVENT_POLARITY.water - SOLVENT_POLARITY.hexane)), 1);
+  });
+
+  it("stops at an equilibrium below the target and gives up on stalled reactions", () => {
+    // K = 1: half the A turns into B
+    const equilibrium = estimateReactionTime(isomerisation("Cycloaddition", 0.01, 0.01), { temperature: 298, solvent: "acetone" });
+    expect(equilibrium.equilibriumConversion).toBeCloseTo(0.5, 3);
+    expect(equilibrium.targetConversion).toBeCloseTo(0.475, 3);
+    expect(equilibrium.seconds).toBeCloseTo(-Math.log(1 - 0.95) / 0.02, 0);
+
+    const stalled = estimateReactionTime(isomerisation("Rearrangement", 1e-15), { temperature: 298, solvent: "acetone" });
+    expect(stalled.seconds).toBeNull();
+    expect(stalled.low).toBeNull();
+  });
+
+  it("takes the slowest step as rate-limiting and follows the starting concentration", () => {
+    // A fast first step feeding a slow second one: the second sets the time
+    const chain: KineticModel = {
+      species: ["A", "I1", "B"],
+      intermediates: ["I1"],
+      steps: [
+        { reactants: { A: 1 }, products: { I1: 1 }, forward: { A: 1e3, Ea: 0 }, enthalpy: 0 },
+        { reactants: { I1: 1 }, products: { B: 1 }, forward: { A: 1e6, Ea: 40 }, enthalpy: 0 },
+      ],
+      initial: { A: 1 },
+      overall: { reactants: { A: 1 }, products: { B: 1 } },
+      reactionType: "Cycloaddition",
+    };
+    const estimate = estimateReactionTime(chain, { temperature: 298, solvent: "toluene" });
+    expect(estimate.assumptions[0]).toContain("step 2 of 2 with Ea 40");
+
+    // Second order: a tenth of the concentration takes ten times as long
+    const esterification = (concentration: number) =>
+      buildKineticModel({ reactants: ["CC(=O)O", "OCC"], products: ["CC(=O)OCC", "O"] }, { concentration });
+    const concentrated = estimateReactionTime(esterification(1), { temperature: 298, solvent: "water" }).seconds!;
+    const dilute = estimateReactionTime(esterification(0.1), { temperature: 298, solvent: "water" }).seconds!;
+    expect(dilute / concentrated).toBeCloseTo(10, 1);
+  });
+
+  it("withholds the time when the reaction type has no rate parameters of its own", () => {
+    const ammonia = buildKineticModel({ reactants: ["N#N", "[H][H]"], products: ["N"] });
+    expect(ammonia.generic).toBe(true);
+    const estimate = estimateReactionTime(ammonia, { temperature: 298, solvent: "water" });
+    expect(estimate.seconds).toBeNull();
+    expect(estimate.withheld).toContain("no rate parameters");
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { buildKineticModel, simulateKinetics, simulationResults } from "@/lib/chem/kinetics";
+import {
+  concentrationTable,
+  energyDiagramPoints,
+  energyTable,
+  speciesLabel,
+  summaryTable,
+  timeUnit,
+  toCsv,
+} from "@/lib/simulationCharts";
+
+describe("simulation charts", () => {
+  it("labels transition states and intermediates on the energy diagram", () => {
+    expect(energyDiagramPoints([0, 40, -50, -30, -100], ["I1"])).toEqual([
+      { label: "Reactants", energy: 0, kind: "minimum" },
+      { label: "TS1", energy: 40, kind: "transition" },
+      { label: "I1", energy: -50, kind: "minimum" },
+      { label: "TS2", energy: -30, kind: "transition" },
+      { label: "Products", energy: -100, kind: "minimum" },
+    ]);
+    expect(energyDiagramPoints([0, 80, -40]).map((p) => p.label)).toEqual(["Reactants", "TS1", "Products"]);
+  });
+
+  it("tabulates a run for CSV export", () => {
+    const model = buildKineticModel({ reactants: ["CCBr", "[C-]#N"], products: ["CCC#N", "[Br-]"] });
+    const results = simulationResults(model, simulateKinetics(model, { temperature: 330, duration: 600, timeStep: 300 }));
+    const concentrations = concentrationTable(results);
+    expect(concentrations.header).toEqual(["time_s", "CCBr", "[C-]#N", "CCC#N", "[Br-]"]);
+    expect(concentrations.rows.map((r) => r[0])).toEqual([0, 300, 600]);
+    expect(concentrations.rows[0].slice(1)).toEqual([1, 1, 0, 0]);
+    expect(energyTable(results).rows).toEqual([
+      ["Reactants", "minimum", 0],
+      ["TS1", "transition", 80],
+      ["Products", "minimum", -40],
+    ]);
+    expect(summaryTable(results).rows.map((r) => r[0])).toEqual(["conversion", "yield"]);
+    expect(speciesLabel("[C-]#N")).toBe("CN-");
+    expect(speciesLabel("I2")).toBe("I2");
+  });
+
+  it("writes RFC 4180 CSV and picks a readable time unit", () => {
+    expect(toCsv({ header: ["species", "note"], rows: [["CC(=O)O", 'say "hi", twice']] })).toBe(
+      'species,note\r\nCC(=O)O,"say ""hi"", twice"\r\n',
+    );
+    expect(timeUnit(120)).toEqual({ label: "s", factor: 1 });
+    expect(timeUnit(3600)).toEqual({ label: "min", factor: 60 });
+    expect(timeUnit(14400)).toEqual({ label: "h", factor: 3600 });
+  });
+});
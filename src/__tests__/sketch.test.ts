@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { canonicalSmiles } from "@/lib/chem/canonical";
+import {
+  addAtom,
+  addRing,
+  adjustCharge,
+  connectAtoms,
+  emptySketch,
+  growAtom,
+  removeAtom,
+  setBondOrder,
+  setElement,
+  sketchFromSmiles,
+  sketchToSmiles,
+} from "@/lib/chem/sketch";
+
+describe("sketch editing", () => {
+  it("builds chains atom by atom with implicit hydrogens", () => {
+    let sketch = addAtom(emptySketch(), "C", { x: 0, y: 0 });
+    sketch = growAtom(sketch, 0, "C");
+    sketch = growAtom(sketch, 1, "O");
+    expect(sketchToSmiles(sketch)).toBe(canonicalSmiles("CCO"));
+    sketch = setBondOrder(sketch, 1, 2);
+    expect(sketchToSmiles(sketch)).toBe(canonicalSmiles("CC=O"));
+    sketch = setElement(sketch, 2, "N");
+    sketch = setBondOrder(sketch, 1, 3);
+    expect(sketchToSmiles(sketch)).toBe(canonicalSmiles("CC#N"));
+    expect(sketchToSmiles(emptySketch())).toBe("");
+  });
+
+  it("applies ring templates free, fused and spiro", () => {
+    const benzene = addRing(emptySketch(), 6, true, { kind: "point", at: { x: 0, y: 0 } });
+    expect(sketchToSmiles(benzene)).toBe("c1ccccc1");
+    const naphthalene = addRing(benzene, 6, true, { kind: "bond", bond: 1 });
+    expect(naphthalene.molecule.atoms).toHaveLength(10);
+    expect(sketchToSmiles(naphthalene)).toBe(canonicalSmiles("c1ccc2ccccc2c1"));
+    const spiro = addRing(addRing(emptySketch(), 5, false, { kind: "point", at: { x: 0, y: 0 } }), 5, false, { kind: "atom", atom: 0 });
+    expect(sketchToSmiles(spiro)).toBe(canonicalSmiles("C1CCC2(C1)CCCC2"));
+  });
+
+  it("sets charges and recomputes hydrogens", () => {
+    const ammonium = adjustCharge(addAtom(emptySketch(), "N", { x: 0, y: 0 }), 0, 1);
+    expect(sketchToSmiles(ammonium)).toBe("[NH4+]");
+    const sodium = addAtom(emptySketch(), "Na", { x: 0, y: 0 });
+    expect(sketchToSmiles(sodium)).toBe("[Na]");
+  });
+
+  it("opens existing SMILES for editing", () => {
+    const aspirin = "CC(=O)Oc1ccccc1C(=O)O";
+    const sketch = sketchFromSmiles(aspirin);
+    expect(sketchToSmiles(sketch)).toBe(canonicalSmiles(aspirin));
+    expect(sketchToSmiles(sketchFromSmiles("N[C@@H](C)C(=O)O"))).toBe(canonicalSmiles("N[C@@H](C)C(=O)O"));
+    // Deleting the acetyl methyl leaves the formate ester
+    expect(sketchToSmiles(removeAtom(sketch, 0))).toBe(canonicalSmiles("O=COc1ccccc1C(=O)O"));
+    const closed = connectAtoms(sketchFromSmiles("CCCCCC"), 0, 5, 1);
+    expect(sketchToSmiles(closed)).toBe(canonicalSmiles("C1CCCCC1"));
+  });
+});
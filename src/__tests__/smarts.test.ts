@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { hasSubstructure, parseSmarts, SmartsParseError, substructureMatches } from "@/lib/chem/smarts";
+
+const ASPIRIN = "CC(=O)Oc1ccccc1C(=O)O";
+
+describe("SMARTS", () => {
+  it("matches atom primitives and reports atoms in SMILES order", () => {
+    expect(substructureMatches(ASPIRIN, "[CX3](=O)[OX2H1]")).toEqual([[10, 11, 12]]);
+    expect(substructureMatches("OCC", "[#8][#6]")).toEqual([[0, 1]]);
+    expect(hasSubstructure("[NH4+]", "[N+;H4]")).toBe(true);
+    expect(hasSubstructure("c1ccncc1", "[n;X2]")).toBe(true);
+    expect(hasSubstructure("CC(=O)O", "[v4;D3]")).toBe(true);
+    expect(hasSubstructure("[13CH4]", "[13C]")).toBe(true);
+    expect(hasSubstructure("CC", "[13C]")).toBe(false);
+  });
+
+  it("matches aromatic rings however the molecule was written", () => {
+    expect(substructureMatches("C1=CC=CC=C1", "c1ccccc1")).toEqual([[0, 1, 2, 3, 4, 5]]);
+    expect(hasSubstructure(ASPIRIN, "a:a")).toBe(true);
+    expect(hasSubstructure("C1CCCCC1", "a")).toBe(false);
+  });
+
+  it("handles ring membership and bond primitives", () => {
+    expect(substructureMatches("C1CC1CC", "[R]")).toHaveLength(3);
+    expect(substructureMatches("C1CC1CC", "[r3]")).toHaveLength(3);
+    expect(substructureMatches("C1CC1CC", "C@C")).toHaveLength(3);
+    expect(substructureMatches("C1CC1CC", "C!@C")).toEqual([[2, 3], [3, 4]]);
+    expect(hasSubstructure("C=CC", "C=,#C")).toBe(true);
+    expect(hasSubstructure("CCC", "C~C~C")).toBe(true);
+    expect(hasSubstructure("C=CC", "C-C-C")).toBe(false);
+  });
+
+  it("evaluates recursive SMARTS and logical operators", () => {
+    const primaryAmine = "[NX3;H2;!$(NC=O)]";
+    expect(hasSubstructure("CCN", primaryAmine)).toBe(true);
+    expect(hasSubstructure("CC(N)=O", primaryAmine)).toBe(false);
+    expect(substructureMatches("CC(=O)O", "[$([OH]C=O)]")).toEqual([[3]]);
+    expect(substructureMatches("OCCN", "[O,N]")).toEqual([[0], [3]]);
+  });
+
+  it("reports each atom set once unless asked for every mapping", () => {
+    expect(substructureMatches("CCC", "CC")).toHaveLength(2);
+    expect(substructureMatches("CCC", "CC", { uniquify: false })).toHaveLength(4);
+    expect(substructureMatches("CCCCCC", "C", { maxMatches: 2 })).toHaveLength(2);
+  });
+
+  it("rejects malformed patterns with a position", () => {
+    for (const [pattern, message] of [
+      ["C(", /Unclosed branch/],
+      ["[C", /Unclosed bracket/],
+      ["C=", /no following atom/],
+      ["C1CC", /Unclosed ring bond 1/],
+      ["[$(C]", /recursive/],
+      ["[Q]", /Unexpected "Q"/],
+    ] as const) {
+      expect(() => parseSmarts(pattern), pattern).toThrow(SmartsParseError);
+      expect(() => parseSmarts(pattern), pattern).toThrow(message);
+    }
+  });
+});
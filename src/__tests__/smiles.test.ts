@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { parseSmiles, tryParseSmiles, SmilesParseError } from "@/lib/chem/smiles";
+import { elementCounts, fragments, netCharge } from "@/lib/chem/molecule";
+
+describe("parseSmiles", () => {
+  it("fills implicit hydrogens from default valences", () => {
+    expect(elementCounts(parseSmiles("CCO"))).toEqual({ C: 2, H: 6, O: 1 });
+    expect(elementCounts(parseSmiles("CC(=O)O"))).toEqual({ C: 2, H: 4, O: 2 });
+    expect(elementCounts(parseSmiles("O=S(=O)(O)O"))).toEqual({ O: 4, S: 1, H: 2 });
+  });
+
+  it("parses aromatic rings and keeps bracket hydrogens", () => {
+    const benzene = parseSmiles("c1ccccc1");
+    expect(benzene.atoms).toHaveLength(6);
+    expect(benzene.bonds.every((b) => b.aromatic)).toBe(true);
+    expect(elementCounts(benzene)).toEqual({ C: 6, H: 6 });
+    expect(elementCounts(parseSmiles("c1cc[nH]c1"))).toEqual({ C: 4, H: 5, N: 1 });
+  });
+
+  it("does not treat the link between two aromatic rings as aromatic", () => {
+    const biphenyl = parseSmiles("c1ccccc1c1ccccc1");
+    expect(biphenyl.bonds.filter((b) => !b.aromatic)).toHaveLength(1);
+  });
+
+  it("reads bracket atoms: isotope, chirality, hydrogens, charge and class", () => {
+    const mol = parseSmiles("[13CH3:2][C@@H](N)C(=O)O");
+    expect(mol.atoms[0]).toMatchObject({ element: "C", isotope: 13, hydrogens: 3, atomClass: 2 });
+    expect(mol.atoms[1].chirality).toBe("@@");
+    expect(parseSmiles("[NH4+]").atoms[0]).toMatchObject({ element: "N", hydrogens: 4, charge: 1 });
+    expect(parseSmiles("[Fe++]").atoms[0].charge).toBe(2);
+    expect(parseSmiles("[O-2]").atoms[0].charge).toBe(-2);
+  });
+
+  it("splits disconnected components", () => {
+    const salt = parseSmiles("[Na+].[Cl-]");
+    expect(salt.atoms.map((a) => a.element)).toEqual(["Na", "Cl"]);
+    expect(fragments(salt)).toHaveLength(2);
+    expect(netCharge(salt)).toBe(0);
+  });
+
+  it("handles ring closures with bond orders and %nn labels", () => {
+    expect(parseSmiles("C1CC=1").bonds.map((b) => b.order)).toEqual([1, 1, 2]);
+    expect(parseSmiles("C%12CC%12").bonds).toHaveLength(3);
+  });
+
+  it("reports the position of malformed input", () => {
+    const cases: Array<[string, RegExp, number]> = [
+      ["C1CC", /Unclosed ring bond 1/, 1],
+      ["CC(C", /Unclosed branch/, 2],
+      ["C)C", /Unmatched "\)"/, 1],
+      ["C[Xx]", /Unknown element "Xx"/, 2],
+      ["CC[NH4", /Unclosed bracket/, 2],
+      ["C==C", /Two bond symbols/, 2],
+      ["CH3CHO", /Unexpected character "H"/, 1],
+    ];
+    for (const [smiles, message, position] of cases) {
+      let error: unknown;
+      try {
+        parseSmiles(smiles);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(SmilesParseError);
+      expect((error as SmilesParseError).message).toMatch(message);
+      expect((error as SmilesParseError).position).toBe(position);
+    }
+  });
+
+  it("tryParseSmiles returns null instead of throwing", () => {
+    expect(tryParseSmiles("C1CC")).toBeNull();
+    expect(tryParseSmiles("CCO")).not.toBeNull();
+  });
+});
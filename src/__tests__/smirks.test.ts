@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { applyReaction, parseSmirks, SmirksError } from "@/lib/chem/smirks";
+import { parseSmiles } from "@/lib/chem/smiles";
+
+const run = (smirks: string, ...reactants: string[]) =>
+  applyReaction(smirks, reactants.map(parseSmiles)).map((products) => products.map((p) => `${p.component}:${p.smiles}`));
+
+describe("SMIRKS", () => {
+  it("rebuilds mapped bonds and adjusts hydrogens", () => {
+    expect(run("[CX4;H2,H3:1][OH:2]>>[C:1]=[O:2]", "CCO")).toEqual([["0:CC=O"]]);
+    // Unwritten product bonds are single: Markovnikov addition across the double bond
+    expect(run("[CH2:1]=[CX3:2].[Cl,Br,I;H1:3]>>[C:1][C:2][*:3]", "C=CC", "Cl")).toEqual([["0:CC(C)Cl"]]);
+    // Charges set in the product move hydrogens with them
+    expect(run("[CX3:1](=[O:2])[OH:3].[OH-:4]>>[C:1](=[O:2])[O-:3].[OH2+0:4]", "CC(=O)O", "[OH-]")).toEqual([
+      ["0:CC([O-])=O", "1:O"],
+    ]);
+  });
+
+  it("splits products by template component and creates unmapped atoms", () => {
+    const esterification = "[C:1](=[O:2])[OH:3].[OH:4][CX4:5]>>[C:1](=[O:2])[O:4][C:5].[O:3]";
+    expect(run(esterification, "CC(=O)O", "OCC")).toEqual([["0:CCOC(C)=O", "1:O"]]);
+    expect(run("[CX3H1:1](=[O:2])[#6:3]>>[C:1](=[O:2])([#6:3])[OH]", "CC=O")).toEqual([["0:CC(=O)O"]]);
+    // Reactant atoms matched by unmapped template atoms are removed
+    expect(run("[C:1][Cl]>>[C:1]", "CCCl")).toEqual([["0:CC"]]);
+  });
+
+  it("enumerates every site and reports each distinct product once", () => {
+    const bromination = "[cH:1].[Br:2][Br:3]>>[c:1][Br:2].[Br:3]";
+    expect(run(bromination, "c1ccccc1", "BrBr")).toEqual([["0:Brc1ccccc1", "1:Br"]]);
+    expect(run(bromination, "Cc1ccccc1", "BrBr")).toHaveLength(3);
+    expect(run(bromination, "C1=CC=CC=C1", "BrBr")).toEqual(run(bromination, "c1ccccc1", "BrBr"));
+    expect(run(bromination, "C1CCCCC1", "BrBr")).toEqual([]);
+  });
+
+  it("rejects transformations it cannot carry out", () => {
+    expect(() => parseSmirks("[C:1][O:2]")).toThrow(SmirksError);
+    expect(() => parseSmirks("[C:1][O:1]>>[C:1]")).toThrow(/used twice/);
+    expect(() => parseSmirks("[C:1]>>[C:1][O:2]")).toThrow(/does not appear among the reactants/);
+    expect(() => parseSmirks("[C:1]>>[C:1]*")).toThrow(/needs an element/);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { balanceReaction } from "@/lib/chem/stoichiometry";
+
+describe("stoichiometry", () => {
+  it("finds the smallest integer coefficients", () => {
+    const water = balanceReaction({ reactants: ["[H][H]", "O=O"], products: ["O"] });
+    expect(water).toMatchObject({ balanced: true, unique: true, reactantCoefficients: [2, 1], productCoefficients: [2] });
+    expect(water.equation).toBe("2 H2 + O2 → 2 H2O");
+    expect(balanceReaction({ reactants: ["C", "O=O"], products: ["O=C=O", "O"] }).equation).toBe("CH4 + 2 O2 → CO2 + 2 H2O");
+  });
+
+  it("balances charge as well as elements", () => {
+    const permanganate = balanceReaction({ reactants: ["[Fe+2]", "[O-][Mn](=O)(=O)=O", "[H+]"], products: ["[Fe+3]", "[Mn+2]", "O"] });
+    expect(permanganate.equation).toBe("5 Fe+2 + MnO4- + 8 H+ → 5 Fe+3 + Mn+2 + 4 H2O");
+  });
+
+  it("lets agent fragments take part but leaves spectators out", () => {
+    const neutralization = balanceReaction({
+      reactants: ["CC(=O)O"],
+      agents: ["[Na+].[OH-]", "[H]O[H]"],
+      products: ["CC(=O)[O-]", "O"],
+    });
+    expect(neutralization.equation).toBe("C2H4O2 + HO- → C2H3O2- + H2O");
+    expect(neutralization.reactantTerms.map((t) => t.agent)).toEqual([false, true]);
+    const hydrolysis = balanceReaction({ reactants: ["CC(=O)OCC"], agents: ["[H]O[H]"], products: ["CC(=O)O", "CCO"] });
+    expect(hydrolysis.equation).toBe("C4H8O2 + H2O → C2H4O2 + C2H6O");
+  });
+
+  it("flags reactions that cannot be balanced", () => {
+    // An oxidation written without the oxidant loses two hydrogens
+    expect(balanceReaction({ reactants: ["CCO"], products: ["CC=O"] })).toMatchObject({
+      balanced: false,
+      productCoefficients: [0],
+      equation: "Cannot balance: no positive coefficients conserve H",
+      imbalance: [{ element: "H", reactants: 6, products: 4 }],
+    });
+    expect(balanceReaction({ reactants: ["CCCl"], products: ["CCBr"] }).equation).toBe("Cannot balance: Br appears only among the products");
+    expect(balanceReaction({ reactants: ["C1CC"], products: ["C"] }).equation).toBe('Cannot balance: "C1CC" is not a valid structure');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { estimateThermo, exothermSeverity, missingThermoGroups, reactionThermo } from "@/lib/chem/thermochemistry";
+
+describe("thermochemistry", () => {
+  it("estimates formation values by group additivity", () => {
+    const ethanol = estimateThermo("OCC")!;
+    expect(ethanol.source).toBe("groups");
+    expect(ethanol.enthalpy).toBeCloseTo(-234.8, -1);
+    expect(ethanol.entropy).toBeCloseTo(280.6, -1);
+    expect(ethanol.groups.map((g) => g.group)).toContain("O-(C)(H)");
+
+    // Kekulé and aromatic benzene give the same groups
+    expect(estimateThermo("C1=CC=CC=C1")!.enthalpy).toBeCloseTo(estimateThermo("c1ccccc1")!.enthalpy, 6);
+    expect(estimateThermo("c1ccccc1")!.enthalpy).toBeCloseTo(82.9, 0);
+    // Cyclohexane needs its ring correction for the entropy, not the enthalpy
+    expect(estimateThermo("C1CCCCC1")!.enthalpy).toBeCloseTo(-123.4, -1);
+  });
+
+  it("uses reference values for small molecules and ions and gives up on unknown groups", () => {
+    expect(estimateThermo("O")).toMatchObject({ source: "reference", enthalpy: -241.83 });
+    expect(estimateThermo("[Na+].[OH-]")!.enthalpy).toBeCloseTo(-470.1, 6);
+    expect(estimateThermo("C1CC")).toBeNull();
+    // Pyridine-type nitrogen has a group value (pyridine 140.4 kJ/mol); pyrrole-type NH has none
+    expect(estimateThermo("c1ccncc1")!.enthalpy).toBeCloseTo(140.4, -1);
+    expect(missingThermoGroups("c1ccncc1")).toEqual([]);
+    expect(estimateThermo("c1cc[nH]c1")).toBeNull();
+    expect(missingThermoGroups("c1cc[nH]c1")).toEqual(["Nb-(H)"]);
+  });
+
+  it("computes reaction enthalpy and Gibbs energy at temperature", () => {
+    const combustion = reactionThermo({ reactants: ["C", "O=O"], products: ["O=C=O", "O"], temperature: 298.15 })!;
+    expect(combustion.balanced).toBe(true);
+    expect(combustion.enthalpy).toBeCloseTo(-802.6, 0);
+    expect(combustion.gibbs).toBeCloseTo(combustion.enthalpy - (298.15 * combustion.entropy) / 1000, 6);
+    expect(combustion.severity).toBe("high");
+
+    const hydrogenation = reactionThermo({ reactants: ["C=C", "[H][H]"], products: ["CC"], temperature: 298.15 })!;
+    expect(hydrogenation.enthalpy).toBeCloseTo(-136.3, -1);
+    expect(hydrogenation.entropy).toBeLessThan(0);
+    // Fewer molecules: ΔG rises with temperature
+    const hot = reactionThermo({ reactants: ["C=C", "[H][H]"], products: ["CC"], temperature: 800 })!;
+    expect(hot.gibbs).toBeGreaterThan(hydrogenation.gibbs);
+
+    const dehydration = reactionThermo({ reactants: ["CC(C)(C)O"], products: ["C=C(C)C", "O"], temperature: 298.15 })!;
+    expect(dehydration.enthalpy).toBeGreaterThan(0);
+    expect(dehydration.severity).toBe("endothermic");
+
+    // A mild esterification in 1 mol/L solution warms the mass by about 10 K; neat it would be hotter
+    const esterification = reactionThermo({ reactants: ["CC(=O)O", "OCC"], products: ["CC(=O)OCC", "O"], temperature: 298.15 })!;
+    expect(esterification.adiabaticRise).toBeLessThan(20);
+    expect(esterification.severity).toBe("low");
+    const neat = reactionThermo({ reactants: ["CC(=O)O", "OCC"], products: ["CC(=O)OCC", "O"], temperature: 298.15, concentration: 20 })!;
+    expect(neat.adiabaticRise).toBeGreaterThan(esterification.adiabaticRise);
+  });
+
+  it("grades heat release by adiabatic temperature rise", () => {
+    expect(exothermSeverity(-10)).toBe("endothermic");
+    expect(exothermSeverity(20)).toBe("low");
+    expect(exothermSeverity(120)).toBe("medium");
+    expect(exothermSeverity(450)).toBe("high");
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { validateSmiles } from "@/lib/chem/validate";
+import { kekulize } from "@/lib/chem/aromaticity";
+import { parseSmiles } from "@/lib/chem/smiles";
+
+describe("validateSmiles", () => {
+  it("accepts well-formed structures, salts and single ions", () => {
+    for (const smiles of [
+      "CCO",
+      "c1ccccc1",
+      "c1cc[nH]c1",
+      "c1ccncc1",
+      "O=S(=O)(O)O",
+      "[Na+].[Cl-]",
+      "[K+].[K+].[O-]C(=O)[O-]",
+      "[Li+].[AlH4-]",
+      "[NH4+]",
+      "C[N+](=O)[O-]",
+      "OCl(=O)(=O)=O",
+    ]) {
+      expect(validateSmiles(smiles), smiles).toEqual({ isValid: true, issues: [] });
+    }
+  });
+
+  it("reports syntax errors with their position", () => {
+    const ring = validateSmiles("C1CC");
+    expect(ring.isValid).toBe(false);
+    expect(ring.issues[0]).toMatchObject({ kind: "syntax", position: 1 });
+    expect(validateSmiles("CC(C").message).toMatch(/Unclosed branch "\(" at position 3/);
+    expect(validateSmiles("C[NH4+").message).toMatch(/Unclosed bracket atom/);
+  });
+
+  it("flags over-valent atoms", () => {
+    const result = validateSmiles("CC(C)(C)(C)C");
+    expect(result.issues).toEqual([
+      { kind: "valence", message: "C at position 2 has valence 5 (maximum 4)", position: 1 },
+    ]);
+    expect(validateSmiles("C[O+](C)(C)C").message).toMatch(/O\+ at position 2 has valence 4 \(maximum 3\)/);
+  });
+
+  it("flags aromatic systems that cannot be kekulized", () => {
+    const result = validateSmiles("n1cccc1");
+    expect(result.issues[0].kind).toBe("aromaticity");
+    expect(result.message).toMatch(/\[nH\]/);
+    expect(validateSmiles("c1cccc1").issues[0].kind).toBe("aromaticity");
+  });
+
+  it("flags unbalanced charges across disconnected fragments", () => {
+    const result = validateSmiles("[K+].[O-]C(=O)[O-]");
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]).toMatchObject({ kind: "charge", position: 5 });
+    expect(result.message).toMatch(/net charge of -1/);
+  });
+});
+
+describe("kekulize", () => {
+  it("assigns alternating double bonds", () => {
+    const result = kekulize(parseSmiles("c1ccccc1"));
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.orders.filter((o) => o === 2)).toHaveLength(3);
+    const naphthalene = kekulize(parseSmiles("c1ccc2ccccc2c1"));
+    expect(naphthalene.ok && naphthalene.orders.filter((o) => o === 2).length).toBe(5);
+  });
+});
@@ -0,0 +1,41 @@
+import { Button } from "@/components/ui/button";
+import { DRUG_LIKENESS_FILTERS, type DrugLikenessFilterId as Filter } from "@/lib/chem/druglikeness";
+
+interface DrugLikenessFilterProps {
+  value: Filter[];
+  onChange: (filters: Filter[]) => void;
+  /** Number of library entries meeting every selected filter, once any is selected. */
+  matchCount?: number;
+}
+
+/** Toggle chips that narrow the molecule library to entries passing rule sets or free of alerts. */
+export function DrugLikenessFilter({ value, onChange, matchCount }: DrugLikenessFilterProps) {
+  const toggle = (id: Filter) => onChange(value.includes(id) ? value.filter((f) => f !== id) : [...value, id]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs text-muted-foreground">Drug-likeness:</span>
+      {DRUG_LIKENESS_FILTERS.map((filter) => (
+        <Button
+          key={filter.id}
+          variant={value.includes(filter.id) ? "secondary" : "outline"}
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => toggle(filter.id)}
+        >
+          {filter.label}
+        </Button>
+      ))}
+      {value.length > 0 && (
+        <>
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onChange([])}>
+            Clear
+          </Button>
+          {matchCount !== undefined && (
+            <span className="text-xs text-muted-foreground">{matchCount} passing molecule(s)</span>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
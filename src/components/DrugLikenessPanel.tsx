@@ -0,0 +1,56 @@
+import { Badge } from "@/components/ui/badge";
+import type { DrugLikenessProfile } from "@/lib/chem/druglikeness";
+import { AlertTriangle } from "lucide-react";
+
+interface DrugLikenessPanelProps {
+  profile: DrugLikenessProfile;
+  /** Called with the atoms of the alert under the pointer, and null when it leaves. */
+  onHighlight?: (atoms: number[] | null) => void;
+}
+
+const formatValue = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(2));
+
+/**
+ * Pass/fail badges for the Lipinski, Veber, Ghose and lead-like rules (hover for the values
+ * behind each) and the PAINS and Brenk alerts a molecule carries; pointing at an alert
+ * highlights the atoms that triggered it.
+ */
+export function DrugLikenessPanel({ profile, onHighlight }: DrugLikenessPanelProps) {
+  return (
+    <div className="space-y-2 border-t pt-2">
+      <div className="flex flex-wrap gap-1">
+        {profile.rules.map((rule) => (
+          <Badge
+            key={rule.id}
+            variant={rule.pass ? "secondary" : "destructive"}
+            title={rule.checks
+              .map((c) => `${c.pass ? "✓" : "✗"} ${c.label} ${formatValue(c.value)} (${c.limit})`)
+              .join("\n")}
+          >
+            {rule.pass ? "✓" : "✗"} {rule.name}
+            {rule.violations > 0 && rule.pass && ` (${rule.violations} violation)`}
+          </Badge>
+        ))}
+      </div>
+      {profile.alerts.length > 0 ? (
+        <ul className="space-y-1 text-xs">
+          {profile.alerts.map((alert) => (
+            <li
+              key={`${alert.set}:${alert.id}`}
+              className="flex items-center gap-1 text-yellow-700 cursor-default"
+              onMouseEnter={() => onHighlight?.(alert.atoms.flat())}
+              onMouseLeave={() => onHighlight?.(null)}
+            >
+              <AlertTriangle className="h-3 w-3 shrink-0" />
+              <span className="uppercase text-[10px] text-muted-foreground">{alert.set}</span>
+              <span className="truncate">{alert.name}</span>
+              {alert.atoms.length > 1 && <span className="text-muted-foreground">×{alert.atoms.length}</span>}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="text-xs text-muted-foreground">No PAINS or Brenk alerts</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { api } from "@/convex/_generated/api";
+import { tryCanonicalSmiles } from "@/lib/chem/canonical";
+import { batches, type ImportPreview, type ImportStatus, previewLibraryImport } from "@/lib/chem/libraryImport";
+import { useMutation } from "convex/react";
+import { Upload } from "lucide-react";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+
+interface LibraryImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The user's current library, for duplicate detection. */
+  molecules: Array<{ smiles: string; canonicalSmiles?: string }>;
+}
+
+// Molecules saved per mutation call
+const BATCH_SIZE = 50;
+
+const STATUS_BADGES: Record<ImportStatus, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  ready: { label: "Ready", variant: "default" },
+  duplicate: { label: "Duplicate", variant: "secondary" },
+  invalid: { label: "Error", variant: "destructive" },
+};
+
+/**
+ * Dialog for adding many molecules at once from a CSV (name, SMILES and property columns) or
+ * SD file. Shows a validated preview, skips rows that fail or duplicate the library, and saves
+ * the rest in batches with a progress bar.
+ */
+export function LibraryImportDialog({ open, onOpenChange, molecules }: LibraryImportDialogProps) {
+  const importMolecules = useMutation(api.molecules.importMolecules);
+  const [source, setSource] = useState<{ fileName: string; text: string } | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const existing = useMemo(
+    () => molecules.flatMap((m) => m.canonicalSmiles ?? tryCanonicalSmiles(m.smiles) ?? []),
+    [molecules],
+  );
+  const preview: ImportPreview | null = useMemo(
+    () => (source && source.text.trim() ? previewLibraryImport(source.fileName, source.text, existing) : null),
+    [source, existing],
+  );
+  const ready = preview?.rows.filter((r) => r.status === "ready") ?? [];
+  const counts = {
+    duplicate: preview?.rows.filter((r) => r.status === "duplicate").length ?? 0,
+    invalid: preview?.rows.filter((r) => r.status === "invalid").length ?? 0,
+  };
+  const importing = progress !== null;
+
+  const reset = () => {
+    setSource(null);
+    setProgress(null);
+  };
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setSource({ fileName: file.name, text: await file.text() });
+    } catch (e) {
+      toast.error(`Could not read ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const runImport = async () => {
+    const chunks = batches(ready, BATCH_SIZE);
+    let inserted = 0;
+    let duplicates = 0;
+    setProgress(0);
+    try {
+      for (const [i, chunk] of chunks.entries()) {
+        const result = await importMolecules({
+          molecules: chunk.map((r) => ({ name: r.name, smiles: r.smiles, properties: r.properties })),
+        });
+        inserted += result.inserted;
+        duplicates += result.duplicates;
+        setProgress(((i + 1) / chunks.length) * 100);
+      }
+      toast.success(
+        `Imported ${inserted} molecule(s)` + (duplicates > 0 ? `, ${duplicates} already in your library` : ""),
+      );
+      reset();
+      onOpenChange(false);
+    } catch (e) {
+      toast.error(
+        `Import stopped after ${inserted} molecule(s): ${e instanceof Error ? e.message : "unknown error"}`,
+      );
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (importing) return;
+        if (!next) reset();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Molecules</DialogTitle>
+          <DialogDescription>
+            Upload a CSV file with a SMILES column (plus optional name and property columns) or an
+            SD file. Invalid rows and structures already in your library are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" asChild>
+              <label className="cursor-pointer">
+                <Upload className="h-4 w-4 mr-2" />
+                Choose File
+                <input
+                  type="file"
+                  accept=".csv,.tsv,.txt,.sdf,.sd,.mol"
+                  className="hidden"
+                  disabled={importing}
+                  onChange={(e) => {
+                    void loadFile(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </Button>
+            <span className="text-sm text-muted-foreground truncate">
+              {source?.fileName && source.fileName !== "pasted.csv" ? source.fileName : "or paste CSV below"}
+            </span>
+          </div>
+          {(!source || source.fileName === "pasted.csv") && (
+            <Textarea
+              placeholder={"name,smiles,logP\nethanol,CCO,-0.31"}
+              className="font-mono text-xs h-24"
+              value={source?.text ?? ""}
+              onChange={(e) => setSource({ fileName: "pasted.csv", text: e.target.value })}
+              disabled={importing}
+            />
+          )}
+
+          {preview?.error && <p className="text-sm text-destructive">{preview.error}</p>}
+
+          {preview && preview.rows.length > 0 && (
+            <>
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge>{ready.length} ready</Badge>
+                <Badge variant="secondary">{counts.duplicate} duplicate</Badge>
+                <Badge variant="destructive">{counts.invalid} with errors</Badge>
+              </div>
+              <div className="max-h-72 overflow-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-12">Row</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>SMILES</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map((r) => (
+                      <TableRow key={r.row}>
+                        <TableCell>{r.row}</TableCell>
+                        <TableCell className="max-w-40 truncate">{r.name || "—"}</TableCell>
+                        <TableCell className="max-w-56 truncate font-mono text-xs">{r.smiles || "—"}</TableCell>
+                        <TableCell className="whitespace-normal">
+                          <Badge variant={STATUS_BADGES[r.status].variant}>{STATUS_BADGES[r.status].label}</Badge>
+                          {r.messages.length > 0 && (
+                            <div className="mt-1 text-xs text-muted-foreground">{r.messages.join("; ")}</div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+
+          {importing && <Progress value={progress} />}
+        </div>
+
+        <DialogFooter>
+          {source && (
+            <Button variant="ghost" onClick={reset} disabled={importing}>
+              Clear
+            </Button>
+          )}
+          <Button onClick={runImport} disabled={importing || ready.length === 0}>
+            {importing ? "Importing…" : `Import ${ready.length} molecule(s)`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
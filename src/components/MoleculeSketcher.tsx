@@ -0,0 +1,369 @@
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { PeriodicTablePicker } from "@/components/PeriodicTablePicker";
+import { formulaFromSmiles } from "@/lib/chem/formula";
+import type { Point2D } from "@/lib/chem/depict";
+import type { BondOrder } from "@/lib/chem/molecule";
+import {
+  addAtom,
+  addRing,
+  adjustCharge,
+  atomAt,
+  bondAt,
+  centreSketch,
+  connectAtoms,
+  emptySketch,
+  growAtom,
+  growAtomTo,
+  removeAtom,
+  removeBond,
+  setBondOrder,
+  setElement,
+  type Sketch,
+  sketchFromSmiles,
+  sketchToSmiles,
+  withHydrogens,
+} from "@/lib/chem/sketch";
+import { Eraser, Grid3x3, Trash2, Undo2 } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+
+type Tool =
+  | { kind: "element"; element: string }
+  | { kind: "bond"; order: BondOrder }
+  | { kind: "ring"; size: number; aromatic: boolean }
+  | { kind: "charge"; delta: number }
+  | { kind: "erase" };
+
+interface MoleculeSketcherProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** SMILES to open for editing; empty starts a blank canvas. */
+  initialSmiles?: string;
+  title?: string;
+  applyLabel?: string;
+  onApply: (smiles: string) => void;
+}
+
+// Canvas size in pixels and pixels per bond length
+const WIDTH = 560;
+const HEIGHT = 340;
+const SCALE = 40;
+const CENTRE = { x: WIDTH / SCALE / 2, y: HEIGHT / SCALE / 2 };
+
+const QUICK_ELEMENTS = ["C", "H", "N", "O", "S", "P", "F", "Cl", "Br", "I"];
+const BOND_TOOLS: Array<{ order: BondOrder; label: string; title: string }> = [
+  { order: 1, label: "—", title: "Single bond" },
+  { order: 2, label: "=", title: "Double bond" },
+  { order: 3, label: "≡", title: "Triple bond" },
+];
+const RING_TOOLS = [
+  { size: 3, aromatic: false, label: "3", title: "Cyclopropane" },
+  { size: 4, aromatic: false, label: "4", title: "Cyclobutane" },
+  { size: 5, aromatic: false, label: "5", title: "Cyclopentane" },
+  { size: 6, aromatic: false, label: "6", title: "Cyclohexane" },
+  { size: 6, aromatic: true, label: "⌬", title: "Benzene" },
+];
+
+const sameTool = (a: Tool, b: Tool) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Dialog for drawing a structure. Click the canvas to place atoms or rings, click an atom to
+ * grow a bond from it (or change its element / charge), drag between atoms to bond them and
+ * click a bond to change its order or fuse a ring onto it. Produces canonical SMILES.
+ */
+export function MoleculeSketcher({
+  open,
+  onOpenChange,
+  initialSmiles = "",
+  title = "Draw Structure",
+  applyLabel = "Use Structure",
+  onApply,
+}: MoleculeSketcherProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [history, setHistory] = useState<Sketch[]>([emptySketch()]);
+  const [tool, setTool] = useState<Tool>({ kind: "bond", order: 1 });
+  const [drag, setDrag] = useState<{ from: number; to: Point2D } | null>(null);
+  const sketch = history[history.length - 1];
+
+  // Load the structure being edited each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    let start = emptySketch();
+    if (initialSmiles.trim()) {
+      try {
+        start = centreSketch(sketchFromSmiles(initialSmiles.trim()), CENTRE);
+      } catch (e) {
+        toast.error(`Could not open SMILES for editing: ${e instanceof Error ? e.message : "parse error"}`);
+      }
+    }
+    setHistory([start]);
+    setDrag(null);
+  }, [open, initialSmiles]);
+
+  const output = useMemo(() => {
+    try {
+      const smiles = sketchToSmiles(sketch);
+      return { smiles, formula: smiles ? formulaFromSmiles(smiles)?.formula ?? "" : "", error: null };
+    } catch (e) {
+      return { smiles: "", formula: "", error: e instanceof Error ? e.message : "Invalid structure" };
+    }
+  }, [sketch]);
+
+  const commit = (next: Sketch) => {
+    if (next !== sketch) setHistory((prev) => [...prev, next]);
+  };
+
+  const toSketch = (event: React.PointerEvent): Point2D => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix) return { x: 0, y: 0 };
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return { x: point.x / SCALE, y: point.y / SCALE };
+  };
+
+  const newElement = tool.kind === "element" ? tool.element : "C";
+  const newOrder = tool.kind === "bond" ? tool.order : 1;
+
+  const clickAtom = (atom: number) => {
+    switch (tool.kind) {
+      case "element":
+        return commit(sketch.molecule.atoms[atom].element === tool.element ? growAtom(sketch, atom, tool.element) : setElement(sketch, atom, tool.element));
+      case "bond":
+        return commit(growAtom(sketch, atom, "C", tool.order));
+      case "ring":
+        return commit(addRing(sketch, tool.size, tool.aromatic, { kind: "atom", atom }));
+      case "charge":
+        return commit(adjustCharge(sketch, atom, tool.delta));
+      case "erase":
+        return commit(removeAtom(sketch, atom));
+    }
+  };
+
+  const clickBond = (bond: number) => {
+    switch (tool.kind) {
+      case "bond": {
+        // Clicking with the bond's own order cycles single → double → triple
+        const current = sketch.molecule.bonds[bond].order;
+        const order = current === tool.order ? (((current % 3) + 1) as BondOrder) : tool.order;
+        return commit(setBondOrder(sketch, bond, order));
+      }
+      case "ring":
+        return commit(addRing(sketch, tool.size, tool.aromatic, { kind: "bond", bond }));
+      case "erase":
+        return commit(removeBond(sketch, bond));
+    }
+  };
+
+  const clickCanvas = (at: Point2D) => {
+    switch (tool.kind) {
+      case "element":
+        return commit(addAtom(sketch, tool.element, at));
+      case "bond": {
+        const start = addAtom(sketch, "C", { x: at.x - 0.5, y: at.y });
+        return commit(growAtomTo(start, start.molecule.atoms.length - 1, { x: at.x + 0.5, y: at.y }, "C", tool.order));
+      }
+      case "ring":
+        return commit(addRing(sketch, tool.size, tool.aromatic, { kind: "point", at }));
+    }
+  };
+
+  const onPointerDown = (event: React.PointerEvent) => {
+    const at = toSketch(event);
+    const atom = atomAt(sketch, at);
+    if (atom >= 0 && (tool.kind === "bond" || tool.kind === "element")) {
+      setDrag({ from: atom, to: at });
+      (event.target as Element).setPointerCapture?.(event.pointerId);
+    }
+  };
+
+  const onPointerMove = (event: React.PointerEvent) => {
+    if (drag) setDrag({ ...drag, to: toSketch(event) });
+  };
+
+  const onPointerUp = (event: React.PointerEvent) => {
+    const at = toSketch(event);
+    const target = atomAt(sketch, at);
+    if (drag) {
+      setDrag(null);
+      const origin = sketch.coordinates[drag.from];
+      const length = Math.hypot(at.x - origin.x, at.y - origin.y);
+      if (target >= 0 && target !== drag.from) return commit(connectAtoms(sketch, drag.from, target, newOrder));
+      if (target < 0 && length > 0.5) {
+        // Dragged into empty space: new atom one bond length along the drag direction
+        const end = { x: origin.x + (at.x - origin.x) / length, y: origin.y + (at.y - origin.y) / length };
+        return commit(growAtomTo(sketch, drag.from, end, newElement, newOrder));
+      }
+    }
+    if (target >= 0) return clickAtom(target);
+    const bond = bondAt(sketch, at);
+    if (bond >= 0) return clickBond(bond);
+    clickCanvas(at);
+  };
+
+  const display = withHydrogens(sketch.molecule);
+  const px = (p: Point2D) => ({ x: p.x * SCALE, y: p.y * SCALE });
+  const toolButton = (t: Tool, label: React.ReactNode, tip: string) => (
+    <Button
+      key={tip}
+      type="button"
+      variant={sameTool(tool, t) ? "default" : "outline"}
+      size="sm"
+      className="h-8 min-w-8 px-2"
+      title={tip}
+      onClick={() => setTool(t)}
+    >
+      {label}
+    </Button>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[620px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Click to place atoms and rings, click an atom to extend it, drag between atoms to bond them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-1">
+          {QUICK_ELEMENTS.map((el) => toolButton({ kind: "element", element: el }, el, `Element ${el}`))}
+          <PeriodicTablePicker onSelect={(element) => setTool({ kind: "element", element })}>
+            <Button
+              type="button"
+              variant={tool.kind === "element" && !QUICK_ELEMENTS.includes(tool.element) ? "default" : "outline"}
+              size="sm"
+              className="h-8 px-2"
+              title="Periodic table"
+            >
+              <Grid3x3 className="h-4 w-4" />
+              {tool.kind === "element" && !QUICK_ELEMENTS.includes(tool.element) ? <span className="ml-1">{tool.element}</span> : null}
+            </Button>
+          </PeriodicTablePicker>
+        </div>
+        <div className="flex flex-wrap items-center gap-1">
+          {BOND_TOOLS.map((b) => toolButton({ kind: "bond", order: b.order }, b.label, b.title))}
+          <span className="mx-1 h-6 border-l" />
+          {RING_TOOLS.map((r) => toolButton({ kind: "ring", size: r.size, aromatic: r.aromatic }, r.label, r.title))}
+          <span className="mx-1 h-6 border-l" />
+          {toolButton({ kind: "charge", delta: 1 }, "+", "Increase charge")}
+          {toolButton({ kind: "charge", delta: -1 }, "−", "Decrease charge")}
+          {toolButton({ kind: "erase" }, <Eraser className="h-4 w-4" />, "Erase")}
+          <span className="mx-1 h-6 border-l" />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-8 px-2"
+            title="Undo"
+            disabled={history.length === 1}
+            onClick={() => setHistory((prev) => prev.slice(0, -1))}
+          >
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="outline" size="sm" className="h-8 px-2" title="Clear" onClick={() => commit(emptySketch())}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {/* Canvas */}
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full rounded-md border bg-muted/20 text-foreground touch-none select-none cursor-crosshair"
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+        >
+          <g stroke="currentColor" strokeWidth={1.6} strokeLinecap="round">
+            {sketch.molecule.bonds.map((bond, b) => {
+              const p = px(sketch.coordinates[bond.from]);
+              const q = px(sketch.coordinates[bond.to]);
+              const length = Math.hypot(q.x - p.x, q.y - p.y) || 1;
+              const nx = (-(q.y - p.y) / length) * 4;
+              const ny = ((q.x - p.x) / length) * 4;
+              const offsets = bond.order === 3 ? [-1.5, 0, 1.5] : bond.order === 2 ? [-0.75, 0.75] : [0];
+              return (
+                <g key={`b${b}`}>
+                  {offsets.map((o) => (
+                    <line key={o} x1={p.x + nx * o} y1={p.y + ny * o} x2={q.x + nx * o} y2={q.y + ny * o} />
+                  ))}
+                </g>
+              );
+            })}
+            {drag && (
+              <line
+                x1={px(sketch.coordinates[drag.from]).x}
+                y1={px(sketch.coordinates[drag.from]).y}
+                x2={px(drag.to).x}
+                y2={px(drag.to).y}
+                strokeDasharray="4 3"
+                className="text-primary"
+              />
+            )}
+          </g>
+          <g fontSize={15} fontFamily="Arial, Helvetica, sans-serif" textAnchor="middle" dominantBaseline="central">
+            {display.atoms.map((atom, a) => {
+              const { x, y } = px(sketch.coordinates[a]);
+              const bare = atom.element === "C" && atom.charge === 0 && display.bonds.some((b) => b.from === a || b.to === a);
+              const h = atom.hydrogens > 0 && !bare ? `H${atom.hydrogens > 1 ? atom.hydrogens : ""}` : "";
+              const charge = atom.charge === 0 ? "" : `${Math.abs(atom.charge) > 1 ? Math.abs(atom.charge) : ""}${atom.charge > 0 ? "+" : "−"}`;
+              return (
+                <g key={`a${a}`}>
+                  {bare ? (
+                    <circle cx={x} cy={y} r={2} className="fill-current opacity-40" />
+                  ) : (
+                    <>
+                      <circle cx={x} cy={y} r={10} className="fill-background" />
+                      <text x={x} y={y} className="fill-current">
+                        {atom.element}
+                        {h}
+                      </text>
+                    </>
+                  )}
+                  {charge && (
+                    <text x={x + 11} y={y - 10} fontSize={11} className="fill-current">
+                      {charge}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </g>
+        </svg>
+
+        <div className="rounded-md border px-3 py-2 text-sm">
+          {output.error ? (
+            <span className="text-destructive">{output.error}</span>
+          ) : output.smiles ? (
+            <div className="flex items-center justify-between gap-3">
+              <span className="font-mono truncate" title={output.smiles}>
+                {output.smiles}
+              </span>
+              <span className="text-muted-foreground shrink-0">{output.formula}</span>
+            </div>
+          ) : (
+            <span className="text-muted-foreground">Empty canvas</span>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={!output.smiles}
+            onClick={() => {
+              onApply(output.smiles);
+              onOpenChange(false);
+            }}
+          >
+            {applyLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,11 @@
 import { Card } from "@/components/ui/card";
-import { useEffect, useRef } from "react";
+import { elementData } from "@/lib/chem/elements";
+import { formulaFromSmiles } from "@/lib/chem/formula";
+import { api } from "@/convex/_generated/api";
+import { embedMolecule, type Point3D } from "@/lib/chem/conformer";
+import { tryParseSmiles } from "@/lib/chem/smiles";
+import { useAction } from "convex/react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import * as THREE from "three";
 
 interface MoleculeViewerProps {
@@ -11,167 +17,24 @@ interface MoleculeViewerProps {
   captionMode?: "smiles" | "formula";
 }
 
-// Add: element color palette and simple SMILES parsing utilities
-const ELEMENT_COLORS: Record<string, number> = {
-  H: 0xffffff,
-  He: 0xd9ffff,
-  Li: 0xcc80ff,
-  Be: 0xc2ff00,
-  B: 0xffb5b5,
+// Add: element colors from the shared periodic table, with the app's palette for common organic elements
+const THEME_COLORS: Record<string, number> = {
   C: 0x4f9cf7,
   N: 0x7fd1ae,
   O: 0xff6b6b,
   F: 0x64e1a1,
-  Ne: 0xb3e3f5,
-  Na: 0xab5cf2,
-  Mg: 0x8aff00,
-  Al: 0xbfa6a6,
-  Si: 0xf0c8a0,
   P: 0xffa5ab,
   S: 0xffc857,
   Cl: 0x6bd1ff,
-  Ar: 0x80d1e3,
-  K: 0x8f40d4,
-  Ca: 0x3dff00,
-  Sc: 0xe6e6e6,
-  Ti: 0xbfc2c7,
-  V: 0xa6a6ab,
-  Cr: 0x8a99c7,
-  Mn: 0x9c7ac7,
-  Fe: 0xe06633,
-  Co: 0xf090a0,
-  Ni: 0x50d050,
-  Cu: 0xc88033,
-  Zn: 0x7d80b0,
-  Ga: 0xc28f8f,
-  Ge: 0x668f8f,
-  As: 0xbd80e3,
-  Se: 0xffa100,
   Br: 0xff9f66,
-  Kr: 0x5cb8d1,
-  Rb: 0x702eb0,
-  Sr: 0x00ff00,
-  Y: 0x94ffff,
-  Zr: 0x94e0e0,
-  Nb: 0x73c2c9,
-  Mo: 0x54b5b5,
-  Tc: 0x3b9e9e,
-  Ru: 0x248f8f,
-  Rh: 0x0a7d8c,
-  Pd: 0x006985,
-  Ag: 0xc0c0c0,
-  Cd: 0xffd98f,
-  In: 0xa67573,
-  Sn: 0x668080,
-  Sb: 0x9e63b5,
-  Te: 0xd47a00,
   I: 0xc792ea,
-  Xe: 0x429eb0,
-  Cs: 0x57178f,
-  Ba: 0x00c900,
-  La: 0x70d4ff,
-  Ce: 0xffffc7,
 };
-const elementName: Record<string, string> = {
-  H: "Hydrogen",
-  He: "Helium",
-  Li: "Lithium",
-  Be: "Beryllium",
-  B: "Boron",
-  C: "Carbon",
-  N: "Nitrogen",
-  O: "Oxygen",
-  F: "Fluorine",
-  Ne: "Neon",
-  Na: "Sodium",
-  Mg: "Magnesium",
-  Al: "Aluminum",
-  Si: "Silicon",
-  P: "Phosphorus",
-  S: "Sulfur",
-  Cl: "Chlorine",
-  Ar: "Argon",
-  K: "Potassium",
-  Ca: "Calcium",
-  Sc: "Scandium",
-  Ti: "Titanium",
-  V: "Vanadium",
-  Cr: "Chromium",
-  Mn: "Manganese",
-  Fe: "Iron",
-  Co: "Cobalt",
-  Ni: "Nickel",
-  Cu: "Copper",
-  Zn: "Zinc",
-  Ga: "Gallium",
-  Ge: "Germanium",
-  As: "Arsenic",
-  Se: "Selenium",
-  Br: "Bromine",
-  Kr: "Krypton",
-  Rb: "Rubidium",
-  Sr: "Strontium",
-  Y: "Yttrium",
-  Zr: "Zirconium",
-  Nb: "Niobium",
-  Mo: "Molybdenum",
-  Tc: "Technetium",
-  Ru: "Ruthenium",
-  Rh: "Rhodium",
-  Pd: "Palladium",
-  Ag: "Silver",
-  Cd: "Cadmium",
-  In: "Indium",
-  Sn: "Tin",
-  Sb: "Antimony",
-  Te: "Tellurium",
-  I: "Iodine",
-  Xe: "Xenon",
-  Cs: "Cesium",
-  Ba: "Barium",
-  La: "Lanthanum",
-  Ce: "Cerium",
-};
-function parseElementsFromSmiles(smiles: string): string[] {
-  // Prioritize multi-letter halogens, then generic element tokens
-  const tokens = smiles.match(/Cl|Br|[A-Z][a-z]?/g) || [];
-  return tokens;
-}
-function computeFormula(elements: string[]): string {
-  if (!elements.length) return "";
-  const counts: Record<string, number> = {};
-  for (const el of elements) counts[el] = (counts[el] || 0) + 1;
-  // Hill system: C then H then alphabetical
-  const keys = Object.keys(counts);
-  const ordered: string[] = [];
-  if (counts["C"]) {
-    ordered.push("C");
-    delete counts["C"];
-    if (counts["H"]) {
-      ordered.push("H");
-      delete counts["H"];
-    }
-  }
-  const rest = Object.keys(counts).sort();
-  const finalKeys = ordered.concat(rest);
-  return finalKeys.map((k) => `${k}${counts[k] > 1 ? counts[k] : ""}`).join("");
-}
+const elementColor = (el: string) => THEME_COLORS[el] ?? elementData(el)?.color ?? 0xb6c2cf;
 
-// Deterministic PRNG from string seed (smiles)
-function seededRandom(seed: string) {
-  let h = 2166136261 >>> 0;
-  for (let i = 0; i < seed.length; i++) {
-    h ^= seed.charCodeAt(i);
-    h = Math.imul(h, 16777619);
-  }
-  return () => {
-    // xorshift32
-    h ^= h << 13;
-    h ^= h >>> 17;
-    h ^= h << 5;
-    return ((h >>> 0) % 1_000_000) / 1_000_000;
-  };
-}
+// Quiet time after the last SMILES change before FastAPI coordinates are requested
+const REMOTE_DEBOUNCE_MS = 500;
+// Whether the server has FastAPI, asked once per page load and shared by every viewer
+let engineStatusRequest: Promise<boolean> | null = null;
 
 export function MoleculeViewer({
   smiles = "CCO",
@@ -181,6 +44,52 @@ export function MoleculeViewer({
   captionMode = "smiles", // Add: default caption mode
 }: MoleculeViewerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
+  const generate3D = useAction(api.cheminfo.generate3DCoordinates);
+  const engineStatus = useAction(api.cheminfo.engineStatus);
+
+  // Local embedding from the bond graph; shown at once and kept when FastAPI is unavailable
+  const conformer = useMemo(() => {
+    const mol = tryParseSmiles(smiles);
+    return mol ? embedMolecule(mol) : null;
+  }, [smiles]);
+
+  // FastAPI coordinates replace the local ones when they line up with our atom order
+  // (heavy atoms in SMILES order, then hydrogens). Only asked for when the server has FastAPI,
+  // and only once the SMILES has stopped changing.
+  const [fastApi, setFastApi] = useState(false);
+  useEffect(() => {
+    let cancelled = false;
+    engineStatusRequest ??= engineStatus({}).then((res) => res.engine === "fastapi").catch(() => false);
+    void engineStatusRequest.then((configured) => {
+      if (!cancelled) setFastApi(configured);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [engineStatus]);
+
+  const [remote, setRemote] = useState<{ smiles: string; coordinates: Point3D[] } | null>(null);
+  useEffect(() => {
+    if (!conformer || !fastApi) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      generate3D({ smiles })
+        .then((res) => {
+          if (cancelled) return;
+          const coordinates = res.map((p) => ({ x: p.x, y: p.y, z: p.z ?? 0 }));
+          if (coordinates.length !== conformer.molecule.atoms.length) return;
+          setRemote({ smiles, coordinates });
+        })
+        .catch(() => {
+          // Keep the local embedding
+        });
+    }, REMOTE_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [conformer, fastApi, generate3D, smiles]);
+  const remoteCoordinates = remote?.smiles === smiles ? remote.coordinates : null;
 
   useEffect(() => {
     if (!containerRef.current) return;
@@ -204,94 +113,45 @@ export function MoleculeViewer({
     dir.position.set(3, 4, 5);
     scene.add(dir);
 
-    // Parse atoms from SMILES; fallback to deterministic pseudo layout if none found
-    const parsedAtoms: string[] = parseElementsFromSmiles(smiles);
-    const usingParsed = parsedAtoms.length > 0;
-
-    // Deterministic pseudo layout support
-    function seededRandom(seed: string) {
-      let h = 2166136261 >>> 0;
-      for (let i = 0; i < seed.length; i++) {
-        h ^= seed.charCodeAt(i);
-        h = Math.imul(h, 16777619);
-      }
-      return () => {
-        h ^= h << 13;
-        h ^= h >>> 17;
-        h ^= h << 5;
-        return ((h >>> 0) % 1_000_000) / 1_000_000;
-      };
-    }
-    const rand = seededRandom(smiles);
-
-    // Create atoms
+    // Atoms and bonds from the embedded structure (coordinates in Å); empty if the SMILES is malformed
+    const coordinates = remoteCoordinates ?? conformer?.coordinates ?? [];
+    const model = conformer?.molecule;
     const atoms: Array<THREE.Mesh> = [];
-    const positions: Array<THREE.Vector3> = [];
-    const atomGeo = new THREE.SphereGeometry(0.24, 24, 24);
-
-    const atomElements: string[] = usingParsed
-      ? parsedAtoms
-      : // heuristic: infer approximate atom count if no tokens parsed
-        Array.from({ length: Math.min(16, Math.max(4, Math.floor(smiles.length / 2))) }, () => "C");
-
-    // Place atoms in a rough sphere with deterministic randomness
-    for (let i = 0; i < atomElements.length; i++) {
-      const el = atomElements[i];
-      const theta = rand() * Math.PI * 2;
-      const phi = Math.acos(2 * rand() - 1);
-      const radius = 1.5 + rand() * 1.3;
+    const positions = coordinates.map((p) => new THREE.Vector3(p.x, p.y, p.z));
+    const atomGeo = new THREE.SphereGeometry(0.3, 24, 24);
 
-      const x = radius * Math.sin(phi) * Math.cos(theta);
-      const y = radius * Math.sin(phi) * Math.sin(theta);
-      const z = radius * Math.cos(phi);
-
-      const color = ELEMENT_COLORS[el] ?? 0xb6c2cf;
-      const mat = new THREE.MeshStandardMaterial({ color, roughness: 0.35, metalness: 0.1 });
+    (model?.atoms ?? []).forEach((a, i) => {
+      const mat = new THREE.MeshStandardMaterial({ color: elementColor(a.element), roughness: 0.35, metalness: 0.1 });
       const atom = new THREE.Mesh(atomGeo, mat);
-      atom.position.set(x, y, z);
+      atom.position.copy(positions[i]);
+      // Hydrogens drawn smaller so the heavy-atom skeleton stays readable
+      if (a.element === "H") atom.scale.setScalar(0.6);
       scene.add(atom);
       atoms.push(atom);
-      positions.push(new THREE.Vector3(x, y, z));
-    }
+    });
 
-    // Bonds between nearby atoms (distance threshold), plus simple chain bonds when parsed
+    // One cylinder per bond order, offset side by side for double and triple bonds
     const bondMat = new THREE.MeshStandardMaterial({ color: 0xcccccc, roughness: 0.6, metalness: 0.05 });
-    const cylGeo = new THREE.CylinderGeometry(0.06, 0.06, 1, 12);
+    const cylGeo = new THREE.CylinderGeometry(0.07, 0.07, 1, 12);
     const bonds: THREE.Mesh[] = [];
-
-    // If parsed, ensure sequential bonds exist for a minimal backbone
-    if (atomElements.length >= 2) {
-      for (let i = 0; i < atomElements.length - 1; i++) {
-        const a = positions[i];
-        const b = positions[i + 1];
-        const dist = a.distanceTo(b);
-        const mid = new THREE.Vector3().addVectors(a, b).multiplyScalar(0.5);
-        const dirVec = new THREE.Vector3().subVectors(b, a);
-        const bond = new THREE.Mesh(cylGeo, bondMat);
-        bond.position.copy(mid);
-        bond.scale.set(1, dist, 1);
-        bond.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), dirVec.clone().normalize());
-        scene.add(bond);
-        bonds.push(bond);
-      }
-    }
-
-    // Proximity-based bonds to fill structure
-    for (let i = 0; i < atomElements.length; i++) {
-      for (let j = i + 1; j < atomElements.length; j++) {
-        const a = positions[i];
-        const b = positions[j];
-        const dist = a.distanceTo(b);
-        if (dist < 2.3 && dist > 0.35) {
-          const mid = new THREE.Vector3().addVectors(a, b).multiplyScalar(0.5);
-          const dirVec = new THREE.Vector3().subVectors(b, a);
-          const bond = new THREE.Mesh(cylGeo, bondMat);
-          bond.position.copy(mid);
-          bond.scale.set(1, dist, 1);
-          bond.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), dirVec.clone().normalize());
-          scene.add(bond);
-          bonds.push(bond);
-        }
+    for (const bond of model?.bonds ?? []) {
+      const a = positions[bond.from];
+      const b = positions[bond.to];
+      const dirVec = new THREE.Vector3().subVectors(b, a);
+      const dist = dirVec.length();
+      const count = bond.aromatic ? 1 : bond.order;
+      const side = new THREE.Vector3().crossVectors(dirVec, new THREE.Vector3(0, 0, 1));
+      if (side.lengthSq() < 1e-6) side.set(1, 0, 0);
+      side.normalize().multiplyScalar(0.16);
+      for (let k = 0; k < count; k++) {
+        const offset = side.clone().multiplyScalar(k - (count - 1) / 2);
+        const mid = new THREE.Vector3().addVectors(a, b).multiplyScalar(0.5).add(offset);
+        const cyl = new THREE.Mesh(cylGeo, bondMat);
+        cyl.position.copy(mid);
+        cyl.scale.set(1, dist, 1);
+        cyl.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), dirVec.clone().normalize());
+        scene.add(cyl);
+        bonds.push(cyl);
       }
     }
 
@@ -305,7 +165,9 @@ export function MoleculeViewer({
     let isDragging = false;
     let prevX = 0;
     let prevY = 0;
-    let targetDist = 10;
+    // Fit the whole molecule in view
+    const extent = positions.reduce((max, p) => Math.max(max, p.length()), 0);
+    let targetDist = THREE.MathUtils.clamp(extent * 3 + 4, 6, 60);
 
     const onMouseDown = (e: MouseEvent) => {
       isDragging = true;
@@ -325,7 +187,7 @@ export function MoleculeViewer({
       isDragging = false;
     };
     const onWheel = (e: WheelEvent) => {
-      targetDist = THREE.MathUtils.clamp(targetDist + (e.deltaY > 0 ? 0.8 : -0.8), 4, 24);
+      targetDist = THREE.MathUtils.clamp(targetDist + (e.deltaY > 0 ? 0.8 : -0.8), 4, 80);
     };
 
     renderer.domElement.style.cursor = "grab";
@@ -368,13 +230,10 @@ export function MoleculeViewer({
       scene.clear();
       containerRef.current && (containerRef.current.innerHTML = "");
     };
-  }, [smiles, width, height]);
+  }, [conformer, remoteCoordinates, width, height]);
 
-  // Add: compute formula for caption if needed
-  const captionFormula = (() => {
-    const els = parseElementsFromSmiles(smiles);
-    return computeFormula(els);
-  })();
+  // Add: compute formula for caption if needed (implicit hydrogens and charge included)
+  const captionFormula = formulaFromSmiles(smiles)?.formula ?? "";
 
   return (
     <Card className={`p-3 ${className}`}>
@@ -397,36 +256,41 @@ export function MoleculeViewer({
 
 // Add: Lightweight legend component inline for clarity and reuse
 function MoleculeLegend({ smiles }: { smiles: string }) {
-  const elements = parseElementsFromSmiles(smiles);
-  const counts: Record<string, number> = {};
-  for (const el of (elements.length ? elements : ["C", "H", "O"])) {
-    counts[el] = (counts[el] || 0) + 1;
-  }
-  const formula = computeFormula(elements);
+  const info = formulaFromSmiles(smiles);
+  const formula = info?.formula ?? "";
+  const composition = info?.composition ?? [];
 
-  const sorted = Object.keys(counts).sort((a, b) => a.localeCompare(b));
   return (
     <div className="flex flex-col items-center gap-1">
       <div className="text-xs text-muted-foreground">
         {formula && <span className="font-semibold mr-2">Formula:</span>}
         <span className="font-mono">{formula || "—"}</span>
       </div>
+      {info && (
+        <div className="text-xs text-muted-foreground">
+          <span className="font-semibold mr-1">MW:</span>
+          <span className="font-mono">{info.averageMass.toFixed(2)} g/mol</span>
+          <span className="font-semibold ml-3 mr-1">Exact mass:</span>
+          <span className="font-mono">{info.monoisotopicMass.toFixed(4)}</span>
+        </div>
+      )}
       <div className="flex flex-wrap items-center justify-center gap-3">
-        {sorted.map((el) => (
+        {composition.map(({ element: el, count, massPercent }) => (
           <span key={el} className="inline-flex items-center gap-1 text-xs">
             <span
               className="inline-block rounded-full"
               style={{
                 width: 8,
                 height: 8,
-                backgroundColor: `#${(ELEMENT_COLORS[el] ?? 0xb6c2cf).toString(16).padStart(6, "0")}`,
+                backgroundColor: `#${elementColor(el).toString(16).padStart(6, "0")}`,
               }}
             />
             <span className="font-medium">{el}</span>
             <span className="text-muted-foreground">
-              {elementName[el] ? `(${elementName[el]})` : ""}
+              {elementData(el) ? `(${elementData(el)!.name})` : ""}
             </span>
-            <span className="font-mono ml-1">×{counts[el]}</span>
+            <span className="font-mono ml-1">×{count}</span>
+            <span className="text-muted-foreground">{massPercent.toFixed(1)}%</span>
           </span>
         ))}
       </div>
@@ -0,0 +1,57 @@
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ELEMENTS, type ElementData } from "@/lib/chem/elements";
+import { useState, type ReactNode } from "react";
+
+interface PeriodicTablePickerProps {
+  onSelect: (symbol: string) => void;
+  children: ReactNode;
+}
+
+// Last atomic number of each period
+const PERIOD_ENDS = [2, 10, 18, 36, 54, 86, 118];
+
+// Grid cell (1-based row/column) of an element in the standard 18-column layout, with the
+// lanthanides (Ce–Lu) and actinides (Th–Lr) in two rows underneath
+function cell(element: ElementData): { row: number; column: number } {
+  const z = element.atomicNumber;
+  if (z >= 58 && z <= 71) return { row: 9, column: z - 58 + 4 };
+  if (z >= 90 && z <= 103) return { row: 10, column: z - 90 + 4 };
+  const period = PERIOD_ENDS.findIndex((end) => z <= end) + 1;
+  const column = element.group ?? (z === 1 ? 1 : 18);
+  return { row: period, column };
+}
+
+const hex = (color: number) => `#${color.toString(16).padStart(6, "0")}`;
+
+/** Popover periodic table; clicking an element reports its symbol and closes the table. */
+export function PeriodicTablePicker({ onSelect, children }: PeriodicTablePickerProps) {
+  const [open, setOpen] = useState(false);
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-auto p-2" align="start">
+        <div className="grid gap-0.5" style={{ gridTemplateColumns: "repeat(18, 1.75rem)", gridTemplateRows: "repeat(7, 1.75rem) 0.5rem repeat(2, 1.75rem)" }}>
+          {ELEMENTS.map((element) => {
+            const { row, column } = cell(element);
+            return (
+              <Button
+                key={element.symbol}
+                variant="outline"
+                className="h-7 w-7 p-0 text-[0.65rem] font-semibold"
+                style={{ gridRow: row, gridColumn: column, borderBottomColor: hex(element.color) }}
+                title={`${element.name} (${element.atomicNumber})`}
+                onClick={() => {
+                  onSelect(element.symbol);
+                  setOpen(false);
+                }}
+              >
+                {element.symbol}
+              </Button>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,18 +1,34 @@
-import { useState } from "react";
+import { useDeferredValue, useMemo, useState } from "react";
 import { toast } from "sonner";
-import { useAction } from "convex/react";
+import { useAction, useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
+import { tryCanonicalSmiles } from "@/lib/chem/canonical";
+import { mapReaction } from "@/lib/chem/atomMapping";
+import { type ParsedEquation, structureFromFormula } from "@/lib/chem/equation";
+import { EquilibriumError, solveEquilibrium } from "@/lib/chem/equilibrium";
+import { buildKineticModel, KineticsError, simulateKinetics, simulationResults } from "@/lib/chem/kinetics";
+import { estimateReactionTime } from "@/lib/chem/reactionTime";
+import { predictReactions } from "@/lib/chem/reactionTemplates";
+import { type ReactionSmiles, stripAtomMaps, writeReactionSmiles } from "@/lib/chem/reactionSmiles";
+import { balanceReaction } from "@/lib/chem/stoichiometry";
+import { missingThermoGroups, reactionThermo } from "@/lib/chem/thermochemistry";
+import { tryParseSmiles } from "@/lib/chem/smiles";
 import { ReactionInputs } from "./simulator/ReactionInputs";
 import { ReactionVisualization } from "./simulator/ReactionVisualization";
+import { EquilibriumPanel } from "./simulator/EquilibriumPanel";
 import { ReactionSafetyPanel } from "./simulator/ReactionSafetyPanel";
 import { ReactionControls } from "./simulator/ReactionControls";
+import { ReactionTemplatePanel } from "./simulator/ReactionTemplatePanel";
+import { ReactionSmilesBar } from "./simulator/ReactionSmilesBar";
+import { SimulationResultsView } from "./simulator/SimulationResults";
 import {
   SOLVENT_SMILES,
   SOLVENT_OPTIONS,
   COMMON_REACTANTS,
   COMMON_SOLUTES,
-  estimateReactionTimeMinutes,
+  KINETICS_RUN,
   scoreFromSeed,
+  solventKeyForSmiles,
   type ReactionConditions,
 } from "./simulator/config";
 
@@ -24,10 +40,6 @@ import {
 
 /* COMMON_SOLUTES moved to ./simulator/config */
 
-// Add: simple deterministic estimated time helper
-// This is a heuristic for display purposes only
-/* estimateReactionTimeMinutes moved to ./simulator/config */
-
 // Add: Solvent options for the Select (labels kept identical to previous UI)
 /* SOLVENT_OPTIONS moved to ./simulator/config */
 
@@ -36,10 +48,13 @@ export function ReactionSimulator() {
   const [solutes, setSolutes] = useState<string[]>([]);
   const [products, setProducts] = useState<string[]>([]);
   const [byproducts, setByproducts] = useState<string[]>([]);
+  // How the last products were obtained, shown over the reaction arrow
+  const [reactionLabel, setReactionLabel] = useState<string | null>(null);
   const [conditions, setConditions] = useState<ReactionConditions>({
     temperature: 298,
     pressure: 1,
     solvent: "water",
+    concentration: 1,
   });
   const [isSimulating, setIsSimulating] = useState(false);
 
@@ -48,6 +63,22 @@ export function ReactionSimulator() {
   // Add: FastAPI cheminformatics actions
   const validateStructureFastApi = useAction(api.cheminfo.validateStructure);
   const normalizeSmilesFastApi = useAction(api.cheminfo.normalizeSmiles);
+  const predictProducts = useAction(api.cheminfo.predictProducts);
+  const saveReaction = useAction(api.reactions.saveReaction);
+  const runSimulation = useAction(api.simulations.runSimulation);
+
+  // Library molecules most similar to the reactant being worked on (the last one that parses)
+  const similarityReference = [...reactants].reverse().find((r) => r.trim() && tryParseSmiles(r));
+  const similarMolecules = useQuery(
+    api.molecules.similarMolecules,
+    similarityReference ? { smiles: similarityReference, limit: 5, minSimilarity: 0.1 } : "skip",
+  );
+  const libraryMatches = (similarMolecules ?? []).map((m) => ({
+    id: m._id,
+    label: m.name,
+    smiles: m.smiles,
+    similarity: m.similarity,
+  }));
 
   // Add from library handlers
   const addReactantFromLibrary = (smiles: string) => {
@@ -69,67 +100,254 @@ export function ReactionSimulator() {
 
   // scoreFromSeed provided by ./simulator/config
 
-  // Add: derive estimate text
-  const estimatedMinutes = estimateReactionTimeMinutes(
-    reactants.filter((r) => r.trim()).length,
-    solutes.filter((s) => s.trim()).length,
-    conditions.solvent,
-    conditions.temperature,
-    conditions.pressure,
-  );
-  const estimateText = estimatedMinutes >= 60
-    ? `${Math.floor(estimatedMinutes / 60)}h ${estimatedMinutes % 60}m`
-    : `${estimatedMinutes} min`;
+  // The chemistry below and the panels built on it are heavy; they follow the inputs at low
+  // priority so typing and dragging stay responsive
+  const deferredReactants = useDeferredValue(reactants);
+  const deferredSolutes = useDeferredValue(solutes);
+  const deferredConditions = useDeferredValue(conditions);
+  const deferredSolventSmiles = SOLVENT_SMILES[deferredConditions.solvent] ?? "O";
 
-  // Add: Validate via PubChem to correct to canonical SMILES and gather IUPAC names
-  const handleValidateViaPubChem = async () => {
+  // Element and charge balance of the scheme; solute fragments and the solvent may take part
+  const balance = useMemo(() => {
+    const schemeProducts = [...products, ...byproducts].filter(Boolean);
+    if (schemeProducts.length === 0) return null;
+    return balanceReaction({
+      reactants: deferredReactants.map((r) => r.trim()).filter(Boolean),
+      agents: [...deferredSolutes.map((s) => s.trim()).filter(Boolean), deferredSolventSmiles],
+      products: schemeProducts,
+    });
+  }, [deferredReactants, deferredSolutes, deferredSolventSmiles, products, byproducts]);
+
+  // Which atoms go where, for the reaction centre and type shown in the scheme
+  const mapping = useMemo(() => {
+    if (!balance) return null;
+    return mapReaction({
+      reactants: deferredReactants.map((r) => r.trim()).filter(Boolean),
+      products: [...products, ...byproducts].filter(Boolean),
+      balance,
+    });
+  }, [balance, deferredReactants, products, byproducts]);
+
+  // Reaction enthalpy and Gibbs energy at the chosen temperature, from group additivity
+  const thermo = useMemo(() => {
+    if (!balance) return null;
+    return reactionThermo({
+      reactants: deferredReactants.map((r) => r.trim()).filter(Boolean),
+      products: [...products, ...byproducts].filter(Boolean),
+      balance,
+      temperature: deferredConditions.temperature,
+      concentration: deferredConditions.concentration,
+    });
+  }, [balance, deferredReactants, products, byproducts, deferredConditions.temperature, deferredConditions.concentration]);
+  // Which groups stopped the estimate, so unsupported structures are named rather than skipped
+  const missingGroups = useMemo(() => {
+    if (thermo || !balance) return [];
+    const species = balance.balanced
+      ? [...balance.reactantTerms, ...balance.productTerms].map((t) => t.smiles)
+      : [...deferredReactants, ...products, ...byproducts];
+    return [...new Set(species.flatMap(missingThermoGroups))];
+  }, [thermo, balance, deferredReactants, products, byproducts]);
+
+  // How far the balanced scheme goes at the chosen temperature and pressure
+  const equilibrium = useMemo(() => {
+    if (!balance) return null;
     try {
-      const reactantResults = await Promise.all(
-        reactants.map(async (r) => {
-          const q = r.trim();
-          if (!q) return { original: r } as any;
-          // Try resolve by SMILES first, fallback to name if needed
-          const bySmiles = await resolveCompound({ query: q, namespace: "smiles" });
-          const res = (bySmiles as any)?.cid
-            ? bySmiles
-            : await resolveCompound({ query: q, namespace: "name" });
-          return {
-            original: r,
-            canonical: (res as any)?.canonicalSmiles || r,
-            iupac: (res as any)?.iupacName || null,
-          };
-        }),
+      return solveEquilibrium({
+        reactants: deferredReactants.map((r) => r.trim()).filter(Boolean),
+        products: [...products, ...byproducts].filter(Boolean),
+        balance,
+        temperature: deferredConditions.temperature,
+        pressure: deferredConditions.pressure,
+      });
+    } catch (e) {
+      if (e instanceof EquilibriumError) return null;
+      throw e;
+    }
+  }, [balance, deferredReactants, products, byproducts, deferredConditions.temperature, deferredConditions.pressure]);
+
+  // Elementary steps and rate parameters for the scheme, on the balance and mapping above
+  const kineticModel = useMemo(() => {
+    if (!balance) return null;
+    try {
+      return buildKineticModel(
+        {
+          reactants: deferredReactants.map((r) => r.trim()).filter(Boolean),
+          agents: [...deferredSolutes.map((s) => s.trim()).filter(Boolean), deferredSolventSmiles],
+          products: [...products, ...byproducts].filter(Boolean),
+        },
+        {
+          balance,
+          reactionType: mapping?.reactionType ?? "Unknown",
+          concentration: deferredConditions.concentration,
+        },
       );
+    } catch (e) {
+      if (e instanceof KineticsError) return null;
+      throw e;
+    }
+  }, [balance, mapping, deferredReactants, deferredSolutes, deferredSolventSmiles, products, byproducts, deferredConditions.concentration]);
 
-      const soluteResults = await Promise.all(
-        solutes.map(async (s) => {
-          const q = s.trim();
-          if (!q) return { original: s } as any;
-          const bySmiles = await resolveCompound({ query: q, namespace: "smiles" });
-          const res = (bySmiles as any)?.cid
-            ? bySmiles
-            : await resolveCompound({ query: q, namespace: "name" });
-          return {
-            original: s,
-            canonical: (res as any)?.canonicalSmiles || s,
-            iupac: (res as any)?.iupacName || null,
-          };
-        }),
+  // Before a simulation has products, the first local template outcome stands in for the time estimate
+  const predicted = useMemo(() => {
+    if (products.length > 0) return null;
+    const [outcome] = predictReactions(
+      {
+        reactants: deferredReactants.map((r) => r.trim()).filter(Boolean),
+        solutes: deferredSolutes.map((s) => s.trim()).filter(Boolean),
+        solvent: deferredConditions.solvent,
+        solventSmiles: deferredSolventSmiles,
+        temperature: deferredConditions.temperature,
+      },
+      undefined,
+      { maxOutcomes: 1 },
+    );
+    if (!outcome) return null;
+    try {
+      return {
+        name: outcome.templateName,
+        model: buildKineticModel(
+          {
+            reactants: outcome.reactants,
+            agents: [...deferredSolutes.map((s) => s.trim()).filter(Boolean), deferredSolventSmiles],
+            products: [...outcome.products, ...outcome.byproducts],
+          },
+          { concentration: deferredConditions.concentration },
+        ),
+      };
+    } catch (e) {
+      if (e instanceof KineticsError) return null;
+      throw e;
+    }
+  }, [products, deferredReactants, deferredSolutes, deferredSolventSmiles, deferredConditions.solvent, deferredConditions.temperature, deferredConditions.concentration]);
+
+  // Concentrations over time for the scheme at the chosen temperature
+  const kinetics = useMemo(() => {
+    if (!kineticModel) return null;
+    try {
+      return simulationResults(
+        kineticModel,
+        simulateKinetics(kineticModel, { temperature: deferredConditions.temperature, ...KINETICS_RUN }),
       );
+    } catch (e) {
+      if (e instanceof KineticsError) return null;
+      throw e;
+    }
+  }, [kineticModel, deferredConditions.temperature]);
+
+  // Time to 90% conversion (or to near equilibrium) under the chosen conditions
+  const timeEstimate = useMemo(() => {
+    const model = kineticModel ?? predicted?.model;
+    if (!model) return null;
+    try {
+      return estimateReactionTime(model, {
+        temperature: deferredConditions.temperature,
+        solvent: deferredConditions.solvent,
+        solventLabel: SOLVENT_OPTIONS.find((o) => o.key === deferredConditions.solvent)?.label,
+      });
+    } catch (e) {
+      if (e instanceof KineticsError) return null;
+      throw e;
+    }
+  }, [kineticModel, predicted, deferredConditions.temperature, deferredConditions.solvent]);
+
+  // The setup as one reaction SMILES: solutes and the solvent are agents, byproducts are products
+  const currentReactionSmiles = (() => {
+    const valid = (list: string[]) => list.map((s) => s.trim()).filter((s) => s && tryParseSmiles(s));
+    const agents = [...valid(solutes), solventSmiles];
+    return valid(reactants).length > 0
+      ? writeReactionSmiles({ reactants: valid(reactants), agents, products: valid([...products, ...byproducts]) })
+      : "";
+  })();
+
+  // Atom maps are dropped on the way in; an agent that is a known solvent selects that solvent
+  const importReactionSmiles = (reaction: ReactionSmiles) => {
+    if (reaction.reactants.length === 0) {
+      toast.error("The reaction SMILES has no reactants.");
+      return;
+    }
+    const agents = reaction.agents.map(stripAtomMaps);
+    const solvents = agents.map(solventKeyForSmiles);
+    const solventIndex = solvents.findIndex((key) => key !== undefined);
+    const solvent = solvents[solventIndex];
+    setReactants(reaction.reactants.map(stripAtomMaps));
+    setSolutes(agents.filter((_, i) => i !== solventIndex));
+    if (solvent) setConditions((c) => ({ ...c, solvent }));
+    setProducts(reaction.products.map(stripAtomMaps));
+    setByproducts([]);
+    setReactionLabel(reaction.products.length > 0 ? "From reaction SMILES" : null);
+    toast.success(
+      `Imported ${reaction.reactants.length} reactant(s), ${reaction.agents.length} agent(s) and ${reaction.products.length} product(s).`,
+    );
+  };
+
+  // Species without a structure from their formula are looked up on PubChem by the text as typed
+  const importEquation = async (equation: ParsedEquation) => {
+    const resolve = async (list: ParsedEquation["reactants"]) => {
+      const resolved = await Promise.all(
+        list
+          .filter((s) => s.formula !== "e-")
+          .map(async (s) => {
+            if (s.smiles) return { text: s.text, smiles: s.smiles };
+            try {
+              const res = await resolveCompound({ query: s.text, namespace: "name" });
+              const smiles = "canonicalSmiles" in res && res.canonicalSmiles ? tryCanonicalSmiles(res.canonicalSmiles) : null;
+              return { text: s.text, smiles };
+            } catch {
+              return { text: s.text, smiles: null };
+            }
+          }),
+      );
+      return resolved;
+    };
+    const [left, right] = await Promise.all([resolve(equation.reactants), resolve(equation.products)]);
+    const missing = [...left, ...right].filter((s) => !s.smiles).map((s) => s.text);
+    const found = (list: typeof left) => list.flatMap((s) => (s.smiles ? [s.smiles] : []));
+    if (found(left).length === 0) {
+      toast.error(`No structure found for the reactants: ${missing.join(", ")}`);
+      return;
+    }
+    setReactants(found(left));
+    setProducts(found(right));
+    setByproducts([]);
+    setReactionLabel(found(right).length > 0 ? (equation.reversible ? "From equation (equilibrium)" : "From equation") : null);
+    if (missing.length > 0) toast.warning(`No structure found for ${missing.join(", ")}; left out.`);
+    else toast.success(`Imported ${left.length} reactant(s) and ${right.length} product(s).`);
+    if (!equation.balanced) toast.info("The equation as written does not balance.");
+  };
+
+  // Add: Validate via PubChem to correct to canonical SMILES and gather IUPAC names
+  // Local canonical form of PubChem's SMILES, or of the input itself when PubChem has none
+  const canonicalForm = (pubchemSmiles: string | null | undefined, input: string) =>
+    (pubchemSmiles && tryCanonicalSmiles(pubchemSmiles)) || pubchemSmiles || tryCanonicalSmiles(input);
+
+  // PubChem's record for one entry, looked up by SMILES first and by name when that finds nothing
+  const resolveEntry = async (entry: string) => {
+    const q = entry.trim();
+    if (!q) return { canonical: entry, iupac: null };
+    const bySmiles = await resolveCompound({ query: q, namespace: "smiles" });
+    const res = bySmiles.cid ? bySmiles : await resolveCompound({ query: q, namespace: "name" });
+    return {
+      canonical: canonicalForm("canonicalSmiles" in res ? res.canonicalSmiles : null, q) ?? entry,
+      iupac: ("iupacName" in res && res.iupacName) || null,
+    };
+  };
+
+  const handleValidateViaPubChem = async () => {
+    try {
+      const reactantResults = await Promise.all(reactants.map(resolveEntry));
+      const soluteResults = await Promise.all(solutes.map(resolveEntry));
 
       // Update canonical SMILES if PubChem returned it
-      const nextReactants = reactantResults.map((r: any) => r.canonical ?? r.original);
-      const nextSolutes = soluteResults.map((s: any) => s.canonical ?? s.original);
-      setReactants(nextReactants);
-      setSolutes(nextSolutes);
+      setReactants(reactantResults.map((r) => r.canonical));
+      setSolutes(soluteResults.map((s) => s.canonical));
 
       // Prepare a concise summary for toasts
       const reactantNames = reactantResults
-        .map((r: any, i: number) => (r.iupac ? `R${i + 1}: ${r.iupac}` : null))
+        .map((r, i) => (r.iupac ? `R${i + 1}: ${r.iupac}` : null))
         .filter(Boolean)
         .join("; ");
       const soluteNames = soluteResults
-        .map((s: any, i: number) => (s.iupac ? `S${i + 1}: ${s.iupac}` : null))
+        .map((s, i) => (s.iupac ? `S${i + 1}: ${s.iupac}` : null))
         .filter(Boolean)
         .join("; ");
 
@@ -145,7 +363,7 @@ export function ReactionSimulator() {
     }
   };
 
-  // Add: Validate reactants via FastAPI Cheminformatics
+  // Add: Validate reactants via FastAPI Cheminformatics (local validator when FastAPI is not configured)
   const handleValidateViaCheminfo = async () => {
     try {
       const checks = await Promise.all(
@@ -155,60 +373,54 @@ export function ReactionSimulator() {
           const res = await validateStructureFastApi({ structure: q });
           return {
             i,
-            status: (res as any).isValid ? ("valid" as const) : ("invalid" as const),
-            msg: (res as any).message,
+            status: res.isValid ? ("valid" as const) : ("invalid" as const),
+            msg: res.message,
+            engine: res.engine,
           };
         }),
       );
+      const usedFastApi = checks.some((c) => "engine" in c && c.engine === "fastapi");
+      const engineLabel = usedFastApi ? "FastAPI" : "local validator";
       const invalid = checks.filter((c) => c.status === "invalid");
       if (invalid.length === 0) {
-        toast.success("All reactants valid (FastAPI).");
+        toast.success(`All reactants valid (${engineLabel}).`);
       } else {
         toast.error(
-          `Invalid reactants: ${invalid
+          `Invalid reactants (${engineLabel}): ${invalid
             .map((c: any) => `R${c.i + 1}${c.msg ? ` (${c.msg})` : ""}`)
             .join(", ")}`,
         );
       }
     } catch (e: any) {
       const msg = String(e?.message || e);
-      if (msg.includes("FASTAPI_CHEM_BASE_URL")) {
-        toast.error("FastAPI backend not configured. Set FASTAPI_CHEM_BASE_URL in Integrations.");
-      } else {
-        toast.error("FastAPI validation failed.");
-      }
+      toast.error(`Structure validation failed: ${msg}`);
     }
   };
 
-  // Add: Normalize all SMILES via FastAPI Cheminformatics
+  // Add: Normalize all SMILES via FastAPI Cheminformatics (local canonicalizer when FastAPI is not configured)
   const handleNormalizeViaCheminfo = async () => {
     try {
       const reactantResults = await Promise.all(
         reactants.map(async (r) => {
           const q = r.trim();
-          if (!q) return r;
-          const res = await normalizeSmilesFastApi({ smiles: q });
-          return (res as any)?.canonicalSmiles || r;
+          if (!q) return null;
+          return await normalizeSmilesFastApi({ smiles: q });
         }),
       );
       const soluteResults = await Promise.all(
         solutes.map(async (s) => {
           const q = s.trim();
-          if (!q) return s;
-          const res = await normalizeSmilesFastApi({ smiles: q });
-          return (res as any)?.canonicalSmiles || s;
+          if (!q) return null;
+          return await normalizeSmilesFastApi({ smiles: q });
         }),
       );
-      setReactants(reactantResults);
-      setSolutes(soluteResults);
-      toast.success("Normalized via FastAPI Cheminformatics.");
+      setReactants(reactantResults.map((res, i) => res?.canonicalSmiles || reactants[i]));
+      setSolutes(soluteResults.map((res, i) => res?.canonicalSmiles || solutes[i]));
+      const usedFastApi = [...reactantResults, ...soluteResults].some((res) => res?.engine === "fastapi");
+      toast.success(`Normalized via ${usedFastApi ? "FastAPI Cheminformatics" : "local canonicalizer"}.`);
     } catch (e: any) {
       const msg = String(e?.message || e);
-      if (msg.includes("FASTAPI_CHEM_BASE_URL")) {
-        toast.error("FastAPI backend not configured. Set FASTAPI_CHEM_BASE_URL in Integrations.");
-      } else {
-        toast.error("SMILES normalization failed (FastAPI).");
-      }
+      toast.error(`SMILES normalization failed: ${msg}`);
     }
   };
 
@@ -222,36 +434,85 @@ export function ReactionSimulator() {
     // Reset previous outputs
     setProducts([]);
     setByproducts([]);
+    setReactionLabel(null);
 
-    await new Promise((resolve) => setTimeout(resolve, 1600));
-
-    // Mock reaction products (deterministic-ish based on inputs)
-    const seedBase =
-      reactants.join(".") + "|" + solutes.join(".") + "|" + conditions.solvent;
-    const productA = reactants[0]?.includes("CCO") ? "CH3CHO" : "CCO";
-    const productB = seedBase.includes("O") ? "H2O" : "CO2";
-
-    // Treat primary vs. byproducts separately
-    setProducts([productA]);
-    setByproducts([productB]);
-
-    setIsSimulating(false);
-
-    toast.success("Reaction simulation completed!");
+    try {
+      // Reaction templates (or FastAPI when configured) applied to reactants, solutes and solvent
+      // Formulas typed as reactants ("CH3CHO") are read as structures, not as SMILES
+      const entries = reactants.map((r) => r.trim()).filter(Boolean);
+      const structures = entries.map((r) => (tryParseSmiles(r) ? r : (structureFromFormula(r) ?? r)));
+      if (structures.some((r, i) => r !== entries[i])) setReactants(structures);
+      const prediction = await predictProducts({
+        reactants: structures,
+        reagents: solutes.map((s) => s.trim()).filter(Boolean),
+        conditions,
+        solventSmiles,
+      });
+      if (prediction.products.length === 0) {
+        toast.info("No reaction: none of the reaction templates applies to these reactants under these conditions.");
+        return;
+      }
+      setProducts(prediction.products);
+      setByproducts(prediction.byproducts);
+      const alternatives = prediction.outcomes.length - 1;
+      setReactionLabel(
+        prediction.template
+          ? prediction.template.name + (alternatives > 0 ? ` (+${alternatives} other outcome${alternatives > 1 ? "s" : ""})` : "")
+          : "FastAPI prediction",
+      );
+      toast.success(prediction.template ? `Reaction simulated: ${prediction.template.name}` : "Reaction simulation completed!");
+    } catch (e) {
+      toast.error(`Simulation failed: ${e instanceof Error ? e.message : "unknown error"}`);
+    } finally {
+      setIsSimulating(false);
+    }
   };
 
-  const handleSaveReaction = () => {
+  const handleSaveReaction = async () => {
     if (products.length === 0) {
       toast.error("Run a simulation before saving.");
       return;
     }
-    toast.success("Reaction saved to your library!");
+    let reactionId;
+    try {
+      reactionId = await saveReaction({
+        name: reactionLabel ?? "Untitled reaction",
+        reactants: reactants.map((r) => r.trim()).filter(Boolean),
+        agents: [...solutes.map((s) => s.trim()).filter(Boolean), solventSmiles],
+        products: [...products, ...byproducts],
+        conditions: { temperature: conditions.temperature, pressure: conditions.pressure, solvent: conditions.solvent },
+      });
+    } catch (e) {
+      toast.error(`Saving failed: ${e instanceof Error ? e.message : "unknown error"}`);
+      return;
+    }
+    if (balance && !balance.balanced) toast.warning(`Reaction saved, but it does not balance. ${balance.equation}`);
+    else toast.success("Reaction saved to your library!");
+
+    // The stored kinetics run is a separate step; its failure leaves the saved reaction in place
+    try {
+      const run = await runSimulation({
+        reactionId,
+        parameters: { ...KINETICS_RUN, temperature: conditions.temperature, pressure: conditions.pressure },
+        concentration: conditions.concentration,
+      });
+      if (run.error) toast.warning(`The kinetics run for the saved reaction failed: ${run.error}`);
+    } catch (e) {
+      toast.warning(`The kinetics run for the saved reaction failed: ${e instanceof Error ? e.message : "unknown error"}`);
+    }
   };
 
   const canRun = reactants.some((r) => r.trim().length > 0) && !isSimulating;
 
   return (
     <div className="space-y-8">
+      {/* Reaction SMILES import/export */}
+      <ReactionSmilesBar
+        current={currentReactionSmiles}
+        onImport={importReactionSmiles}
+        onImportEquation={importEquation}
+      />
+
       {/* Reaction Input (refactored) */}
       <ReactionInputs
         reactants={reactants}
@@ -261,22 +522,40 @@ export function ReactionSimulator() {
         conditions={conditions}
         setConditions={(updater) => setConditions(updater)}
         commonReactants={COMMON_REACTANTS}
+        libraryMatches={libraryMatches}
         commonSolutes={COMMON_SOLUTES}
         solventOptions={SOLVENT_OPTIONS}
-        estimatedText={estimateText}
+        timeEstimate={timeEstimate}
+        estimateBasis={kineticModel ? null : predicted?.name}
         addReactantFromLibrary={addReactantFromLibrary}
         addSoluteFromLibrary={addSoluteFromLibrary}
       />
 
       {/* Visualization (refactored) */}
       <ReactionVisualization
-        reactants={reactants}
+        reactants={deferredReactants}
         products={products}
         byproducts={byproducts}
-        solventSmiles={solventSmiles}
+        reactionLabel={reactionLabel}
+        balance={balance}
+        mapping={mapping}
+        solventSmiles={deferredSolventSmiles}
         solutionSeedAfter={solutionSeedAfter}
       />
 
+      {kinetics && <SimulationResultsView results={kinetics} fileName="reaction-kinetics" />}
+
+      {equilibrium && <EquilibriumPanel equilibrium={equilibrium} />}
+
+      {/* Which named reactions fit the current setup, and why */}
+      <ReactionTemplatePanel
+        reactants={deferredReactants}
+        solutes={deferredSolutes}
+        conditions={deferredConditions}
+        solventSmiles={deferredSolventSmiles}
+        solventOptions={SOLVENT_OPTIONS}
+      />
+
       {/* Controls (refactored) */}
       <ReactionControls
         onSimulate={handleSimulate}
@@ -293,6 +572,8 @@ export function ReactionSimulator() {
       <ReactionSafetyPanel
         products={products}
         solventSmiles={solventSmiles}
+        thermo={thermo}
+        missingGroups={missingGroups}
         scoreFromSeed={scoreFromSeed}
       />
     </div>
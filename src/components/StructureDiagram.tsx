@@ -0,0 +1,283 @@
+import { depictMolecule, type Point2D } from "@/lib/chem/depict";
+import { adjacency, type Bond, type Molecule, otherAtom } from "@/lib/chem/molecule";
+import { tryParseSmiles } from "@/lib/chem/smiles";
+import { useMemo, type ReactNode } from "react";
+
+interface StructureDiagramProps {
+  smiles: string;
+  width?: number;
+  height?: number;
+  className?: string;
+  /** Atom indices (in SMILES order) to mark, e.g. a substructure match. */
+  highlightAtoms?: number[];
+  /** Bonds to draw in the reaction-centre colour, as atom index pairs (in SMILES order). */
+  changedBonds?: Array<[number, number]>;
+}
+
+// Drawing units per bond length; the viewBox scales the result to the requested size
+const BOND = 30;
+const PADDING = 0.8 * BOND;
+const LINE_GAP = 0.18 * BOND;
+const WEDGE_WIDTH = 0.14 * BOND;
+// How far bonds stop short of an atom label
+const LABEL_CLEARANCE = 0.32 * BOND;
+const FONT_SIZE = 0.5 * BOND;
+const HIGHLIGHT_COLOR = "#f59e0b";
+const CHANGED_BOND_COLOR = "#e11d48";
+
+// Label colours that read on both light and dark cards; everything else uses currentColor
+const LABEL_COLORS: Record<string, string> = {
+  N: "#2563eb",
+  O: "#dc2626",
+  S: "#ca8a04",
+  P: "#ea580c",
+  F: "#16a34a",
+  Cl: "#16a34a",
+  Br: "#b45309",
+  I: "#9333ea",
+};
+
+// Skeletal formulas leave neutral, unlabelled carbons implicit unless they stand alone
+function needsLabel(mol: Molecule, adj: number[][], a: number): boolean {
+  const atom = mol.atoms[a];
+  return atom.element !== "C" || atom.charge !== 0 || atom.isotope !== null || adj[a].length === 0;
+}
+
+const chargeText = (charge: number) => {
+  if (charge === 0) return "";
+  const sign = charge > 0 ? "+" : "−";
+  return Math.abs(charge) === 1 ? sign : `${Math.abs(charge)}${sign}`;
+};
+
+/**
+ * Skeletal 2D drawing of a SMILES string, laid out locally (no network). Heteroatoms carry
+ * their hydrogens and charges, double bonds in rings are drawn inside the ring, aromatic
+ * rings get an inner circle and stereocentres a wedge or hashed bond.
+ */
+export function StructureDiagram({
+  smiles,
+  width = 180,
+  height = 130,
+  className = "",
+  highlightAtoms = [],
+  changedBonds = [],
+}: StructureDiagramProps) {
+  const drawing = useMemo(() => {
+    const mol = tryParseSmiles(smiles);
+    return mol ? { mol, depiction: depictMolecule(mol) } : null;
+  }, [smiles]);
+
+  if (!drawing || drawing.mol.atoms.length === 0) {
+    return (
+      <div
+        className={`flex items-center justify-center text-xs text-muted-foreground ${className}`}
+        style={{ width, height }}
+      >
+        No structure
+      </div>
+    );
+  }
+
+  const { mol, depiction } = drawing;
+  const adj = adjacency(mol);
+  const points = depiction.coordinates.map((p) => ({ x: p.x * BOND, y: p.y * BOND }));
+  const labelled = mol.atoms.map((_, a) => needsLabel(mol, adj, a));
+  const wedgeOf = new Map(depiction.wedges.map((w) => [w.bond, w]));
+
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const minX = Math.min(...xs) - PADDING;
+  const minY = Math.min(...ys) - PADDING;
+  const viewWidth = Math.max(...xs) - Math.min(...xs) + 2 * PADDING;
+  const viewHeight = Math.max(...ys) - Math.min(...ys) + 2 * PADDING;
+
+  // Shorten a bond at labelled ends so lines do not run into the text
+  const trimmed = (a: number, b: number): [Point2D, Point2D] => {
+    const p = points[a];
+    const q = points[b];
+    const length = Math.hypot(q.x - p.x, q.y - p.y) || 1;
+    const ux = (q.x - p.x) / length;
+    const uy = (q.y - p.y) / length;
+    const start = labelled[a] ? LABEL_CLEARANCE : 0;
+    const end = labelled[b] ? LABEL_CLEARANCE : 0;
+    return [
+      { x: p.x + ux * start, y: p.y + uy * start },
+      { x: q.x - ux * end, y: q.y - uy * end },
+    ];
+  };
+
+  const changed = new Set(changedBonds.map(([a, b]) => (a < b ? `${a},${b}` : `${b},${a}`)));
+  const isChanged = (bond: Bond) =>
+    changed.has(bond.from < bond.to ? `${bond.from},${bond.to}` : `${bond.to},${bond.from}`);
+
+  const drawBond = (bond: Bond, index: number): ReactNode => {
+    const wedge = wedgeOf.get(index);
+    const from = wedge ? wedge.from : bond.from;
+    const to = otherAtom(bond, from);
+    const [p, q] = trimmed(from, to);
+    const length = Math.hypot(q.x - p.x, q.y - p.y) || 1;
+    // Unit normal to the bond
+    const nx = -(q.y - p.y) / length;
+    const ny = (q.x - p.x) / length;
+    const line = (a: Point2D, b: Point2D, key: string) => (
+      <line key={key} x1={a.x} y1={a.y} x2={b.x} y2={b.y} />
+    );
+
+    if (wedge?.kind === "wedge") {
+      const tip = `${p.x},${p.y}`;
+      const wide = `${q.x + nx * WEDGE_WIDTH},${q.y + ny * WEDGE_WIDTH} ${q.x - nx * WEDGE_WIDTH},${q.y - ny * WEDGE_WIDTH}`;
+      return <polygon key={`b${index}`} points={`${tip} ${wide}`} fill="currentColor" />;
+    }
+    if (wedge?.kind === "hash") {
+      const dashes = 6;
+      return (
+        <g key={`b${index}`}>
+          {Array.from({ length: dashes }, (_, k) => {
+            const t = (k + 1) / dashes;
+            const cx = p.x + (q.x - p.x) * t;
+            const cy = p.y + (q.y - p.y) * t;
+            const half = WEDGE_WIDTH * t;
+            return line({ x: cx + nx * half, y: cy + ny * half }, { x: cx - nx * half, y: cy - ny * half }, `h${k}`);
+          })}
+        </g>
+      );
+    }
+
+    if (bond.order === 3) {
+      return (
+        <g key={`b${index}`}>
+          {line(p, q, "c")}
+          {line({ x: p.x + nx * LINE_GAP, y: p.y + ny * LINE_GAP }, { x: q.x + nx * LINE_GAP, y: q.y + ny * LINE_GAP }, "l")}
+          {line({ x: p.x - nx * LINE_GAP, y: p.y - ny * LINE_GAP }, { x: q.x - nx * LINE_GAP, y: q.y - ny * LINE_GAP }, "r")}
+        </g>
+      );
+    }
+    if (bond.order === 2 && !bond.aromatic) {
+      // Which side of the bond the other substituents (or the ring) lie on
+      let side = 0;
+      for (const end of [from, to]) {
+        for (const b of adj[end]) {
+          if (b === index) continue;
+          const n = points[otherAtom(mol.bonds[b], end)];
+          side += Math.sign((n.x - points[end].x) * nx + (n.y - points[end].y) * ny);
+        }
+      }
+      const terminal = adj[from].length === 1 || adj[to].length === 1;
+      if (side === 0 || terminal) {
+        // Centred pair
+        const h = LINE_GAP / 2;
+        return (
+          <g key={`b${index}`}>
+            {line({ x: p.x + nx * h, y: p.y + ny * h }, { x: q.x + nx * h, y: q.y + ny * h }, "l")}
+            {line({ x: p.x - nx * h, y: p.y - ny * h }, { x: q.x - nx * h, y: q.y - ny * h }, "r")}
+          </g>
+        );
+      }
+      // Inner line on the substituent side, pulled in from both ends
+      const s = Math.sign(side) * LINE_GAP;
+      const inset = 0.15;
+      const a = { x: p.x + (q.x - p.x) * inset + nx * s, y: p.y + (q.y - p.y) * inset + ny * s };
+      const b = { x: q.x - (q.x - p.x) * inset + nx * s, y: q.y - (q.y - p.y) * inset + ny * s };
+      return (
+        <g key={`b${index}`}>
+          {line(p, q, "o")}
+          {line(a, b, "i")}
+        </g>
+      );
+    }
+    return line(p, q, `b${index}`);
+  };
+  // Changed bonds take the reaction-centre colour, wedges included (they fill with currentColor)
+  const bondElements = mol.bonds.map((bond, index) =>
+    isChanged(bond) ? (
+      <g key={`c${index}`} stroke={CHANGED_BOND_COLOR} color={CHANGED_BOND_COLOR} strokeWidth={2}>
+        {drawBond(bond, index)}
+      </g>
+    ) : (
+      drawBond(bond, index)
+    ),
+  );
+
+  // Halo behind highlighted atoms and the bonds between them
+  const highlighted = new Set(highlightAtoms.filter((a) => a >= 0 && a < mol.atoms.length));
+  const highlights = highlighted.size > 0 && (
+    <g stroke={HIGHLIGHT_COLOR} fill={HIGHLIGHT_COLOR} strokeLinecap="round" opacity={0.35}>
+      {mol.bonds.map((bond, index) =>
+        highlighted.has(bond.from) && highlighted.has(bond.to) ? (
+          <line
+            key={`hb${index}`}
+            x1={points[bond.from].x}
+            y1={points[bond.from].y}
+            x2={points[bond.to].x}
+            y2={points[bond.to].y}
+            strokeWidth={LINE_GAP * 2.4}
+          />
+        ) : null,
+      )}
+      {[...highlighted].map((a) => (
+        <circle key={`ha${a}`} cx={points[a].x} cy={points[a].y} r={LINE_GAP * 1.6} stroke="none" />
+      ))}
+    </g>
+  );
+
+  const aromaticCircles = depiction.aromaticRings.map((ring, index) => {
+    const cx = ring.atoms.reduce((s, a) => s + points[a].x, 0) / ring.atoms.length;
+    const cy = ring.atoms.reduce((s, a) => s + points[a].y, 0) / ring.atoms.length;
+    // Inradius of the regular polygon with unit bonds, scaled down to sit inside the bonds
+    const inradius = BOND / (2 * Math.tan(Math.PI / ring.atoms.length));
+    return <circle key={`r${index}`} cx={cx} cy={cy} r={inradius * 0.62} fill="none" />;
+  });
+
+  const labels = mol.atoms.map((atom, a) => {
+    if (!labelled[a]) return null;
+    const { x, y } = points[a];
+    // Hydrogens go on the side away from the bonds
+    const bondsDx = adj[a].reduce((s, b) => s + points[otherAtom(mol.bonds[b], a)].x - x, 0);
+    const hydrogensLeft = bondsDx > 0.1;
+    const color = LABEL_COLORS[atom.element] ?? "currentColor";
+    const hydrogens = atom.hydrogens > 0 ? (
+      <text x={hydrogensLeft ? x - FONT_SIZE * 0.42 : x + FONT_SIZE * 0.42} y={y} textAnchor={hydrogensLeft ? "end" : "start"}>
+        H{atom.hydrogens > 1 && <tspan dy={FONT_SIZE * 0.3} fontSize={FONT_SIZE * 0.7}>{atom.hydrogens}</tspan>}
+      </text>
+    ) : null;
+    const hydrogenWidth = atom.hydrogens > 0 && !hydrogensLeft ? FONT_SIZE * (atom.hydrogens > 1 ? 1.1 : 0.75) : 0;
+    return (
+      <g key={`a${a}`} fill={color} stroke="none" dominantBaseline="central">
+        <text x={x} y={y} textAnchor="middle">
+          {atom.isotope !== null && (
+            <tspan dy={-FONT_SIZE * 0.35} fontSize={FONT_SIZE * 0.65}>
+              {atom.isotope}
+            </tspan>
+          )}
+          <tspan dy={atom.isotope !== null ? FONT_SIZE * 0.35 : 0}>{atom.element}</tspan>
+        </text>
+        {hydrogens}
+        {atom.charge !== 0 && (
+          <text x={x + FONT_SIZE * 0.45 + hydrogenWidth} y={y - FONT_SIZE * 0.45} fontSize={FONT_SIZE * 0.7} textAnchor="start">
+            {chargeText(atom.charge)}
+          </text>
+        )}
+      </g>
+    );
+  });
+
+  return (
+    <svg
+      role="img"
+      aria-label={smiles}
+      width={width}
+      height={height}
+      viewBox={`${minX} ${minY} ${viewWidth} ${viewHeight}`}
+      preserveAspectRatio="xMidYMid meet"
+      className={className}
+    >
+      <title>{smiles}</title>
+      {highlights}
+      <g stroke="currentColor" strokeWidth={1.4} strokeLinecap="round" fontSize={FONT_SIZE} fontFamily="Arial, Helvetica, sans-serif">
+        {bondElements}
+        {aromaticCircles}
+        {labels}
+      </g>
+    </svg>
+  );
+}
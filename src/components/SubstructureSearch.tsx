@@ -0,0 +1,72 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Search, X } from "lucide-react";
+
+interface SubstructureSearchProps {
+  value: string;
+  onChange: (smarts: string) => void;
+  /** Parse error for the current pattern, shown under the field. */
+  error?: string | null;
+  /** Number of library entries matching the current pattern, once known. */
+  matchCount?: number;
+}
+
+// Common functional groups as SMARTS, offered as one-click patterns
+const PRESETS = [
+  { label: "Carboxylic acid", smarts: "[CX3](=O)[OX2H1]" },
+  { label: "Ester", smarts: "[#6][CX3](=O)[OX2][#6]" },
+  { label: "Alcohol", smarts: "[OX2H][CX4]" },
+  { label: "Primary amine", smarts: "[NX3;H2;!$(NC=O)]" },
+  { label: "Aldehyde", smarts: "[CX3H1](=O)[#6]" },
+  { label: "Aromatic ring", smarts: "a1aaaaa1" },
+  { label: "Halide", smarts: "[#6][F,Cl,Br,I]" },
+];
+
+/** SMARTS field for filtering the molecule library by substructure. */
+export function SubstructureSearch({ value, onChange, error, matchCount }: SubstructureSearchProps) {
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="Substructure search (SMARTS), e.g. [CX3](=O)[OX2H1]"
+          className="pl-9 pr-9 font-mono"
+          aria-invalid={!!error}
+        />
+        {value && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="absolute right-1 top-1/2 h-7 w-7 -translate-y-1/2"
+            onClick={() => onChange("")}
+            title="Clear search"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {PRESETS.map((preset) => (
+          <Button
+            key={preset.label}
+            variant={value === preset.smarts ? "secondary" : "outline"}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => onChange(preset.smarts)}
+          >
+            {preset.label}
+          </Button>
+        ))}
+        {error ? (
+          <span className="text-xs text-destructive">{error}</span>
+        ) : (
+          matchCount !== undefined && (
+            <span className="text-xs text-muted-foreground">{matchCount} matching molecule(s)</span>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
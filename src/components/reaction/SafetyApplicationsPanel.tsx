@@ -2,6 +2,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
 import { motion } from "framer-motion";
+import { structureSeed } from "@/components/simulator/config";
 
 type Props = {
   products: string[];
@@ -11,6 +12,7 @@ type Props = {
 
 export function SafetyApplicationsPanel({ products, solventSmiles, scoreFromSeed }: Props) {
   if (products.length === 0) return null;
+  const productSeed = structureSeed(products);
   return (
     <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.5 }}>
       <Card>
@@ -27,7 +29,7 @@ export function SafetyApplicationsPanel({ products, solventSmiles, scoreFromSeed
               { label: "Exposure Risk", key: "exp" },
               { label: "Corrosivity", key: "corr" },
             ].map((m) => {
-              const val = scoreFromSeed(products.join(".") + "|" + solventSmiles, m.key);
+              const val = scoreFromSeed(productSeed + "|" + structureSeed([solventSmiles]), m.key);
               return (
                 <div key={m.key} className="space-y-2">
                   <div className="flex items-center justify-between text-sm">
@@ -48,19 +50,19 @@ export function SafetyApplicationsPanel({ products, solventSmiles, scoreFromSeed
               <div className="flex justify-between">
                 <span>FDA Status:</span>
                 <span className="text-green-600 font-medium">
-                  {scoreFromSeed(products.join("."), "fda") > 50 ? "Permissible" : "Restricted"}
+                  {scoreFromSeed(productSeed, "fda") > 50 ? "Permissible" : "Restricted"}
                 </span>
               </div>
               <div className="flex justify-between">
                 <span>REACH:</span>
                 <span className="text-green-600 font-medium">
-                  {scoreFromSeed(products.join("."), "reach") > 50 ? "Compliant" : "Review Needed"}
+                  {scoreFromSeed(productSeed, "reach") > 50 ? "Compliant" : "Review Needed"}
                 </span>
               </div>
               <div className="flex justify-between">
                 <span>OSHA:</span>
                 <span className="text-yellow-600 font-medium">
-                  {scoreFromSeed(products.join("."), "osha") > 50 ? "Precautions Required" : "Standard"}
+                  {scoreFromSeed(productSeed, "osha") > 50 ? "Precautions Required" : "Standard"}
                 </span>
               </div>
             </div>
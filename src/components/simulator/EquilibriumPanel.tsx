@@ -0,0 +1,107 @@
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { EquilibriumResult } from "@/lib/chem/equilibrium";
+import { speciesLabel } from "@/lib/simulationCharts";
+
+type Props = {
+  equilibrium: EquilibriumResult;
+};
+
+// Amounts over many orders of magnitude: plain numbers when readable, exponents otherwise
+const amount = (x: number) => (x === 0 ? "0" : x >= 1e-3 ? x.toFixed(4) : x.toExponential(2));
+
+/** Equilibrium composition at the chosen temperature and pressure, with the van 't Hoff shift around it. */
+export function EquilibriumPanel({ equilibrium }: Props) {
+  const { temperature, pressure, species, gibbs, log10K, conversion, vantHoff } = equilibrium;
+  const data = vantHoff.points.map((p) => ({
+    T: Math.round(p.temperature),
+    conversion: p.conversion * 100,
+    log10K: p.log10K,
+  }));
+  const exothermic = vantHoff.slope > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span>Chemical Equilibrium</span>
+          <span className="text-sm font-normal text-muted-foreground">
+            {temperature.toFixed(0)} K, {pressure} atm
+          </span>
+        </CardTitle>
+        <CardDescription>
+          Gibbs energy minimisation over an ideal-gas mixture fed with the balanced reactant amounts.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+          <div className="flex justify-between">
+            <span>log₁₀ K:</span>
+            <span className="font-medium">{log10K.toFixed(2)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>ΔG°r:</span>
+            <span className="font-medium">{gibbs.toFixed(1)} kJ/mol</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Equilibrium conversion:</span>
+            <span className="font-medium">{(conversion * 100).toFixed(1)}%</span>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Species</TableHead>
+              <TableHead className="text-right">Start (mol)</TableHead>
+              <TableHead className="text-right">Equilibrium (mol)</TableHead>
+              <TableHead className="text-right">Mole fraction</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {species.map((s, i) => (
+              <TableRow key={i}>
+                <TableCell className="font-mono text-xs">{speciesLabel(s.smiles)}</TableCell>
+                <TableCell className="text-right">{amount(s.initial)}</TableCell>
+                <TableCell className="text-right">{amount(s.moles)}</TableCell>
+                <TableCell className="text-right">{amount(s.fraction)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="space-y-2">
+          <h4 className="font-medium">Van 't Hoff shift</h4>
+          <p className="text-xs text-muted-foreground">
+            {exothermic ? "Exothermic: K falls on heating." : "Endothermic: K rises on heating."} Equilibrium
+            conversion from {data[0].T} K to {data[data.length - 1].T} K.
+          </p>
+          <ChartContainer config={{ conversion: { label: "Conversion (%)", color: "var(--chart-1)" } }} className="aspect-auto h-56 w-full">
+            <LineChart data={data} margin={{ left: 4, right: 12, top: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="T"
+                type="number"
+                domain={["dataMin", "dataMax"]}
+                label={{ value: "Temperature (K)", position: "insideBottom", offset: -2 }}
+                height={36}
+              />
+              <YAxis width={40} domain={[0, 100]} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, p) => `${p[0]?.payload.T} K, log₁₀ K = ${p[0]?.payload.log10K.toFixed(2)}`}
+                  />
+                }
+              />
+              <ReferenceLine x={Math.round(temperature)} stroke="var(--muted-foreground)" strokeDasharray="4 4" />
+              <Line type="monotone" dataKey="conversion" stroke="var(--color-conversion)" strokeWidth={2} dot={{ r: 3 }} isAnimationActive={false} />
+            </LineChart>
+          </ChartContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
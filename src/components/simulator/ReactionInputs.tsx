@@ -2,13 +2,28 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
-import { Plus, Minus, Thermometer } from "lucide-react";
+import { Plus, Minus, Thermometer, PenLine, Pencil } from "lucide-react";
 import { MoleculeViewer } from "@/components/MoleculeViewer";
+import { MoleculeSketcher } from "@/components/MoleculeSketcher";
+import { useDeferredValue, useState } from "react";
+import type { ReactionTimeEstimate } from "@/lib/chem/reactionTime";
+import { formatDuration } from "./config";
 
 type LibraryItem = { label: string; smiles: string };
-type ReactionConditions = { temperature: number; pressure: number; solvent: string };
+// A saved molecule ranked by fingerprint similarity to the current reactant
+type LibraryMatch = LibraryItem & { id: string; similarity: number };
+type ReactionConditions = { temperature: number; pressure: number; solvent: string; concentration: number };
 type SolventOption = { key: string; label: string };
 
 type Props = {
@@ -19,9 +34,13 @@ type Props = {
   conditions: ReactionConditions;
   setConditions: (updater: (prev: ReactionConditions) => ReactionConditions) => void;
   commonReactants: Array<LibraryItem>;
+  libraryMatches?: Array<LibraryMatch>;
   commonSolutes: Array<LibraryItem>;
   solventOptions: Array<SolventOption>;
-  estimatedText: string;
+  /** Kinetics-based time to the target conversion; null when no products are known or predicted. */
+  timeEstimate: ReactionTimeEstimate | null;
+  /** Name of the predicted reaction the estimate assumes before a simulation has products. */
+  estimateBasis?: string | null;
   addReactantFromLibrary: (smiles: string) => void;
   addSoluteFromLibrary: (smiles: string) => void;
 };
@@ -34,12 +53,16 @@ export function ReactionInputs({
   conditions,
   setConditions,
   commonReactants,
+  libraryMatches = [],
   commonSolutes,
   solventOptions,
-  estimatedText,
+  timeEstimate,
+  estimateBasis = null,
   addReactantFromLibrary,
   addSoluteFromLibrary,
 }: Props) {
+  const previewReactants = useDeferredValue(reactants);
+
   const sanitizeSmiles = (input: string) => {
     const allowed = /[A-Za-z0-9@\+\-\[\]\(\)=#\\\/\.\*:]/g;
     const cleaned = (input.match(allowed) || []).join("");
@@ -62,6 +85,22 @@ export function ReactionInputs({
   const addSolute = () => setSolutes([...solutes, ""]);
   const removeSolute = (idx: number) => setSolutes(solutes.filter((_, i) => i !== idx));
 
+  // Sketcher target: which list receives the drawing, and the entry being edited (null = new entry)
+  const [sketchTarget, setSketchTarget] = useState<{ list: "reactants" | "solutes"; index: number | null } | null>(null);
+  const sketchList = sketchTarget?.list === "solutes" ? solutes : reactants;
+  const applySketch = (smiles: string) => {
+    if (!sketchTarget) return;
+    const list = sketchTarget.list === "solutes" ? solutes : reactants;
+    const set = sketchTarget.list === "solutes" ? setSolutes : setReactants;
+    // Drawn structures are canonical SMILES and skip sanitizeSmiles (and its 200-character cut)
+    const next = [...list];
+    const blank = next.findIndex((s) => !s.trim());
+    if (sketchTarget.index !== null) next[sketchTarget.index] = smiles;
+    else if (blank >= 0) next[blank] = smiles;
+    else next.push(smiles);
+    set(next);
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -71,7 +110,7 @@ export function ReactionInputs({
       </CardHeader>
       <CardContent className="space-y-6">
         {/* Reactants & Solvent */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <div className="space-y-4">
             <div className="flex items-center justify-between">
               <Label>Reactants (SMILES)</Label>
@@ -81,13 +120,36 @@ export function ReactionInputs({
                     <SelectValue placeholder="Add from library" />
                   </SelectTrigger>
                   <SelectContent>
-                    {commonReactants.map((c) => (
-                      <SelectItem key={c.smiles} value={c.smiles}>
-                        {c.label}
-                      </SelectItem>
-                    ))}
+                    {libraryMatches.length > 0 && (
+                      <>
+                        <SelectGroup>
+                          <SelectLabel>Similar in your library</SelectLabel>
+                          {libraryMatches.map((m) => (
+                            <SelectItem key={m.id} value={m.smiles}>
+                              {m.label}
+                              <span className="ml-auto pl-2 text-xs text-muted-foreground">
+                                {Math.round(m.similarity * 100)}%
+                              </span>
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                        <SelectSeparator />
+                      </>
+                    )}
+                    <SelectGroup>
+                      {libraryMatches.length > 0 && <SelectLabel>Common reactants</SelectLabel>}
+                      {commonReactants.map((c) => (
+                        <SelectItem key={c.smiles} value={c.smiles}>
+                          {c.label}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
                   </SelectContent>
                 </Select>
+                <Button variant="outline" size="sm" onClick={() => setSketchTarget({ list: "reactants", index: null })}>
+                  <PenLine className="h-4 w-4 mr-1" />
+                  Draw
+                </Button>
                 <Button variant="outline" size="sm" onClick={addReactant}>
                   <Plus className="h-4 w-4 mr-1" />
                   Add Reactant
@@ -102,6 +164,14 @@ export function ReactionInputs({
                     value={val}
                     onChange={(e) => updateReactant(idx, e.target.value)}
                   />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setSketchTarget({ list: "reactants", index: idx })}
+                    title="Edit in sketcher"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
                   <Button
                     variant="outline"
                     size="icon"
@@ -115,12 +185,12 @@ export function ReactionInputs({
               ))}
             </div>
 
-            {/* Live 3D previews for non-empty reactants */}
-            {reactants.filter((r) => r.trim()).length > 0 && (
+            {/* Live 3D previews for non-empty reactants, embedded at low priority behind the typing */}
+            {previewReactants.filter((r) => r.trim()).length > 0 && (
               <div className="space-y-2">
                 <Label className="text-sm text-muted-foreground">Reactant Structures</Label>
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                  {reactants
+                  {previewReactants
                     .filter((r) => r.trim())
                     .map((r, i) => (
                       <MoleculeViewer key={`${r}-${i}`} smiles={r} height={160} captionMode="formula" />
@@ -169,6 +239,10 @@ export function ReactionInputs({
                   ))}
                 </SelectContent>
               </Select>
+              <Button variant="outline" size="sm" onClick={() => setSketchTarget({ list: "solutes", index: null })}>
+                <PenLine className="h-4 w-4 mr-1" />
+                Draw
+              </Button>
               <Button variant="outline" size="sm" onClick={addSolute}>
                 <Plus className="h-4 w-4 mr-1" />
                 Add Solute
@@ -184,6 +258,14 @@ export function ReactionInputs({
                     value={val}
                     onChange={(e) => updateSolute(idx, e.target.value)}
                   />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setSketchTarget({ list: "solutes", index: idx })}
+                    title="Edit in sketcher"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
                   <Button
                     variant="outline"
                     size="icon"
@@ -229,11 +311,58 @@ export function ReactionInputs({
               className="w-full"
             />
           </div>
+          <div className="space-y-4">
+            <Label>Concentration: {conditions.concentration} mol/L</Label>
+            <Slider
+              value={[conditions.concentration]}
+              onValueChange={([value]) =>
+                setConditions((prev) => ({ ...prev, concentration: value }))
+              }
+              min={0.05}
+              max={5}
+              step={0.05}
+              className="w-full"
+            />
+          </div>
         </div>
 
+        <MoleculeSketcher
+          open={sketchTarget !== null}
+          onOpenChange={(open) => !open && setSketchTarget(null)}
+          initialSmiles={sketchTarget?.index != null ? sketchList[sketchTarget.index] ?? "" : ""}
+          title={sketchTarget?.list === "solutes" ? "Draw Solute" : "Draw Reactant"}
+          applyLabel={sketchTarget?.index != null ? "Update" : sketchTarget?.list === "solutes" ? "Add Solute" : "Add Reactant"}
+          onApply={applySketch}
+        />
+
         {/* Estimated time */}
-        <div className="text-sm text-muted-foreground">
-          Estimated real-world completion time: <span className="font-medium">{estimatedText}</span>
+        <div className="text-sm text-muted-foreground space-y-1">
+          {!timeEstimate ? (
+            <div>Run a simulation to estimate the reaction time.</div>
+          ) : timeEstimate.withheld ? (
+            <div>Estimated time: not given, {timeEstimate.withheld}.</div>
+          ) : timeEstimate.seconds === null ? (
+            <div>Estimated time: no appreciable conversion within decades under these conditions.</div>
+          ) : (
+            <div>
+              Estimated time to {(timeEstimate.targetConversion * 100).toFixed(0)}% conversion:{" "}
+              <span className="font-medium">{formatDuration(timeEstimate.seconds)}</span> (likely range{" "}
+              {formatDuration(timeEstimate.low!)} – {formatDuration(timeEstimate.high!)})
+            </div>
+          )}
+          {timeEstimate && estimateBasis && (
+            <div className="text-xs">Assuming {estimateBasis}; run a simulation to confirm the products.</div>
+          )}
+          {timeEstimate && (
+            <details>
+              <summary className="cursor-pointer text-xs">Assumptions</summary>
+              <ul className="list-disc pl-5 text-xs space-y-0.5 mt-1">
+                {timeEstimate.assumptions.map((a) => (
+                  <li key={a}>{a}</li>
+                ))}
+              </ul>
+            </details>
+          )}
         </div>
       </CardContent>
     </Card>
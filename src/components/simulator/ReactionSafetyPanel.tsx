@@ -2,15 +2,29 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Progress } from "@/components/ui/progress";
 import { motion } from "framer-motion";
+import { structureSeed } from "@/components/simulator/config";
+import type { ExothermSeverity, ReactionThermo } from "@/lib/chem/thermochemistry";
 
 type Props = {
   products: string[];
   solventSmiles: string;
+  /** Group-additivity energetics of the balanced scheme; null when a species has no estimate. */
+  thermo?: ReactionThermo | null;
+  /** Benson groups without values, named when there is no estimate. */
+  missingGroups?: string[];
   scoreFromSeed: (seed: string, salt: string) => number;
 };
 
-export function ReactionSafetyPanel({ products, solventSmiles, scoreFromSeed }: Props) {
+const SEVERITY: Record<ExothermSeverity, { label: string; className: string }> = {
+  endothermic: { label: "Endothermic", className: "text-blue-600" },
+  low: { label: "Mildly exothermic", className: "text-green-600" },
+  medium: { label: "Exothermic", className: "text-yellow-600" },
+  high: { label: "Strongly exothermic", className: "text-red-600" },
+};
+
+export function ReactionSafetyPanel({ products, solventSmiles, thermo, missingGroups = [], scoreFromSeed }: Props) {
   if (products.length === 0) return null;
+  const productSeed = structureSeed(products);
 
   return (
     <motion.div
@@ -23,6 +37,50 @@ export function ReactionSafetyPanel({ products, solventSmiles, scoreFromSeed }:
           <CardTitle>Safety, Environmental Impact & Applications</CardTitle>
         </CardHeader>
         <CardContent className="space-y-6">
+          {/* Reaction energetics */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium">Reaction Energetics</h4>
+              {thermo && (
+                <span className={`text-sm font-medium ${SEVERITY[thermo.severity].className}`}>
+                  {SEVERITY[thermo.severity].label}
+                </span>
+              )}
+            </div>
+            {thermo ? (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                  <div className="flex justify-between">
+                    <span>ΔH°r ({thermo.temperature.toFixed(0)} K):</span>
+                    <span className="font-medium">{thermo.enthalpy.toFixed(1)} kJ/mol</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>ΔG°r ({thermo.temperature.toFixed(0)} K):</span>
+                    <span className="font-medium">{thermo.gibbs.toFixed(1)} kJ/mol</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Adiabatic rise:</span>
+                    <span className="font-medium">
+                      {thermo.adiabaticRise > 0 ? `${thermo.adiabaticRise.toFixed(0)} K` : "none"}
+                    </span>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Benson group additivity, ideal-gas standard states; adiabatic rise for a{" "}
+                  {thermo.concentration} mol/L solution.
+                  {!thermo.balanced && " The equation does not balance, so each species is counted once."}
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No group-additivity estimate: a species contains groups without tabulated values
+                {missingGroups.length > 0 && <> ({missingGroups.join(", ")})</>}.
+              </p>
+            )}
+          </div>
+
+          <Separator />
+
           {/* Percent metrics */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             {[
@@ -33,7 +91,7 @@ export function ReactionSafetyPanel({ products, solventSmiles, scoreFromSeed }:
               { label: "Exposure Risk", key: "exp" },
               { label: "Corrosivity", key: "corr" },
             ].map((m) => {
-              const val = scoreFromSeed(products.join(".") + "|" + solventSmiles, m.key);
+              const val = scoreFromSeed(productSeed + "|" + structureSeed([solventSmiles]), m.key);
               return (
                 <div key={m.key} className="space-y-2">
                   <div className="flex items-center justify-between text-sm">
@@ -55,19 +113,19 @@ export function ReactionSafetyPanel({ products, solventSmiles, scoreFromSeed }:
               <div className="flex justify-between">
                 <span>FDA Status:</span>
                 <span className="text-green-600 font-medium">
-                  {scoreFromSeed(products.join("."), "fda") > 50 ? "Permissible" : "Restricted"}
+                  {scoreFromSeed(productSeed, "fda") > 50 ? "Permissible" : "Restricted"}
                 </span>
               </div>
               <div className="flex justify-between">
                 <span>REACH:</span>
                 <span className="text-green-600 font-medium">
-                  {scoreFromSeed(products.join("."), "reach") > 50 ? "Compliant" : "Review Needed"}
+                  {scoreFromSeed(productSeed, "reach") > 50 ? "Compliant" : "Review Needed"}
                 </span>
               </div>
               <div className="flex justify-between">
                 <span>OSHA:</span>
                 <span className="text-yellow-600 font-medium">
-                  {scoreFromSeed(products.join("."), "osha") > 50 ? "Precautions Required" : "Standard"}
+                  {scoreFromSeed(productSeed, "osha") > 50 ? "Precautions Required" : "Standard"}
                 </span>
               </div>
             </div>
@@ -0,0 +1,72 @@
+import { useState } from "react";
+import { Copy, Import } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { type ParsedEquation, parseEquation } from "@/lib/chem/equation";
+import { parseReactionSmiles, type ReactionSmiles } from "@/lib/chem/reactionSmiles";
+
+type Props = {
+  /** The current setup written as a reaction SMILES. */
+  current: string;
+  onImport: (reaction: ReactionSmiles) => void;
+  onImportEquation: (equation: ParsedEquation) => void;
+};
+
+// "a>b>c" before any space is a reaction SMILES; anything else is read as equation text
+const isReactionSmiles = (text: string) => text.trim().split(/\s/)[0].split(">").length === 3;
+
+/** Paste a reaction SMILES or an equation ("2 H2 + O2 -> 2 H2O") into the simulator, or copy the setup out. */
+export function ReactionSmilesBar({ current, onImport, onImportEquation }: Props) {
+  const [text, setText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = () => {
+    try {
+      if (isReactionSmiles(text)) onImport(parseReactionSmiles(text));
+      else onImportEquation(parseEquation(text));
+      setText("");
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Invalid reaction");
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(current);
+      toast.success("Reaction SMILES copied");
+    } catch {
+      toast.error("Could not copy to the clipboard");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="reaction-smiles">Reaction SMILES or equation</Label>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          id="reaction-smiles"
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={(e) => e.key === "Enter" && text.trim() && handleImport()}
+          placeholder={current || "CC(=O)O.OCC>OS(=O)(=O)O>CC(=O)OCC.O or CH3COOH + C2H5OH -> CH3COOC2H5 + H2O"}
+          className="font-mono"
+        />
+        <Button variant="outline" onClick={handleImport} disabled={!text.trim()}>
+          <Import className="h-4 w-4 mr-1" />
+          Import
+        </Button>
+        <Button variant="outline" onClick={handleCopy} disabled={!current}>
+          <Copy className="h-4 w-4 mr-1" />
+          Copy current
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useMemo } from "react";
+import { CheckCircle2, XCircle } from "lucide-react";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { explainReactions, REACTION_LIBRARY_VERSION } from "@/lib/chem/reactionTemplates";
+import type { ReactionConditions } from "./config";
+
+type Props = {
+  reactants: string[];
+  solutes: string[];
+  conditions: ReactionConditions;
+  solventSmiles: string;
+  solventOptions: Array<{ key: string; label: string }>;
+};
+
+/** The named-reaction catalogue checked against the current setup, with the reason each entry does or doesn't apply. */
+export function ReactionTemplatePanel({ reactants, solutes, conditions, solventSmiles, solventOptions }: Props) {
+  const explanations = useMemo(() => {
+    const solventLabels = Object.fromEntries(solventOptions.map((o) => [o.key, o.label]));
+    const results = explainReactions(
+      {
+        reactants: reactants.filter((r) => r.trim()),
+        solutes: solutes.filter((s) => s.trim()),
+        solvent: conditions.solvent,
+        solventSmiles,
+        temperature: conditions.temperature,
+      },
+      { solventLabels },
+    );
+    // Applicable templates first, then the ones closest to applying
+    const failed = (e: (typeof results)[number]) => e.checks.filter((c) => !c.ok).length;
+    return results
+      .map((e, i) => ({ e, i }))
+      .sort((a, b) => Number(b.e.applies) - Number(a.e.applies) || failed(a.e) - failed(b.e) || a.i - b.i)
+      .map(({ e }) => e);
+  }, [reactants, solutes, conditions.solvent, conditions.temperature, solventSmiles, solventOptions]);
+
+  const applicable = explanations.filter((e) => e.applies).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span>Reaction templates (library v{REACTION_LIBRARY_VERSION})</span>
+          <span className="text-sm font-normal text-muted-foreground">
+            {applicable} of {explanations.length} apply
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Accordion type="multiple">
+          {explanations.map((e) => (
+            <AccordionItem key={e.id} value={e.id}>
+              <AccordionTrigger className="py-2">
+                <span className="flex items-center gap-2">
+                  {e.applies ? (
+                    <CheckCircle2 className="h-4 w-4 text-green-600" />
+                  ) : (
+                    <XCircle className="h-4 w-4 text-muted-foreground" />
+                  )}
+                  <span className={e.applies ? "font-medium" : "text-muted-foreground"}>{e.name}</span>
+                  <Badge variant="outline" className="text-xs">
+                    {e.category}
+                  </Badge>
+                </span>
+              </AccordionTrigger>
+              <AccordionContent>
+                <ul className="space-y-1 text-sm">
+                  {e.checks.map((c, i) => (
+                    <li key={i} className={`flex items-start gap-2 ${c.ok ? "" : "text-red-600"}`}>
+                      <span>{c.ok ? "✓" : "✗"}</span>
+                      <span className="font-mono break-all">{c.message}</span>
+                    </li>
+                  ))}
+                </ul>
+              </AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,12 +1,22 @@
 import { Card } from "@/components/ui/card";
 import { MoleculeViewer } from "@/components/MoleculeViewer";
+import { StructureDiagram } from "@/components/StructureDiagram";
 import { motion } from "framer-motion";
-import { ArrowRight } from "lucide-react";
+import { AlertTriangle, ArrowRight, Scale } from "lucide-react";
+import type { AtomMapping, MappedSpecies } from "@/lib/chem/atomMapping";
+import type { BalanceResult } from "@/lib/chem/stoichiometry";
+import { Fragment } from "react";
 
 type Props = {
   reactants: string[];
   products: string[];
   byproducts: string[];
+  /** Name of the reaction that gave the products, shown over the scheme arrow. */
+  reactionLabel?: string | null;
+  /** Stoichiometry of the scheme, shown as a balanced equation or an imbalance warning. */
+  balance?: BalanceResult | null;
+  /** Atom mapping of the scheme; its changed bonds are drawn in colour and its type labelled. */
+  mapping?: AtomMapping | null;
   solventSmiles: string;
   solutionSeedAfter: string;
 };
@@ -15,11 +25,51 @@ export function ReactionVisualization({
   reactants,
   products,
   byproducts,
+  reactionLabel,
+  balance,
+  mapping,
   solventSmiles,
   solutionSeedAfter,
 }: Props) {
+  const schemeReactants = reactants.filter(Boolean);
+  const schemeProducts = [...products, ...byproducts].filter(Boolean);
+
   return (
     <>
+      {/* Reaction scheme: skeletal formulas of everything going in and coming out */}
+      {schemeReactants.length > 0 && (
+        <Card className="p-4 overflow-x-auto">
+          <div className="flex items-center justify-center gap-3 min-w-max text-foreground">
+            <SchemeSide smiles={schemeReactants} mapped={mapping?.reactants} />
+            <div className="flex flex-col items-center shrink-0">
+              {reactionLabel && (
+                <span className="max-w-40 text-center text-xs text-muted-foreground">{reactionLabel}</span>
+              )}
+              <ArrowRight className="h-6 w-6 text-primary" />
+              {mapping && (
+                <span className="max-w-40 text-center text-xs text-rose-600" title={`Chemical distance ${mapping.chemicalDistance}`}>
+                  {mapping.reactionType}
+                </span>
+              )}
+            </div>
+            {schemeProducts.length > 0 ? (
+              <SchemeSide smiles={schemeProducts} mapped={mapping?.products} />
+            ) : (
+              <span className="text-sm text-muted-foreground px-6">?</span>
+            )}
+          </div>
+          {balance && (
+            <div
+              className={`mt-3 flex items-center justify-center gap-2 text-sm ${balance.balanced ? "text-muted-foreground" : "text-amber-600"}`}
+            >
+              {balance.balanced ? <Scale className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+              <span className="font-mono">{balance.equation}</span>
+              {balance.balanced && !balance.unique && <span className="text-xs">(one of several balances)</span>}
+            </div>
+          )}
+        </Card>
+      )}
+
       {/* Molecular Visualization */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="space-y-4">
@@ -84,3 +134,22 @@ export function ReactionVisualization({
     </>
   );
 }
+
+// With a mapping, each species is drawn from its mapped SMILES so the changed bonds line up
+function SchemeSide({ smiles, mapped }: { smiles: string[]; mapped?: MappedSpecies[] }) {
+  return (
+    <>
+      {smiles.map((s, i) => (
+        <Fragment key={`${i}-${s}`}>
+          {i > 0 && <span className="text-xl text-muted-foreground">+</span>}
+          <StructureDiagram
+            smiles={mapped?.[i]?.smiles ?? s}
+            changedBonds={mapped?.[i]?.changedBonds}
+            width={140}
+            height={100}
+          />
+        </Fragment>
+      ))}
+    </>
+  );
+}
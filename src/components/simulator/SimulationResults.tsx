@@ -0,0 +1,268 @@
+import { type ReactNode, useMemo, useRef } from "react";
+import { Download, Image } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, LabelList, Line, LineChart, XAxis, YAxis } from "recharts";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import type { SimulationResults } from "@/lib/chem/kinetics";
+import {
+  concentrationTable,
+  type CsvTable,
+  energyDiagramPoints,
+  energyTable,
+  speciesLabel,
+  summaryTable,
+  timeUnit,
+  toCsv,
+} from "@/lib/simulationCharts";
+
+type Props = {
+  results: SimulationResults;
+  /** Prefix for exported file names. */
+  fileName?: string;
+};
+
+const chartColor = (i: number) => `var(--chart-${(i % 5) + 1})`;
+
+function download(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Render a chart's SVG to a PNG with its title and legend. Theme colours are CSS variables,
+ * which a standalone SVG image cannot see, so computed fills and strokes are copied inline.
+ */
+async function chartPng(container: HTMLElement, title: string, legend: Array<{ label: string; color: string }>): Promise<Blob> {
+  const svg = container.querySelector<SVGSVGElement>("svg.recharts-surface");
+  if (!svg) throw new Error("No chart to export");
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const copies = clone.querySelectorAll<SVGElement>("*");
+  svg.querySelectorAll("*").forEach((element, i) => {
+    const style = getComputedStyle(element);
+    copies[i].setAttribute("fill", style.fill);
+    copies[i].setAttribute("stroke", style.stroke);
+    copies[i].setAttribute("font-family", style.fontFamily);
+    copies[i].setAttribute("font-size", style.fontSize);
+  });
+  const { width, height } = svg.getBoundingClientRect();
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+
+  const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(clone)], { type: "image/svg+xml" }));
+  try {
+    const image = new window.Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("The chart could not be rendered"));
+      image.src = url;
+    });
+
+    const scale = 2;
+    const header = 32;
+    const footer = legend.length > 0 ? 28 : 0;
+    const canvas = document.createElement("canvas");
+    canvas.width = width * scale;
+    canvas.height = (height + header + footer) * scale;
+    const context = canvas.getContext("2d")!;
+    context.scale(scale, scale);
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, width, height + header + footer);
+    context.fillStyle = "#111827";
+    context.font = "600 14px Arial, Helvetica, sans-serif";
+    context.fillText(title, 12, 22);
+    context.drawImage(image, 0, header, width, height);
+
+    // Legend entries in a row under the chart, in the colours the chart used
+    const probe = document.createElement("span");
+    container.appendChild(probe);
+    context.font = "12px Arial, Helvetica, sans-serif";
+    let x = 12;
+    for (const { label, color } of legend) {
+      probe.style.color = color;
+      context.fillStyle = getComputedStyle(probe).color;
+      context.fillRect(x, height + header + 10, 10, 10);
+      context.fillStyle = "#111827";
+      context.fillText(label, x + 14, height + header + 19);
+      x += context.measureText(label).width + 30;
+    }
+    probe.remove();
+
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("PNG encoding failed"))), "image/png"),
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function ChartCard({
+  title,
+  description,
+  table,
+  fileName,
+  legend = [],
+  children,
+}: {
+  title: string;
+  description?: string;
+  table: CsvTable;
+  fileName: string;
+  legend?: Array<{ label: string; color: string }>;
+  children: ReactNode;
+}) {
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  const exportPng = async () => {
+    try {
+      download(await chartPng(chartRef.current!, title, legend), `${fileName}.png`);
+    } catch (e) {
+      toast.error(`PNG export failed: ${e instanceof Error ? e.message : "unknown error"}`);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+        <div className="space-y-1">
+          <CardTitle className="text-base">{title}</CardTitle>
+          {description && <CardDescription>{description}</CardDescription>}
+        </div>
+        <div className="flex gap-1 shrink-0">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => download(new Blob([toCsv(table)], { type: "text/csv" }), `${fileName}.csv`)}
+          >
+            <Download className="h-4 w-4 mr-1" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={exportPng}>
+            <Image className="h-4 w-4 mr-1" />
+            PNG
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent ref={chartRef}>{children}</CardContent>
+    </Card>
+  );
+}
+
+/** Charts for one simulation run: concentrations over time, the energy diagram, and conversion and yield. */
+export function SimulationResultsView({ results, fileName = "simulation" }: Props) {
+  const concentrations = useMemo(() => {
+    const series = results.concentrations ?? [];
+    const times = results.times ?? [];
+    const unit = timeUnit(times[times.length - 1] ?? 0);
+    const config: ChartConfig = Object.fromEntries(
+      series.map((s, i) => [`s${i}`, { label: speciesLabel(s.species), color: chartColor(i) }]),
+    );
+    const data = times.map((t, i) => ({
+      t: t / unit.factor,
+      ...Object.fromEntries(series.map((s, k) => [`s${k}`, s.values[i]])),
+    }));
+    return { series, unit, config, data };
+  }, [results.concentrations, results.times]);
+
+  const energy = useMemo(
+    () => energyDiagramPoints(results.energyProfile, results.intermediates),
+    [results.energyProfile, results.intermediates],
+  );
+
+  const summary = [
+    ...(results.conversion !== undefined ? [{ name: "Conversion", value: results.conversion * 100 }] : []),
+    { name: "Yield", value: results.yieldPrediction * 100 },
+  ];
+
+  return (
+    <div className="space-y-4">
+      {concentrations.data.length > 0 && (
+        <ChartCard
+          title="Concentration over time"
+          description={results.reactionType ? `${results.reactionType} kinetics, mol/L` : "mol/L"}
+          table={concentrationTable(results)}
+          fileName={`${fileName}-concentrations`}
+          legend={concentrations.series.map((s, i) => ({ label: speciesLabel(s.species), color: chartColor(i) }))}
+        >
+          <ChartContainer config={concentrations.config} className="aspect-auto h-64 w-full">
+            <LineChart data={concentrations.data} margin={{ left: 4, right: 12, top: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="t"
+                type="number"
+                domain={[0, "dataMax"]}
+                tickFormatter={(t: number) => `${Number(t.toPrecision(3))}`}
+                label={{ value: `Time (${concentrations.unit.label})`, position: "insideBottom", offset: -2 }}
+                height={36}
+              />
+              <YAxis width={48} tickFormatter={(c: number) => `${Number(c.toPrecision(2))}`} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, p) => `t = ${p[0]?.payload.t} ${concentrations.unit.label}`} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {concentrations.series.map((_, i) => (
+                <Line key={i} dataKey={`s${i}`} stroke={`var(--color-s${i})`} strokeWidth={2} dot={false} isAnimationActive={false} />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        </ChartCard>
+      )}
+
+      {energy.length > 1 && (
+        <ChartCard
+          title="Energy diagram"
+          description="Relative energy along the reaction coordinate, kJ/mol"
+          table={energyTable(results)}
+          fileName={`${fileName}-energy`}
+        >
+          <ChartContainer config={{ energy: { label: "Energy (kJ/mol)", color: chartColor(0) } }} className="aspect-auto h-64 w-full">
+            <LineChart data={energy} margin={{ left: 4, right: 24, top: 24 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" interval={0} />
+              <YAxis width={48} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line
+                type="monotone"
+                dataKey="energy"
+                stroke="var(--color-energy)"
+                strokeWidth={2}
+                dot={{ r: 4 }}
+                isAnimationActive={false}
+              >
+                <LabelList dataKey="energy" position="top" formatter={(e: number) => e.toFixed(0)} />
+              </Line>
+            </LineChart>
+          </ChartContainer>
+        </ChartCard>
+      )}
+
+      <ChartCard
+        title="Conversion and yield"
+        description="Limiting reactant consumed and main product formed at the end of the run, %"
+        table={summaryTable(results)}
+        fileName={`${fileName}-summary`}
+      >
+        <ChartContainer config={{ value: { label: "Percent", color: chartColor(1) } }} className="aspect-auto h-40 w-full">
+          <BarChart data={summary} layout="vertical" margin={{ left: 12, right: 40 }}>
+            <XAxis type="number" domain={[0, 100]} />
+            <YAxis type="category" dataKey="name" width={80} />
+            <Bar dataKey="value" fill="var(--color-value)" radius={4} isAnimationActive={false}>
+              <LabelList dataKey="value" position="right" formatter={(v: number) => `${v.toFixed(1)}%`} />
+            </Bar>
+          </BarChart>
+        </ChartContainer>
+      </ChartCard>
+    </div>
+  );
+}
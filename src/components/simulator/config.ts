@@ -1,9 +1,15 @@
 // Centralized simulator config: types, constants, and helpers
 
+import { tryCanonicalSmiles } from "@/lib/chem/canonical";
+import { moleculeSignature } from "@/lib/chem/molecule";
+import { tryParseSmiles } from "@/lib/chem/smiles";
+
 export type ReactionConditions = {
   temperature: number;
   pressure: number;
   solvent: string;
+  /** Starting concentration per unit coefficient of the balanced reactants, mol/L. */
+  concentration: number;
 };
 
 // Solvent SMILES map
@@ -29,6 +35,13 @@ export const SOLVENT_SMILES: Record<string, string> = {
   dioxane: "O1CCOCC1",
 };
 
+// Solvent key for a structure (compared canonically), e.g. when a reaction SMILES lists the solvent as an agent
+export const solventKeyForSmiles = (smiles: string) => {
+  const key = tryCanonicalSmiles(smiles);
+  if (!key) return undefined;
+  return Object.keys(SOLVENT_SMILES).find((solvent) => tryCanonicalSmiles(SOLVENT_SMILES[solvent]) === key);
+};
+
 // Common library lists
 export const COMMON_REACTANTS: Array<{ label: string; smiles: string }> = [
   { label: "Ethanol", smiles: "CCO" },
@@ -50,6 +63,16 @@ export const COMMON_SOLUTES: Array<{ label: string; smiles: string }> = [
   { label: "Sulfuric Acid", smiles: "O=S(=O)(O)O" },
   { label: "Potassium Carbonate", smiles: "[K+].[K+].[O-]C(=O)[O-]" },
   { label: "Lithium Aluminum Hydride", smiles: "[Li+].[AlH4-]" },
+  { label: "Sodium Borohydride", smiles: "[Na+].[BH4-]" },
+  { label: "Potassium Permanganate", smiles: "[K+].[O-][Mn](=O)(=O)=O" },
+  { label: "Pyridinium Chlorochromate", smiles: "c1cc[nH+]cc1.[O-][Cr](=O)(=O)Cl" },
+  { label: "Nitric Acid", smiles: "O[N+](=O)[O-]" },
+  { label: "Bromine", smiles: "BrBr" },
+  { label: "Sodium Cyanide", smiles: "[Na+].[C-]#N" },
+  { label: "Potassium tert-Butoxide", smiles: "[K+].CC(C)(C)[O-]" },
+  { label: "Sodium Hydride", smiles: "[Na+].[H-]" },
+  { label: "Sodium Cyanoborohydride", smiles: "[Na+].[BH3-]C#N" },
+  { label: "Palladium(II) Acetate", smiles: "CC(=O)[O-].CC(=O)[O-].[Pd+2]" },
 ];
 
 // Select options for solvents
@@ -74,40 +97,17 @@ export const SOLVENT_OPTIONS: Array<{ key: string; label: string }> = [
   { key: "ether", label: "Diethyl Ether" },
 ];
 
-// Estimate time helper (display-only heuristic)
-export const estimateReactionTimeMinutes = (
-  reactantsCount: number,
-  solutesCount: number,
-  solventKey: string,
-  temperatureK: number,
-  pressureAtm: number,
-) => {
-  let base = 30 + reactantsCount * 20 + solutesCount * 10; // base minutes
-  const solventFactor: Record<string, number> = {
-    water: 1.0,
-    ethanol: 0.9,
-    methanol: 0.85,
-    isopropanol: 0.95,
-    acetone: 0.8,
-    acetonitrile: 0.75,
-    dmso: 1.1,
-    dmf: 1.15,
-    thf: 0.9,
-    dichloromethane: 0.7,
-    chloroform: 0.8,
-    benzene: 1.05,
-    toluene: 1.0,
-    xylene: 1.05,
-    dioxane: 0.95,
-    hexane: 1.1,
-    heptane: 1.15,
-    ether: 0.85,
-  };
-  base *= solventFactor[solventKey] ?? 1.0;
-  const tempFactor = Math.max(0.4, 1.6 - (temperatureK - 273) / 300);
-  const pressureFactor = Math.max(0.7, 1.2 - (pressureAtm - 1) * 0.05);
-  const minutes = Math.max(5, Math.round(base * tempFactor * pressureFactor));
-  return minutes;
+// Length and reporting interval (s) of the kinetics run shown in the simulator and stored on save
+export const KINETICS_RUN = { duration: 4 * 3600, timeStep: 120 };
+
+// Compact duration for estimates: "45 s", "12 min", "3 h 20 min", "2.5 days"
+export const formatDuration = (seconds: number) => {
+  if (seconds < 60) return `${Math.max(1, Math.round(seconds))} s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 48 * 60) return minutes % 60 ? `${Math.floor(minutes / 60)} h ${minutes % 60} min` : `${minutes / 60} h`;
+  const days = seconds / 86400;
+  return days < 365 ? `${Number(days.toPrecision(2))} days` : `${Number((days / 365).toPrecision(2))} years`;
 };
 
 // Deterministic pseudo-score helper for mock metrics
@@ -120,3 +120,13 @@ export const scoreFromSeed = (seed: string, salt: string) => {
   }
   return 5 + (h >>> 0) % 91; // map to 5..95
 };
+
+// Seed for scoreFromSeed built from the parsed structures, so equivalent spellings
+// ("CCO" vs "OCC") score the same; unparseable entries fall back to their raw text
+export const structureSeed = (smilesList: string[]) =>
+  smilesList
+    .map((s) => {
+      const mol = tryParseSmiles(s);
+      return mol ? moleculeSignature(mol) : s;
+    })
+    .join(".");
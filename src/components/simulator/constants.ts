@@ -8,7 +8,6 @@ export {
   COMMON_REACTANTS,
   COMMON_SOLUTES,
   SOLVENT_OPTIONS,
-  estimateReactionTimeMinutes,
   // Also expose scoreFromSeed for convenience if some code imported it from here.
   scoreFromSeed,
 } from "./config";
@@ -21,6 +21,7 @@ import type * as http from "../http.js";
 import type * as molecules from "../molecules.js";
 import type * as pubchem from "../pubchem.js";
 import type * as reactions from "../reactions.js";
+import type * as simulations from "../simulations.js";
 import type * as users from "../users.js";
 
 /**
@@ -40,6 +41,7 @@ declare const fullApi: ApiFromModules<{
   molecules: typeof molecules;
   pubchem: typeof pubchem;
   reactions: typeof reactions;
+  simulations: typeof simulations;
   users: typeof users;
 }>;
 export declare const api: FilterApi<
@@ -1,23 +1,74 @@
 "use node";
 
 import { action } from "./_generated/server";
-import { v } from "convex/values";
+import { ConvexError, v } from "convex/values";
 import { internal } from "./_generated/api";
+import { validateSmiles } from "../lib/chem/validate";
+import { tryCanonicalSmiles } from "../lib/chem/canonical";
+import { embedMolecule } from "../lib/chem/conformer";
+import { depictMolecule } from "../lib/chem/depict";
+import { computeDescriptors as localDescriptors } from "../lib/chem/descriptors";
+import { predictReactions, REACTION_LIBRARY_VERSION, type ReactionOutcome } from "../lib/chem/reactionTemplates";
+import type { Molecule } from "../lib/chem/molecule";
+import { tryParseSmiles } from "../lib/chem/smiles";
 
-type ValidatedStructure = { isValid: boolean; message?: string };
-type CanonicalSmiles = { canonicalSmiles: string };
-type Descriptors = Record<string, number>;
-type ProductPrediction = { products: string[] };
+// Which engine produced a result: the FastAPI backend or the in-repo chem library
+type Engine = "fastapi" | "local";
+type ValidatedStructure = { isValid: boolean; message?: string; engine?: Engine };
+type CanonicalSmiles = { canonicalSmiles: string; engine?: Engine };
+type Descriptors = { descriptors: Record<string, number>; engine: Engine };
+type ProductPrediction = {
+  products: string[];
+  byproducts: string[];
+  /** The template that gave the products; null for FastAPI predictions or when nothing reacts. */
+  template: { id: string; name: string } | null;
+  /** Every outcome the local templates found, main outcome first (empty for FastAPI). */
+  outcomes: ReactionOutcome[];
+  /** Version of the named-reaction catalogue behind a local prediction. */
+  libraryVersion?: number;
+  engine: Engine;
+};
+type PredictionRequest = {
+  reactants: string[];
+  reagents?: string[];
+  conditions?: { temperature?: number; pressure?: number; solvent?: string };
+  solventSmiles?: string;
+};
 type Coordinates = Array<{ x: number; y: number; z?: number }>;
+type Conformer3D = { coordinates: Coordinates; engine: Engine };
+type Layout2D = { coordinates: Coordinates; engine: Engine };
 
-const BASE_URL = process.env.FASTAPI_CHEM_BASE_URL;
-const API_KEY = process.env.FASTAPI_CHEM_API_KEY;
+// Read at call time so configuration changes (and tests) take effect without a reload
+const isFastApiConfigured = () => Boolean(process.env.FASTAPI_CHEM_BASE_URL);
+const currentEngine = (): Engine => (isFastApiConfigured() ? "fastapi" : "local");
+// A FastAPI call taking longer than this is abandoned for the local answer
+const FASTAPI_TIMEOUT_MS = 10_000;
+
+// Invalid input reaches the client as a readable error rather than a parser exception
+function parseOrReject(smiles: string): Molecule {
+  const mol = tryParseSmiles(smiles);
+  if (!mol) throw new ConvexError(`Invalid SMILES: ${smiles}`);
+  return mol;
+}
+
+// FastAPI when configured, the local engine when it is not or when the call fails or times out
+async function preferFastApi<T>(endpoint: string, remote: () => Promise<T>, local: () => T): Promise<T> {
+  if (!isFastApiConfigured()) return local();
+  try {
+    return await remote();
+  } catch (e) {
+    console.warn(`FastAPI ${endpoint} failed; answering with the local engine`, e);
+    return local();
+  }
+}
 
 // Helper to call the external FastAPI cheminformatics backend
 async function callFastApi<T>(ctx: any, endpoint: string, data: unknown): Promise<T> {
   // Mark ctx as intentionally unused to satisfy strict TS settings
   void ctx;
 
+  const BASE_URL = process.env.FASTAPI_CHEM_BASE_URL;
+  const API_KEY = process.env.FASTAPI_CHEM_API_KEY;
   if (!BASE_URL) {
     throw new Error("FASTAPI_CHEM_BASE_URL is not set. Configure it in Integrations > FastAPI Cheminformatics.");
   }
@@ -29,6 +80,7 @@ async function callFastApi<T>(ctx: any, endpoint: string, data: unknown): Promis
     method: "POST",
     headers,
     body: JSON.stringify(data),
+    signal: AbortSignal.timeout(FASTAPI_TIMEOUT_MS),
   });
 
   if (!res.ok) {
@@ -38,24 +90,113 @@ async function callFastApi<T>(ctx: any, endpoint: string, data: unknown): Promis
   return res.json() as Promise<T>;
 }
 
+// Validate via FastAPI when available, otherwise with the local SMILES validator
+async function validateWithFallback(ctx: unknown, structure: string): Promise<ValidatedStructure> {
+  return await preferFastApi<ValidatedStructure>(
+    "/validate",
+    async () => ({ ...(await callFastApi<ValidatedStructure>(ctx, "/validate", { structure })), engine: "fastapi" }),
+    () => {
+      const { isValid, message } = validateSmiles(structure);
+      return { isValid, ...(message ? { message } : {}), engine: "local" };
+    },
+  );
+}
+
+// Canonicalize via FastAPI when available, otherwise with the local canonical SMILES writer
+async function normalizeWithFallback(ctx: unknown, smiles: string): Promise<CanonicalSmiles> {
+  return await preferFastApi<CanonicalSmiles>(
+    "/normalize_smiles",
+    async () => ({ ...(await callFastApi<CanonicalSmiles>(ctx, "/normalize_smiles", { smiles })), engine: "fastapi" }),
+    () => {
+      const canonical = tryCanonicalSmiles(smiles);
+      if (canonical === null) throw new ConvexError(`Invalid SMILES: ${smiles}`);
+      return { canonicalSmiles: canonical, engine: "local" };
+    },
+  );
+}
+
+// 3D coordinates via FastAPI when available, otherwise the local embedding (explicit H appended)
+async function embed3DWithFallback(ctx: unknown, smiles: string): Promise<Conformer3D> {
+  return await preferFastApi<Conformer3D>(
+    "/generate_3d",
+    async () => ({ coordinates: await callFastApi<Coordinates>(ctx, "/generate_3d", { smiles }), engine: "fastapi" }),
+    () => ({ coordinates: embedMolecule(parseOrReject(smiles)).coordinates, engine: "local" }),
+  );
+}
+
+// Descriptors via FastAPI when available, otherwise the local Crippen/Ertl descriptor set
+async function descriptorsWithFallback(ctx: unknown, smiles: string): Promise<Descriptors> {
+  return await preferFastApi<Descriptors>(
+    "/descriptors",
+    async () => ({
+      descriptors: await callFastApi<Record<string, number>>(ctx, "/descriptors", { smiles }),
+      engine: "fastapi",
+    }),
+    () => ({ descriptors: { ...localDescriptors(parseOrReject(smiles)) }, engine: "local" }),
+  );
+}
+
+// Products via FastAPI when available, otherwise by applying the local SMIRKS templates
+async function predictWithFallback(ctx: unknown, request: PredictionRequest): Promise<ProductPrediction> {
+  const { reactants, reagents = [], conditions = {}, solventSmiles } = request;
+  return await preferFastApi<ProductPrediction>(
+    "/predict_products",
+    async () => {
+      const result = await callFastApi<{ products: string[]; byproducts?: string[] }>(ctx, "/predict_products", {
+        reactants,
+        reagents,
+        conditions,
+      });
+      return { products: result.products, byproducts: result.byproducts ?? [], template: null, outcomes: [], engine: "fastapi" };
+    },
+    () => {
+      const outcomes = predictReactions({
+        reactants,
+        solutes: reagents,
+        solvent: conditions.solvent ?? "water",
+        solventSmiles,
+        temperature: conditions.temperature ?? 298,
+      });
+      const [main] = outcomes;
+      return {
+        products: main?.products ?? [],
+        byproducts: main?.byproducts ?? [],
+        template: main ? { id: main.templateId, name: main.templateName } : null,
+        outcomes,
+        libraryVersion: REACTION_LIBRARY_VERSION,
+        engine: "local",
+      };
+    },
+  );
+}
+
+// 2D layout via FastAPI when available, otherwise the local one (one point per SMILES atom, in bond lengths)
+async function layout2DWithFallback(ctx: unknown, smiles: string): Promise<Layout2D> {
+  return await preferFastApi<Layout2D>(
+    "/generate_2d",
+    async () => ({ coordinates: await callFastApi<Coordinates>(ctx, "/generate_2d", { smiles }), engine: "fastapi" }),
+    () => ({ coordinates: depictMolecule(parseOrReject(smiles)).coordinates, engine: "local" }),
+  );
+}
+
 export const validateStructure = action({
   args: { structure: v.string() },
   handler: async (ctx, { structure }): Promise<ValidatedStructure> => {
-    return await callFastApi<ValidatedStructure>(ctx, "/validate", { structure });
+    return await validateWithFallback(ctx, structure);
   },
 });
 
 export const normalizeSmiles = action({
   args: { smiles: v.string() },
   handler: async (ctx, { smiles }): Promise<CanonicalSmiles> => {
-    return await callFastApi<CanonicalSmiles>(ctx, "/normalize_smiles", { smiles });
+    return await normalizeWithFallback(ctx, smiles);
   },
 });
 
 export const computeDescriptors = action({
   args: { smiles: v.string() },
-  handler: async (ctx, { smiles }): Promise<Descriptors> => {
-    return await callFastApi<Descriptors>(ctx, "/descriptors", { smiles });
+  handler: async (ctx, { smiles }): Promise<Record<string, number>> => {
+    return (await descriptorsWithFallback(ctx, smiles)).descriptors;
   },
 });
 
@@ -68,27 +209,33 @@ export const predictProducts = action({
       pressure: v.optional(v.number()),
       solvent: v.optional(v.string()),
     })),
+    // Lets the local templates use the solvent as a reactant (hydrolysis in water, etc.)
+    solventSmiles: v.optional(v.string()),
   },
-  handler: async (ctx, { reactants, reagents, conditions }): Promise<ProductPrediction> => {
-    return await callFastApi<ProductPrediction>(ctx, "/predict_products", {
-      reactants,
-      reagents: reagents ?? [],
-      conditions: conditions ?? {},
-    });
+  handler: async (ctx, args): Promise<ProductPrediction> => {
+    return await predictWithFallback(ctx, args);
   },
 });
 
 export const generate2DCoordinates = action({
   args: { smiles: v.string() },
   handler: async (ctx, { smiles }): Promise<Coordinates> => {
-    return await callFastApi<Coordinates>(ctx, "/generate_2d", { smiles });
+    return (await layout2DWithFallback(ctx, smiles)).coordinates;
   },
 });
 
 export const generate3DCoordinates = action({
   args: { smiles: v.string() },
   handler: async (ctx, { smiles }): Promise<Coordinates> => {
-    return await callFastApi<Coordinates>(ctx, "/generate_3d", { smiles });
+    return (await embed3DWithFallback(ctx, smiles)).coordinates;
+  },
+});
+
+// Which engine the actions above answer with, so clients can skip calls the local library already covers
+export const engineStatus = action({
+  args: {},
+  handler: async (): Promise<{ engine: Engine }> => {
+    return { engine: currentEngine() };
   },
 });
 
@@ -96,7 +243,7 @@ export const generate3DCoordinates = action({
 export const processAndSaveStructure = action({
   args: { structure: v.string() },
   handler: async (ctx, { structure }) => {
-    const result = await callFastApi<ValidatedStructure>(ctx, "/validate", { structure });
+    const result = await validateWithFallback(ctx, structure);
     await ctx.runMutation(internal.cheminfoMutations.storeChemResult, {
       type: "structure_validation",
       input: structure,
@@ -111,4 +258,12 @@ export const processAndSaveStructure = action({
 // eslint-disable-next-line @typescript-eslint/naming-convention
 export const __test = {
   callFastApi,
+  currentEngine,
+  preferFastApi,
+  validateWithFallback,
+  normalizeWithFallback,
+  embed3DWithFallback,
+  layout2DWithFallback,
+  descriptorsWithFallback,
+  predictWithFallback,
 };
\ No newline at end of file
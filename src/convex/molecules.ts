@@ -1,17 +1,105 @@
-import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { type Infer, v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { type MutationCtx, mutation, query } from "./_generated/server";
 import { getCurrentUser } from "./users";
+import { tryCanonicalSmiles } from "../lib/chem/canonical";
+import { descriptorsFromSmiles } from "../lib/chem/descriptors";
+import { FINGERPRINT_VERSION, moleculeFingerprints, tanimoto } from "../lib/chem/fingerprint";
+import { formulaFromSmiles } from "../lib/chem/formula";
+import { parseSmarts, SmartsParseError, type SmartsQuery, substructureMatches } from "../lib/chem/smarts";
+import { tryParseSmiles } from "../lib/chem/smiles";
+
+const moleculeProperties = v.object({
+  molecularWeight: v.optional(v.number()),
+  logP: v.optional(v.number()),
+  toxicity: v.optional(v.string()),
+  hazardLevel: v.optional(v.string()),
+  sdFields: v.optional(v.array(v.object({ name: v.string(), value: v.string() }))),
+});
+
+type MoleculeInput = {
+  name: string;
+  smiles: string;
+  formula?: string;
+  properties?: Infer<typeof moleculeProperties>;
+};
+
+// Insert a molecule for the user unless the same structure is already in their library
+async function insertMolecule(ctx: MutationCtx, userId: Id<"users">, args: MoleculeInput) {
+  // The same structure written differently is the same library entry
+  const canonicalSmiles = tryCanonicalSmiles(args.smiles) ?? undefined;
+  if (canonicalSmiles) {
+    const existing = await ctx.db
+      .query("molecules")
+      .withIndex("by_user_canonical", (q) =>
+        q.eq("userId", userId).eq("canonicalSmiles", canonicalSmiles),
+      )
+      .first();
+    if (existing) return { id: existing._id, created: false };
+
+    // Entries saved before the key existed have none until the backfill reaches them; compare
+    // their structures directly and store the key on a match
+    const unkeyed = await ctx.db
+      .query("molecules")
+      .withIndex("by_user_canonical", (q) => q.eq("userId", userId).eq("canonicalSmiles", undefined))
+      .collect();
+    const legacy = unkeyed.find((m) => tryCanonicalSmiles(m.smiles) === canonicalSmiles);
+    if (legacy) {
+      await ctx.db.patch(legacy._id, { canonicalSmiles });
+      return { id: legacy._id, created: false };
+    }
+  }
+
+  // Formula and molecular weight come from the structure rather than the caller
+  const computed = formulaFromSmiles(args.smiles);
+  const molecularWeight = computed
+    ? Math.round(computed.averageMass * 1000) / 1000
+    : args.properties?.molecularWeight;
+  // Computed logP only fills the gap; a measured value supplied with the molecule wins
+  const descriptors = descriptorsFromSmiles(args.smiles) ?? undefined;
+  const logP = args.properties?.logP ?? descriptors?.logP;
+
+  const id = await ctx.db.insert("molecules", {
+    ...args,
+    formula: computed?.formula ?? args.formula ?? "",
+    properties: {
+      ...args.properties,
+      ...(molecularWeight !== undefined ? { molecularWeight } : {}),
+      ...(logP !== undefined ? { logP } : {}),
+      ...(descriptors ? { descriptors } : {}),
+    },
+    canonicalSmiles,
+    fingerprints: moleculeFingerprints(args.smiles) ?? undefined,
+    userId,
+  });
+  return { id, created: true };
+}
 
 export const saveMolecule = mutation({
   args: {
     name: v.string(),
     smiles: v.string(),
-    formula: v.string(),
-    properties: v.optional(v.object({
-      molecularWeight: v.optional(v.number()),
-      logP: v.optional(v.number()),
-      toxicity: v.optional(v.string()),
-      hazardLevel: v.optional(v.string()),
+    formula: v.optional(v.string()), // computed from the SMILES when it parses
+    properties: v.optional(moleculeProperties),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Authentication required");
+    }
+
+    const { id } = await insertMolecule(ctx, user._id, args);
+    return id;
+  },
+});
+
+// One batch of a bulk library import; the client splits large files into several calls
+export const importMolecules = mutation({
+  args: {
+    molecules: v.array(v.object({
+      name: v.string(),
+      smiles: v.string(),
+      properties: v.optional(moleculeProperties),
     })),
   },
   handler: async (ctx, args) => {
@@ -19,11 +107,63 @@ export const saveMolecule = mutation({
     if (!user) {
       throw new Error("Authentication required");
     }
+    if (args.molecules.length > 100) {
+      throw new Error("Import at most 100 molecules per batch");
+    }
 
-    return await ctx.db.insert("molecules", {
-      ...args,
-      userId: user._id,
-    });
+    let inserted = 0;
+    let duplicates = 0;
+    for (const molecule of args.molecules) {
+      const { created } = await insertMolecule(ctx, user._id, molecule);
+      if (created) inserted++;
+      else duplicates++;
+    }
+    return { inserted, duplicates };
+  },
+});
+
+// Molecules checked per backfill call, so a large library stays within one transaction's limits
+const BACKFILL_BATCH = 50;
+
+// Store canonical SMILES, fingerprints and descriptors on the user's molecules saved before they
+// were computed (or under an older canonical form); one page per call, the client passes the
+// returned cursor back until isDone
+export const backfillComputedProperties = mutation({
+  args: { cursor: v.union(v.string(), v.null()) },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Authentication required");
+    }
+
+    const page = await ctx.db
+      .query("molecules")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .paginate({ cursor: args.cursor, numItems: BACKFILL_BATCH });
+    let updated = 0;
+    for (const molecule of page.page) {
+      const patch: Partial<Doc<"molecules">> = {};
+      const canonicalSmiles = tryCanonicalSmiles(molecule.smiles);
+      if (canonicalSmiles && canonicalSmiles !== molecule.canonicalSmiles) patch.canonicalSmiles = canonicalSmiles;
+      if (molecule.fingerprints?.version !== FINGERPRINT_VERSION) {
+        const fingerprints = moleculeFingerprints(molecule.smiles);
+        if (fingerprints) patch.fingerprints = fingerprints;
+      }
+      if (!molecule.properties?.descriptors) {
+        const descriptors = descriptorsFromSmiles(molecule.smiles);
+        if (descriptors) {
+          patch.properties = {
+            ...molecule.properties,
+            logP: molecule.properties?.logP ?? descriptors.logP,
+            descriptors,
+          };
+        }
+      }
+      if (Object.keys(patch).length === 0) continue;
+      await ctx.db.patch(molecule._id, patch);
+      updated++;
+    }
+    return { updated, continueCursor: page.continueCursor, isDone: page.isDone };
   },
 });
 
@@ -42,6 +182,73 @@ export const getUserMolecules = query({
   },
 });
 
+// Library entries containing a SMARTS pattern, with the matched atoms of each (SMILES atom order)
+export const searchMolecules = query({
+  args: { smarts: v.string() },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    let pattern: SmartsQuery;
+    try {
+      pattern = parseSmarts(args.smarts);
+    } catch (e) {
+      throw new Error(e instanceof SmartsParseError ? e.message : "Invalid SMARTS pattern");
+    }
+
+    const molecules = await ctx.db
+      .query("molecules")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    return molecules.flatMap((molecule) => {
+      const target = tryParseSmiles(molecule.smiles);
+      if (!target) return [];
+      const matches = substructureMatches(target, pattern, { maxMatches: 50 });
+      return matches.length > 0 ? [{ ...molecule, matches }] : [];
+    });
+  },
+});
+
+// The user's molecules ranked by Tanimoto similarity to a SMILES string, most similar first
+export const similarMolecules = query({
+  args: {
+    smiles: v.string(),
+    kind: v.optional(v.union(v.literal("ecfp4"), v.literal("path"))),
+    limit: v.optional(v.number()),
+    minSimilarity: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const reference = moleculeFingerprints(args.smiles);
+    if (!reference) {
+      return [];
+    }
+    const kind = args.kind ?? "ecfp4";
+
+    const molecules = await ctx.db
+      .query("molecules")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    return molecules
+      .flatMap((molecule) => {
+        // Molecules saved before fingerprints (or under an older version) are fingerprinted here
+        const stored = molecule.fingerprints?.version === FINGERPRINT_VERSION ? molecule.fingerprints : null;
+        const fingerprints = stored ?? moleculeFingerprints(molecule.smiles);
+        if (!fingerprints) return [];
+        const similarity = tanimoto(reference[kind], fingerprints[kind]);
+        return similarity >= (args.minSimilarity ?? 0) ? [{ ...molecule, similarity }] : [];
+      })
+      .sort((a, b) => b.similarity - a.similarity || a.name.localeCompare(b.name))
+      .slice(0, args.limit ?? 10);
+  },
+});
+
 export const getMolecule = query({
   args: { id: v.id("molecules") },
   handler: async (ctx, args) => {
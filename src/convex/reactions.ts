@@ -1,42 +1,120 @@
-import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { type Infer, v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { action, internalMutation, internalQuery, type QueryCtx, query } from "./_generated/server";
+import {
+  atomMappingValidator,
+  complianceStatusValidator,
+  reactionConditionsValidator,
+  safetyAnalysisValidator,
+  stoichiometryValidator,
+} from "./schema";
 import { getCurrentUser } from "./users";
+import { canonicalReactionKey } from "../lib/chem/canonical";
+import { mapReaction } from "../lib/chem/atomMapping";
+import { balanceReaction } from "../lib/chem/stoichiometry";
+import { reactionThermo } from "../lib/chem/thermochemistry";
 
-export const saveReaction = mutation({
-  args: {
-    name: v.string(),
-    reactants: v.array(v.string()), // SMILES strings
-    products: v.array(v.string()), // SMILES strings
-    conditions: v.object({
-      temperature: v.number(),
-      pressure: v.number(),
-      solvent: v.string(),
-    }),
-    safetyAnalysis: v.optional(v.object({
-      hazardLevel: v.string(),
-      toxicity: v.string(),
-      flammability: v.string(),
-      energyRelease: v.number(),
-    })),
-    complianceStatus: v.optional(v.object({
-      fda: v.string(),
-      reach: v.string(),
-      osha: v.string(),
-    })),
-  },
-  handler: async (ctx, args) => {
-    const user = await getCurrentUser(ctx);
-    if (!user) {
+const reactionArgs = {
+  name: v.string(),
+  reactants: v.array(v.string()), // SMILES strings
+  agents: v.optional(v.array(v.string())), // solutes, reagents and solvent
+  products: v.array(v.string()), // SMILES strings
+  conditions: reactionConditionsValidator,
+  safetyAnalysis: v.optional(safetyAnalysisValidator),
+  complianceStatus: v.optional(complianceStatusValidator),
+};
+
+// Re-saving the same reaction under the same conditions finds the existing record
+async function findSaved(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  canonicalKey: string | undefined,
+  conditions: Infer<typeof reactionConditionsValidator>,
+) {
+  if (!canonicalKey) return null;
+  const matches = await ctx.db
+    .query("reactions")
+    .withIndex("by_user_canonical", (q) => q.eq("userId", userId).eq("canonicalKey", canonicalKey))
+    .collect();
+  return (
+    matches.find(
+      (r) =>
+        r.conditions.temperature === conditions.temperature &&
+        r.conditions.pressure === conditions.pressure &&
+        r.conditions.solvent === conditions.solvent,
+    )?._id ?? null
+  );
+}
+
+// Balance, map and estimate the heat of a reaction in an action (atom mapping can take far
+// longer than a mutation's CPU limit allows) and store it through an internal mutation
+export const saveReaction = action({
+  args: reactionArgs,
+  handler: async (ctx, args): Promise<Id<"reactions">> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
       throw new Error("Authentication required");
     }
 
-    return await ctx.db.insert("reactions", {
+    const canonicalKey = canonicalReactionKey(args.reactants, args.products) ?? undefined;
+    const existing = await ctx.runQuery(internal.reactions.findReaction, { userId, canonicalKey, conditions: args.conditions });
+    if (existing) return existing;
+
+    const balance = balanceReaction(args);
+    const { balanced, equation, reactantCoefficients, productCoefficients } = balance;
+    const mapping = mapReaction({ ...args, balance });
+    // Heat released at the reaction temperature, kJ per mole of reaction; only a balanced equation has one
+    const thermo = balance.balanced ? reactionThermo({ ...args, balance, temperature: args.conditions.temperature }) : null;
+    const safetyAnalysis = thermo
+      ? {
+          hazardLevel: thermo.severity,
+          toxicity: "not assessed",
+          flammability: "not assessed",
+          ...args.safetyAnalysis,
+          energyRelease: -thermo.enthalpy,
+        }
+      : args.safetyAnalysis;
+    return await ctx.runMutation(internal.reactions.insertReaction, {
       ...args,
-      userId: user._id,
+      userId,
+      safetyAnalysis,
+      canonicalKey,
+      stoichiometry: { balanced, equation, reactantCoefficients, productCoefficients },
+      atomMapping: mapping
+        ? {
+            mappedSmiles: mapping.mappedSmiles,
+            reactionType: mapping.reactionType,
+            centre: mapping.centre,
+            chemicalDistance: mapping.chemicalDistance,
+          }
+        : undefined,
     });
   },
 });
 
+export const findReaction = internalQuery({
+  args: { userId: v.id("users"), canonicalKey: v.optional(v.string()), conditions: reactionConditionsValidator },
+  handler: async (ctx, { userId, canonicalKey, conditions }) => await findSaved(ctx, userId, canonicalKey, conditions),
+});
+
+// Store a reaction computed by saveReaction, unless an identical one was saved meanwhile
+export const insertReaction = internalMutation({
+  args: {
+    ...reactionArgs,
+    userId: v.id("users"),
+    canonicalKey: v.optional(v.string()),
+    stoichiometry: stoichiometryValidator,
+    atomMapping: v.optional(atomMappingValidator),
+  },
+  handler: async (ctx, args) => {
+    const existing = await findSaved(ctx, args.userId, args.canonicalKey, args.conditions);
+    if (existing) return existing;
+    return await ctx.db.insert("reactions", args);
+  },
+});
+
 export const getUserReactions = query({
   args: {},
   handler: async (ctx) => {
@@ -16,6 +16,71 @@ export const roleValidator = v.union(
 );
 export type Role = Infer<typeof roleValidator>;
 
+// Outcome of a kinetics run stored with each simulation
+export const simulationResultsValidator = v.object({
+  energyProfile: v.array(v.number()), // kJ/mol: reactants, then each transition state and what follows it
+  intermediates: v.array(v.string()),
+  yieldPrediction: v.number(),
+  // Kinetic integration: concentrations (mol/L) of each species at each time (s)
+  reactionType: v.optional(v.string()),
+  times: v.optional(v.array(v.number())),
+  concentrations: v.optional(v.array(v.object({
+    species: v.string(),
+    values: v.array(v.number()),
+  }))),
+  conversion: v.optional(v.number()),
+});
+
+// Integer coefficients from element and charge balance, in reactant/product order
+export const stoichiometryValidator = v.object({
+  balanced: v.boolean(),
+  equation: v.string(), // formula equation, or why it does not balance
+  reactantCoefficients: v.array(v.number()),
+  productCoefficients: v.array(v.number()),
+});
+
+// Atom-to-atom mapping: mapped reaction SMILES, the reaction centre (map numbers) and its type
+export const atomMappingValidator = v.object({
+  mappedSmiles: v.string(),
+  reactionType: v.string(),
+  centre: v.array(v.number()),
+  chemicalDistance: v.number(),
+});
+
+export const reactionConditionsValidator = v.object({
+  temperature: v.number(),
+  pressure: v.number(),
+  solvent: v.string(),
+});
+
+export const safetyAnalysisValidator = v.object({
+  hazardLevel: v.string(),
+  toxicity: v.string(),
+  flammability: v.string(),
+  energyRelease: v.number(), // kJ/mol released (−ΔHr) at the reaction temperature
+});
+
+export const complianceStatusValidator = v.object({
+  fda: v.string(),
+  reach: v.string(),
+  osha: v.string(),
+});
+
+// Locally computed physicochemical descriptors stored with each molecule
+export const moleculeDescriptors = v.object({
+  molecularWeight: v.number(),
+  logP: v.number(),
+  tpsa: v.number(),
+  hBondDonors: v.number(),
+  hBondAcceptors: v.number(),
+  rotatableBonds: v.number(),
+  heavyAtoms: v.number(),
+  fractionCsp3: v.number(),
+  rings: v.number(),
+  aromaticRings: v.number(),
+  formalCharge: v.number(),
+});
+
 const schema = defineSchema(
   {
     // default auth tables using convex auth.
@@ -35,6 +100,7 @@ const schema = defineSchema(
     molecules: defineTable({
       name: v.string(),
       smiles: v.string(),
+      canonicalSmiles: v.optional(v.string()), // dedupe key from the local canonicalizer
       formula: v.string(),
       userId: v.id("users"),
       properties: v.optional(v.object({
@@ -42,31 +108,35 @@ const schema = defineSchema(
         logP: v.optional(v.number()),
         toxicity: v.optional(v.string()),
         hazardLevel: v.optional(v.string()),
+        // SD data items with no typed property, kept for round trips to ELN/registration systems
+        sdFields: v.optional(v.array(v.object({ name: v.string(), value: v.string() }))),
+        // Computed locally on save (see lib/chem/descriptors)
+        descriptors: v.optional(moleculeDescriptors),
+      })),
+      // Sparse bit lists for similarity search; absent on molecules saved before they existed
+      fingerprints: v.optional(v.object({
+        version: v.number(),
+        ecfp4: v.array(v.number()),
+        path: v.array(v.number()),
       })),
-    }).index("by_user", ["userId"]),
+    }).index("by_user", ["userId"])
+      .index("by_user_canonical", ["userId", "canonicalSmiles"]),
 
     reactions: defineTable({
       name: v.string(),
       reactants: v.array(v.string()),
+      // Solutes, reagents and solvent: the middle part of "reactants>agents>products"
+      agents: v.optional(v.array(v.string())),
       products: v.array(v.string()),
+      canonicalKey: v.optional(v.string()), // "reactants>>products" in canonical SMILES
+      stoichiometry: v.optional(stoichiometryValidator),
+      atomMapping: v.optional(atomMappingValidator),
       userId: v.id("users"),
-      conditions: v.object({
-        temperature: v.number(),
-        pressure: v.number(),
-        solvent: v.string(),
-      }),
-      safetyAnalysis: v.optional(v.object({
-        hazardLevel: v.string(),
-        toxicity: v.string(),
-        flammability: v.string(),
-        energyRelease: v.number(),
-      })),
-      complianceStatus: v.optional(v.object({
-        fda: v.string(),
-        reach: v.string(),
-        osha: v.string(),
-      })),
-    }).index("by_user", ["userId"]),
+      conditions: reactionConditionsValidator,
+      safetyAnalysis: v.optional(safetyAnalysisValidator),
+      complianceStatus: v.optional(complianceStatusValidator),
+    }).index("by_user", ["userId"])
+      .index("by_user_canonical", ["userId", "canonicalKey"]),
 
     simulations: defineTable({
       name: v.string(),
@@ -78,11 +148,9 @@ const schema = defineSchema(
         temperature: v.number(),
         pressure: v.number(),
       }),
-      results: v.optional(v.object({
-        energyProfile: v.array(v.number()),
-        intermediates: v.array(v.string()),
-        yieldPrediction: v.number(),
-      })),
+      concentration: v.optional(v.number()), // mol/L per unit coefficient the run started from; 1 when absent
+      results: v.optional(simulationResultsValidator),
+      error: v.optional(v.string()), // why a failed run failed
       status: v.string(), // "running", "completed", "failed"
     }).index("by_user", ["userId"])
       .index("by_reaction", ["reactionId"]),
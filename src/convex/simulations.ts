@@ -0,0 +1,154 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { action, internalMutation, query } from "./_generated/server";
+import { simulationResultsValidator } from "./schema";
+import { getCurrentUser } from "./users";
+import { buildKineticModel, KineticsError, simulateKinetics, simulationResults } from "../lib/chem/kinetics";
+
+const runParameters = v.object({
+  timeStep: v.number(), // s between reported points
+  duration: v.number(), // s
+  temperature: v.number(), // K
+  pressure: v.number(), // atm; liquid-phase rates are taken as pressure-independent
+});
+
+// Integrator steps allowed per reported point, so the work a request can ask for follows duration/timeStep
+const STEPS_PER_POINT = 100;
+const MIN_STEPS = 1000;
+// A run still "running" after this long belongs to an action that died (actions time out at 10 minutes)
+const STALE_RUN_MS = 10 * 60 * 1000;
+
+// Integrate the kinetics of a saved reaction in an action (mutations have tight CPU limits and
+// are retried on conflicts) and store the run with its results. A completed or still running
+// run with the same parameters and concentration is returned instead of a new one. Failures are
+// stored on the run and returned as `error`, so a caller can report them apart from the save.
+export const runSimulation = action({
+  args: {
+    reactionId: v.id("reactions"),
+    name: v.optional(v.string()),
+    parameters: runParameters,
+    concentration: v.optional(v.number()), // mol/L per unit coefficient, default 1
+  },
+  handler: async (ctx, args): Promise<{ id: Id<"simulations">; error: string | null }> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const start = await ctx.runMutation(internal.simulations.startRun, { ...args, userId });
+    if (!start.reaction) return { id: start.id, error: null };
+
+    const { reaction } = start;
+    const { duration, timeStep, temperature } = args.parameters;
+    try {
+      const model = buildKineticModel(reaction, {
+        concentration: args.concentration,
+        reactionType: reaction.atomMapping?.reactionType,
+      });
+      const maxSteps = Math.max(MIN_STEPS, STEPS_PER_POINT * Math.ceil(duration / timeStep));
+      const result = simulateKinetics(model, { duration, timeStep, temperature, maxSteps });
+      await ctx.runMutation(internal.simulations.finishRun, { id: start.id, results: simulationResults(model, result) });
+    } catch (e) {
+      if (!(e instanceof KineticsError)) console.error("Simulation failed", e);
+      const error = e instanceof KineticsError ? e.message : "The simulation did not finish";
+      await ctx.runMutation(internal.simulations.finishRun, { id: start.id, error });
+      return { id: start.id, error };
+    }
+    return { id: start.id, error: null };
+  },
+});
+
+// Check the reaction belongs to the user and record a running simulation, unless an identical run
+// has completed or is still running; failed and stale runs are replaced so they can be retried
+export const startRun = internalMutation({
+  args: {
+    userId: v.id("users"),
+    reactionId: v.id("reactions"),
+    name: v.optional(v.string()),
+    parameters: runParameters,
+    concentration: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const reaction = await ctx.db.get(args.reactionId);
+    if (!reaction || reaction.userId !== args.userId) {
+      throw new Error("Reaction not found");
+    }
+
+    const { timeStep, duration, temperature, pressure } = args.parameters;
+    const runs = await ctx.db
+      .query("simulations")
+      .withIndex("by_reaction", (q) => q.eq("reactionId", reaction._id))
+      .collect();
+    const existing = runs.find(
+      (s) =>
+        s.userId === args.userId &&
+        s.parameters.timeStep === timeStep &&
+        s.parameters.duration === duration &&
+        s.parameters.temperature === temperature &&
+        s.parameters.pressure === pressure &&
+        (s.concentration ?? 1) === (args.concentration ?? 1),
+    );
+    if (existing?.status === "completed") return { id: existing._id, reaction: null };
+    if (existing?.status === "running" && Date.now() - existing._creationTime < STALE_RUN_MS) {
+      return { id: existing._id, reaction: null };
+    }
+    if (existing) await ctx.db.delete(existing._id);
+
+    const id = await ctx.db.insert("simulations", {
+      name: args.name ?? `${reaction.name} kinetics`,
+      reactionId: reaction._id,
+      userId: args.userId,
+      parameters: args.parameters,
+      ...(args.concentration !== undefined ? { concentration: args.concentration } : {}),
+      status: "running",
+    });
+    return { id, reaction };
+  },
+});
+
+// Store the outcome of a run started by startRun
+export const finishRun = internalMutation({
+  args: {
+    id: v.id("simulations"),
+    results: v.optional(simulationResultsValidator),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, { id, results, error }) => {
+    await ctx.db.patch(id, results ? { results, status: "completed" } : { error, status: "failed" });
+  },
+});
+
+export const getReactionSimulations = query({
+  args: { reactionId: v.id("reactions") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const simulations = await ctx.db
+      .query("simulations")
+      .withIndex("by_reaction", (q) => q.eq("reactionId", args.reactionId))
+      .order("desc")
+      .collect();
+    return simulations.filter((s) => s.userId === user._id);
+  },
+});
+
+export const getUserSimulations = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    return await ctx.db
+      .query("simulations")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .collect();
+  },
+});
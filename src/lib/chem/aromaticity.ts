@@ -0,0 +1,211 @@
+import { allowedValences } from "./elements";
+import { adjacency, type BondOrder, cloneMolecule, type Molecule, otherAtom } from "./molecule";
+import { type Ring, smallestRings } from "./rings";
+
+export type KekulizeResult =
+  | { ok: true; orders: BondOrder[] }
+  | { ok: false; atoms: number[] };
+
+// Upper bound on backtracking steps; real aromatic systems resolve in far fewer
+const MAX_STEPS = 200_000;
+
+/**
+ * Whether an aromatic atom must take a double bond in the Kekulé form: true when its
+ * sigma bonds and hydrogens leave exactly one valence free (c in benzene, n in pyridine),
+ * false for lone-pair donors such as [nH], o and s.
+ */
+export function needsPiBond(mol: Molecule, atomIdx: number, adj = adjacency(mol)): boolean {
+  const atom = mol.atoms[atomIdx];
+  if (!atom.aromatic) return false;
+  let used = atom.hydrogens;
+  for (const b of adj[atomIdx]) {
+    const bond = mol.bonds[b];
+    used += bond.aromatic ? 1 : bond.order;
+  }
+  const valences = allowedValences(atom.element, atom.charge) ?? [used + 1];
+  const target = valences.find((v) => v >= used);
+  return target === used + 1;
+}
+
+/**
+ * Assign alternating single/double orders to the aromatic bonds. Fails with the atoms of
+ * the offending aromatic system when no Kekulé structure exists (e.g. "n1cccc1").
+ */
+export function kekulize(mol: Molecule): KekulizeResult {
+  const adj = adjacency(mol);
+  const orders = mol.bonds.map((b) => b.order);
+  const needy = mol.atoms.map((_, i) => needsPiBond(mol, i, adj));
+
+  // Candidate pi partners: needy neighbours across aromatic bonds
+  const partners: Array<Array<{ atom: number; bond: number }>> = mol.atoms.map((_, i) =>
+    needy[i]
+      ? adj[i]
+          .filter((b) => mol.bonds[b].aromatic && needy[otherAtom(mol.bonds[b], i)])
+          .map((b) => ({ atom: otherAtom(mol.bonds[b], i), bond: b }))
+      : [],
+  );
+
+  const matched = new Array<number>(mol.atoms.length).fill(-1);
+  const seen = new Array<boolean>(mol.atoms.length).fill(false);
+
+  for (let start = 0; start < mol.atoms.length; start++) {
+    if (!needy[start] || seen[start]) continue;
+    const component: number[] = [];
+    const stack = [start];
+    seen[start] = true;
+    while (stack.length) {
+      const a = stack.pop()!;
+      component.push(a);
+      for (const p of partners[a]) {
+        if (!seen[p.atom]) {
+          seen[p.atom] = true;
+          stack.push(p.atom);
+        }
+      }
+    }
+    component.sort((x, y) => x - y);
+    if (component.length % 2 === 1 || !matchComponent(component, partners, matched)) {
+      return { ok: false, atoms: component };
+    }
+  }
+
+  for (let i = 0; i < mol.atoms.length; i++) {
+    const j = matched[i];
+    if (j > i) {
+      const bond = partners[i].find((p) => p.atom === j)!.bond;
+      orders[bond] = 2;
+    }
+  }
+  return { ok: true, orders };
+}
+
+// Perfect matching by backtracking, always extending the atom with the fewest free partners
+function matchComponent(
+  component: number[],
+  partners: Array<Array<{ atom: number; bond: number }>>,
+  matched: number[],
+): boolean {
+  let steps = 0;
+  const solve = (): boolean => {
+    if (++steps > MAX_STEPS) return false;
+    let best = -1;
+    let bestOptions: number[] = [];
+    for (const a of component) {
+      if (matched[a] !== -1) continue;
+      const options = partners[a].filter((p) => matched[p.atom] === -1).map((p) => p.atom);
+      if (best === -1 || options.length < bestOptions.length) {
+        best = a;
+        bestOptions = options;
+        if (options.length === 0) break;
+      }
+    }
+    if (best === -1) return true;
+    for (const n of bestOptions) {
+      matched[best] = n;
+      matched[n] = best;
+      if (solve()) return true;
+      matched[best] = -1;
+      matched[n] = -1;
+    }
+    return false;
+  };
+  return solve();
+}
+
+const LONE_PAIR_DONORS = new Set(["N", "O", "S", "Se", "Te", "P", "As"]);
+
+// Pi electrons an atom gives to a ring in a Kekulé structure, or null if it breaks conjugation
+function piElectrons(mol: Molecule, adj: number[][], atomIdx: number, ringAtoms: Set<number>, inAnyRing: Set<number>): number | null {
+  const atom = mol.atoms[atomIdx];
+  let exocyclicHetero = false;
+  for (const b of adj[atomIdx]) {
+    const bond = mol.bonds[b];
+    const n = otherAtom(bond, atomIdx);
+    if (bond.order === 3) return null;
+    if (bond.order !== 2) continue;
+    if (ringAtoms.has(n) || inAnyRing.has(n)) return 1;
+    if (["O", "N", "S"].includes(mol.atoms[n].element)) exocyclicHetero = true;
+    else return null;
+  }
+  if (exocyclicHetero) return 0;
+  if (atom.element === "C" || atom.element === "B") {
+    if (atom.charge === -1 && atom.element === "C") return 2;
+    if (atom.charge === 1 || atom.element === "B") return 0;
+    return null;
+  }
+  if (LONE_PAIR_DONORS.has(atom.element) && atom.charge <= 0) {
+    const degree = adj[atomIdx].length + atom.hydrogens;
+    return degree <= 3 ? 2 : null;
+  }
+  return null;
+}
+
+function isHuckel(mol: Molecule, adj: number[][], atoms: number[], inAnyRing: Set<number>): boolean {
+  const ringAtoms = new Set(atoms);
+  let electrons = 0;
+  for (const a of atoms) {
+    const e = piElectrons(mol, adj, a, ringAtoms, inAnyRing);
+    if (e === null) return false;
+    electrons += e;
+  }
+  return electrons % 4 === 2;
+}
+
+/**
+ * Mark rings that satisfy Hückel's 4n+2 rule as aromatic, working from a Kekulé structure.
+ * Single SSSR rings are checked first, then the envelopes of fused ring pairs (azulene-like
+ * systems). Bonds inside aromatic rings become aromatic; exocyclic bonds keep their order.
+ */
+export function perceiveAromaticity(input: Molecule): Molecule {
+  const mol = cloneMolecule(input);
+  const adj = adjacency(mol);
+  const rings = smallestRings(mol);
+  const inAnyRing = new Set(rings.flatMap((r) => r.atoms));
+  const aromaticRings: Ring[] = rings.filter((r) => isHuckel(mol, adj, r.atoms, inAnyRing));
+
+  for (let i = 0; i < rings.length; i++) {
+    for (let j = i + 1; j < rings.length; j++) {
+      const a = rings[i];
+      const b = rings[j];
+      if (aromaticRings.includes(a) && aromaticRings.includes(b)) continue;
+      const shared = a.bonds.filter((bond) => b.bonds.includes(bond));
+      if (shared.length !== 1) continue;
+      const envelope = [...new Set([...a.atoms, ...b.atoms])];
+      if (isHuckel(mol, adj, envelope, inAnyRing)) {
+        for (const r of [a, b]) if (!aromaticRings.includes(r)) aromaticRings.push(r);
+      }
+    }
+  }
+
+  for (const atom of mol.atoms) atom.aromatic = false;
+  mol.bonds.forEach((b) => {
+    if (b.aromatic) {
+      b.aromatic = false;
+      b.order = 1;
+    }
+  });
+  for (const ring of aromaticRings) {
+    for (const a of ring.atoms) mol.atoms[a].aromatic = true;
+    for (const b of ring.bonds) {
+      mol.bonds[b].aromatic = true;
+      mol.bonds[b].order = 1;
+      mol.bonds[b].stereo = null;
+    }
+  }
+  return mol;
+}
+
+/**
+ * Bring a molecule to one aromatic form regardless of how it was written: kekulize, then
+ * re-perceive aromaticity. Input that cannot be kekulized is returned unchanged.
+ */
+export function normalizeAromaticity(mol: Molecule): Molecule {
+  const kekule = kekulize(mol);
+  if (!kekule.ok) return mol;
+  const kekulized = cloneMolecule(mol);
+  kekulized.bonds.forEach((b, i) => {
+    b.order = kekule.orders[i];
+    b.aromatic = false;
+  });
+  return perceiveAromaticity(kekulized);
+}
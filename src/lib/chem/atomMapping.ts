@@ -0,0 +1,472 @@
+import { standardizeMolecule } from "./canonical";
+import { elementData } from "./elements";
+import { cloneMolecule, fragments, type Molecule } from "./molecule";
+import { writeReactionSmiles } from "./reactionSmiles";
+import { parseSmiles, tryParseSmiles } from "./smiles";
+import { writeSmiles } from "./smilesWriter";
+import { type BalanceResult, balanceReaction } from "./stoichiometry";
+
+export type BondChangeKind = "formed" | "broken" | "changed";
+
+/** A bond that differs between the reactant and product side of a mapped reaction. */
+export interface BondChange {
+  kind: BondChangeKind;
+  /** Element symbols of the two atoms. */
+  elements: [string, string];
+  /** Map numbers of the two atoms; 0 for an atom that found no partner. */
+  maps: [number, number];
+  /** Bond order before and after (1.5 for aromatic, 0 for no bond). */
+  before: number;
+  after: number;
+}
+
+/** One species of the mapped reaction, with its part of the reaction centre. */
+export interface MappedSpecies {
+  /** Atom-mapped SMILES (of the first copy when the coefficient is above 1). */
+  smiles: string;
+  coefficient: number;
+  /** An agent (solute or solvent) that the balance brought in. */
+  agent: boolean;
+  /** Reaction-centre atoms, as indices into the atoms of `smiles`. */
+  centreAtoms: number[];
+  /** Bonds formed, broken or changed in order, as atom index pairs into `smiles`. */
+  changedBonds: Array<[number, number]>;
+}
+
+export interface AtomMapping {
+  /** The whole reaction as an atom-mapped reaction SMILES, each copy of a species written out. */
+  mappedSmiles: string;
+  /** Reactants in input order, then agents that take part; products in input order. */
+  reactants: MappedSpecies[];
+  products: MappedSpecies[];
+  bondChanges: BondChange[];
+  /** Map numbers of the reaction-centre atoms. */
+  centre: number[];
+  /** Bond orders made and broken plus hydrogens moved (Ugi's chemical distance). */
+  chemicalDistance: number;
+  /** "Substitution", "Addition", "Oxidation", … from the bond changes. */
+  reactionType: string;
+  /** Atoms left without a partner on the other side, e.g. when the reaction does not balance. */
+  unmapped: number;
+}
+
+// Atoms per side beyond which mapping is skipped; the search grows with the square of this
+const MAX_ATOMS = 150;
+// Atoms per side up to which connectivity-only alternatives are tried; they grow from every atom pair
+const MAX_SKELETON_ATOMS = 60;
+// Largest first common substructures, with and without bond orders, each completed and compared
+const MAX_ALTERNATIVES = 6;
+
+interface Copy {
+  mol: Molecule;
+  /** Index of the species this copy belongs to. */
+  species: number;
+  /** Offset of its first atom in the side's atom list. */
+  offset: number;
+}
+
+// One side of the reaction as a single graph over every atom of every copy
+interface Side {
+  copies: Copy[];
+  element: string[];
+  charge: number[];
+  hydrogens: number[];
+  aromatic: boolean[];
+  /** Neighbour → bond order, with aromatic bonds as 1.5. */
+  bonds: Array<Map<number, number>>;
+}
+
+type Pairs = Array<[number, number]>;
+
+function buildSide(species: Array<{ mol: Molecule; coefficient: number }>): Side {
+  const side: Side = { copies: [], element: [], charge: [], hydrogens: [], aromatic: [], bonds: [] };
+  species.forEach(({ mol, coefficient }, s) => {
+    for (let c = 0; c < coefficient; c++) {
+      const offset = side.element.length;
+      side.copies.push({ mol, species: s, offset });
+      for (const atom of mol.atoms) {
+        side.element.push(atom.element);
+        side.charge.push(atom.charge);
+        side.hydrogens.push(atom.hydrogens);
+        side.aromatic.push(atom.aromatic);
+        side.bonds.push(new Map());
+      }
+      for (const bond of mol.bonds) {
+        const order = bond.aromatic ? 1.5 : bond.order;
+        side.bonds[offset + bond.from].set(offset + bond.to, order);
+        side.bonds[offset + bond.to].set(offset + bond.from, order);
+      }
+    }
+  });
+  return side;
+}
+
+// How alike two same-element atoms are, to choose between otherwise equal partners
+const similarity = (r: Side, p: Side, a: number, b: number) =>
+  Number(r.charge[a] === p.charge[b]) +
+  Number(r.hydrogens[a] === p.hydrogens[b]) +
+  Number(r.aromatic[a] === p.aromatic[b]) +
+  Number(r.bonds[a].size === p.bonds[b].size);
+
+/**
+ * Grow a common connected substructure from a seed pair, breadth first: a neighbour pair joins
+ * when the elements and the bond agree and every bond to atoms already in the fragment has
+ * its counterpart, so the fragment is an induced common subgraph. With `exact` off only the
+ * connectivity has to agree, not the bond orders, which finds the skeleton of reactions that
+ * shift every double bond they touch (Diels–Alder, electrocyclic and sigmatropic reactions).
+ */
+function grow(
+  r: Side,
+  p: Side,
+  seedR: number,
+  seedP: number,
+  mapR: Map<number, number>,
+  mapP: Map<number, number>,
+  exact: boolean,
+): Pairs {
+  const forward = new Map([[seedR, seedP]]);
+  const backward = new Map([[seedP, seedR]]);
+  const free = (a: number, b: number) => !forward.has(a) && !mapR.has(a) && !backward.has(b) && !mapP.has(b);
+  const agree = (order: number, other: number | undefined) => (exact ? other === order : other !== undefined);
+  const consistent = (a: number, b: number) =>
+    [...r.bonds[a]].every(([n, order]) => !forward.has(n) || agree(order, p.bonds[b].get(forward.get(n)!))) &&
+    [...p.bonds[b]].every(([n, order]) => !backward.has(n) || agree(order, r.bonds[a].get(backward.get(n)!)));
+
+  const queue = [seedR];
+  while (queue.length > 0) {
+    const a = queue.shift()!;
+    const b = forward.get(a)!;
+    for (const [na, order] of r.bonds[a]) {
+      let best = -1;
+      let bestScore = -1;
+      for (const [nb, orderP] of p.bonds[b]) {
+        if (!agree(order, orderP) || r.element[na] !== p.element[nb] || !free(na, nb) || !consistent(na, nb)) continue;
+        const score = similarity(r, p, na, nb);
+        if (score > bestScore) {
+          best = nb;
+          bestScore = score;
+        }
+      }
+      if (best < 0) continue;
+      forward.set(na, best);
+      backward.set(best, na);
+      queue.push(na);
+    }
+  }
+  return [...forward];
+}
+
+// Bonds from a fragment to atoms mapped earlier that the other side keeps as they are
+function preservedBonds(r: Side, p: Side, pairs: Pairs, mapR: Map<number, number>): number {
+  let count = 0;
+  for (const [a, b] of pairs) {
+    for (const [n, order] of r.bonds[a]) {
+      const image = mapR.get(n);
+      if (image !== undefined && p.bonds[b].get(image) === order) count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Every distinct common substructure between the unmapped atoms, best first: larger
+ * fragments, then ones that keep more bonds to what is mapped already, then closer matches.
+ * Exact fragments are grown once per atom pair; connectivity-only ones from every seed, since
+ * which way a ring or chain is laid onto the other side depends on where the growth starts.
+ */
+function fragmentCandidates(r: Side, p: Side, mapR: Map<number, number>, mapP: Map<number, number>, exact = true) {
+  const covered = new Set<string>();
+  const seen = new Set<string>();
+  const candidates: Array<{ pairs: Pairs; score: number }> = [];
+  for (let a = 0; a < r.element.length; a++) {
+    if (mapR.has(a)) continue;
+    for (let b = 0; b < p.element.length; b++) {
+      if (mapP.has(b) || r.element[a] !== p.element[b] || covered.has(`${a},${b}`)) continue;
+      const pairs = grow(r, p, a, b, mapR, mapP, exact);
+      const key = pairs.map(([x, y]) => `${x},${y}`);
+      if (exact) key.forEach((k) => covered.add(k));
+      const fragment = key.sort().join(" ");
+      if (seen.has(fragment)) continue;
+      seen.add(fragment);
+      const closeness = pairs.reduce((s, [x, y]) => s + similarity(r, p, x, y), 0);
+      candidates.push({ pairs, score: pairs.length * 10000 + preservedBonds(r, p, pairs, mapR) * 100 + closeness });
+    }
+  }
+  return candidates.sort((x, y) => y.score - x.score);
+}
+
+// Map common substructures, largest first, until no atom on one side has a partner left
+function completeMapping(r: Side, p: Side, start: Pairs): Map<number, number> {
+  const mapR = new Map(start);
+  const mapP = new Map(start.map(([a, b]) => [b, a]));
+  for (;;) {
+    const [best] = fragmentCandidates(r, p, mapR, mapP);
+    if (!best) return mapR;
+    for (const [a, b] of best.pairs) {
+      mapR.set(a, b);
+      mapP.set(b, a);
+    }
+  }
+}
+
+interface Change {
+  kind: BondChangeKind;
+  r: [number, number] | null;
+  p: [number, number] | null;
+  before: number;
+  after: number;
+}
+
+function bondChanges(
+  r: Side,
+  p: Side,
+  mapR: Map<number, number>,
+): { changes: Change[]; distance: number; hydrogenMoves: number } {
+  const mapP = new Map([...mapR].map(([a, b]) => [b, a]));
+  const changes: Change[] = [];
+  r.bonds.forEach((bonds, a) => {
+    for (const [n, before] of bonds) {
+      if (n < a) continue;
+      const [x, y] = [mapR.get(a), mapR.get(n)];
+      const after = x !== undefined && y !== undefined ? (p.bonds[x].get(y) ?? 0) : 0;
+      if (after === before) continue;
+      const pair: [number, number] | null = after > 0 ? [x!, y!] : null;
+      changes.push({ kind: after === 0 ? "broken" : "changed", r: [a, n], p: pair, before, after });
+    }
+  });
+  p.bonds.forEach((bonds, b) => {
+    for (const [n, after] of bonds) {
+      if (n < b) continue;
+      const [x, y] = [mapP.get(b), mapP.get(n)];
+      if (x !== undefined && y !== undefined && r.bonds[x].has(y)) continue;
+      changes.push({ kind: "formed", r: null, p: [b, n], before: 0, after });
+    }
+  });
+  let hydrogenMoves = 0;
+  for (const [a, b] of mapR) hydrogenMoves += Math.abs(r.hydrogens[a] - p.hydrogens[b]);
+  const distance = changes.reduce((s, c) => s + Math.abs(c.after - c.before), 0) + hydrogenMoves;
+  return { changes, distance, hydrogenMoves };
+}
+
+// Formal oxidation level of an atom: bonds to more electronegative atoms count up, to less
+// electronegative ones (hydrogen included) down, plus the formal charge
+function oxidationLevel(side: Side, a: number): number {
+  const en = (element: string) => elementData(element)?.electronegativity ?? null;
+  const own = en(side.element[a]);
+  if (own === null) return side.charge[a];
+  const towards = (element: string) => Math.sign((en(element) ?? own) - own);
+  let level = side.charge[a] + side.hydrogens[a] * towards("H");
+  for (const [n, order] of side.bonds[a]) level += towards(side.element[n]) * Math.ceil(order);
+  return level;
+}
+
+// Independent rings over all copies: bonds - atoms + connected parts
+const ringCount = (side: Side) =>
+  side.copies.reduce((s, { mol }) => s + mol.bonds.length - mol.atoms.length + fragments(mol).length, 0);
+
+function classify(r: Side, p: Side, mapR: Map<number, number>, changes: Change[], species: { water: number[][] }): string {
+  const mapped = [...mapR];
+  const levelChange = ([a, b]: [number, number]) => oxidationLevel(p, b) - oxidationLevel(r, a);
+  const carbons = mapped.filter(([a]) => r.element[a] === "C");
+  if (changes.length === 0 && mapped.every(([a, b]) => r.hydrogens[a] === p.hydrogens[b] && r.charge[a] === p.charge[b])) {
+    return "No change";
+  }
+
+  const formed = changes.filter((c) => c.kind === "formed");
+  const broken = changes.filter((c) => c.kind === "broken");
+  const up = changes.some((c) => c.kind === "changed" && c.after > c.before);
+  const down = changes.some((c) => c.kind === "changed" && c.after < c.before);
+
+  if (broken.length === 0 && formed.length >= 2 && ringCount(p) > ringCount(r)) return "Cycloaddition";
+
+  // Organic reactions by the carbons' net change; without carbon any atom changing counts
+  if (carbons.length > 0) {
+    const redox = carbons.reduce((s, pair) => s + levelChange(pair), 0);
+    if (redox > 0) return "Oxidation";
+    if (redox < 0) return "Reduction";
+  } else if (mapped.some((pair) => levelChange(pair) !== 0)) {
+    return "Redox";
+  }
+  if (changes.length === 0) return "Proton transfer";
+
+  if (broken.length === 0) return "Addition";
+  if (formed.length === 0) return up ? "Elimination" : "Fragmentation";
+
+  // A new C–C bond between two carbons that each lost a bond to another element
+  const mapP = new Map(mapped.map(([a, b]) => [b, a]));
+  const lostBond = new Set(
+    broken.flatMap((c) => c.r!.filter((a, i) => r.element[a] === "C" && r.element[c.r![1 - i]] !== "C")),
+  );
+  const coupled = formed.some((c) => c.p!.every((b) => p.element[b] === "C" && lostBond.has(mapP.get(b) ?? -1)));
+  if (coupled && !up && !down) return "Cross-coupling";
+  if (down) return "Addition";
+  if (up) return "Elimination";
+
+  // Water released from, or taken up by, the bonds that change
+  const brokenAtoms = new Set(broken.flatMap((c) => c.r!));
+  const formedAtoms = new Set(formed.flatMap((c) => c.p!));
+  const [reactantWater, productWater] = species.water;
+  if (productWater.some((o) => brokenAtoms.has(mapP.get(o) ?? -1))) return "Condensation";
+  if (reactantWater.some((o) => formedAtoms.has(mapR.get(o) ?? -1))) return "Hydrolysis";
+  if (r.copies.length === 1 && p.copies.length === 1) return "Rearrangement";
+  return "Substitution";
+}
+
+// Atom indices in the order writeSmiles emits them: tag each atom with its index, write, read back
+function writtenOrder(mol: Molecule): number[] {
+  const tagged = cloneMolecule(mol);
+  tagged.atoms.forEach((atom, i) => (atom.atomClass = i + 1));
+  return parseSmiles(writeSmiles(tagged)).atoms.map((atom) => (atom.atomClass ?? 0) - 1);
+}
+
+function waterOxygens(side: Side): number[] {
+  return side.copies
+    .filter((c) => c.mol.atoms.length === 1 && c.mol.atoms[0].element === "O" && c.mol.atoms[0].hydrogens === 2)
+    .map((c) => c.offset);
+}
+
+/**
+ * Atom-to-atom mapping of a reaction by maximum common substructure: the largest common
+ * connected fragments between reactant and product atoms are mapped first, repeatedly, and
+ * the leading alternatives, matched with and without bond orders, are completed and compared
+ * so the mapping with the smallest chemical distance (bond orders made and broken, hydrogens
+ * moved) wins. Species are taken
+ * with their balanced coefficients, agents included, when the reaction balances; otherwise
+ * once each, and atoms without a partner stay unmapped. Null when a structure does not
+ * parse, a side is empty, or the reaction is too large to map.
+ */
+export function mapReaction({
+  reactants,
+  agents = [],
+  products,
+  balance = balanceReaction({ reactants, agents, products }),
+}: {
+  reactants: string[];
+  agents?: string[];
+  products: string[];
+  balance?: BalanceResult;
+}): AtomMapping | null {
+  const terms = (list: string[], coefficients: number[]) =>
+    list.map((smiles, i) => ({ smiles, coefficient: coefficients[i] || 1, agent: false }));
+  const left = balance.balanced
+    ? balance.reactantTerms.map(({ smiles, coefficient, agent }) => ({ smiles, coefficient, agent }))
+    : terms(reactants, []);
+  const right = balance.balanced ? terms(products, balance.productCoefficients) : terms(products, []);
+  if (left.length === 0 || right.length === 0) return null;
+
+  const load = (list: typeof left) => {
+    const parsed = list.map((t) => tryParseSmiles(t.smiles.trim()));
+    return parsed.every((m): m is Molecule => m !== null && m.atoms.length > 0)
+      ? parsed.map((mol, i) => ({ mol: standardizeMolecule(mol), coefficient: list[i].coefficient }))
+      : null;
+  };
+  const leftSpecies = load(left);
+  const rightSpecies = load(right);
+  if (!leftSpecies || !rightSpecies) return null;
+  const r = buildSide(leftSpecies);
+  const p = buildSide(rightSpecies);
+  if (r.element.length > MAX_ATOMS || p.element.length > MAX_ATOMS) return null;
+
+  // Complete the largest first fragments, with and without bond orders, and keep the mapping
+  // with the smallest chemical distance; on a tie the one that moves fewer hydrogens (a
+  // pericyclic shift of double bonds keeps every hydrogen in place), then fewer changed bonds
+  const small = r.element.length <= MAX_SKELETON_ATOMS && p.element.length <= MAX_SKELETON_ATOMS;
+  const firsts = (small ? [true, false] : [true]).flatMap((exact) => {
+    const candidates = fragmentCandidates(r, p, new Map(), new Map(), exact);
+    const largest = candidates[0]?.pairs.length ?? 0;
+    return candidates.filter((c) => c.pairs.length === largest).slice(0, MAX_ALTERNATIVES);
+  });
+  let best: ({ mapR: Map<number, number> } & ReturnType<typeof bondChanges>) | null = null;
+  for (const first of firsts) {
+    const mapR = completeMapping(r, p, first.pairs);
+    const candidate = { mapR, ...bondChanges(r, p, mapR) };
+    if (
+      !best ||
+      (candidate.distance - best.distance ||
+        candidate.hydrogenMoves - best.hydrogenMoves ||
+        candidate.changes.length - best.changes.length) < 0
+    ) {
+      best = candidate;
+    }
+  }
+  const mapR = best?.mapR ?? new Map<number, number>();
+  const { changes, distance } = best ?? bondChanges(r, p, mapR);
+
+  // Map numbers in reactant atom order
+  const mapNumber = new Map<number, number>();
+  [...mapR.keys()].sort((a, b) => a - b).forEach((a, i) => mapNumber.set(a, i + 1));
+  const productNumber = new Map([...mapR].map(([a, b]) => [b, mapNumber.get(a)!]));
+
+  const centreR = new Set<number>();
+  const centreP = new Set<number>();
+  for (const c of changes) {
+    c.r?.forEach((a) => centreR.add(a));
+    c.p?.forEach((b) => centreP.add(b));
+  }
+  for (const [a, b] of mapR) {
+    if (r.hydrogens[a] !== p.hydrogens[b] || r.charge[a] !== p.charge[b]) {
+      centreR.add(a);
+      centreP.add(b);
+    }
+  }
+  // An atom in the centre on one side is in it on the other
+  for (const [a, b] of mapR) {
+    if (centreR.has(a) || centreP.has(b)) {
+      centreR.add(a);
+      centreP.add(b);
+    }
+  }
+
+  const writeSide = (side: Side, numbers: Map<number, number>, centre: Set<number>, key: "r" | "p", meta: typeof left) => {
+    const written: string[] = [];
+    const species: MappedSpecies[] = meta.map((t) => ({
+      smiles: "",
+      coefficient: t.coefficient,
+      agent: t.agent,
+      centreAtoms: [],
+      changedBonds: [],
+    }));
+    for (const copy of side.copies) {
+      const mol = cloneMolecule(copy.mol);
+      mol.atoms.forEach((atom, i) => (atom.atomClass = numbers.get(copy.offset + i) ?? null));
+      const smiles = writeSmiles(mol);
+      written.push(smiles);
+      const entry = species[copy.species];
+      if (entry.smiles) continue;
+      const position = new Map(writtenOrder(copy.mol).map((atom, k) => [atom, k]));
+      const local = (x: number) => position.get(x - copy.offset)!;
+      const inCopy = (x: number) => x >= copy.offset && x < copy.offset + mol.atoms.length;
+      entry.smiles = smiles;
+      entry.centreAtoms = [...centre].filter(inCopy).map(local).sort((x, y) => x - y);
+      entry.changedBonds = changes
+        .map((c) => c[key])
+        .filter((pair): pair is [number, number] => pair !== null && inCopy(pair[0]))
+        .map(([x, y]) => [local(x), local(y)]);
+    }
+    return { written, species };
+  };
+  const reactantSide = writeSide(r, mapNumber, centreR, "r", left);
+  const productSide = writeSide(p, productNumber, centreP, "p", right);
+
+  const bondChangeList: BondChange[] = changes.map((c) => {
+    const [side, numbers, pair] = c.r ? [r, mapNumber, c.r] : [p, productNumber, c.p!];
+    return {
+      kind: c.kind,
+      elements: [side.element[pair[0]], side.element[pair[1]]],
+      maps: [numbers.get(pair[0]) ?? 0, numbers.get(pair[1]) ?? 0],
+      before: c.before,
+      after: c.after,
+    };
+  });
+
+  return {
+    mappedSmiles: writeReactionSmiles({ reactants: reactantSide.written, agents: [], products: productSide.written }),
+    reactants: reactantSide.species,
+    products: productSide.species,
+    bondChanges: bondChangeList,
+    centre: [...centreR].map((a) => mapNumber.get(a)).filter((n): n is number => n !== undefined).sort((x, y) => x - y),
+    chemicalDistance: distance,
+    reactionType: classify(r, p, mapR, changes, { water: [waterOxygens(r), waterOxygens(p)] }),
+    unmapped: r.element.length - mapR.size + (p.element.length - mapR.size),
+  };
+}
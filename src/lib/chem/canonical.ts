@@ -0,0 +1,164 @@
+import { normalizeAromaticity } from "./aromaticity";
+import { atomicNumber } from "./elements";
+import { adjacency, foldExplicitHydrogens, type Molecule, otherAtom, ringBonds } from "./molecule";
+import { parseSmiles, tryParseSmiles } from "./smiles";
+import { writeSmiles } from "./smilesWriter";
+
+const compareKeys = (a: number[], b: number[]) => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) if (a[i] !== b[i]) return a[i] - b[i];
+  return a.length - b.length;
+};
+
+// Dense ranks (0..k-1) from per-atom sort keys; equal keys share a rank
+function denseRanks(keys: number[][]): number[] {
+  const order = keys.map((_, i) => i).sort((x, y) => compareKeys(keys[x], keys[y]));
+  const ranks = new Array<number>(keys.length);
+  let rank = 0;
+  order.forEach((atom, k) => {
+    if (k > 0 && compareKeys(keys[order[k - 1]], keys[atom]) !== 0) rank++;
+    ranks[atom] = rank;
+  });
+  return ranks;
+}
+
+const classCount = (ranks: number[]) => new Set(ranks).size;
+
+/**
+ * Symmetry classes: atoms start from graph invariants (degree, element, isotope, charge,
+ * hydrogens, aromaticity, ring membership) and are refined by their neighbours' ranks and
+ * bond orders until stable. Topologically equivalent atoms share a class.
+ */
+export function symmetryClasses(mol: Molecule): number[] {
+  const adj = adjacency(mol);
+  const inRing = ringBonds(mol);
+  return refineRanks(
+    mol,
+    adj,
+    denseRanks(
+      mol.atoms.map((a, i) => [
+        adj[i].length,
+        atomicNumber(a.element),
+        a.isotope ?? 0,
+        a.charge,
+        a.hydrogens,
+        a.aromatic ? 1 : 0,
+        adj[i].some((b) => inRing.has(b)) ? 1 : 0,
+      ]),
+    ),
+  );
+}
+
+function refineRanks(mol: Molecule, adj: number[][], start: number[]): number[] {
+  const bondCode = (b: number) => (mol.bonds[b].aromatic ? 5 : mol.bonds[b].order);
+  let current = start;
+  for (;;) {
+    const next = denseRanks(
+      current.map((r, i) => [
+        r,
+        ...adj[i]
+          .map((b) => current[otherAtom(mol.bonds[b], i)] * 8 + bondCode(b))
+          .sort((x, y) => x - y),
+      ]),
+    );
+    if (classCount(next) === classCount(current)) return next;
+    current = next;
+  }
+}
+
+// The lowest rank shared by several atoms, or null once every rank is unique
+function lowestTie(ranks: number[]): number | null {
+  const counts = new Map<number, number>();
+  ranks.forEach((r) => counts.set(r, (counts.get(r) ?? 0) + 1));
+  const tied = [...counts.entries()].filter(([, c]) => c > 1).map(([r]) => r);
+  return tied.length > 0 ? Math.min(...tied) : null;
+}
+
+// Favour one atom of a tied class, then let the split propagate
+const breakTie = (mol: Molecule, adj: number[][], ranks: number[], tied: number, chosen: number) =>
+  refineRanks(mol, adj, denseRanks(ranks.map((r, i) => [r * 2 + (r === tied && i !== chosen ? 1 : 0)])));
+
+/**
+ * Canonical atom ranks: the symmetry classes with remaining ties broken one at a time and
+ * refined again, so every atom ends with a unique rank. Ties go to the first atom of the
+ * class, which is only order-independent without stereo (see canonicalSmiles).
+ */
+export function canonicalRanks(mol: Molecule): number[] {
+  const adj = adjacency(mol);
+  let ranks = symmetryClasses(mol);
+  for (let tied = lowestTie(ranks); tied !== null; tied = lowestTie(ranks)) {
+    ranks = breakTie(mol, adj, ranks, tied, ranks.indexOf(tied));
+  }
+  return ranks;
+}
+
+// Complete tie-break orders tried for a stereo molecule before the smallest so far is kept
+const MAX_STEREO_ORDERS = 512;
+
+const hasStereo = (mol: Molecule) => mol.atoms.some((a) => a.chirality) || mol.bonds.some((b) => b.stereo);
+
+const writeSorted = (mol: Molecule, ranks: number[]) => writeSmiles(mol, ranks).split(".").sort().join(".");
+
+/**
+ * Graph-equivalent atoms can carry different parities (the two ring carbons of
+ * cis-1,4-dimethylcyclohexane), so which one wins a tie changes the stereo marks written.
+ * Every tie-break order is tried and the lexicographically smallest SMILES kept.
+ */
+function stereoCanonicalSmiles(mol: Molecule): string {
+  const adj = adjacency(mol);
+  let best: string | null = null;
+  let tried = 0;
+  const search = (ranks: number[]) => {
+    if (tried >= MAX_STEREO_ORDERS) return;
+    const tied = lowestTie(ranks);
+    if (tied === null) {
+      tried++;
+      const smiles = writeSorted(mol, ranks);
+      if (best === null || smiles < best) best = smiles;
+      return;
+    }
+    ranks.forEach((r, i) => {
+      if (r === tied) search(breakTie(mol, adj, ranks, tied, i));
+    });
+  };
+  search(symmetryClasses(mol));
+  return best!;
+}
+
+/**
+ * Put a molecule into the normal form used for canonical output: explicit hydrogens folded
+ * into their neighbours and one aromatic representation (kekulé and aromatic input agree).
+ */
+export function standardizeMolecule(mol: Molecule): Molecule {
+  return normalizeAromaticity(foldExplicitHydrogens(mol));
+}
+
+/**
+ * Deterministic canonical SMILES: the same molecule gives the same string however it was
+ * written ("OCC", "C(O)C", "[H]OCC"). Fragments are sorted so salts and mixtures are stable too.
+ * Throws SmilesParseError for malformed input strings.
+ */
+export function canonicalSmiles(input: string | Molecule): string {
+  const mol = standardizeMolecule(typeof input === "string" ? parseSmiles(input) : input);
+  if (mol.atoms.length === 0) return "";
+  return hasStereo(mol) ? stereoCanonicalSmiles(mol) : writeSorted(mol, canonicalRanks(mol));
+}
+
+/** Canonical SMILES, or null when the input does not parse. */
+export function tryCanonicalSmiles(smiles: string): string | null {
+  const mol = tryParseSmiles(smiles);
+  return mol ? canonicalSmiles(mol) : null;
+}
+
+/**
+ * Order-independent key for a reaction: canonical reactants and products, each side sorted,
+ * as "reactants>>products". Null when any component does not parse.
+ */
+export function canonicalReactionKey(reactants: string[], products: string[]): string | null {
+  const side = (list: string[]) => {
+    const keys = list.map(tryCanonicalSmiles);
+    return keys.every((k): k is string => k !== null) ? keys.sort().join(".") : null;
+  };
+  const left = side(reactants);
+  const right = side(products);
+  return left === null || right === null ? null : `${left}>>${right}`;
+}
@@ -0,0 +1,394 @@
+import { elementData } from "./elements";
+import { addExplicitHydrogens, adjacency, cloneMolecule, type Bond, type Molecule, otherAtom } from "./molecule";
+import { smallestRings } from "./rings";
+import { doubleBondConfigs } from "./stereo";
+
+export interface Point3D {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Conformer {
+  /** The embedded molecule; with `hydrogens` on, implicit H are appended as explicit atoms. */
+  molecule: Molecule;
+  /** One position per atom of `molecule`, in Å, centred on the origin. */
+  coordinates: Point3D[];
+  /** Final force-field energy (arbitrary units); lower is better. */
+  energy: number;
+}
+
+export interface EmbedOptions {
+  /** Add explicit hydrogens before embedding (default true). */
+  hydrogens?: boolean;
+  /** Seed for the starting coordinates; the same seed always gives the same conformer. */
+  seed?: number;
+  /**
+   * Maximum independent starts for the heavy-atom embedding (default 6). Starting stops once
+   * one reaches a near-zero strain; otherwise the lowest-energy one is kept.
+   */
+  attempts?: number;
+}
+
+// Force constants for the terms of the embedding force field
+const K_BOND = 100;
+const K_ANGLE = 30;
+const K_PLANAR = 10;
+const K_STEREO = 50;
+const K_REPULSION = 10;
+const K_FOURTH_DIMENSION = 50;
+
+const DIMENSIONS = 4;
+const MAX_ITERATIONS = 1500;
+// Per-atom energy below which a start is good enough and no further starts are tried
+const ACCEPTABLE_ENERGY = 0.05;
+
+type DistanceTerm = { i: number; j: number; target: number; k: number; lowerOnly: boolean };
+// Signed volume of four points: `sign` 0 pulls it flat, ±1 keeps it on that side of `target`
+type VolumeTerm = { atoms: [number, number, number, number]; k: number; sign: -1 | 0 | 1; target: number };
+
+type ForceField = { n: number; distances: DistanceTerm[]; volumes: VolumeTerm[] };
+
+/**
+ * Generate 3D coordinates from the bond graph. Ideal bond lengths (covalent radii scaled by
+ * bond order) and hybridization angles become distance targets; planarity of sp2 centres and
+ * conjugated bonds, tetrahedral chirality and E/Z double bonds become signed-volume and
+ * distance terms; non-bonded atoms repel. Heavy atoms are minimized from a seeded random start
+ * in four dimensions, the fourth is squeezed out and a 3D pass polishes the result; hydrogens
+ * are then placed on their parents and everything is minimized once more.
+ */
+export function embedMolecule(input: Molecule, options: EmbedOptions = {}): Conformer {
+  // Heavy atoms first (implicit H stay implicit), so hydrogens cannot get trapped inside rings
+  const heavy = cloneMolecule(input);
+  const n = heavy.atoms.length;
+  if (n === 0) return { molecule: heavy, coordinates: [], energy: 0 };
+  const seed = options.seed ?? 1;
+
+  const heavyField = buildForceField(heavy);
+  let best: { x: Float64Array; energy: number } | null = null;
+  const attempts = Math.max(1, options.attempts ?? 6);
+  for (let attempt = 0; attempt < attempts && !(best && best.energy < ACCEPTABLE_ENERGY * n); attempt++) {
+    const x = startingCoordinates(n, seed + attempt * 7919);
+    minimize(heavyField, x, 0, MAX_ITERATIONS / 2);
+    minimize(heavyField, x, K_FOURTH_DIMENSION, MAX_ITERATIONS / 2);
+    for (let a = 0; a < n; a++) x[a * DIMENSIONS + 3] = 0;
+    const energy = minimize(heavyField, x, Infinity, MAX_ITERATIONS);
+    if (!best || energy < best.energy) best = { x, energy };
+  }
+
+  let mol = heavy;
+  let { x, energy } = best!;
+  if (options.hydrogens !== false && input.atoms.some((a) => a.hydrogens > 0)) {
+    mol = addExplicitHydrogens(input);
+    x = placeHydrogens(mol, n, x, seed);
+    energy = minimize(buildForceField(mol), x, Infinity, MAX_ITERATIONS);
+  }
+
+  const total = mol.atoms.length;
+  const centre = [0, 1, 2].map((d) => {
+    let sum = 0;
+    for (let a = 0; a < total; a++) sum += x[a * DIMENSIONS + d];
+    return sum / total;
+  });
+  const coordinates = mol.atoms.map((_, a) => ({
+    x: x[a * DIMENSIONS] - centre[0],
+    y: x[a * DIMENSIONS + 1] - centre[1],
+    z: x[a * DIMENSIONS + 2] - centre[2],
+  }));
+  return { molecule: mol, coordinates, energy };
+}
+
+// Start each new H (atoms from `heavyCount` on) pointing away from its parent's other neighbours
+function placeHydrogens(mol: Molecule, heavyCount: number, heavyX: Float64Array, seed: number): Float64Array {
+  const x = new Float64Array(mol.atoms.length * DIMENSIONS);
+  x.set(heavyX);
+  const random = seededRandom(seed + 104729);
+  const adj = adjacency(mol);
+  for (let h = heavyCount; h < mol.atoms.length; h++) {
+    const bond = adj[h][0];
+    const parent = otherAtom(mol.bonds[bond], h);
+    const away = [0, 0, 0];
+    for (const b of adj[parent]) {
+      const other = otherAtom(mol.bonds[b], parent);
+      if (other >= heavyCount) continue;
+      const v = [0, 1, 2].map((d) => heavyX[other * DIMENSIONS + d] - heavyX[parent * DIMENSIONS + d]);
+      const len = Math.hypot(v[0], v[1], v[2]) || 1;
+      for (let d = 0; d < 3; d++) away[d] -= v[d] / len;
+    }
+    // Random spread so several H on one atom start apart
+    for (let d = 0; d < 3; d++) away[d] += random() - 0.5;
+    const len = Math.hypot(away[0], away[1], away[2]) || 1;
+    const length = idealBondLength(mol, mol.bonds[bond]);
+    for (let d = 0; d < 3; d++) x[h * DIMENSIONS + d] = x[parent * DIMENSIONS + d] + (length * away[d]) / len;
+  }
+  return x;
+}
+
+const covalentRadius = (element: string) => elementData(element)?.covalentRadius ?? 0.75;
+const vdwRadius = (element: string) => elementData(element)?.vdwRadius ?? 1.7;
+
+// Ideal length: sum of covalent radii, shortened for multiple and aromatic bonds
+export function idealBondLength(mol: Molecule, bond: Bond): number {
+  const single = covalentRadius(mol.atoms[bond.from].element) + covalentRadius(mol.atoms[bond.to].element);
+  if (bond.aromatic) return single * 0.92;
+  return single * (bond.order === 2 ? 0.88 : bond.order >= 3 ? 0.79 : 1);
+}
+
+type Hybridization = "sp" | "sp2" | "sp3";
+
+function hybridization(mol: Molecule, adj: number[][], a: number): Hybridization {
+  let doubles = 0;
+  for (const b of adj[a]) {
+    const bond = mol.bonds[b];
+    if (bond.order === 3) return "sp";
+    if (bond.order === 2 && !bond.aromatic) doubles++;
+    if (bond.aromatic) return "sp2";
+  }
+  if (doubles >= 2) return "sp";
+  return doubles === 1 ? "sp2" : "sp3";
+}
+
+const IDEAL_ANGLE: Record<Hybridization, number> = { sp: 180, sp2: 120, sp3: 109.47 };
+
+// Topological distances (bond counts) between all atom pairs; Infinity across fragments
+function graphDistances(n: number, nbrs: number[][]): number[][] {
+  return Array.from({ length: n }, (_, start) => {
+    const dist = new Array<number>(n).fill(Infinity);
+    dist[start] = 0;
+    const queue = [start];
+    for (let head = 0; head < queue.length; head++) {
+      const a = queue[head];
+      for (const b of nbrs[a]) {
+        if (dist[b] === Infinity) {
+          dist[b] = dist[a] + 1;
+          queue.push(b);
+        }
+      }
+    }
+    return dist;
+  });
+}
+
+// 1-4 distance of a planar a-p=q-d fragment with 120° angles, cis or trans
+function planarOneFour(lap: number, lpq: number, lqd: number, cis: boolean): number {
+  const ax = lap * Math.cos((2 * Math.PI) / 3);
+  const ay = lap * Math.sin((2 * Math.PI) / 3);
+  const dx = lpq + lqd * Math.cos(Math.PI / 3);
+  const dy = (cis ? 1 : -1) * lqd * Math.sin(Math.PI / 3);
+  return Math.hypot(dx - ax, dy - ay);
+}
+
+function buildForceField(mol: Molecule): ForceField {
+  const n = mol.atoms.length;
+  const adj = adjacency(mol);
+  const nbrs = adj.map((bonds, a) => bonds.map((b) => otherAtom(mol.bonds[b], a)));
+  const hyb = mol.atoms.map((_, a) => hybridization(mol, adj, a));
+  const lengths = mol.bonds.map((b) => idealBondLength(mol, b));
+  const bondBetween = (a: number, b: number) => adj[a].find((i) => otherAtom(mol.bonds[i], a) === b)!;
+  const distances: DistanceTerm[] = [];
+  const volumes: VolumeTerm[] = [];
+
+  mol.bonds.forEach((b, i) => distances.push({ i: b.from, j: b.to, target: lengths[i], k: K_BOND, lowerOnly: false }));
+
+  // Ring angles: small and aromatic rings take their polygon angle instead of the hybrid one
+  const ringAngle = new Map<string, number>();
+  for (const ring of smallestRings(mol)) {
+    const size = ring.atoms.length;
+    const aromatic = ring.bonds.every((b) => mol.bonds[b].aromatic);
+    if (size > 5 && !aromatic) continue;
+    const angle = (180 * (size - 2)) / size;
+    ring.atoms.forEach((centre, k) => {
+      const prev = ring.atoms[(k + size - 1) % size];
+      const next = ring.atoms[(k + 1) % size];
+      const key = `${centre}:${Math.min(prev, next)}:${Math.max(prev, next)}`;
+      ringAngle.set(key, Math.min(ringAngle.get(key) ?? Infinity, angle));
+    });
+  }
+
+  for (let centre = 0; centre < n; centre++) {
+    const list = nbrs[centre];
+    for (let x = 0; x < list.length; x++) {
+      for (let y = x + 1; y < list.length; y++) {
+        const a = Math.min(list[x], list[y]);
+        const c = Math.max(list[x], list[y]);
+        const la = lengths[bondBetween(centre, a)];
+        const lc = lengths[bondBetween(centre, c)];
+        if (list.length > 4) {
+          // Hypervalent centres: only keep neighbours at least 90° apart
+          distances.push({ i: a, j: c, target: Math.hypot(la, lc), k: K_ANGLE, lowerOnly: true });
+          continue;
+        }
+        const degrees = ringAngle.get(`${centre}:${a}:${c}`) ?? IDEAL_ANGLE[hyb[centre]];
+        const theta = (degrees * Math.PI) / 180;
+        const target = Math.sqrt(la * la + lc * lc - 2 * la * lc * Math.cos(theta));
+        distances.push({ i: a, j: c, target, k: K_ANGLE, lowerOnly: false });
+      }
+    }
+    if (hyb[centre] === "sp2" && list.length === 3) {
+      volumes.push({ atoms: [centre, list[0], list[1], list[2]], k: K_PLANAR, sign: 0, target: 0 });
+    }
+  }
+
+  // Conjugated bonds keep their substituents in one plane
+  mol.bonds.forEach((bond) => {
+    if (!(bond.aromatic || bond.order === 2) || hyb[bond.from] !== "sp2" || hyb[bond.to] !== "sp2") return;
+    for (const a of nbrs[bond.from]) {
+      if (a === bond.to) continue;
+      for (const d of nbrs[bond.to]) {
+        if (d === bond.from || d === a) continue;
+        volumes.push({ atoms: [a, bond.from, bond.to, d], k: K_PLANAR, sign: 0, target: 0 });
+      }
+    }
+  });
+
+  // E/Z: the marked substituents sit at their cis or trans 1-4 distance
+  for (const config of doubleBondConfigs(mol, adj)) {
+    const d = mol.bonds[config.bond];
+    const a = config.refs.get(d.from)!;
+    const e = config.refs.get(d.to)!;
+    const target = planarOneFour(
+      lengths[bondBetween(d.from, a)],
+      lengths[config.bond],
+      lengths[bondBetween(d.to, e)],
+      !config.trans,
+    );
+    distances.push({ i: a, j: e, target, k: K_STEREO, lowerOnly: false });
+  }
+
+  // Tetrahedral centres: looking from the first neighbour, "@" lists the rest anticlockwise,
+  // which is a negative signed volume for (n0, n1, n2, n3)
+  mol.atoms.forEach((atom, centre) => {
+    const listed = atom.chiralNeighbors;
+    if (!listed || (listed.length !== 4 && listed.length !== 3)) return;
+    const clockwise = atom.chirality === "@@" || atom.chirality === "@TH2";
+    if (!clockwise && atom.chirality !== "@" && atom.chirality !== "@TH1") return;
+    // An implicit H (or lone pair) is stood in for by the centre, which lies on the same side
+    const points = listed.map((p) => (p === -1 ? centre : p));
+    if (points.length === 3) points.push(centre);
+    volumes.push({ atoms: points as [number, number, number, number], k: K_STEREO, sign: clockwise ? 1 : -1, target: 0.5 });
+  });
+
+  // Repulsion between atoms three or more bonds apart (and between fragments)
+  const topo = graphDistances(n, nbrs);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (topo[i][j] < 3) continue;
+      const factor = topo[i][j] === 3 ? 0.65 : topo[i][j] === Infinity ? 1 : 0.8;
+      const target = factor * (vdwRadius(mol.atoms[i].element) + vdwRadius(mol.atoms[j].element));
+      distances.push({ i, j, target, k: K_REPULSION, lowerOnly: true });
+    }
+  }
+
+  return { n, distances, volumes };
+}
+
+// mulberry32: small deterministic PRNG so the same seed always gives the same conformer
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0 || 1;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Pseudo-random start inside a box that grows with the atom count
+function startingCoordinates(n: number, seed: number): Float64Array {
+  const random = seededRandom(seed);
+  const size = 2 * Math.cbrt(n) + 1;
+  const x = new Float64Array(n * DIMENSIONS);
+  for (let i = 0; i < x.length; i++) x[i] = (random() - 0.5) * size;
+  return x;
+}
+
+// Energy and gradient; `fourth` is the penalty on the fourth coordinate (Infinity: frozen at 0)
+function evaluate(field: ForceField, x: Float64Array, grad: Float64Array, fourth: number): number {
+  grad.fill(0);
+  let energy = 0;
+  for (const t of field.distances) {
+    const oi = t.i * DIMENSIONS;
+    const oj = t.j * DIMENSIONS;
+    let d2 = 0;
+    for (let k = 0; k < DIMENSIONS; k++) d2 += (x[oi + k] - x[oj + k]) ** 2;
+    const d = Math.sqrt(d2) || 1e-6;
+    const diff = d - t.target;
+    if (t.lowerOnly && diff >= 0) continue;
+    energy += t.k * diff * diff;
+    const scale = (2 * t.k * diff) / d;
+    for (let k = 0; k < DIMENSIONS; k++) {
+      const g = scale * (x[oi + k] - x[oj + k]);
+      grad[oi + k] += g;
+      grad[oj + k] -= g;
+    }
+  }
+
+  for (const t of field.volumes) {
+    const [p0, p1, p2, p3] = t.atoms.map((a) => a * DIMENSIONS);
+    const a = [x[p1] - x[p0], x[p1 + 1] - x[p0 + 1], x[p1 + 2] - x[p0 + 2]];
+    const b = [x[p2] - x[p0], x[p2 + 1] - x[p0 + 1], x[p2 + 2] - x[p0 + 2]];
+    const c = [x[p3] - x[p0], x[p3 + 1] - x[p0 + 1], x[p3 + 2] - x[p0 + 2]];
+    const bxc = cross(b, c);
+    const volume = a[0] * bxc[0] + a[1] * bxc[1] + a[2] * bxc[2];
+    let dE: number;
+    if (t.sign === 0) {
+      energy += t.k * volume * volume;
+      dE = 2 * t.k * volume;
+    } else {
+      const short = t.target - t.sign * volume;
+      if (short <= 0) continue;
+      energy += t.k * short * short;
+      dE = -2 * t.k * short * t.sign;
+    }
+    const ga = bxc;
+    const gb = cross(c, a);
+    const gc = cross(a, b);
+    for (let k = 0; k < 3; k++) {
+      grad[p1 + k] += dE * ga[k];
+      grad[p2 + k] += dE * gb[k];
+      grad[p3 + k] += dE * gc[k];
+      grad[p0 + k] -= dE * (ga[k] + gb[k] + gc[k]);
+    }
+  }
+
+  for (let a = 0; a < field.n; a++) {
+    const o = a * DIMENSIONS + 3;
+    if (fourth === Infinity) {
+      grad[o] = 0;
+    } else if (fourth > 0) {
+      energy += fourth * x[o] * x[o];
+      grad[o] += 2 * fourth * x[o];
+    }
+  }
+  return energy;
+}
+
+function cross(a: number[], b: number[]): number[] {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+// Steepest descent with an adaptive step (largest atom move per iteration, in Å)
+function minimize(field: ForceField, x: Float64Array, fourth: number, iterations: number): number {
+  const grad = new Float64Array(x.length);
+  const trial = new Float64Array(x.length);
+  const trialGrad = new Float64Array(x.length);
+  let energy = evaluate(field, x, grad, fourth);
+  let step = 0.1;
+  for (let it = 0; it < iterations && step > 1e-5; it++) {
+    let maxGrad = 0;
+    for (let i = 0; i < grad.length; i++) maxGrad = Math.max(maxGrad, Math.abs(grad[i]));
+    if (maxGrad < 1e-6) break;
+    for (let i = 0; i < x.length; i++) trial[i] = x[i] - (step * grad[i]) / maxGrad;
+    const trialEnergy = evaluate(field, trial, trialGrad, fourth);
+    if (trialEnergy < energy) {
+      x.set(trial);
+      grad.set(trialGrad);
+      energy = trialEnergy;
+      step = Math.min(step * 1.2, 0.5);
+    } else {
+      step *= 0.5;
+    }
+  }
+  return energy;
+}
@@ -0,0 +1,409 @@
+import { adjacency, fragments, type Molecule, otherAtom } from "./molecule";
+import { type Ring, smallestRings } from "./rings";
+import { type DoubleBondConfig, doubleBondConfigs } from "./stereo";
+
+export interface Point2D {
+  x: number;
+  y: number;
+}
+
+export type WedgeKind = "wedge" | "hash";
+
+/** A stereo bond drawn from its narrow end at `from` (the stereocentre) to the other atom. */
+export interface Wedge {
+  bond: number;
+  from: number;
+  kind: WedgeKind;
+}
+
+export interface Depiction {
+  /** One position per atom, in bond-length units (y grows downward, as in SVG). */
+  coordinates: Point2D[];
+  wedges: Wedge[];
+  /** Rings whose bonds are all aromatic, for drawing an inner circle. */
+  aromaticRings: Ring[];
+}
+
+// Gap between disconnected fragments, in bond lengths
+const FRAGMENT_GAP = 1.5;
+// Substituent positions closer than this to an existing atom are considered clashes
+const CLEARANCE = 0.6;
+
+/**
+ * Compute 2D coordinates for a skeletal drawing. Ring systems are laid out from regular
+ * polygons (fused, spiro and bridged rings grow from the atoms already placed), chains zigzag
+ * at 120°, sp centres stay linear and substituents fan out into the widest free angle.
+ * Fragments are placed side by side. Acyclic E/Z double bonds are drawn with the right
+ * geometry, and tetrahedral centres get a wedge or hash bond that reproduces their chirality.
+ */
+export function depictMolecule(mol: Molecule): Depiction {
+  const adj = adjacency(mol);
+  const nbrs = adj.map((bonds, a) => bonds.map((b) => otherAtom(mol.bonds[b], a)));
+  const rings = smallestRings(mol);
+  const coordinates: Point2D[] = mol.atoms.map(() => ({ x: 0, y: 0 }));
+  const inRing = new Set(rings.flatMap((r) => r.bonds));
+  const stereoBonds = doubleBondConfigs(mol, adj).filter((c) => !inRing.has(c.bond));
+
+  let offset = 0;
+  for (const fragment of fragments(mol)) {
+    const placed = layoutFragment(mol, adj, nbrs, rings, fragment);
+    for (const config of stereoBonds) {
+      if (placed.has(mol.bonds[config.bond].from)) fixDoubleBond(mol, nbrs, config, placed);
+    }
+    const xs = fragment.map((a) => placed.get(a)!.x);
+    const minX = Math.min(...xs);
+    for (const a of fragment) {
+      const p = placed.get(a)!;
+      coordinates[a] = { x: p.x - minX + offset, y: p.y };
+    }
+    offset += Math.max(...xs) - minX + FRAGMENT_GAP;
+  }
+
+  return {
+    coordinates,
+    wedges: assignWedges(mol, nbrs, adj, rings, coordinates),
+    aromaticRings: rings.filter((r) => r.bonds.every((b) => mol.bonds[b].aromatic)),
+  };
+}
+
+const angleOf = (from: Point2D, to: Point2D) => Math.atan2(to.y - from.y, to.x - from.x);
+const step = (from: Point2D, angle: number, length = 1): Point2D => ({
+  x: from.x + length * Math.cos(angle),
+  y: from.y + length * Math.sin(angle),
+});
+const dist = (p: Point2D, q: Point2D) => Math.hypot(p.x - q.x, p.y - q.y);
+
+function layoutFragment(
+  mol: Molecule,
+  adj: number[][],
+  nbrs: number[][],
+  rings: Ring[],
+  fragment: number[],
+): Map<number, Point2D> {
+  const placed = new Map<number, Point2D>();
+  const inFragment = new Set(fragment);
+  const fragmentRings = rings.filter((r) => inFragment.has(r.atoms[0]));
+  const systems = ringSystems(fragmentRings);
+  const systemOf = new Map<number, Ring[]>();
+  for (const system of systems) for (const ring of system) for (const a of ring.atoms) systemOf.set(a, system);
+  // Zigzag direction for chain atoms: +1 / -1 alternate along a chain
+  const turn = new Map<number, number>();
+
+  const queue: number[] = [];
+  if (systems.length > 0) {
+    // Start from the largest ring system, its biggest ring centred on the origin
+    const system = [...systems].sort((a, b) => systemSize(b) - systemSize(a))[0];
+    placeRingSystem(system, placed, null);
+    queue.push(...system.flatMap((r) => r.atoms));
+  } else {
+    const start = chainEnd(fragment, nbrs);
+    placed.set(start, { x: 0, y: 0 });
+    turn.set(start, 1);
+    queue.push(start);
+  }
+
+  for (let head = 0; head < queue.length; head++) {
+    const a = queue[head];
+    const origin = placed.get(a)!;
+    const pending = nbrs[a].filter((n) => !placed.has(n));
+    if (pending.length === 0) continue;
+    const placedDirs = nbrs[a].filter((n) => placed.has(n)).map((n) => angleOf(origin, placed.get(n)!));
+    const linear = isLinearCentre(mol, adj, a);
+
+    let angles: number[];
+    if (placedDirs.length === 0) {
+      angles = pending.length === 1 ? [-Math.PI / 6] : pending.map((_, k) => -Math.PI / 6 + (2 * Math.PI * k) / pending.length);
+    } else if (placedDirs.length === 1 && pending.length === 1) {
+      const back = placedDirs[0];
+      const preferred = linear ? [back + Math.PI] : [back + Math.PI - (turn.get(a) ?? 1) * (Math.PI / 3), back + Math.PI + (turn.get(a) ?? 1) * (Math.PI / 3)];
+      angles = [bestClearance(origin, [...preferred, back + Math.PI], placed)];
+    } else {
+      angles = spreadInGap(placedDirs, pending.length);
+    }
+
+    pending.forEach((n, k) => {
+      const p = step(origin, angles[k]);
+      placed.set(n, p);
+      turn.set(n, -(turn.get(a) ?? 1));
+      queue.push(n);
+      const system = systemOf.get(n);
+      if (system && !system.some((r) => r.atoms.some((x) => x !== n && placed.has(x)))) {
+        placeRingSystem(system, placed, { atom: n, direction: angles[k] });
+        queue.push(...system.flatMap((r) => r.atoms).filter((x) => x !== n));
+      }
+    });
+  }
+  return placed;
+}
+
+const systemSize = (system: Ring[]) => new Set(system.flatMap((r) => r.atoms)).size;
+
+// Group rings that share atoms into fused / spiro / bridged systems
+function ringSystems(rings: Ring[]): Ring[][] {
+  const systems: Ring[][] = [];
+  for (const ring of rings) {
+    const touching = systems.filter((s) => s.some((r) => r.atoms.some((a) => ring.atoms.includes(a))));
+    const merged = [ring, ...touching.flat()];
+    for (const s of touching) systems.splice(systems.indexOf(s), 1);
+    systems.push(merged);
+  }
+  return systems;
+}
+
+// One end of the longest chain, so acyclic molecules are drawn along their backbone
+function chainEnd(fragment: number[], nbrs: number[][]): number {
+  const farthest = (start: number) => {
+    const seen = new Map<number, number>([[start, 0]]);
+    const queue = [start];
+    let last = start;
+    for (let head = 0; head < queue.length; head++) {
+      const a = queue[head];
+      last = a;
+      for (const n of nbrs[a]) {
+        if (!seen.has(n)) {
+          seen.set(n, seen.get(a)! + 1);
+          queue.push(n);
+        }
+      }
+    }
+    return last;
+  };
+  return farthest(farthest(Math.min(...fragment)));
+}
+
+// Triple bonds and cumulated double bonds keep their neighbours on a straight line
+function isLinearCentre(mol: Molecule, adj: number[][], a: number): boolean {
+  let doubles = 0;
+  for (const b of adj[a]) {
+    const bond = mol.bonds[b];
+    if (bond.order === 3) return true;
+    if (bond.order === 2 && !bond.aromatic) doubles++;
+  }
+  return doubles >= 2;
+}
+
+// Evenly spread `count` new directions over the largest gap between existing bonds
+export function spreadInGap(existing: number[], count: number): number[] {
+  const sorted = existing.map((a) => (a + 2 * Math.PI) % (2 * Math.PI)).sort((x, y) => x - y);
+  let gapStart = sorted[sorted.length - 1];
+  let gapSize = sorted[0] + 2 * Math.PI - gapStart;
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i] - sorted[i - 1] > gapSize) {
+      gapStart = sorted[i - 1];
+      gapSize = sorted[i] - sorted[i - 1];
+    }
+  }
+  return Array.from({ length: count }, (_, k) => gapStart + (gapSize * (k + 1)) / (count + 1));
+}
+
+// First candidate direction that keeps clear of placed atoms, else the one with most room
+function bestClearance(origin: Point2D, candidates: number[], placed: Map<number, Point2D>): number {
+  let best = candidates[0];
+  let bestRoom = -Infinity;
+  for (const angle of candidates) {
+    const p = step(origin, angle);
+    let room = Infinity;
+    for (const q of placed.values()) room = Math.min(room, dist(p, q));
+    if (room >= CLEARANCE) return angle;
+    if (room > bestRoom) {
+      bestRoom = room;
+      best = angle;
+    }
+  }
+  return best;
+}
+
+/**
+ * Place every atom of a ring system. The first ring is a regular polygon, either centred on
+ * the origin or hanging off `anchor` in the direction of the bond that reached it; each
+ * further ring is completed by arcs through its already-placed atoms, bulging away from the
+ * atoms placed so far.
+ */
+function placeRingSystem(
+  system: Ring[],
+  placed: Map<number, Point2D>,
+  anchor: { atom: number; direction: number } | null,
+) {
+  const first = anchor
+    ? system.filter((r) => r.atoms.includes(anchor.atom)).sort((a, b) => b.atoms.length - a.atoms.length)[0]
+    : [...system].sort((a, b) => b.atoms.length - a.atoms.length || connectivity(system, b) - connectivity(system, a))[0];
+  const n = first.atoms.length;
+  const radius = 1 / (2 * Math.sin(Math.PI / n));
+  const start = anchor ? first.atoms.indexOf(anchor.atom) : 0;
+  const centre = anchor ? step(placed.get(anchor.atom)!, anchor.direction, radius) : { x: 0, y: 0 };
+  const startAngle = anchor ? anchor.direction + Math.PI : Math.PI / 2 + Math.PI / n;
+  for (let k = 0; k < n; k++) {
+    const atom = first.atoms[(start + k) % n];
+    if (!placed.has(atom)) placed.set(atom, step(centre, startAngle + (2 * Math.PI * k) / n, radius));
+  }
+
+  const done = new Set<Ring>([first]);
+  while (done.size < system.length) {
+    // Next ring: the one with the most atoms already placed
+    const next = system
+      .filter((r) => !done.has(r))
+      .sort((a, b) => b.atoms.filter((x) => placed.has(x)).length - a.atoms.filter((x) => placed.has(x)).length)[0];
+    done.add(next);
+    completeRing(next, placed);
+  }
+}
+
+const connectivity = (system: Ring[], ring: Ring) =>
+  system.filter((r) => r !== ring && r.atoms.some((a) => ring.atoms.includes(a))).length;
+
+// Fill the unplaced runs of a ring with arcs of unit-length bonds between their placed ends
+function completeRing(ring: Ring, placed: Map<number, Point2D>) {
+  const n = ring.atoms.length;
+  const placedAtoms = ring.atoms.filter((a) => placed.has(a));
+  if (placedAtoms.length === 0) return;
+  const centroid = {
+    x: [...placed.values()].reduce((s, p) => s + p.x, 0) / placed.size,
+    y: [...placed.values()].reduce((s, p) => s + p.y, 0) / placed.size,
+  };
+
+  if (placedAtoms.length === 1) {
+    // Spiro junction: a full polygon on the far side of the shared atom
+    const shared = placed.get(placedAtoms[0])!;
+    const direction = angleOf(centroid, shared);
+    const radius = 1 / (2 * Math.sin(Math.PI / n));
+    const centre = step(shared, direction, radius);
+    const start = ring.atoms.indexOf(placedAtoms[0]);
+    for (let k = 1; k < n; k++) {
+      placed.set(ring.atoms[(start + k) % n], step(centre, direction + Math.PI + (2 * Math.PI * k) / n, radius));
+    }
+    return;
+  }
+
+  for (let i = 0; i < n; i++) {
+    const from = ring.atoms[i];
+    if (!placed.has(from) || placed.has(ring.atoms[(i + 1) % n])) continue;
+    const run: number[] = [];
+    let j = (i + 1) % n;
+    while (!placed.has(ring.atoms[j])) {
+      run.push(ring.atoms[j]);
+      j = (j + 1) % n;
+    }
+    placeArc(placed.get(from)!, placed.get(ring.atoms[j])!, run, centroid, placed);
+  }
+}
+
+// Put `run` on a circular arc from p to q with unit chords, bulging away from `awayFrom`
+function placeArc(p: Point2D, q: Point2D, run: number[], awayFrom: Point2D, placed: Map<number, Point2D>) {
+  const segments = run.length + 1;
+  const d = Math.max(dist(p, q), 1e-3);
+  const mid = { x: (p.x + q.x) / 2, y: (p.y + q.y) / 2 };
+  let normal = { x: -(q.y - p.y) / d, y: (q.x - p.x) / d };
+  if ((mid.x - awayFrom.x) * normal.x + (mid.y - awayFrom.y) * normal.y < 0) normal = { x: -normal.x, y: -normal.y };
+
+  if (d >= segments) {
+    // Too far apart for an arc: space the run evenly along the straight line
+    run.forEach((a, k) => placed.set(a, { x: p.x + ((q.x - p.x) * (k + 1)) / segments, y: p.y + ((q.y - p.y) * (k + 1)) / segments }));
+    return;
+  }
+
+  // Chord ratio sin(segments·θ/2) / sin(θ/2) falls from `segments` to 0 as θ goes to 2π/segments
+  let lo = 1e-6;
+  let hi = (2 * Math.PI) / segments - 1e-6;
+  for (let it = 0; it < 60; it++) {
+    const theta = (lo + hi) / 2;
+    if (Math.sin((segments * theta) / 2) / Math.sin(theta / 2) > d) lo = theta;
+    else hi = theta;
+  }
+  const theta = (lo + hi) / 2;
+  const radius = 1 / (2 * Math.sin(theta / 2));
+  const half = (segments * theta) / 2;
+  const centre = { x: mid.x - normal.x * radius * Math.cos(half), y: mid.y - normal.y * radius * Math.cos(half) };
+  const startAngle = angleOf(centre, p);
+  // Walk in whichever direction passes through the bulge side
+  const apex = (sign: number) => step(centre, startAngle + sign * half, radius);
+  const sideOf = (pt: Point2D) => (pt.x - mid.x) * normal.x + (pt.y - mid.y) * normal.y;
+  const sign = sideOf(apex(1)) >= sideOf(apex(-1)) ? 1 : -1;
+  run.forEach((a, k) => placed.set(a, step(centre, startAngle + sign * theta * (k + 1), radius)));
+}
+
+// Mirror one side of an acyclic double bond across the bond axis when its substituents are
+// drawn cis but should be trans (or the reverse)
+function fixDoubleBond(mol: Molecule, nbrs: number[][], config: DoubleBondConfig, placed: Map<number, Point2D>) {
+  const { from, to } = mol.bonds[config.bond];
+  const p = placed.get(from)!;
+  const q = placed.get(to)!;
+  const side = (atom: number) => {
+    const r = placed.get(atom)!;
+    return Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x));
+  };
+  const sides = [side(config.refs.get(from)!), side(config.refs.get(to)!)];
+  if (sides[0] === 0 || sides[1] === 0 || (sides[0] !== sides[1]) === config.trans) return;
+
+  // Everything reachable from `to` without crossing the double bond
+  const part = new Set([to]);
+  const stack = [to];
+  while (stack.length) {
+    const a = stack.pop()!;
+    for (const n of nbrs[a]) {
+      if (part.has(n) || (a === to && n === from)) continue;
+      part.add(n);
+      stack.push(n);
+    }
+  }
+  const dx = q.x - p.x;
+  const dy = q.y - p.y;
+  const lengthSq = dx * dx + dy * dy;
+  for (const a of part) {
+    const r = placed.get(a)!;
+    const t = ((r.x - p.x) * dx + (r.y - p.y) * dy) / lengthSq;
+    const foot = { x: p.x + t * dx, y: p.y + t * dy };
+    placed.set(a, { x: 2 * foot.x - r.x, y: 2 * foot.y - r.y });
+  }
+}
+
+/**
+ * Choose one wedge or hash per tetrahedral centre. The drawn bond is an acyclic one where
+ * possible (not shared with another centre); it is raised (wedge) and the signed volume of
+ * the neighbours, with any implicit H pointing the other way, is compared with the
+ * chirality tag: "@" lists the later neighbours anticlockwise seen from the first, which is
+ * a negative volume. A mismatch turns the wedge into a hash.
+ */
+function assignWedges(mol: Molecule, nbrs: number[][], adj: number[][], rings: Ring[], coords: Point2D[]): Wedge[] {
+  const wedges: Wedge[] = [];
+  const used = new Set<number>();
+  const inRing = new Set(rings.flatMap((r) => r.bonds));
+  mol.atoms.forEach((atom, centre) => {
+    if (!atom.chiralNeighbors || atom.chiralNeighbors.length < 3) return;
+    // A lone pair (three listed neighbours) is treated like an implicit H
+    const listed = atom.chiralNeighbors.length === 3 ? [...atom.chiralNeighbors, -1] : atom.chiralNeighbors;
+    const clockwise = atom.chirality === "@@" || atom.chirality === "@TH2";
+    if (!clockwise && atom.chirality !== "@" && atom.chirality !== "@TH1") return;
+
+    const candidates = adj[centre]
+      .filter((b) => !used.has(b))
+      .sort((x, y) => rank(x) - rank(y));
+    function rank(b: number) {
+      const other = otherAtom(mol.bonds[b], centre);
+      return (inRing.has(b) ? 4 : 0) + (mol.atoms[other].chiralNeighbors ? 2 : 0) + (nbrs[other].length > 1 ? 1 : 0);
+    }
+    const bond = candidates[0];
+    if (bond === undefined) return;
+    const raised = otherAtom(mol.bonds[bond], centre);
+
+    const c = coords[centre];
+    const drawn = nbrs[centre];
+    const point = (n: number) => {
+      if (n === -1) {
+        // Implicit H sits opposite the drawn bonds, below the plane
+        const sum = drawn.reduce((acc, d) => ({ x: acc.x + coords[d].x - c.x, y: acc.y + coords[d].y - c.y }), { x: 0, y: 0 });
+        return [c.x - sum.x * 0.3, c.y - sum.y * 0.3, -1];
+      }
+      return [coords[n].x, coords[n].y, n === raised ? 1 : 0];
+    };
+    const [p0, p1, p2, p3] = listed.map(point);
+    const a = [p1[0] - p0[0], p1[1] - p0[1], p1[2] - p0[2]];
+    const b = [p2[0] - p0[0], p2[1] - p0[1], p2[2] - p0[2]];
+    const d = [p3[0] - p0[0], p3[1] - p0[1], p3[2] - p0[2]];
+    // y points down in drawing coordinates, which mirrors the handedness
+    const volume = -(a[0] * (b[1] * d[2] - b[2] * d[1]) + a[1] * (b[2] * d[0] - b[0] * d[2]) + a[2] * (b[0] * d[1] - b[1] * d[0]));
+    if (volume === 0) return;
+    used.add(bond);
+    wedges.push({ bond, from: centre, kind: volume > 0 === clockwise ? "wedge" : "hash" });
+  });
+  return wedges;
+}
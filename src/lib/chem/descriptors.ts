@@ -0,0 +1,284 @@
+import { standardizeMolecule } from "./canonical";
+import { molecularFormula } from "./formula";
+import { type Molecule, netCharge } from "./molecule";
+import { smallestRings } from "./rings";
+import { anchoredAtoms, parseSmarts, type PreparedMolecule, prepareMolecule, type SmartsQuery, substructureMatches } from "./smarts";
+import { parseSmiles } from "./smiles";
+
+/** Physicochemical descriptors computed locally from the molecular graph. */
+export interface MolecularDescriptors {
+  molecularWeight: number;
+  /** Wildman–Crippen octanol/water partition coefficient. */
+  logP: number;
+  /** Ertl topological polar surface area from N and O, in Å². */
+  tpsa: number;
+  hBondDonors: number;
+  hBondAcceptors: number;
+  rotatableBonds: number;
+  heavyAtoms: number;
+  /** sp3 carbons over all carbons (0 when there is no carbon). */
+  fractionCsp3: number;
+  rings: number;
+  aromaticRings: number;
+  formalCharge: number;
+}
+
+/**
+ * Wildman–Crippen atom types (J. Chem. Inf. Comput. Sci. 1999, 39, 868) as SMARTS for the
+ * typed atom, with the logP contribution. Each heavy atom takes the first type that fits;
+ * hydrogens are typed separately from the atom they sit on.
+ */
+const CRIPPEN_TYPES: Array<[type: string, logP: number, patterns: string[]]> = [
+  ["C1", 0.1441, ["[CH4]", "[CH3]C", "[CH2](C)C"]],
+  ["C2", 0.0, ["[CH](C)(C)C", "[C](C)(C)(C)C"]],
+  ["C3", -0.2035, ["[CH3][N,O,P,S,F,Cl,Br,I]", "[CH2X4]([N,O,P,S,F,Cl,Br,I])[A;!#1]"]],
+  ["C4", -0.2051, ["[CH1X4]([N,O,P,S,F,Cl,Br,I])([A;!#1])[A;!#1]", "[CH0X4]([N,O,P,S,F,Cl,Br,I])([A;!#1])([A;!#1])[A;!#1]"]],
+  ["C5", -0.2783, ["[C]=[!C;A;!#1]"]],
+  ["C6", 0.1551, ["[CH2]=C", "[CH1](=C)[A;!#1]", "[CH0](=C)([A;!#1])[A;!#1]", "[C](=C)=C"]],
+  ["C7", 0.0017, ["[CX2]#[A]"]],
+  ["C8", 0.08452, ["[CH3]c"]],
+  ["C9", -0.1444, ["[CH3]a"]],
+  ["C10", -0.0516, ["[CH2X4]a"]],
+  ["C11", 0.1193, ["[CHX4]a"]],
+  ["C12", -0.0967, ["[CH0X4]a"]],
+  ["C13", -0.5443, ["[cH0]-[A;!C;!N;!O;!S;!F;!Cl;!Br;!I;!#1]"]],
+  ["C14", 0.0, ["[c][#9]"]],
+  ["C15", 0.245, ["[c][#17]"]],
+  ["C16", 0.198, ["[c][#35]"]],
+  ["C17", 0.0, ["[c][#53]"]],
+  ["C18", 0.1581, ["[cH]"]],
+  ["C19", 0.2955, ["[c](:a)(:a):a"]],
+  ["C20", 0.2713, ["[c](:a)(:a)-a"]],
+  ["C21", 0.136, ["[c](:a)(:a)-C"]],
+  ["C22", 0.4619, ["[c](:a)(:a)-N"]],
+  ["C23", 0.5437, ["[c](:a)(:a)-O"]],
+  ["C24", 0.1893, ["[c](:a)(:a)-S"]],
+  ["C25", -0.8186, ["[c](:a)(:a)=[C,N,O]"]],
+  ["C26", 0.264, ["[C](=C)(a)[A;!#1]", "[C](=C)(c)a", "[CH1](=C)a", "[C]=c"]],
+  ["C27", 0.2148, ["[CX4][A;!C;!N;!O;!P;!S;!F;!Cl;!Br;!I;!#1]"]],
+  ["CS", 0.08129, ["[#6]"]],
+  ["N1", -1.019, ["[NH2+0][A;!#1]"]],
+  ["N2", -0.7096, ["[NH+0]([A;!#1])[A;!#1]"]],
+  ["N3", -1.027, ["[NH2+0]a"]],
+  ["N4", -0.5188, ["[NH1+0](a)[A;!#1]", "[NH+0](a)a"]],
+  ["N5", 0.08387, ["[NH+0]=[A;!#1]", "[N+0](=[A;!#1])[A;!#1]"]],
+  ["N6", 0.1836, ["[N+0](=[A;!#1])a"]],
+  ["N7", -0.3187, ["[N+0]([A;!#1])([A;!#1])[A;!#1]"]],
+  ["N8", -0.4458, ["[N+0](a)([A;!#1])[A;!#1]", "[N+0](a)(a)[A;!#1]", "[N+0](a)(a)a"]],
+  ["N9", 0.01508, ["[N+0]#[A;!#1]"]],
+  ["N10", -1.95, ["[NH3,NH2,NH;+,+2,+3]"]],
+  ["N11", -0.3239, ["[n+0]"]],
+  ["N12", -1.119, ["[n;+,+2,+3]"]],
+  ["N13", -0.3396, ["[NH0;+,+2,+3]([A;!#1])([A;!#1])([A;!#1])[A;!#1]", "[NH0;+,+2,+3](=[A])([A;!#1])[!#8]", "[NH0;+,+2,+3](=[#6])=[#7]"]],
+  ["N14", 0.2887, ["[N;+,+2,+3]#[A;!#1]", "[N;-,-2,-3]", "[N;+,+2,+3](=[N;-,-2,-3])=N"]],
+  ["NS", -0.4806, ["[#7]"]],
+  ["O1", 0.1552, ["[o]"]],
+  ["O2", -0.2893, ["[OH]", "[OH2]"]],
+  ["O3", -0.0684, ["[O]([A;!#1])[A;!#1]"]],
+  ["O4", -0.4195, ["[O](a)[A;!#1]", "[O](a)a"]],
+  ["O5", 0.0335, ["[O]=[#7,#8]", "[OX1;-;$([OX1;-][#7])]"]],
+  ["O6", -0.3339, ["[OX1;-;$([OX1;-][#16])]"]],
+  ["O12", -1.326, ["[O-1]C(=O)"]],
+  ["O7", -1.189, ["[OX1;-]"]],
+  ["O8", 0.1788, ["[O]=c"]],
+  ["O9", -0.1526, ["[O]=[CH]C", "[O]=C(C)C", "[O]=C(C)[A;!#1]", "[O]=[CH]N", "[O]=[CH]O", "[O]=[CH2]", "[O]=[CX2]=O"]],
+  ["O10", 0.1129, ["[O]=[CH]c", "[O]=C([C,c])[a;!#1]", "[O]=C(c)[A;!#1]"]],
+  ["O11", 0.4833, ["[O]=C([!#1;!#6])[!#1;!#6]"]],
+  ["OS", -0.1188, ["[#8]"]],
+  ["F", 0.4202, ["[#9-0]"]],
+  ["Cl", 0.6895, ["[#17-0]"]],
+  ["Br", 0.8456, ["[#35-0]"]],
+  ["I", 0.8857, ["[#53-0]"]],
+  ["Hal", -2.996, ["[#9,#17,#35,#53;-]", "[#53;+,+2,+3]", "[+;#3,#11,#19,#37,#55]"]],
+  ["P", 0.8612, ["[#15]"]],
+  ["S1", 0.6482, ["[S-0]"]],
+  ["S2", -0.0024, ["[S-,S-2,S-3,S-4,S+,S+2,S+3]"]],
+  ["S3", 0.6237, ["[s]"]],
+];
+
+// Hydrogen contributions by the atom they are attached to
+const CRIPPEN_H = {
+  hydrocarbon: 0.123, // H1: on carbon
+  alcohol: -0.2677, // H2: on O of alcohols, phenols and water, and on other heteroatoms
+  amine: 0.2142, // H3: on nitrogen, or on an O bonded to nitrogen
+  acid: 0.298, // H4: on O of acids, enols and peroxides
+};
+
+// RDKit's Lipinski-module definitions, with acceptors limited to basic lone pairs: no halogens,
+// no H-free oxygens bonded to oxygen (O2, dialkyl peroxides), no pyrrole-type aromatic nitrogens
+const DONOR_SMARTS = "[$([N;!H0;v3]),$([N;!H0;+1;v4]),$([O,S;H1;+0]),$([n;H1;+0])]";
+const ACCEPTOR_SMARTS =
+  "[$([O,S;H1;v2]-[!$(*=[O,N,P,S])]),$([O;H0;v2;!$(O~O)]),$([S;H0;v2]),$([O,S;-]),$([N;v3;!$(N-*=!@[O,N,P,S])]),$([n;H0;X2;+0]),$([o,s;+0])]";
+// Rotatable bonds: acyclic single bonds between non-terminal atoms, skipping triple-bonded atoms and amide N–H
+const ROTATABLE_SMARTS =
+  "[!$([NH]!@C(=O))&!D1&!$(*#*)]-&!@[!$([NH]!@C(=O))&!D1&!$(*#*)]";
+
+// Patterns are parsed on first use and shared between calls
+let compiled: {
+  crippen: Array<{ logP: number; patterns: SmartsQuery[] }>;
+  donor: SmartsQuery;
+  acceptor: SmartsQuery;
+  rotatable: SmartsQuery;
+} | null = null;
+
+function patterns() {
+  compiled ??= {
+    crippen: CRIPPEN_TYPES.map(([, logP, smarts]) => ({ logP, patterns: smarts.map(parseSmarts) })),
+    donor: parseSmarts(DONOR_SMARTS),
+    acceptor: parseSmarts(ACCEPTOR_SMARTS),
+    rotatable: parseSmarts(ROTATABLE_SMARTS),
+  };
+  return compiled;
+}
+
+function crippenLogP(target: PreparedMolecule): number {
+  const { mol, adj } = target;
+  const contribution = new Array<number | null>(mol.atoms.length).fill(null);
+  for (const type of patterns().crippen) {
+    for (const pattern of type.patterns) {
+      for (const a of anchoredAtoms(target, pattern)) contribution[a] ??= type.logP;
+    }
+  }
+
+  let logP = contribution.reduce<number>((sum, c) => sum + (c ?? 0), 0);
+  mol.atoms.forEach((atom, i) => {
+    if (atom.hydrogens === 0) return;
+    const neighbors = adj[i].map((b) => (mol.bonds[b].from === i ? mol.bonds[b].to : mol.bonds[b].from));
+    let perH: number;
+    if (atom.element === "C") {
+      perH = CRIPPEN_H.hydrocarbon;
+    } else if (atom.element === "N") {
+      perH = CRIPPEN_H.amine;
+    } else if (atom.element === "O") {
+      const acidic = neighbors.some((n) => {
+        const other = mol.atoms[n];
+        if (other.element === "O" || other.element === "S") return true;
+        // O–H on a carbon that carries a double bond to C, N, O or S
+        return other.element === "C" && adj[n].some((b) => mol.bonds[b].order === 2 && !mol.bonds[b].aromatic);
+      });
+      perH = neighbors.some((n) => mol.atoms[n].element === "N")
+        ? CRIPPEN_H.amine
+        : acidic
+          ? CRIPPEN_H.acid
+          : CRIPPEN_H.alcohol;
+    } else {
+      perH = CRIPPEN_H.alcohol;
+    }
+    logP += perH * atom.hydrogens;
+  });
+  return logP;
+}
+
+/**
+ * Ertl polar surface area contribution of one N or O atom, keyed by aromaticity, charge,
+ * hydrogen count and its heavy-atom bonds (s/d/t/a = single/double/triple/aromatic).
+ * Atoms in three-membered rings use the ring values. Combinations outside the table fall
+ * back to Ertl's rule of thumb from the neighbour and hydrogen counts.
+ */
+const TPSA_TABLE: Record<string, number> = {
+  "N|0|0|s3": 3.24,
+  "N|0|0|s1d1": 12.36,
+  "N|0|0|t1": 23.79,
+  "N|0|0|s1d2": 11.68,
+  "N|0|0|d1t1": 13.6,
+  "N|0|0|s3|r3": 3.01,
+  "N|0|1|s2": 12.03,
+  "N|0|1|s2|r3": 21.94,
+  "N|0|1|d1": 23.85,
+  "N|0|2|s1": 26.02,
+  "N|1|0|s4": 0,
+  "N|1|0|s2d1": 3.01,
+  "N|1|0|s1t1": 4.36,
+  "N|1|1|s3": 4.44,
+  "N|1|1|s1d1": 13.97,
+  "N|1|2|s2": 16.61,
+  "N|1|2|d1": 25.59,
+  "N|1|3|s1": 27.64,
+  "n|0|0|a2": 12.89,
+  "n|0|0|a3": 4.41,
+  "n|0|0|s1a2": 4.93,
+  "n|0|0|d1a2": 8.39,
+  "n|0|1|a2": 15.79,
+  "n|1|0|a3": 4.1,
+  "n|1|0|s1a2": 3.88,
+  "n|1|1|a2": 14.14,
+  "O|0|0|s2": 9.23,
+  "O|0|0|s2|r3": 12.53,
+  "O|0|0|d1": 17.07,
+  "O|0|1|s1": 20.23,
+  "O|-1|0|s1": 23.06,
+  "o|0|0|a2": 13.14,
+};
+
+function polarSurfaceArea(target: PreparedMolecule): number {
+  const { mol, adj } = target;
+  let tpsa = 0;
+  mol.atoms.forEach((atom, i) => {
+    if (atom.element !== "N" && atom.element !== "O") return;
+    const counts = { s: 0, d: 0, t: 0, a: 0 };
+    for (const b of adj[i]) {
+      const bond = mol.bonds[b];
+      if (bond.aromatic) counts.a++;
+      else if (bond.order === 1) counts.s++;
+      else if (bond.order === 2) counts.d++;
+      else counts.t++;
+    }
+    const bonds = (["s", "d", "t", "a"] as const)
+      .filter((k) => counts[k] > 0)
+      .map((k) => `${k}${counts[k]}`)
+      .join("");
+    const symbol = atom.aromatic ? atom.element.toLowerCase() : atom.element;
+    const key = `${symbol}|${atom.charge}|${atom.hydrogens}|${bonds}`;
+    const inSmallRing = target.ringSizes[i].includes(3);
+    const value = (inSmallRing ? TPSA_TABLE[`${key}|r3`] : undefined) ?? TPSA_TABLE[key];
+    if (value !== undefined) {
+      tpsa += value;
+    } else {
+      const heavy = adj[i].length;
+      tpsa += Math.max(0, atom.element === "N" ? 30.5 - 8.2 * heavy + 1.5 * atom.hydrogens : 28.5 - 8.6 * heavy + 1.5 * atom.hydrogens);
+    }
+  });
+  return tpsa;
+}
+
+/**
+ * Descriptors for a parsed molecule. Explicit hydrogens are folded and aromaticity
+ * normalised first, so "C1=CC=CC=C1" and "c1ccccc1" give the same values.
+ */
+export function computeDescriptors(input: Molecule): MolecularDescriptors {
+  const mol = standardizeMolecule(input);
+  const target = prepareMolecule(mol);
+  const { adj } = target;
+  const rings = smallestRings(target.mol);
+  const carbons = target.mol.atoms.flatMap((a, i) => (a.element === "C" ? [i] : []));
+  const sp3 = carbons.filter((i) => adj[i].every((b) => target.mol.bonds[b].order === 1 && !target.mol.bonds[b].aromatic));
+  const { donor, acceptor, rotatable } = patterns();
+
+  // Rounded to the precision of the contribution tables, so the summation order does not show
+  return {
+    molecularWeight: round(molecularFormula(mol).averageMass, 3),
+    logP: round(crippenLogP(target), 4),
+    tpsa: round(polarSurfaceArea(target), 2),
+    hBondDonors: anchoredAtoms(target, donor).length,
+    hBondAcceptors: anchoredAtoms(target, acceptor).length,
+    rotatableBonds: substructureMatches(target, rotatable, { maxMatches: 10_000 }).length,
+    heavyAtoms: mol.atoms.filter((a) => a.element !== "H").length,
+    fractionCsp3: carbons.length > 0 ? round(sp3.length / carbons.length, 4) : 0,
+    rings: rings.length,
+    aromaticRings: rings.filter((r) => r.atoms.every((a) => target.mol.atoms[a].aromatic)).length,
+    formalCharge: netCharge(mol),
+  };
+}
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/** Descriptors for a SMILES string, or null when it does not parse. */
+export function descriptorsFromSmiles(smiles: string): MolecularDescriptors | null {
+  let mol: Molecule;
+  try {
+    mol = parseSmiles(smiles);
+  } catch {
+    return null;
+  }
+  return computeDescriptors(mol);
+}
@@ -0,0 +1,302 @@
+import { computeDescriptors, type MolecularDescriptors } from "./descriptors";
+import { adjacency, elementCounts, type Molecule, otherAtom } from "./molecule";
+import { parseSmarts, prepareMolecule, type SmartsQuery, substructureMatches } from "./smarts";
+import { tryParseSmiles } from "./smiles";
+
+export type RuleSetId = "lipinski" | "veber" | "ghose" | "leadLike";
+export type AlertSetId = "pains" | "brenk";
+
+/** One property limit of a rule set, with the molecule's value. */
+export interface RuleCheck {
+  label: string;
+  value: number;
+  /** The allowed range as text, e.g. "≤ 500" or "160–480". */
+  limit: string;
+  pass: boolean;
+}
+
+export interface RuleSetResult {
+  id: RuleSetId;
+  name: string;
+  pass: boolean;
+  violations: number;
+  checks: RuleCheck[];
+}
+
+/** A structural alert found in the molecule; `atoms` holds one atom set per occurrence. */
+export interface StructuralAlert {
+  set: AlertSetId;
+  id: string;
+  name: string;
+  atoms: number[][];
+}
+
+export interface DrugLikenessProfile {
+  descriptors: MolecularDescriptors;
+  /** Molar refractivity (cm³/mol) used by the Ghose filter. */
+  molarRefractivity: number;
+  /** All atoms including hydrogens, as counted by the Ghose filter. */
+  atomCount: number;
+  rules: RuleSetResult[];
+  alerts: StructuralAlert[];
+}
+
+type Properties = MolecularDescriptors & { molarRefractivity: number; atomCount: number };
+
+interface Criterion {
+  label: string;
+  value: (p: Properties) => number;
+  min?: number;
+  max?: number;
+}
+
+const MW: Criterion["value"] = (p) => p.molecularWeight;
+const LOGP: Criterion["value"] = (p) => p.logP;
+
+const RULE_SETS: Array<{ id: RuleSetId; name: string; allowedViolations: number; criteria: Criterion[] }> = [
+  {
+    // Lipinski et al., Adv. Drug Deliv. Rev. 1997; one violation is tolerated
+    id: "lipinski",
+    name: "Lipinski",
+    allowedViolations: 1,
+    criteria: [
+      { label: "MW", value: MW, max: 500 },
+      { label: "LogP", value: LOGP, max: 5 },
+      { label: "H-bond donors", value: (p) => p.hBondDonors, max: 5 },
+      { label: "H-bond acceptors", value: (p) => p.hBondAcceptors, max: 10 },
+    ],
+  },
+  {
+    // Veber et al., J. Med. Chem. 2002
+    id: "veber",
+    name: "Veber",
+    allowedViolations: 0,
+    criteria: [
+      { label: "Rotatable bonds", value: (p) => p.rotatableBonds, max: 10 },
+      { label: "TPSA", value: (p) => p.tpsa, max: 140 },
+    ],
+  },
+  {
+    // Ghose et al., J. Comb. Chem. 1999
+    id: "ghose",
+    name: "Ghose",
+    allowedViolations: 0,
+    criteria: [
+      { label: "MW", value: MW, min: 160, max: 480 },
+      { label: "LogP", value: LOGP, min: -0.4, max: 5.6 },
+      { label: "Molar refractivity", value: (p) => p.molarRefractivity, min: 40, max: 130 },
+      { label: "Atoms", value: (p) => p.atomCount, min: 20, max: 70 },
+    ],
+  },
+  {
+    // Teague et al., Angew. Chem. Int. Ed. 1999
+    id: "leadLike",
+    name: "Lead-like",
+    allowedViolations: 0,
+    criteria: [
+      { label: "MW", value: MW, min: 250, max: 350 },
+      { label: "LogP", value: LOGP, max: 3.5 },
+      { label: "Rotatable bonds", value: (p) => p.rotatableBonds, max: 7 },
+    ],
+  },
+];
+
+/**
+ * Structural alerts as SMARTS. PAINS (Baell & Holloway, J. Med. Chem. 2010) covers the
+ * frequent-hitter families seen most often in screening libraries rather than all 480
+ * published patterns; Brenk (ChemMedChem 2008) covers reactive, unstable and toxicophore groups.
+ */
+const ALERTS: Array<{ set: AlertSetId; id: string; name: string; smarts: string }> = [
+  { set: "pains", id: "ene_rhod", name: "Ene-rhodanine", smarts: "[#6]=[#6]1[#16][#6](=[#16])[#7][#6]1=[#8]" },
+  { set: "pains", id: "ene_five_het", name: "Arylidene five-membered heterocycle", smarts: "[#6;!R]=[#6;R1]1[#6](=[#8])[#7,#8,#16][#6,#7,#16][#6,#7,#16]1" },
+  { set: "pains", id: "ene_cyano", name: "Alkylidene malononitrile", smarts: "[#6]=[#6](C#N)C#N" },
+  { set: "pains", id: "quinone", name: "Quinone", smarts: "[#8]=[#6]1[#6]=,:[#6][#6](=[#8])[#6]=,:[#6]1" },
+  { set: "pains", id: "ortho_quinone", name: "ortho-Quinone", smarts: "[#8]=[#6]1[#6](=[#8])[#6]=,:[#6][#6]=,:[#6]1" },
+  { set: "pains", id: "catechol", name: "Catechol", smarts: "c([OH])c[OH]" },
+  { set: "pains", id: "hydroquinone", name: "Hydroquinone / p-aminophenol", smarts: "[OH]c1ccc([OH,NH2])cc1" },
+  { set: "pains", id: "azo", name: "Aryl azo", smarts: "c[NX2]=[NX2]c" },
+  { set: "pains", id: "anil_di_alk", name: "Dialkylaniline", smarts: "c1ccccc1[NX3;!$(NC=[O,S])]([CH2,CH3])[CH2,CH3]" },
+  { set: "pains", id: "mannich", name: "Phenolic Mannich base", smarts: "[OH]c1ccccc1[CH2][NX3;!$(NC=[O,S])]" },
+  { set: "pains", id: "hzone_phenol", name: "Phenol hydrazone", smarts: "[OH]c1ccccc1[#6]=[#7][#7]" },
+  { set: "pains", id: "hzone_acyl", name: "Acyl hydrazone", smarts: "[#6]=[#7][NH][#6](=[#8])" },
+  { set: "pains", id: "thiophene_amino", name: "2-Aminothiophene", smarts: "[NX3;H2,H1]c1sccc1" },
+  { set: "pains", id: "indol_3yl_alk", name: "Indol-3-yl alkylamine", smarts: "c1ccc2c(c1)c(c[nH]2)[CH2][NX3;!$(NC=O)]" },
+  { set: "brenk", id: "michael_acceptor", name: "Michael acceptor", smarts: "[CX3;!R]=[CX3][$([CX3]=[O,S]),$(C#N),$([SX4](=O)=O),$([NX3+](=O)[O-])]" },
+  { set: "brenk", id: "aldehyde", name: "Aldehyde", smarts: "[CX3H1](=O)[#6]" },
+  { set: "brenk", id: "acyl_halide", name: "Acyl halide", smarts: "[CX3](=O)[F,Cl,Br,I]" },
+  { set: "brenk", id: "alkyl_halide", name: "Alkyl halide", smarts: "[CX4][Cl,Br,I]" },
+  { set: "brenk", id: "anhydride", name: "Anhydride", smarts: "[CX3](=O)[OX2][CX3](=O)" },
+  { set: "brenk", id: "azide", name: "Azide", smarts: "[#7]=[#7+]=[#7-]" },
+  { set: "brenk", id: "azo", name: "Azo group", smarts: "[#6][NX2]=[NX2][#6]" },
+  { set: "brenk", id: "diazo", name: "Diazo group", smarts: "[#6]=[#7+]=[#7-]" },
+  { set: "brenk", id: "three_ring", name: "Epoxide / aziridine", smarts: "[#6]1[#8,#7][#6]1" },
+  { set: "brenk", id: "isocyanate", name: "Isocyanate / isothiocyanate", smarts: "[#7]=[#6]=[#8,#16]" },
+  { set: "brenk", id: "nitro", name: "Nitro group", smarts: "[#7+](=[#8])[#8-]" },
+  { set: "brenk", id: "nitroso", name: "Nitroso group", smarts: "[#6,#7][NX2]=[#8]" },
+  { set: "brenk", id: "n_oxide", name: "N-oxide", smarts: "[#7+;!$([#7+](=[#8])[#8-])][#8-]" },
+  { set: "brenk", id: "peroxide", name: "Peroxide", smarts: "[#8][#8]" },
+  { set: "brenk", id: "thiol", name: "Thiol", smarts: "[SX2H]" },
+  { set: "brenk", id: "disulfide", name: "Disulfide", smarts: "[#16][#16]" },
+  { set: "brenk", id: "thiocarbonyl", name: "Thiocarbonyl", smarts: "[#6]=[SX1]" },
+  { set: "brenk", id: "sulfonyl_halide", name: "Sulfonyl halide", smarts: "[SX4](=O)(=O)[F,Cl,Br,I]" },
+  { set: "brenk", id: "sulfonate_ester", name: "Sulfonate ester", smarts: "[SX4](=O)(=O)[OX2][#6]" },
+  { set: "brenk", id: "phosphor_ester", name: "Phosphate / phosphonate ester", smarts: "P(=O)[OX2][#6]" },
+  { set: "brenk", id: "hydrazine", name: "Hydrazine", smarts: "[NX3;!$(NC=O)][NX3;!$(NC=O)]" },
+  { set: "brenk", id: "hydroxamic_acid", name: "Hydroxamic acid", smarts: "[CX3](=O)[NX3][OH]" },
+  { set: "brenk", id: "oxime", name: "Oxime", smarts: "[#6]=[NX2][OH]" },
+  { set: "brenk", id: "imine", name: "Imine", smarts: "[#6;!a]=[NX2;!a;!R;!$(N[#7,#8])]" },
+  { set: "brenk", id: "phenol_ester", name: "Phenol ester", smarts: "c[OX2][CX3](=O)[#6]" },
+  { set: "brenk", id: "two_halo_pyridine", name: "2-Halopyridine", smarts: "n1c([F,Cl,Br,I])cccc1" },
+  { set: "brenk", id: "triflate", name: "Triflate", smarts: "[#8][SX4](=O)(=O)C(F)(F)F" },
+  { set: "brenk", id: "quaternary_nitrogen", name: "Quaternary nitrogen", smarts: "[NX4+]" },
+  { set: "brenk", id: "polyene", name: "Polyene", smarts: "[CX3;!a]=[CX3;!a][CX3;!a]=[CX3;!a][CX3;!a]=[CX3;!a]" },
+  { set: "brenk", id: "long_chain", name: "Long aliphatic chain", smarts: "[CH2;R0][CH2;R0][CH2;R0][CH2;R0][CH2;R0][CH2;R0][CH2;R0]" },
+  { set: "brenk", id: "heavy_metal", name: "Heavy metal or metalloid", smarts: "[Hg,Pb,Cd,As,Sb,Tl,Sn,Se,Te,Bi]" },
+];
+
+let compiledAlerts: Array<{ set: AlertSetId; id: string; name: string; query: SmartsQuery }> | null = null;
+
+function alertPatterns() {
+  compiledAlerts ??= ALERTS.map(({ smarts, ...alert }) => ({ ...alert, query: parseSmarts(smarts) }));
+  return compiledAlerts;
+}
+
+/**
+ * Structural alerts in a molecule. Atom indices refer to the molecule as given, so they can
+ * be highlighted on a depiction of the same SMILES.
+ */
+export function structuralAlerts(mol: Molecule): StructuralAlert[] {
+  const target = prepareMolecule(mol);
+  return alertPatterns().flatMap(({ query, ...alert }) => {
+    const atoms = substructureMatches(target, query, { maxMatches: 50 });
+    return atoms.length > 0 ? [{ ...alert, atoms }] : [];
+  });
+}
+
+// Atomic refractions (cm³/mol, sodium D line) after Eisenlohr and Vogel
+const REFRACTION = {
+  C: 2.418,
+  H: 1.1,
+  hydroxylO: 1.525,
+  etherO: 1.643,
+  carbonylO: 2.211,
+  primaryN: 2.322,
+  secondaryN: 2.502,
+  tertiaryN: 2.84,
+  nitrileN: 3.118,
+  F: 0.95,
+  Cl: 5.967,
+  Br: 8.865,
+  I: 13.9,
+  S: 7.69,
+  P: 6.92,
+  doubleBond: 1.733,
+  tripleBond: 2.398,
+};
+
+/**
+ * Molar refractivity from atomic refractions plus double- and triple-bond increments; aromatic
+ * rings count as their Kekulé double bonds. Within a few percent of the Crippen values the
+ * Ghose window was set with for ordinary organic molecules.
+ */
+export function molarRefractivity(mol: Molecule): number {
+  const adj = adjacency(mol);
+  let mr = 0;
+  mol.atoms.forEach((atom, i) => {
+    mr += atom.hydrogens * REFRACTION.H;
+    const bonds = adj[i].map((b) => mol.bonds[b]);
+    const heavy = bonds.filter((b) => mol.atoms[otherAtom(b, i)].element !== "H").length;
+    switch (atom.element) {
+      case "O":
+        mr += bonds.some((b) => b.order === 2) ? REFRACTION.carbonylO : atom.hydrogens > 0 ? REFRACTION.hydroxylO : REFRACTION.etherO;
+        break;
+      case "N":
+        mr += bonds.some((b) => b.order === 3)
+          ? REFRACTION.nitrileN
+          : heavy <= 1
+            ? REFRACTION.primaryN
+            : heavy === 2 && !atom.aromatic
+              ? REFRACTION.secondaryN
+              : REFRACTION.tertiaryN;
+        break;
+      case "H":
+        mr += REFRACTION.H;
+        break;
+      default:
+        mr += atom.element in REFRACTION ? REFRACTION[atom.element as keyof typeof REFRACTION] : 0;
+    }
+  });
+  for (const bond of mol.bonds) {
+    const elements = [mol.atoms[bond.from].element, mol.atoms[bond.to].element];
+    // C=O, N=O and C≡N are already in the oxygen and nitrile refractions
+    if (elements.includes("O") || (bond.order === 3 && elements.includes("N"))) continue;
+    if (bond.aromatic) mr += REFRACTION.doubleBond / 2;
+    else if (bond.order === 2) mr += REFRACTION.doubleBond;
+    else if (bond.order === 3) mr += REFRACTION.tripleBond;
+  }
+  return Math.round(mr * 100) / 100;
+}
+
+const formatLimit = ({ min, max }: Criterion) =>
+  min !== undefined && max !== undefined ? `${min}–${max}` : min !== undefined ? `≥ ${min}` : `≤ ${max}`;
+
+/** Rule-set results and structural alerts for a parsed molecule. */
+export function evaluateDrugLikeness(mol: Molecule): DrugLikenessProfile {
+  const descriptors = computeDescriptors(mol);
+  const counts = elementCounts(mol);
+  const properties: Properties = {
+    ...descriptors,
+    molarRefractivity: molarRefractivity(mol),
+    atomCount: Object.values(counts).reduce((sum, n) => sum + n, 0),
+  };
+
+  const rules = RULE_SETS.map((set): RuleSetResult => {
+    const checks = set.criteria.map((c): RuleCheck => {
+      const value = c.value(properties);
+      return {
+        label: c.label,
+        value,
+        limit: formatLimit(c),
+        pass: (c.min === undefined || value >= c.min) && (c.max === undefined || value <= c.max),
+      };
+    });
+    const violations = checks.filter((c) => !c.pass).length;
+    return { id: set.id, name: set.name, pass: violations <= set.allowedViolations, violations, checks };
+  });
+
+  return {
+    descriptors,
+    molarRefractivity: properties.molarRefractivity,
+    atomCount: properties.atomCount,
+    rules,
+    alerts: structuralAlerts(mol),
+  };
+}
+
+/** Drug-likeness profile for a SMILES string, or null when it does not parse. */
+export function drugLikenessFromSmiles(smiles: string): DrugLikenessProfile | null {
+  const mol = tryParseSmiles(smiles);
+  if (!mol) return null;
+  return evaluateDrugLikeness(mol);
+}
+
+/** Library filter criteria: passing a rule set, or carrying no alerts from a set. */
+export type DrugLikenessFilterId = RuleSetId | AlertSetId;
+
+export const DRUG_LIKENESS_FILTERS: Array<{ id: DrugLikenessFilterId; label: string }> = [
+  ...RULE_SETS.map((s) => ({ id: s.id, label: s.name })),
+  { id: "pains", label: "No PAINS" },
+  { id: "brenk", label: "No Brenk alerts" },
+];
+
+/** Whether a profile meets every selected filter. */
+export function meetsDrugLikenessFilters(profile: DrugLikenessProfile, filters: Iterable<DrugLikenessFilterId>): boolean {
+  for (const filter of filters) {
+    if (filter === "pains" || filter === "brenk") {
+      if (profile.alerts.some((a) => a.set === filter)) return false;
+    } else if (!profile.rules.find((r) => r.id === filter)?.pass) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,520 @@
+// Element symbols in atomic-number order (index + 1 === Z)
+export const ELEMENT_SYMBOLS = [
+  "H", "He",
+  "Li", "Be", "B", "C", "N", "O", "F", "Ne",
+  "Na", "Mg", "Al", "Si", "P", "S", "Cl", "Ar",
+  "K", "Ca", "Sc", "Ti", "V", "Cr", "Mn", "Fe", "Co", "Ni", "Cu", "Zn", "Ga", "Ge", "As", "Se", "Br", "Kr",
+  "Rb", "Sr", "Y", "Zr", "Nb", "Mo", "Tc", "Ru", "Rh", "Pd", "Ag", "Cd", "In", "Sn", "Sb", "Te", "I", "Xe",
+  "Cs", "Ba",
+  "La", "Ce", "Pr", "Nd", "Pm", "Sm", "Eu", "Gd", "Tb", "Dy", "Ho", "Er", "Tm", "Yb", "Lu",
+  "Hf", "Ta", "W", "Re", "Os", "Ir", "Pt", "Au", "Hg", "Tl", "Pb", "Bi", "Po", "At", "Rn",
+  "Fr", "Ra",
+  "Ac", "Th", "Pa", "U", "Np", "Pu", "Am", "Cm", "Bk", "Cf", "Es", "Fm", "Md", "No", "Lr",
+  "Rf", "Db", "Sg", "Bh", "Hs", "Mt", "Ds", "Rg", "Cn", "Nh", "Fl", "Mc", "Lv", "Ts", "Og",
+] as const;
+
+export type ElementSymbol = (typeof ELEMENT_SYMBOLS)[number];
+
+const SYMBOL_SET = new Set<string>(ELEMENT_SYMBOLS);
+
+export function isElementSymbol(symbol: string): boolean {
+  return SYMBOL_SET.has(symbol);
+}
+
+// Allowed valences for the SMILES organic subset, lowest first.
+// Unbracketed atoms take the smallest valence that fits their bonds; the rest is implicit H.
+export const ORGANIC_VALENCES: Record<string, number[]> = {
+  B: [3],
+  C: [4],
+  N: [3, 5],
+  O: [2],
+  P: [3, 5],
+  S: [2, 4, 6],
+  F: [1],
+  Cl: [1],
+  Br: [1],
+  I: [1],
+};
+
+const GROUP_VALENCES: Record<number, number[]> = {
+  1: [1],
+  2: [2],
+  13: [3],
+  14: [4],
+  15: [3, 5],
+  16: [2, 4, 6],
+  17: [1, 3, 5, 7],
+  18: [0],
+};
+
+const SECOND_PERIOD = new Set(["B", "C", "N", "O", "F"]);
+
+/**
+ * Permitted total valences (bond orders + hydrogens) for an atom, lowest first. Charged
+ * p-block atoms follow their isoelectronic neighbour (N+ like C, O- like F); second-period
+ * atoms cannot expand their octet. Returns null for elements with no fixed rule (e.g. metals).
+ */
+export function allowedValences(element: string, charge = 0): number[] | null {
+  const group = elementData(element)?.group;
+  if (group == null || (group > 2 && group < 13) || group === 18) return null;
+  if (group <= 2) {
+    const v = group - Math.abs(charge);
+    return v >= 0 ? [v] : [];
+  }
+  const effective = group - charge;
+  if (effective === 12 && charge > 0) return [2];
+  const valences = GROUP_VALENCES[effective];
+  if (!valences) return [];
+  return SECOND_PERIOD.has(element) ? valences.slice(0, 1) : valences;
+}
+
+export interface Isotope {
+  massNumber: number;
+  /** Exact mass in unified atomic mass units. */
+  mass: number;
+  /** Natural abundance as a fraction; 0 for isotopes that only occur synthetically. */
+  abundance: number;
+}
+
+// Standard atomic weight and isotopes as [mass number, exact mass, abundance]. Elements with
+// no stable isotope list their longest-lived one and use its mass number as atomic weight.
+const MASS_DATA: Record<ElementSymbol, [number, Array<[number, number, number]>]> = {
+  H: [1.008, [[1, 1.00782503, 0.99988], [2, 2.01410178, 0.00012], [3, 3.01604928, 0]]],
+  He: [4.0026, [[3, 3.01602932, 0.00000134], [4, 4.00260325, 0.99999866]]],
+  Li: [6.94, [[6, 6.0151229, 0.0759], [7, 7.0160034, 0.9241]]],
+  Be: [9.0122, [[9, 9.0121831, 1]]],
+  B: [10.81, [[10, 10.012937, 0.199], [11, 11.0093054, 0.801]]],
+  C: [12.011, [[12, 12, 0.9893], [13, 13.00335484, 0.0107], [14, 14.003242, 0]]],
+  N: [14.007, [[14, 14.00307401, 0.99636], [15, 15.00010889, 0.00364]]],
+  O: [15.999, [[16, 15.99491462, 0.99757], [17, 16.99913176, 0.00038], [18, 17.99915961, 0.00205]]],
+  F: [18.998, [[18, 18.000938, 0], [19, 18.99840316, 1]]],
+  Ne: [20.18, [[20, 19.99244018, 0.9048], [21, 20.99384668, 0.0027], [22, 21.99138511, 0.0925]]],
+  Na: [22.99, [[23, 22.98976928, 1]]],
+  Mg: [24.305, [[24, 23.9850417, 0.7899], [25, 24.98583698, 0.1], [26, 25.98259297, 0.1101]]],
+  Al: [26.982, [[27, 26.98153853, 1]]],
+  Si: [28.085, [[28, 27.97692653, 0.92223], [29, 28.97649466, 0.04685], [30, 29.97377014, 0.03092]]],
+  P: [30.974, [[31, 30.973762, 1], [32, 31.9739076, 0]]],
+  S: [32.06, [
+    [32, 31.97207117, 0.9499], [33, 32.97145891, 0.0075], [34, 33.967867, 0.0425],
+    [36, 35.96708071, 0.0001],
+  ]],
+  Cl: [35.45, [[35, 34.96885268, 0.7576], [37, 36.9659026, 0.2424]]],
+  Ar: [39.95, [[36, 35.96754511, 0.003336], [38, 37.9627321, 0.000629], [40, 39.96238312, 0.996035]]],
+  K: [39.098, [[39, 38.96370649, 0.932581], [40, 39.96399817, 0.000117], [41, 40.96182526, 0.067302]]],
+  Ca: [40.078, [
+    [40, 39.96259086, 0.96941], [42, 41.95861783, 0.00647], [43, 42.95876644, 0.00135],
+    [44, 43.95548156, 0.02086], [46, 45.953689, 0.00004], [48, 47.95252276, 0.00187],
+  ]],
+  Sc: [44.956, [[45, 44.95590828, 1]]],
+  Ti: [47.867, [
+    [46, 45.95262772, 0.0825], [47, 46.95175879, 0.0744], [48, 47.94794198, 0.7372],
+    [49, 48.94786568, 0.0541], [50, 49.94478689, 0.0518],
+  ]],
+  V: [50.942, [[50, 49.94715601, 0.0025], [51, 50.94395704, 0.9975]]],
+  Cr: [51.996, [
+    [50, 49.94604183, 0.04345], [52, 51.94050623, 0.83789], [53, 52.94064815, 0.09501],
+    [54, 53.93887916, 0.02365],
+  ]],
+  Mn: [54.938, [[55, 54.93804391, 1]]],
+  Fe: [55.845, [
+    [54, 53.93960899, 0.05845], [56, 55.93493633, 0.91754], [57, 56.93539284, 0.02119],
+    [58, 57.93327443, 0.00282],
+  ]],
+  Co: [58.933, [[59, 58.93319429, 1]]],
+  Ni: [58.693, [
+    [58, 57.93534241, 0.68077], [60, 59.93078588, 0.26223], [61, 60.93105557, 0.011399],
+    [62, 61.92834537, 0.036346], [64, 63.92796682, 0.009255],
+  ]],
+  Cu: [63.546, [[63, 62.92959772, 0.6915], [65, 64.9277897, 0.3085]]],
+  Zn: [65.38, [
+    [64, 63.92914201, 0.4917], [66, 65.92603381, 0.2773], [67, 66.92712775, 0.0404],
+    [68, 67.92484455, 0.1845], [70, 69.9253192, 0.0061],
+  ]],
+  Ga: [69.723, [[69, 68.9255735, 0.60108], [71, 70.92470258, 0.39892]]],
+  Ge: [72.63, [
+    [70, 69.92424875, 0.2057], [72, 71.92207583, 0.2745], [73, 72.92345896, 0.0775],
+    [74, 73.92117776, 0.365], [76, 75.92140273, 0.0773],
+  ]],
+  As: [74.922, [[75, 74.92159457, 1]]],
+  Se: [78.971, [
+    [74, 73.92247593, 0.0089], [76, 75.9192137, 0.0937], [77, 76.91991415, 0.0763],
+    [78, 77.91730928, 0.2377], [80, 79.9165218, 0.4961], [82, 81.9166995, 0.0873],
+  ]],
+  Br: [79.904, [[79, 78.9183376, 0.5069], [81, 80.9162897, 0.4931]]],
+  Kr: [83.798, [
+    [78, 77.92036494, 0.00355], [80, 79.91637808, 0.02286], [82, 81.91348273, 0.11593],
+    [83, 82.91412716, 0.115], [84, 83.91149773, 0.56987], [86, 85.91061063, 0.17279],
+  ]],
+  Rb: [85.468, [[85, 84.91178974, 0.7217], [87, 86.90918053, 0.2783]]],
+  Sr: [87.62, [
+    [84, 83.9134191, 0.0056], [86, 85.9092606, 0.0986], [87, 86.9088775, 0.07],
+    [88, 87.9056125, 0.8258],
+  ]],
+  Y: [88.906, [[89, 88.9058403, 1]]],
+  Zr: [91.224, [
+    [90, 89.9046977, 0.5145], [91, 90.9056396, 0.1122], [92, 91.9050347, 0.1715],
+    [94, 93.9063108, 0.1738], [96, 95.9082714, 0.028],
+  ]],
+  Nb: [92.906, [[93, 92.906373, 1]]],
+  Mo: [95.95, [
+    [92, 91.90680796, 0.1453], [94, 93.9050849, 0.0915], [95, 94.90583877, 0.1584],
+    [96, 95.90467612, 0.1667], [97, 96.90601812, 0.096], [98, 97.90540482, 0.2439],
+    [100, 99.9074718, 0.0982],
+  ]],
+  Tc: [98, [[98, 97.9072124, 0]]],
+  Ru: [101.07, [
+    [96, 95.90759025, 0.0554], [98, 97.9052868, 0.0187], [99, 98.9059341, 0.1276],
+    [100, 99.9042143, 0.126], [101, 100.9055769, 0.1706], [102, 101.9043441, 0.3155],
+    [104, 103.9054275, 0.1862],
+  ]],
+  Rh: [102.91, [[103, 102.905498, 1]]],
+  Pd: [106.42, [
+    [102, 101.9056022, 0.0102], [104, 103.9040305, 0.1114], [105, 104.9050796, 0.2233],
+    [106, 105.9034804, 0.2733], [108, 107.9038916, 0.2646], [110, 109.9051722, 0.1172],
+  ]],
+  Ag: [107.87, [[107, 106.9050916, 0.51839], [109, 108.9047553, 0.48161]]],
+  Cd: [112.41, [
+    [106, 105.9064599, 0.0125], [108, 107.9041834, 0.0089], [110, 109.9030066, 0.1249],
+    [111, 110.9041829, 0.128], [112, 111.9027629, 0.2413], [113, 112.9044081, 0.1222],
+    [114, 113.9033651, 0.2873], [116, 115.9047632, 0.0749],
+  ]],
+  In: [114.82, [[113, 112.9040618, 0.0429], [115, 114.9038788, 0.9571]]],
+  Sn: [118.71, [
+    [112, 111.9048239, 0.0097], [114, 113.9027827, 0.0066], [115, 114.9033447, 0.0034],
+    [116, 115.9017428, 0.1454], [117, 116.902954, 0.0768], [118, 117.9016066, 0.2422],
+    [119, 118.9033112, 0.0859], [120, 119.9022016, 0.3258], [122, 121.9034438, 0.0463],
+    [124, 123.9052766, 0.0579],
+  ]],
+  Sb: [121.76, [[121, 120.903812, 0.5721], [123, 122.9042132, 0.4279]]],
+  Te: [127.6, [
+    [120, 119.9040593, 0.0009], [122, 121.9030435, 0.0255], [123, 122.9042698, 0.0089],
+    [124, 123.9028171, 0.0474], [125, 124.9044299, 0.0707], [126, 125.9033109, 0.1884],
+    [128, 127.9044613, 0.3174], [130, 129.9062227, 0.3408],
+  ]],
+  I: [126.9, [[125, 124.9046294, 0], [127, 126.9044719, 1], [131, 130.9061263, 0]]],
+  Xe: [131.29, [
+    [124, 123.905892, 0.000952], [126, 125.9042983, 0.00089], [128, 127.903531, 0.019102],
+    [129, 128.9047809, 0.264006], [130, 129.9035093, 0.04071], [131, 130.9050841, 0.212324],
+    [132, 131.9041551, 0.269086], [134, 133.9053947, 0.104357], [136, 135.9072145, 0.088573],
+  ]],
+  Cs: [132.91, [[133, 132.905452, 1]]],
+  Ba: [137.33, [
+    [130, 129.9063207, 0.00106], [132, 131.9050611, 0.00101], [134, 133.9045082, 0.02417],
+    [135, 134.9056884, 0.06592], [136, 135.9045757, 0.07854], [137, 136.9058271, 0.11232],
+    [138, 137.905247, 0.71698],
+  ]],
+  La: [138.91, [[138, 137.9071149, 0.0008881], [139, 138.9063563, 0.9991119]]],
+  Ce: [140.12, [
+    [136, 135.9071292, 0.00185], [138, 137.905991, 0.00251], [140, 139.9054431, 0.8845],
+    [142, 141.9092504, 0.11114],
+  ]],
+  Pr: [140.91, [[141, 140.9076576, 1]]],
+  Nd: [144.24, [
+    [142, 141.907729, 0.27152], [143, 142.90982, 0.12174], [144, 143.910093, 0.23798],
+    [145, 144.9125793, 0.08293], [146, 145.9131226, 0.17189], [148, 147.9168993, 0.05756],
+    [150, 149.9209022, 0.05638],
+  ]],
+  Pm: [145, [[145, 144.9127559, 0]]],
+  Sm: [150.36, [
+    [144, 143.9120065, 0.0307], [147, 146.9149044, 0.1499], [148, 147.9148292, 0.1124],
+    [149, 148.9171921, 0.1382], [150, 149.9172829, 0.0738], [152, 151.9197397, 0.2675],
+    [154, 153.9222169, 0.2275],
+  ]],
+  Eu: [151.96, [[151, 150.9198578, 0.4781], [153, 152.921238, 0.5219]]],
+  Gd: [157.25, [
+    [152, 151.9197995, 0.002], [154, 153.9208741, 0.0218], [155, 154.9226305, 0.148],
+    [156, 155.9221312, 0.2047], [157, 156.9239686, 0.1565], [158, 157.9241123, 0.2484],
+    [160, 159.9270624, 0.2186],
+  ]],
+  Tb: [158.93, [[159, 158.9253547, 1]]],
+  Dy: [162.5, [
+    [156, 155.9242847, 0.00056], [158, 157.9244159, 0.00095], [160, 159.9252046, 0.02329],
+    [161, 160.9269405, 0.18889], [162, 161.9268056, 0.25475], [163, 162.9287383, 0.24896],
+    [164, 163.9291819, 0.2826],
+  ]],
+  Ho: [164.93, [[165, 164.9303288, 1]]],
+  Er: [167.26, [
+    [162, 161.9287884, 0.00139], [164, 163.9292088, 0.01601], [166, 165.9302995, 0.33503],
+    [167, 166.9320546, 0.22869], [168, 167.9323767, 0.26978], [170, 169.9354702, 0.1491],
+  ]],
+  Tm: [168.93, [[169, 168.9342179, 1]]],
+  Yb: [173.05, [
+    [168, 167.9338896, 0.00123], [170, 169.9347664, 0.02982], [171, 170.9363302, 0.1409],
+    [172, 171.9363859, 0.2168], [173, 172.9382151, 0.16103], [174, 173.9388664, 0.32026],
+    [176, 175.9425764, 0.12996],
+  ]],
+  Lu: [174.97, [[175, 174.9407752, 0.97401], [176, 175.9426897, 0.02599]]],
+  Hf: [178.49, [
+    [174, 173.9400461, 0.0016], [176, 175.9414076, 0.0526], [177, 176.9432277, 0.186],
+    [178, 177.9437058, 0.2728], [179, 178.9458232, 0.1362], [180, 179.946557, 0.3508],
+  ]],
+  Ta: [180.95, [[180, 179.9474648, 0.0001201], [181, 180.9479958, 0.9998799]]],
+  W: [183.84, [
+    [180, 179.9467108, 0.0012], [182, 181.9482039, 0.265], [183, 182.950223, 0.1431],
+    [184, 183.9509309, 0.3064], [186, 185.9543628, 0.2843],
+  ]],
+  Re: [186.21, [[185, 184.9529545, 0.374], [187, 186.9557501, 0.626]]],
+  Os: [190.23, [
+    [184, 183.9524885, 0.0002], [186, 185.953835, 0.0159], [187, 186.9557474, 0.0196],
+    [188, 187.9558352, 0.1324], [189, 188.9581442, 0.1615], [190, 189.9584437, 0.2626],
+    [192, 191.961477, 0.4078],
+  ]],
+  Ir: [192.22, [[191, 190.9605893, 0.373], [193, 192.9629216, 0.627]]],
+  Pt: [195.08, [
+    [190, 189.9599297, 0.00012], [192, 191.9610387, 0.00782], [194, 193.9626809, 0.3286],
+    [195, 194.9647917, 0.3378], [196, 195.9649521, 0.2521], [198, 197.9678949, 0.07356],
+  ]],
+  Au: [196.97, [[197, 196.9665688, 1]]],
+  Hg: [200.59, [
+    [196, 195.9658326, 0.0015], [198, 197.9667686, 0.0997], [199, 198.9682806, 0.1687],
+    [200, 199.9683265, 0.231], [201, 200.9703028, 0.1318], [202, 201.9706434, 0.2986],
+    [204, 203.973494, 0.0687],
+  ]],
+  Tl: [204.38, [[203, 202.9723446, 0.2952], [205, 204.9744278, 0.7048]]],
+  Pb: [207.2, [
+    [204, 203.973044, 0.014], [206, 205.9744657, 0.241], [207, 206.9758973, 0.221],
+    [208, 207.9766525, 0.524],
+  ]],
+  Bi: [208.98, [[209, 208.9803991, 1]]],
+  Po: [209, [[209, 208.9824308, 0]]],
+  At: [210, [[210, 209.9871479, 0]]],
+  Rn: [222, [[222, 222.0175782, 0]]],
+  Fr: [223, [[223, 223.019736, 0]]],
+  Ra: [226, [[226, 226.0254103, 0]]],
+  Ac: [227, [[227, 227.0277523, 0]]],
+  Th: [232.04, [[232, 232.0380558, 1]]],
+  Pa: [231.04, [[231, 231.0358842, 1]]],
+  U: [238.03, [[234, 234.0409523, 0.000054], [235, 235.0439301, 0.007204], [238, 238.0507884, 0.992742]]],
+  Np: [237, [[237, 237.0481736, 0]]],
+  Pu: [244, [[244, 244.0642053, 0]]],
+  Am: [243, [[243, 243.0613813, 0]]],
+  Cm: [247, [[247, 247.0703541, 0]]],
+  Bk: [247, [[247, 247.0703073, 0]]],
+  Cf: [251, [[251, 251.0795886, 0]]],
+  Es: [252, [[252, 252.08298, 0]]],
+  Fm: [257, [[257, 257.0951061, 0]]],
+  Md: [258, [[258, 258.0984315, 0]]],
+  No: [259, [[259, 259.10103, 0]]],
+  Lr: [266, [[266, 266.11983, 0]]],
+  Rf: [267, [[267, 267.12179, 0]]],
+  Db: [268, [[268, 268.12567, 0]]],
+  Sg: [269, [[269, 269.12863, 0]]],
+  Bh: [270, [[270, 270.13336, 0]]],
+  Hs: [269, [[269, 269.13375, 0]]],
+  Mt: [278, [[278, 278.15631, 0]]],
+  Ds: [281, [[281, 281.16451, 0]]],
+  Rg: [282, [[282, 282.16912, 0]]],
+  Cn: [285, [[285, 285.17712, 0]]],
+  Nh: [286, [[286, 286.18221, 0]]],
+  Fl: [289, [[289, 289.19042, 0]]],
+  Mc: [290, [[290, 290.19598, 0]]],
+  Lv: [293, [[293, 293.20449, 0]]],
+  Ts: [294, [[294, 294.21046, 0]]],
+  Og: [294, [[294, 294.21392, 0]]],
+};
+
+// Element properties: name, group (null for the f-block), covalent radius (Å, Cordero 2008;
+// Pyykkö beyond Cm), van der Waals radius (Å, Bondi/Mantina; null where none is defined),
+// Pauling electronegativity, common valences (lowest first) and Jmol colour
+const PROPERTY_DATA: Record<
+  ElementSymbol,
+  [string, number | null, number, number | null, number | null, number[], number]
+> = {
+  H: ["Hydrogen", 1, 0.31, 1.2, 2.2, [1], 0xffffff],
+  He: ["Helium", 18, 0.28, 1.4, null, [0], 0xd9ffff],
+  Li: ["Lithium", 1, 1.28, 1.82, 0.98, [1], 0xcc80ff],
+  Be: ["Beryllium", 2, 0.96, 1.53, 1.57, [2], 0xc2ff00],
+  B: ["Boron", 13, 0.84, 1.92, 2.04, [3], 0xffb5b5],
+  C: ["Carbon", 14, 0.76, 1.7, 2.55, [4], 0x909090],
+  N: ["Nitrogen", 15, 0.71, 1.55, 3.04, [3], 0x3050f8],
+  O: ["Oxygen", 16, 0.66, 1.52, 3.44, [2], 0xff0d0d],
+  F: ["Fluorine", 17, 0.57, 1.47, 3.98, [1], 0x90e050],
+  Ne: ["Neon", 18, 0.58, 1.54, null, [0], 0xb3e3f5],
+  Na: ["Sodium", 1, 1.66, 2.27, 0.93, [1], 0xab5cf2],
+  Mg: ["Magnesium", 2, 1.41, 1.73, 1.31, [2], 0x8aff00],
+  Al: ["Aluminum", 13, 1.21, 1.84, 1.61, [3], 0xbfa6a6],
+  Si: ["Silicon", 14, 1.11, 2.1, 1.9, [4], 0xf0c8a0],
+  P: ["Phosphorus", 15, 1.07, 1.8, 2.19, [3, 5], 0xff8000],
+  S: ["Sulfur", 16, 1.05, 1.8, 2.58, [2, 4, 6], 0xffff30],
+  Cl: ["Chlorine", 17, 1.02, 1.75, 3.16, [1, 3, 5, 7], 0x1ff01f],
+  Ar: ["Argon", 18, 1.06, 1.88, null, [0], 0x80d1e3],
+  K: ["Potassium", 1, 2.03, 2.75, 0.82, [1], 0x8f40d4],
+  Ca: ["Calcium", 2, 1.76, 2.31, 1, [2], 0x3dff00],
+  Sc: ["Scandium", 3, 1.7, null, 1.36, [3], 0xe6e6e6],
+  Ti: ["Titanium", 4, 1.6, null, 1.54, [2, 3, 4], 0xbfc2c7],
+  V: ["Vanadium", 5, 1.53, null, 1.63, [2, 3, 4, 5], 0xa6a6ab],
+  Cr: ["Chromium", 6, 1.39, null, 1.66, [2, 3, 6], 0x8a99c7],
+  Mn: ["Manganese", 7, 1.39, null, 1.55, [2, 3, 4, 6, 7], 0x9c7ac7],
+  Fe: ["Iron", 8, 1.32, null, 1.83, [2, 3], 0xe06633],
+  Co: ["Cobalt", 9, 1.26, null, 1.88, [2, 3], 0xf090a0],
+  Ni: ["Nickel", 10, 1.24, 1.63, 1.91, [2], 0x50d050],
+  Cu: ["Copper", 11, 1.32, 1.4, 1.9, [1, 2], 0xc88033],
+  Zn: ["Zinc", 12, 1.22, 1.39, 1.65, [2], 0x7d80b0],
+  Ga: ["Gallium", 13, 1.22, 1.87, 1.81, [3], 0xc28f8f],
+  Ge: ["Germanium", 14, 1.2, 2.11, 2.01, [2, 4], 0x668f8f],
+  As: ["Arsenic", 15, 1.19, 1.85, 2.18, [3, 5], 0xbd80e3],
+  Se: ["Selenium", 16, 1.2, 1.9, 2.55, [2, 4, 6], 0xffa100],
+  Br: ["Bromine", 17, 1.2, 1.85, 2.96, [1, 3, 5, 7], 0xa62929],
+  Kr: ["Krypton", 18, 1.16, 2.02, 3, [0, 2], 0x5cb8d1],
+  Rb: ["Rubidium", 1, 2.2, 3.03, 0.82, [1], 0x702eb0],
+  Sr: ["Strontium", 2, 1.95, 2.49, 0.95, [2], 0x00ff00],
+  Y: ["Yttrium", 3, 1.9, null, 1.22, [3], 0x94ffff],
+  Zr: ["Zirconium", 4, 1.75, null, 1.33, [4], 0x94e0e0],
+  Nb: ["Niobium", 5, 1.64, null, 1.6, [3, 5], 0x73c2c9],
+  Mo: ["Molybdenum", 6, 1.54, null, 2.16, [2, 3, 4, 5, 6], 0x54b5b5],
+  Tc: ["Technetium", 7, 1.47, null, 1.9, [4, 7], 0x3b9e9e],
+  Ru: ["Ruthenium", 8, 1.46, null, 2.2, [2, 3, 4], 0x248f8f],
+  Rh: ["Rhodium", 9, 1.42, null, 2.28, [1, 3], 0x0a7d8c],
+  Pd: ["Palladium", 10, 1.39, 1.63, 2.2, [2, 4], 0x006985],
+  Ag: ["Silver", 11, 1.45, 1.72, 1.93, [1], 0xc0c0c0],
+  Cd: ["Cadmium", 12, 1.44, 1.58, 1.69, [2], 0xffd98f],
+  In: ["Indium", 13, 1.42, 1.93, 1.78, [1, 3], 0xa67573],
+  Sn: ["Tin", 14, 1.39, 2.17, 1.96, [2, 4], 0x668080],
+  Sb: ["Antimony", 15, 1.39, 2.06, 2.05, [3, 5], 0x9e63b5],
+  Te: ["Tellurium", 16, 1.38, 2.06, 2.1, [2, 4, 6], 0xd47a00],
+  I: ["Iodine", 17, 1.39, 1.98, 2.66, [1, 3, 5, 7], 0x940094],
+  Xe: ["Xenon", 18, 1.4, 2.16, 2.6, [0, 2, 4, 6], 0x429eb0],
+  Cs: ["Cesium", 1, 2.44, 3.43, 0.79, [1], 0x57178f],
+  Ba: ["Barium", 2, 2.15, 2.68, 0.89, [2], 0x00c900],
+  La: ["Lanthanum", 3, 2.07, null, 1.1, [3], 0x70d4ff],
+  Ce: ["Cerium", null, 2.04, null, 1.12, [3, 4], 0xffffc7],
+  Pr: ["Praseodymium", null, 2.03, null, 1.13, [3], 0xd9ffc7],
+  Nd: ["Neodymium", null, 2.01, null, 1.14, [3], 0xc7ffc7],
+  Pm: ["Promethium", null, 1.99, null, 1.13, [3], 0xa3ffc7],
+  Sm: ["Samarium", null, 1.98, null, 1.17, [2, 3], 0x8fffc7],
+  Eu: ["Europium", null, 1.98, null, 1.2, [2, 3], 0x61ffc7],
+  Gd: ["Gadolinium", null, 1.96, null, 1.2, [3], 0x45ffc7],
+  Tb: ["Terbium", null, 1.94, null, 1.1, [3, 4], 0x30ffc7],
+  Dy: ["Dysprosium", null, 1.92, null, 1.22, [3], 0x1fffc7],
+  Ho: ["Holmium", null, 1.92, null, 1.23, [3], 0x00ff9c],
+  Er: ["Erbium", null, 1.89, null, 1.24, [3], 0x00e675],
+  Tm: ["Thulium", null, 1.9, null, 1.25, [3], 0x00d452],
+  Yb: ["Ytterbium", null, 1.87, null, 1.1, [2, 3], 0x00bf38],
+  Lu: ["Lutetium", null, 1.87, null, 1.27, [3], 0x00ab24],
+  Hf: ["Hafnium", 4, 1.75, null, 1.3, [4], 0x4dc2ff],
+  Ta: ["Tantalum", 5, 1.7, null, 1.5, [5], 0x4da6ff],
+  W: ["Tungsten", 6, 1.62, null, 2.36, [4, 6], 0x2194d6],
+  Re: ["Rhenium", 7, 1.51, null, 1.9, [4, 7], 0x267dab],
+  Os: ["Osmium", 8, 1.44, null, 2.2, [4, 8], 0x266696],
+  Ir: ["Iridium", 9, 1.41, null, 2.2, [3, 4], 0x175487],
+  Pt: ["Platinum", 10, 1.36, 1.75, 2.28, [2, 4], 0xd0d0e0],
+  Au: ["Gold", 11, 1.36, 1.66, 2.54, [1, 3], 0xffd123],
+  Hg: ["Mercury", 12, 1.32, 1.55, 2, [1, 2], 0xb8b8d0],
+  Tl: ["Thallium", 13, 1.45, 1.96, 1.62, [1, 3], 0xa6544d],
+  Pb: ["Lead", 14, 1.46, 2.02, 2.33, [2, 4], 0x575961],
+  Bi: ["Bismuth", 15, 1.48, 2.07, 2.02, [3, 5], 0x9e4fb5],
+  Po: ["Polonium", 16, 1.4, 1.97, 2, [2, 4], 0xab5c00],
+  At: ["Astatine", 17, 1.5, 2.02, 2.2, [1], 0x754f45],
+  Rn: ["Radon", 18, 1.5, 2.2, 2.2, [0], 0x428296],
+  Fr: ["Francium", 1, 2.6, 3.48, 0.7, [1], 0x420066],
+  Ra: ["Radium", 2, 2.21, 2.83, 0.9, [2], 0x007d00],
+  Ac: ["Actinium", 3, 2.15, null, 1.1, [3], 0x70abfa],
+  Th: ["Thorium", null, 2.06, null, 1.3, [4], 0x00baff],
+  Pa: ["Protactinium", null, 2, null, 1.5, [5], 0x00a1ff],
+  U: ["Uranium", null, 1.96, 1.86, 1.38, [3, 4, 6], 0x008fff],
+  Np: ["Neptunium", null, 1.9, null, 1.36, [5], 0x0080ff],
+  Pu: ["Plutonium", null, 1.87, null, 1.28, [4], 0x006bff],
+  Am: ["Americium", null, 1.8, null, 1.13, [3], 0x545cf2],
+  Cm: ["Curium", null, 1.69, null, 1.28, [3], 0x785ce3],
+  Bk: ["Berkelium", null, 1.68, null, 1.3, [3], 0x8a4fe3],
+  Cf: ["Californium", null, 1.68, null, 1.3, [3], 0xa136d4],
+  Es: ["Einsteinium", null, 1.65, null, 1.3, [3], 0xb31fd4],
+  Fm: ["Fermium", null, 1.67, null, 1.3, [3], 0xb31fba],
+  Md: ["Mendelevium", null, 1.73, null, 1.3, [3], 0xb30da6],
+  No: ["Nobelium", null, 1.76, null, 1.3, [2], 0xbd0d87],
+  Lr: ["Lawrencium", 3, 1.61, null, 1.3, [3], 0xc70066],
+  Rf: ["Rutherfordium", 4, 1.57, null, null, [4], 0xcc0059],
+  Db: ["Dubnium", 5, 1.49, null, null, [5], 0xd1004f],
+  Sg: ["Seaborgium", 6, 1.43, null, null, [6], 0xd90045],
+  Bh: ["Bohrium", 7, 1.41, null, null, [7], 0xe00038],
+  Hs: ["Hassium", 8, 1.34, null, null, [8], 0xe6002e],
+  Mt: ["Meitnerium", 9, 1.29, null, null, [], 0xeb0026],
+  Ds: ["Darmstadtium", 10, 1.28, null, null, [], 0xeb0026],
+  Rg: ["Roentgenium", 11, 1.21, null, null, [], 0xeb0026],
+  Cn: ["Copernicium", 12, 1.22, null, null, [], 0xeb0026],
+  Nh: ["Nihonium", 13, 1.36, null, null, [], 0xeb0026],
+  Fl: ["Flerovium", 14, 1.43, null, null, [], 0xeb0026],
+  Mc: ["Moscovium", 15, 1.62, null, null, [], 0xeb0026],
+  Lv: ["Livermorium", 16, 1.75, null, null, [], 0xeb0026],
+  Ts: ["Tennessine", 17, 1.65, null, null, [], 0xeb0026],
+  Og: ["Oganesson", 18, 1.57, null, null, [], 0xeb0026],
+};
+
+// Radius used for elements without a tabulated van der Waals radius
+const DEFAULT_VDW_RADIUS = 2.0;
+
+export interface ElementData {
+  symbol: ElementSymbol;
+  name: string;
+  atomicNumber: number;
+  /** Group 1-18; null for lanthanides and actinides after La/Ac. */
+  group: number | null;
+  /** Standard atomic weight in g/mol (mass number of the longest-lived isotope if none). */
+  atomicMass: number;
+  isotopes: Isotope[];
+  /** Single-bond covalent radius in Å. */
+  covalentRadius: number;
+  /** Van der Waals radius in Å. */
+  vdwRadius: number;
+  /** Pauling electronegativity; null for the lighter noble gases and superheavy elements. */
+  electronegativity: number | null;
+  /** Common valences / oxidation-state magnitudes, lowest first. */
+  valences: number[];
+  /** CPK colour as used by Jmol, 0xRRGGBB. */
+  color: number;
+}
+
+/** All 118 elements, indexed by atomic number - 1. */
+export const ELEMENTS: readonly ElementData[] = ELEMENT_SYMBOLS.map((symbol, i) => {
+  const [atomicMass, isotopeRows] = MASS_DATA[symbol];
+  const [name, group, covalentRadius, vdwRadius, electronegativity, valences, color] = PROPERTY_DATA[symbol];
+  return {
+    symbol,
+    name,
+    atomicNumber: i + 1,
+    group,
+    atomicMass,
+    isotopes: isotopeRows.map(([massNumber, mass, abundance]) => ({ massNumber, mass, abundance })),
+    covalentRadius,
+    vdwRadius: vdwRadius ?? DEFAULT_VDW_RADIUS,
+    electronegativity,
+    valences,
+    color,
+  };
+});
+
+const BY_SYMBOL = new Map<string, ElementData>(ELEMENTS.map((e) => [e.symbol, e]));
+
+// Table entry for a symbol ("Fe", case-sensitive), or null
+export function elementData(symbol: string): ElementData | null {
+  return BY_SYMBOL.get(symbol) ?? null;
+}
+
+// Atomic number, or 0 for unknown symbols and the "*" wildcard
+export function atomicNumber(symbol: string): number {
+  return elementData(symbol)?.atomicNumber ?? 0;
+}
+
+// Standard atomic weight in g/mol, or null for unknown symbols
+export function atomicMass(element: string): number | null {
+  return elementData(element)?.atomicMass ?? null;
+}
+
+export function isotopes(element: string): Isotope[] {
+  return elementData(element)?.isotopes ?? [];
+}
+
+// Exact mass of one isotope, or null when it is not in the table
+export function isotopeMass(element: string, massNumber: number): number | null {
+  return isotopes(element).find((iso) => iso.massNumber === massNumber)?.mass ?? null;
+}
+
+/**
+ * Mass of the most abundant isotope, the one used for monoisotopic masses. Elements without
+ * a natural isotope give their longest-lived isotope.
+ */
+export function monoisotopicMass(element: string): number | null {
+  const list = isotopes(element);
+  if (list.length === 0) return null;
+  return list.reduce((best, iso) => (iso.abundance > best.abundance ? iso : best)).mass;
+}
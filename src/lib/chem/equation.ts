@@ -0,0 +1,501 @@
+import { isElementSymbol } from "./elements";
+import { formatCharge, hillFormula } from "./formula";
+import { elementCounts, netCharge } from "./molecule";
+import { tryParseSmiles } from "./smiles";
+
+/**
+ * Thrown for equation text that cannot be read. `position` is the 0-based character offset of
+ * the problem; the message reports it 1-based, as SmilesParseError does.
+ */
+export class EquationParseError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position + 1}`);
+    this.name = "EquationParseError";
+    this.position = position;
+  }
+}
+
+export type StateOfMatter = "s" | "l" | "g" | "aq";
+
+/** How a species' structure was found: a known species, a condensed formula read as a chain, or SMILES. */
+export type StructureSource = "known" | "condensed" | "smiles";
+
+/** One species of an equation, as typed and as understood. */
+export interface EquationSpecies {
+  /** The species as written, without coefficient and state ("CH3COOH", "SO4^2-"). */
+  text: string;
+  coefficient: number;
+  /** Hill formula with charge ("C2H4O2", "O4S-2"). */
+  formula: string;
+  counts: Record<string, number>;
+  charge: number;
+  state: StateOfMatter | null;
+  /** Waters of crystallisation ("CuSO4·5H2O" → 5), included in counts. */
+  hydrate: number;
+  /** Structure when it could be worked out, else null (resolve it by name instead). */
+  smiles: string | null;
+  source: StructureSource | null;
+}
+
+export interface ParsedEquation {
+  reactants: EquationSpecies[];
+  products: EquationSpecies[];
+  /** Written with an equilibrium arrow ("<=>", "⇌"). */
+  reversible: boolean;
+  /** Whether the coefficients as written conserve every element and the charge. */
+  balanced: boolean;
+}
+
+// Arrows, longest first; "=" only counts with spaces around it
+const ARROWS: Array<{ pattern: RegExp; reversible: boolean }> = [
+  { pattern: /<=+>|<-+>|⇌|⇄|↔/, reversible: true },
+  { pattern: /-+>|=+>|→|⟶/, reversible: false },
+  { pattern: /\s=\s/, reversible: false },
+];
+
+const STATES: Record<string, StateOfMatter> = { s: "s", l: "l", g: "g", aq: "aq" };
+
+// Species whose structure a formula alone cannot give; keys are formulas as commonly written
+const KNOWN_SPECIES: Record<string, string> = {
+  H2: "[H][H]",
+  O2: "O=O",
+  O3: "[O-][O+]=O",
+  N2: "N#N",
+  F2: "FF",
+  Cl2: "ClCl",
+  Br2: "BrBr",
+  I2: "II",
+  H2O: "O",
+  H2O2: "OO",
+  CO: "[C-]#[O+]",
+  CO2: "O=C=O",
+  NH3: "N",
+  HF: "F",
+  HCl: "Cl",
+  HBr: "Br",
+  HI: "I",
+  HCN: "C#N",
+  HNO3: "O[N+](=O)[O-]",
+  H2SO4: "O=S(=O)(O)O",
+  H3PO4: "O=P(O)(O)O",
+  H2CO3: "OC(=O)O",
+  SO2: "O=S=O",
+  SO3: "O=S(=O)=O",
+  NO: "[N]=O",
+  NO2: "O=[N]=O",
+  N2O: "[N-]=[N+]=O",
+  H2S: "S",
+  CH4: "C",
+  NaOH: "[Na+].[OH-]",
+  KOH: "[K+].[OH-]",
+  LiOH: "[Li+].[OH-]",
+  "Ca(OH)2": "[Ca+2].[OH-].[OH-]",
+  "Mg(OH)2": "[Mg+2].[OH-].[OH-]",
+  "Ba(OH)2": "[Ba+2].[OH-].[OH-]",
+  NaCl: "[Na+].[Cl-]",
+  KCl: "[K+].[Cl-]",
+  NaBr: "[Na+].[Br-]",
+  KBr: "[K+].[Br-]",
+  NaI: "[Na+].[I-]",
+  KI: "[K+].[I-]",
+  CaCl2: "[Ca+2].[Cl-].[Cl-]",
+  MgCl2: "[Mg+2].[Cl-].[Cl-]",
+  AgCl: "[Ag+].[Cl-]",
+  AgBr: "[Ag+].[Br-]",
+  "Fe(OH)3": "[Fe+3].[OH-].[OH-].[OH-]",
+  AgNO3: "[Ag+].[O-][N+](=O)[O-]",
+  NaNO3: "[Na+].[O-][N+](=O)[O-]",
+  KNO3: "[K+].[O-][N+](=O)[O-]",
+  Na2SO4: "[Na+].[Na+].[O-]S(=O)(=O)[O-]",
+  K2SO4: "[K+].[K+].[O-]S(=O)(=O)[O-]",
+  CuSO4: "[Cu+2].[O-]S(=O)(=O)[O-]",
+  BaSO4: "[Ba+2].[O-]S(=O)(=O)[O-]",
+  ZnSO4: "[Zn+2].[O-]S(=O)(=O)[O-]",
+  MgSO4: "[Mg+2].[O-]S(=O)(=O)[O-]",
+  Na2CO3: "[Na+].[Na+].[O-]C(=O)[O-]",
+  K2CO3: "[K+].[K+].[O-]C(=O)[O-]",
+  CaCO3: "[Ca+2].[O-]C(=O)[O-]",
+  NaHCO3: "[Na+].OC(=O)[O-]",
+  KMnO4: "[K+].[O-][Mn](=O)(=O)=O",
+  NH4Cl: "[NH4+].[Cl-]",
+  CaO: "[Ca+2].[O-2]",
+  MgO: "[Mg+2].[O-2]",
+  Na2O: "[Na+].[Na+].[O-2]",
+  NaH: "[Na+].[H-]",
+  LiAlH4: "[Li+].[AlH4-]",
+  NaBH4: "[Na+].[BH4-]",
+  NaCN: "[Na+].[C-]#N",
+  KCN: "[K+].[C-]#N",
+  OH: "[OH-]",
+  NH4: "[NH4+]",
+  H3O: "[OH3+]",
+  NO3: "[O-][N+](=O)[O-]",
+  SO4: "[O-]S(=O)(=O)[O-]",
+  CO3: "[O-]C(=O)[O-]",
+  HCO3: "OC(=O)[O-]",
+  PO4: "[O-]P(=O)([O-])[O-]",
+  MnO4: "[O-][Mn](=O)(=O)=O",
+  Cr2O7: "[O-][Cr](=O)(=O)O[Cr](=O)(=O)[O-]",
+  CN: "[C-]#N",
+  C6H6: "c1ccccc1",
+};
+
+type Counts = Record<string, number>;
+
+const add = (into: Counts, from: Counts, times = 1) => {
+  for (const [k, v] of Object.entries(from)) into[k] = (into[k] ?? 0) + v * times;
+};
+
+// Element counts of a formula with (), [] and {} groups: "Ca(OH)2", "K4[Fe(CN)6]"
+function formulaCounts(text: string, offset: number): Counts {
+  const stack: Counts[] = [{}];
+  const open: string[] = [];
+  let i = 0;
+  const number = () => {
+    const m = /^\d+/.exec(text.slice(i));
+    if (!m) return 1;
+    i += m[0].length;
+    return Number(m[0]);
+  };
+  while (i < text.length) {
+    const ch = text[i];
+    if ("([{".includes(ch)) {
+      open.push(ch);
+      stack.push({});
+      i++;
+    } else if (")]}".includes(ch)) {
+      if (open.length === 0 || "([{".indexOf(open.pop()!) !== ")]}".indexOf(ch)) {
+        throw new EquationParseError("Unbalanced bracket in formula", offset + i);
+      }
+      i++;
+      const group = stack.pop()!;
+      add(stack[stack.length - 1], group, number());
+    } else if (ch >= "A" && ch <= "Z") {
+      const two = text.slice(i, i + 2);
+      const symbol = /^[A-Z][a-z]$/.test(two) && isElementSymbol(two) ? two : ch;
+      if (!isElementSymbol(symbol)) throw new EquationParseError(`Unknown element "${symbol}"`, offset + i);
+      i += symbol.length;
+      add(stack[stack.length - 1], { [symbol]: number() });
+    } else {
+      throw new EquationParseError(`Unexpected "${ch}" in formula`, offset + i);
+    }
+  }
+  if (open.length > 0) throw new EquationParseError("Unclosed bracket in formula", offset + text.length);
+  return stack[0];
+}
+
+// Condensed-formula groups, longest first, as [text, SMILES head atom, SMILES rest]
+const CONDENSED_GROUPS: Array<[string, string, string]> = [
+  ["C6H5", "c1ccccc1", ""],
+  ["C6H4", "c1ccc(cc1)", ""],
+  ["C2H5", "CC", ""],
+  ["COOH", "C", "(=O)O"],
+  ["CO2H", "C", "(=O)O"],
+  ["COO", "C", "(=O)O"],
+  ["CHO", "C", "=O"],
+  ["CO", "C", "(=O)"],
+  ["CH3", "C", ""],
+  ["CH2", "C", ""],
+  ["CH", "C", ""],
+  ["NH2", "N", ""],
+  ["NH", "N", ""],
+  ["OH", "O", ""],
+  ["HO", "O", ""],
+  ["SH", "S", ""],
+  ["Cl", "Cl", ""],
+  ["Br", "Br", ""],
+  ["C", "C", ""],
+  ["N", "N", ""],
+  ["O", "O", ""],
+  ["S", "S", ""],
+  ["F", "F", ""],
+  ["I", "I", ""],
+];
+const COUNTER_IONS = ["Na", "Li", "K"];
+
+/**
+ * SMILES for a condensed structural formula read left to right as a chain ("CH3CH2OH",
+ * "CH3COOCH2CH3", "(CH3)2CHOH", "CH3COONa"). A leading parenthesised group repeats onto the
+ * next atom, a later one is a branch on the previous atom. Null when the text is not a chain.
+ */
+function condensedSmiles(text: string): string | null {
+  const units: Array<{ head: string; branches: string; rest: string }> = [];
+  const ions: string[] = [];
+  let bond = "";
+  let prefix: { smiles: string; count: number } | null = null;
+  let i = text.startsWith("H") && /^H(C|\()/.test(text) && !text.startsWith("HO") ? 1 : 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === "=" || ch === "≡") {
+      bond = ch === "=" ? "=" : "#";
+      i++;
+      continue;
+    }
+    if (ch === "(") {
+      const close = text.indexOf(")", i);
+      if (close < 0) return null;
+      const inner = condensedSmiles(text.slice(i + 1, close));
+      if (!inner) return null;
+      i = close + 1;
+      const m = /^\d+/.exec(text.slice(i));
+      const count = m ? Number(m[0]) : 1;
+      i += m ? m[0].length : 0;
+      if (units.length === 0) prefix = { smiles: inner, count };
+      else units[units.length - 1].branches += `(${inner})`.repeat(count);
+      continue;
+    }
+    const ion = COUNTER_IONS.find((m) => text.startsWith(m, i));
+    if (ion) {
+      // A metal after O makes a salt: the oxygen becomes an anion
+      const last = units[units.length - 1];
+      if (!last) return null;
+      if (last.rest.endsWith("O")) last.rest = `${last.rest.slice(0, -1)}[O-]`;
+      else if (last.head === "O" && !last.rest) last.head = "[O-]";
+      else return null;
+      ions.push(`[${ion}+]`);
+      i += ion.length;
+      continue;
+    }
+    // "CN" is a nitrile only at the end of a chain
+    if (text.slice(i) === "CN") {
+      units.push({ head: `${bond}C`, branches: "", rest: "#N" });
+      break;
+    }
+    // "CHOH" and "COH" are a carbon bearing OH, not an aldehyde or ketone
+    const group = CONDENSED_GROUPS.find(([g]) => text.startsWith(g, i) && !(g.endsWith("O") && text[i + g.length] === "H"));
+    if (!group) return null;
+    const [g, head, rest] = group;
+    units.push({ head: `${bond}${head}`, branches: "", rest });
+    bond = "";
+    i += g.length;
+    if (prefix) {
+      // (CH3)2CH…: one copy starts the chain, the others branch from this atom
+      units[0].branches += `(${prefix.smiles})`.repeat(prefix.count - 1);
+      units.unshift({ head: prefix.smiles, branches: "", rest: "" });
+      prefix = null;
+    }
+  }
+  if (units.length === 0 || prefix || bond) return null;
+  return [units.map((u) => u.head + u.branches + u.rest).join(""), ...ions].join(".");
+}
+
+// Usual valences of atoms that can sit alone among hydrogens and halogens
+const CENTRE_VALENCES: Record<string, number[]> = {
+  B: [3],
+  Al: [3],
+  C: [4],
+  Si: [4],
+  Ge: [4],
+  Sn: [4],
+  Ti: [4],
+  N: [3],
+  P: [3, 5],
+  As: [3, 5],
+  Sb: [3, 5],
+  O: [2],
+  S: [2, 4, 6],
+  Se: [2, 4, 6],
+  Xe: [2, 4, 6],
+};
+const HALOGENS = ["F", "Cl", "Br", "I"];
+const ORGANIC_SUBSET: Record<string, number[]> = { B: [3], C: [4], N: [3, 5], O: [2], P: [3, 5], S: [2, 4, 6] };
+
+/**
+ * SMILES for a neutral molecule of one central atom bonded only to hydrogens and halogens
+ * ("CCl4", "CHCl3", "PCl5", "SF6", "SiH4"), when their number is a usual valence of the
+ * centre. Null for anything else.
+ */
+function singleCentreSmiles(counts: Counts, charge: number): string | null {
+  const centres = Object.keys(counts).filter((el) => el !== "H" && !HALOGENS.includes(el));
+  if (charge !== 0 || centres.length !== 1 || counts[centres[0]] !== 1) return null;
+  const [centre] = centres;
+  const halides = HALOGENS.flatMap((x) => Array<string>(counts[x] ?? 0).fill(x));
+  const hydrogens = counts.H ?? 0;
+  if (!(CENTRE_VALENCES[centre] ?? []).includes(halides.length + hydrogens)) return null;
+  // Plain atoms where SMILES supplies the hydrogens itself, brackets otherwise
+  const implicit = ORGANIC_SUBSET[centre]?.find((valence) => valence >= halides.length);
+  const atom =
+    implicit === halides.length + hydrogens
+      ? centre
+      : `[${centre}${hydrogens > 0 ? `H${hydrogens > 1 ? hydrogens : ""}` : ""}]`;
+  if (halides.length === 0) return atom;
+  const [first, ...rest] = halides;
+  return `${first}${atom}${rest.slice(0, -1).map((x) => `(${x})`).join("")}${rest.at(-1) ?? ""}`;
+}
+
+// Charge notation after a formula: "^2-", "^{2-}", "(2-)", " 2-", "+", "2+" (see parseCharge)
+function splitCharge(text: string): { body: string; charge: number } {
+  const explicit = /(?:\^\{?|\s+|\()(\d*)([+-])\}?\)?$/.exec(text) ?? /\^\{?([+-])(\d*)\}?$/.exec(text);
+  if (explicit) {
+    const digits = [explicit[1], explicit[2]].find((part) => /^\d+$/.test(part));
+    const sign = explicit[1] === "+" || explicit[2] === "+" ? 1 : -1;
+    return { body: text.slice(0, explicit.index), charge: sign * (digits ? Number(digits) : 1) };
+  }
+  const bare = /(\d*)([+-]+)$/.exec(text);
+  if (!bare) return { body: text, charge: 0 };
+  const signs = bare[2];
+  const sign = signs[0] === "+" ? 1 : -1;
+  if (signs.length > 1) return { body: text.slice(0, bare.index) + bare[1], charge: sign * signs.length };
+  // "SO42-", "CO32-": the last of several digits is the charge; "Fe3+", "Ca2+": a lone
+  // element's digit is the charge; "NH4+": otherwise the digit is a subscript
+  const digits = bare[1];
+  const body = text.slice(0, bare.index);
+  if (digits.length >= 2) return { body: body + digits.slice(0, -1), charge: sign * Number(digits.slice(-1)) };
+  if (digits && /^[A-Z][a-z]?$/.test(body)) return { body, charge: sign * Number(digits) };
+  return { body: body + digits, charge: sign };
+}
+
+function readSpecies(raw: string, offset: number): EquationSpecies {
+  let text = raw.trim();
+  let start = offset + (raw.length - raw.trimStart().length);
+
+  const coefficientMatch = /^(\d+(?:\.\d+)?(?:\/\d+)?)\s*(?=[A-Za-z([{])/.exec(text);
+  let coefficient = 1;
+  if (coefficientMatch) {
+    const [n, d] = coefficientMatch[1].split("/").map(Number);
+    coefficient = d ? n / d : n;
+    if (!(coefficient > 0)) throw new EquationParseError("Coefficient must be positive", start);
+    text = text.slice(coefficientMatch[0].length);
+    start += coefficientMatch[0].length;
+  }
+
+  let state: StateOfMatter | null = null;
+  const stateMatch = /\s*\((s|l|g|aq)\)$/i.exec(text);
+  if (stateMatch) {
+    state = STATES[stateMatch[1].toLowerCase()];
+    text = text.slice(0, stateMatch.index);
+  }
+  if (!text) throw new EquationParseError("Missing species", start);
+  const written = text;
+  // Electrons in half-reactions: "e", "e-", "e^-"
+  if (/^e\^?-?$/.test(text)) {
+    return { text, coefficient, formula: "e-", counts: {}, charge: -1, state, hydrate: 0, smiles: null, source: null };
+  }
+
+  // Hydrates: "CuSO4·5H2O", "CuSO4*5H2O", "CuSO4.5H2O"
+  let hydrate = 0;
+  const hydrateMatch = /[·•∙*.](\d*)H2O$/.exec(text);
+  if (hydrateMatch) {
+    hydrate = hydrateMatch[1] ? Number(hydrateMatch[1]) : 1;
+    text = text.slice(0, hydrateMatch.index);
+  }
+
+  const { body, charge } = splitCharge(text);
+  const species = (counts: Counts, charge: number, smiles: string | null, source: StructureSource | null) => ({
+    text: written,
+    coefficient,
+    formula: `${hillFormula(counts)}${formatCharge(charge)}`,
+    counts,
+    charge,
+    state,
+    hydrate,
+    smiles,
+    source,
+  });
+  // SMILES ("C=C", "c1ccccc1O") when the text is not a formula, or only reads as one without hydrogens
+  const asSmiles = () => {
+    const mol = hydrate ? null : tryParseSmiles(text);
+    return mol ? species(elementCounts(mol), netCharge(mol), text, "smiles") : null;
+  };
+
+  let counts: Counts;
+  try {
+    counts = formulaCounts(body.replace(/[=≡]/g, ""), start);
+  } catch (e) {
+    const smiles = asSmiles();
+    if (smiles) return smiles;
+    throw e;
+  }
+
+  // A structure is accepted only if it has exactly the formula's atoms and charge
+  const candidates: Array<[string | undefined | null, StructureSource]> = [
+    [KNOWN_SPECIES[body], "known"],
+    [condensedSmiles(body), "condensed"],
+    [singleCentreSmiles(counts, charge), "condensed"],
+  ];
+  let smiles: string | null = null;
+  let source: StructureSource | null = null;
+  for (const [candidate, from] of candidates) {
+    const mol = candidate ? tryParseSmiles(candidate) : null;
+    if (!candidate || !mol || netCharge(mol) !== charge) continue;
+    const found = elementCounts(mol);
+    const keys = new Set([...Object.keys(found), ...Object.keys(counts)]);
+    if ([...keys].every((k) => (found[k] ?? 0) === (counts[k] ?? 0))) {
+      smiles = candidate;
+      source = from;
+      break;
+    }
+  }
+  // A bare monatomic species: "Fe", "Na+", "Cl-"
+  if (!smiles && /^[A-Z][a-z]?$/.test(body)) {
+    smiles = `[${body}${formatCharge(charge)}]`;
+    source = "known";
+  }
+  if (!smiles && (/[=#]/.test(body) || (counts.C && !counts.H))) {
+    const fallback = asSmiles();
+    if (fallback) return fallback;
+  }
+
+  if (hydrate) {
+    add(counts, { H: 2, O: 1 }, hydrate);
+    if (smiles) smiles = [smiles, ...Array(hydrate).fill("O")].join(".");
+  }
+  return species(counts, charge, smiles, source);
+}
+
+// Split one side at " + " (a "+" with space on both sides, so "Na+ + Cl-" works)
+function readSide(side: string, offset: number): EquationSpecies[] {
+  const species: EquationSpecies[] = [];
+  const separator = /\s+\+\s+/g;
+  let start = 0;
+  for (const m of [...side.matchAll(separator), null]) {
+    const end = m ? m.index : side.length;
+    species.push(readSpecies(side.slice(start, end), offset + start));
+    if (m) start = m.index + m[0].length;
+  }
+  return species;
+}
+
+/**
+ * Read equation text such as "2 H2 + O2 -> 2 H2O", "CH3COOH + NaOH → CH3COONa + H2O" or
+ * "Fe^3+(aq) + 3 OH-(aq) = Fe(OH)3(s)". Coefficients may be decimals or fractions; species may
+ * be condensed or Hill formulas, with charges, hydrates ("·5H2O") and states ((s), (l), (g),
+ * (aq)), or SMILES. Each species gets a structure when it is a known species, a condensed
+ * chain or a single atom with hydrogens and halogens around it whose atoms match its formula;
+ * others keep `smiles: null` for lookup by name.
+ */
+export function parseEquation(text: string): ParsedEquation {
+  for (const { pattern, reversible } of ARROWS) {
+    const m = pattern.exec(text);
+    if (!m) continue;
+    const left = text.slice(0, m.index);
+    const right = text.slice(m.index + m[0].length);
+    if (!left.trim()) throw new EquationParseError("No reactants before the arrow", 0);
+    if (!right.trim()) throw new EquationParseError("No products after the arrow", m.index + m[0].length);
+    const reactants = readSide(left, 0);
+    const products = readSide(right, m.index + m[0].length);
+    const total = (list: EquationSpecies[]) => {
+      const sum: Counts = {};
+      for (const s of list) add(sum, { ...s.counts, charge: s.charge }, s.coefficient);
+      return sum;
+    };
+    const before = total(reactants);
+    const after = total(products);
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    const balanced = [...keys].every((k) => Math.abs((before[k] ?? 0) - (after[k] ?? 0)) < 1e-9);
+    return { reactants, products, reversible, balanced };
+  }
+  throw new EquationParseError('An equation needs an arrow such as "->" or "→"', text.length);
+}
+
+/** SMILES for a single formula such as "CH3CHO" or "NaOH", or null when no structure follows from it. */
+export function structureFromFormula(text: string): string | null {
+  try {
+    return readSpecies(text, 0).smiles;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,282 @@
+import { GAS_CONSTANT } from "./kinetics";
+import { elementCounts, netCharge } from "./molecule";
+import { tryParseSmiles } from "./smiles";
+import { type BalanceResult, balanceReaction } from "./stoichiometry";
+import { estimateThermo, thermoAt } from "./thermochemistry";
+
+/** Thrown when a Gibbs minimisation has no feasible start or does not converge. */
+export class EquilibriumError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EquilibriumError";
+  }
+}
+
+/** One species of an ideal mixture for Gibbs minimisation. */
+export interface GibbsSpecies {
+  name: string;
+  /** Atoms per element; the net charge, when not zero, under "charge". */
+  composition: Record<string, number>;
+  /** Standard Gibbs energy at the temperature, kJ/mol. */
+  gibbs: number;
+  /** Starting amount, mol. */
+  initial: number;
+}
+
+export interface EquilibriumSpecies {
+  smiles: string;
+  /** Balanced coefficient, negative for reactants. */
+  coefficient: number;
+  /** mol at the start and at equilibrium. */
+  initial: number;
+  moles: number;
+  /** Mole fraction at equilibrium. */
+  fraction: number;
+}
+
+export interface EquilibriumResult {
+  /** Kelvin. */
+  temperature: number;
+  /** atm. */
+  pressure: number;
+  species: EquilibriumSpecies[];
+  /** Standard reaction Gibbs energy and enthalpy at the temperature, kJ/mol. */
+  gibbs: number;
+  enthalpy: number;
+  /** log10 of the equilibrium constant Kp (standard state 1 bar); K itself overflows easily. */
+  log10K: number;
+  /** Fraction of the limiting reactant consumed at equilibrium. */
+  conversion: number;
+  /**
+   * How the equilibrium moves with temperature: ln K against 1/T has slope −ΔH°/R, so K
+   * falls on heating for exothermic reactions. Points span the temperature ± 100 K.
+   */
+  vantHoff: { slope: number; points: Array<{ temperature: number; log10K: number; conversion: number }> };
+}
+
+const BAR_PER_ATM = 1.01325;
+const MAX_ITERATIONS = 500;
+const TOLERANCE = 1e-10;
+// Smallest amount kept in the mixture, mol per mol of feed, so logarithms stay finite
+const TRACE = 1e-250;
+const VANT_HOFF_SPAN = 100;
+const VANT_HOFF_POINTS = 11;
+
+// Gaussian elimination with partial pivoting; null for a singular system
+function solveLinear(matrix: number[][], rhs: number[]): number[] | null {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    if (Math.abs(a[pivot][col]) < 1e-300) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = a[r][col] / a[col][col];
+      for (let c = col; c <= n; c++) a[r][c] -= f * a[col][c];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = a[r][n];
+    for (let c = r + 1; c < n; c++) sum -= a[r][c] * x[c];
+    x[r] = sum / a[r][r];
+  }
+  return x;
+}
+
+// Rows of the element matrix that are linearly independent (charge often repeats an element)
+function independentRows(rows: number[][]): number[] {
+  const kept: number[] = [];
+  const basis: number[][] = [];
+  rows.forEach((row, i) => {
+    const v = [...row];
+    for (const b of basis) {
+      const p = b.findIndex((x) => Math.abs(x) > 1e-9);
+      if (Math.abs(v[p]) > 1e-9) {
+        const f = v[p] / b[p];
+        for (let k = 0; k < v.length; k++) v[k] -= f * b[k];
+      }
+    }
+    if (v.some((x) => Math.abs(x) > 1e-9)) {
+      basis.push(v);
+      kept.push(i);
+    }
+  });
+  return kept;
+}
+
+/**
+ * Equilibrium amounts of an ideal-gas mixture at a temperature (K) and pressure (atm) by
+ * minimising the total Gibbs energy with every element (and the charge) conserved: the RAND
+ * method, Newton steps on the element potentials with a line search that keeps all amounts
+ * positive. Species made of an element the feed lacks stay at zero.
+ */
+export function minimizeGibbs(
+  species: GibbsSpecies[],
+  { temperature, pressure }: { temperature: number; pressure: number },
+): { moles: number[]; iterations: number } {
+  if (species.length === 0) throw new EquilibriumError("No species to equilibrate");
+  if (!(temperature > 0) || !(pressure > 0)) throw new EquilibriumError("Temperature and pressure must be positive");
+  const elements = [...new Set(species.flatMap((s) => Object.keys(s.composition)))];
+  const feed = elements.map((e) => species.reduce((sum, s) => sum + (s.composition[e] ?? 0) * s.initial, 0));
+  const total = species.reduce((sum, s) => sum + s.initial, 0);
+  if (!(total > 0)) throw new EquilibriumError("The feed is empty");
+
+  // Species that need an element the feed does not have cannot form
+  const absent = new Set(elements.filter((e, j) => Math.abs(feed[j]) < 1e-12 * total && e !== "charge"));
+  const active = species.map((s, i) => i).filter((i) => !Object.keys(species[i].composition).some((e) => absent.has(e)));
+  const rowsAll = elements.map((e) => active.map((i) => species[i].composition[e] ?? 0));
+  const rows = independentRows(rowsAll);
+  const A = rows.map((j) => rowsAll[j]);
+  const b0 = rows.map((j) => feed[j]);
+  const m = rows.length;
+
+  const RT = (GAS_CONSTANT * temperature) / 1000;
+  const g = active.map((i) => species[i].gibbs / RT + Math.log(pressure * BAR_PER_ATM));
+  const floor = TRACE * total;
+  let n = active.map((i) => Math.max(species[i].initial, 1e-8 * total));
+  const potentials = (amounts: number[]) => {
+    const N = amounts.reduce((s, x) => s + x, 0);
+    return amounts.map((x, k) => g[k] + Math.log(Math.max(x, floor) / N));
+  };
+
+  let pi = new Array<number>(m).fill(0);
+  let iterations = 0;
+  for (; iterations < MAX_ITERATIONS; iterations++) {
+    const c = potentials(n);
+    const b = A.map((row) => row.reduce((s, a, k) => s + a * n[k], 0));
+    const matrix = A.map((rowK) => [...A.map((rowJ) => rowK.reduce((s, a, k) => s + a * rowJ[k] * n[k], 0)), 0]);
+    A.forEach((_, k) => (matrix[k][m] = b[k]));
+    matrix.push([...b, 0]);
+    const rhs = [
+      ...A.map((row, k) => b0[k] - b[k] + row.reduce((s, a, i) => s + a * n[i] * c[i], 0)),
+      n.reduce((s, x, i) => s + x * c[i], 0),
+    ];
+    const solution = solveLinear(matrix, rhs);
+    if (!solution) throw new EquilibriumError("The element balance has no solution");
+    pi = solution.slice(0, m);
+    const u = solution[m];
+    const dn = n.map((x, i) => x * (A.reduce((s, row, j) => s + pi[j] * row[i], 0) + u - c[i]));
+
+    const N = n.reduce((s, x) => s + x, 0);
+    if (dn.every((d) => Math.abs(d) <= TOLERANCE * N)) break;
+
+    // Longest step that keeps every amount positive, then back off to where G stops falling
+    let limit = 1;
+    dn.forEach((d, i) => {
+      if (d < 0) limit = Math.min(limit, (-0.99 * n[i]) / d);
+    });
+    const slope = (t: number) => {
+      const mu = potentials(n.map((x, i) => x + t * dn[i]));
+      return dn.reduce((s, d, i) => s + d * mu[i], 0);
+    };
+    // No descent left: the remaining step is rounding noise
+    if (slope(0) >= 0) break;
+    let step = limit;
+    if (slope(limit) > 0) {
+      let [lo, hi] = [0, limit];
+      for (let k = 0; k < 40; k++) {
+        const mid = (lo + hi) / 2;
+        if (slope(mid) > 0) hi = mid;
+        else lo = mid;
+      }
+      step = Math.max(lo, 1e-6 * limit);
+    }
+    n = n.map((x, i) => Math.max(x + step * dn[i], floor));
+  }
+  if (iterations === MAX_ITERATIONS) throw new EquilibriumError("Gibbs minimisation did not converge");
+
+  // Trace species stop moving once they are negligible; at the minimum each one satisfies
+  // ln(n/N) = Σ π·a − g, which gives its amount directly
+  const N = n.reduce((s, x) => s + x, 0);
+  n = n.map((x, i) => (x < TOLERANCE * N ? N * Math.exp(A.reduce((s, row, j) => s + pi[j] * row[i], 0) - g[i]) : x));
+  const moles = species.map(() => 0);
+  active.forEach((i, k) => (moles[i] = n[k] <= floor ? 0 : n[k]));
+  return { moles, iterations };
+}
+
+/**
+ * Equilibrium of a balanced reaction at a temperature (K) and pressure (atm): the reactants
+ * are fed in their balanced amounts (agents that take part included), all species form an
+ * ideal-gas mixture with group-additivity Gibbs energies, and the composition minimises the
+ * total Gibbs energy. K comes from the standard reaction Gibbs energy. Null when the
+ * reaction does not balance or a species has no thermochemical estimate.
+ */
+export function solveEquilibrium({
+  reactants,
+  agents = [],
+  products,
+  temperature,
+  pressure,
+  balance = balanceReaction({ reactants, agents, products }),
+}: {
+  reactants: string[];
+  agents?: string[];
+  products: string[];
+  temperature: number;
+  pressure: number;
+  balance?: BalanceResult;
+}): EquilibriumResult | null {
+  if (!balance.balanced) return null;
+  const terms = [
+    ...balance.reactantTerms.map((t) => ({ smiles: t.smiles, coefficient: -t.coefficient })),
+    ...balance.productTerms.map((t) => ({ smiles: t.smiles, coefficient: t.coefficient })),
+  ];
+  const data = terms.map(({ smiles }) => {
+    const mol = tryParseSmiles(smiles.trim());
+    const thermo = estimateThermo(smiles);
+    if (!mol || !thermo) return null;
+    const charge = netCharge(mol);
+    return { thermo, composition: { ...elementCounts(mol), ...(charge !== 0 ? { charge } : {}) } };
+  });
+  if (data.some((d) => d === null)) return null;
+  const known = data as Array<NonNullable<(typeof data)[number]>>;
+
+  const at = (T: number) => {
+    const standard = known.map((d) => thermoAt(d.thermo, T));
+    const gibbs = standard.reduce((s, x, i) => s + terms[i].coefficient * x.gibbs, 0);
+    const enthalpy = standard.reduce((s, x, i) => s + terms[i].coefficient * x.enthalpy, 0);
+    const { moles } = minimizeGibbs(
+      known.map((d, i) => ({
+        name: terms[i].smiles,
+        composition: d.composition,
+        gibbs: standard[i].gibbs,
+        initial: Math.max(0, -terms[i].coefficient),
+      })),
+      { temperature: T, pressure },
+    );
+    // Fed in balanced amounts every reactant is limiting; the first stands for them
+    const limiting = terms.findIndex((t) => t.coefficient < 0);
+    const conversion = 1 - moles[limiting] / -terms[limiting].coefficient;
+    const log10K = -(gibbs * 1000) / (GAS_CONSTANT * T * Math.LN10);
+    return { gibbs, enthalpy, moles, conversion: Math.min(1, Math.max(0, conversion)), log10K };
+  };
+
+  const here = at(temperature);
+  const totalMoles = here.moles.reduce((s, x) => s + x, 0);
+  const low = Math.max(200, temperature - VANT_HOFF_SPAN);
+  const high = temperature + VANT_HOFF_SPAN;
+  const points = Array.from({ length: VANT_HOFF_POINTS }, (_, i) => {
+    const T = low + ((high - low) * i) / (VANT_HOFF_POINTS - 1);
+    const { log10K, conversion } = at(T);
+    return { temperature: T, log10K, conversion };
+  });
+
+  return {
+    temperature,
+    pressure,
+    species: terms.map((t, i) => ({
+      smiles: t.smiles,
+      coefficient: t.coefficient,
+      initial: Math.max(0, -t.coefficient),
+      moles: here.moles[i],
+      fraction: totalMoles > 0 ? here.moles[i] / totalMoles : 0,
+    })),
+    gibbs: here.gibbs,
+    enthalpy: here.enthalpy,
+    log10K: here.log10K,
+    conversion: here.conversion,
+    vantHoff: { slope: -(here.enthalpy * 1000) / GAS_CONSTANT, points },
+  };
+}
@@ -0,0 +1,145 @@
+import { standardizeMolecule } from "./canonical";
+import { atomicNumber } from "./elements";
+import { adjacency, type Bond, type Molecule, otherAtom, ringBonds } from "./molecule";
+import { parseSmiles } from "./smiles";
+
+/** Bit positions that are set, ascending; fingerprints are stored sparse. */
+export type Fingerprint = number[];
+
+export type FingerprintKind = "ecfp4" | "path";
+
+/** Fingerprints stored on `molecules` documents. */
+export interface MoleculeFingerprints {
+  /** Bumped whenever the hashing changes, so stored fingerprints can be recomputed. */
+  version: number;
+  ecfp4: Fingerprint;
+  path: Fingerprint;
+}
+
+export const FINGERPRINT_VERSION = 1;
+export const FINGERPRINT_BITS = 2048;
+
+// 32-bit FNV-1a over a list of integers, so fingerprints are the same on every platform
+function hashInts(values: number[]): number {
+  let h = 0x811c9dc5;
+  for (const value of values) {
+    let v = value | 0;
+    for (let k = 0; k < 4; k++) {
+      h ^= v & 0xff;
+      h = Math.imul(h, 0x01000193);
+      v >>>= 8;
+    }
+  }
+  return h >>> 0;
+}
+
+const bondCode = (bond: Bond) => (bond.aromatic ? 4 : bond.order);
+
+const toFingerprint = (hashes: Iterable<number>, bits: number): Fingerprint =>
+  [...new Set([...hashes].map((h) => h % bits))].sort((a, b) => a - b);
+
+/**
+ * Circular (ECFP/Morgan-style) fingerprint. Each atom starts from its element, heavy degree,
+ * hydrogen count, charge, ring membership and aromaticity; each iteration hashes in the
+ * bond orders and identifiers of its neighbours. Every identifier seen up to `radius`
+ * (2 gives ECFP4) is folded into `bits` positions.
+ */
+export function morganFingerprint(input: Molecule, radius = 2, bits = FINGERPRINT_BITS): Fingerprint {
+  const mol = standardizeMolecule(input);
+  const adj = adjacency(mol);
+  const inRing = ringBonds(mol);
+  let ids = mol.atoms.map((atom, i) =>
+    hashInts([
+      atom.element === "*" ? 0 : atomicNumber(atom.element),
+      adj[i].length,
+      atom.hydrogens,
+      atom.charge,
+      adj[i].some((b) => inRing.has(b)) ? 1 : 0,
+      atom.aromatic ? 1 : 0,
+    ]),
+  );
+  const seen = [...ids];
+  for (let iteration = 1; iteration <= radius; iteration++) {
+    ids = ids.map((id, i) => {
+      const environment = adj[i]
+        .map((b) => [bondCode(mol.bonds[b]), ids[otherAtom(mol.bonds[b], i)]] as const)
+        .sort((x, y) => x[0] - y[0] || x[1] - y[1])
+        .flat();
+      return hashInts([iteration, id, ...environment]);
+    });
+    seen.push(...ids);
+  }
+  return toFingerprint(seen, bits);
+}
+
+/**
+ * Path-based (Daylight-style) fingerprint: every simple path of up to `maxLength` bonds,
+ * written as alternating atom and bond codes and read in whichever direction sorts first,
+ * is hashed into `bits` positions.
+ */
+export function pathFingerprint(input: Molecule, maxLength = 7, bits = FINGERPRINT_BITS): Fingerprint {
+  const mol = standardizeMolecule(input);
+  const adj = adjacency(mol);
+  const atomCode = (i: number) => {
+    const atom = mol.atoms[i];
+    return (atom.element === "*" ? 0 : atomicNumber(atom.element)) * 2 + (atom.aromatic ? 1 : 0);
+  };
+  const hashes: number[] = [];
+  const onPath = new Array<boolean>(mol.atoms.length).fill(false);
+
+  const walk = (atom: number, codes: number[], length: number) => {
+    const reversed = [...codes].reverse();
+    // Each path is found from both ends; keep it once, from the end that reads smaller
+    if (length === 0 || compareCodes(codes, reversed) <= 0) hashes.push(hashInts([length, ...codes]));
+    if (length === maxLength) return;
+    for (const b of adj[atom]) {
+      const next = otherAtom(mol.bonds[b], atom);
+      if (onPath[next]) continue;
+      onPath[next] = true;
+      walk(next, [...codes, bondCode(mol.bonds[b]), atomCode(next)], length + 1);
+      onPath[next] = false;
+    }
+  };
+  mol.atoms.forEach((_, i) => {
+    onPath[i] = true;
+    walk(i, [atomCode(i)], 0);
+    onPath[i] = false;
+  });
+  return toFingerprint(hashes, bits);
+}
+
+function compareCodes(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return a[i] - b[i];
+  return 0;
+}
+
+/** Both fingerprints for a SMILES string, or null when it does not parse. */
+export function moleculeFingerprints(smiles: string): MoleculeFingerprints | null {
+  let mol: Molecule;
+  try {
+    mol = parseSmiles(smiles);
+  } catch {
+    return null;
+  }
+  return { version: FINGERPRINT_VERSION, ecfp4: morganFingerprint(mol), path: pathFingerprint(mol) };
+}
+
+/** Tanimoto (Jaccard) similarity of two sparse fingerprints: shared bits / bits in either. */
+export function tanimoto(a: Fingerprint, b: Fingerprint): number {
+  if (a.length === 0 && b.length === 0) return 1;
+  let shared = 0;
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      shared++;
+      i++;
+      j++;
+    } else if (a[i] < b[j]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return shared / (a.length + b.length - shared);
+}
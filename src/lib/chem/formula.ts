@@ -0,0 +1,88 @@
+import { atomicMass, isotopeMass, monoisotopicMass } from "./elements";
+import { elementCounts, type Molecule, netCharge } from "./molecule";
+import { tryParseSmiles } from "./smiles";
+
+// Mass of the electron in u; ions gain or lose it in exact-mass calculations
+const ELECTRON_MASS = 0.000548579909;
+
+export interface ElementComposition {
+  element: string;
+  count: number;
+  /** Share of the average molecular weight, in percent. */
+  massPercent: number;
+}
+
+export interface FormulaInfo {
+  /** Hill formula with the net charge appended ("C2H6O", "H4N+", "CO3-2"). */
+  formula: string;
+  /** Hill formula without the charge. */
+  hillFormula: string;
+  charge: number;
+  /** Average molecular weight in g/mol from standard atomic weights. */
+  averageMass: number;
+  /** Exact mass of the most abundant isotopes (or the labelled ones), electron-corrected for ions. */
+  monoisotopicMass: number;
+  /** Elements in Hill order. */
+  composition: ElementComposition[];
+}
+
+// Hill order: C first, then H, then the rest alphabetically; without carbon everything is alphabetical
+export function hillOrder(elements: string[]): string[] {
+  const sorted = [...elements].sort();
+  if (!elements.includes("C")) return sorted;
+  return ["C", ...(elements.includes("H") ? ["H"] : []), ...sorted.filter((e) => e !== "C" && e !== "H")];
+}
+
+export function hillFormula(counts: Record<string, number>): string {
+  return hillOrder(Object.keys(counts).filter((e) => counts[e] > 0))
+    .map((e) => `${e}${counts[e] > 1 ? counts[e] : ""}`)
+    .join("");
+}
+
+export function formatCharge(charge: number): string {
+  if (charge === 0) return "";
+  const sign = charge > 0 ? "+" : "-";
+  return Math.abs(charge) === 1 ? sign : `${sign}${Math.abs(charge)}`;
+}
+
+/**
+ * Formula, charge and masses of a parsed molecule, implicit hydrogens included. Isotope
+ * labels ([13C], [2H]) change the exact mass; the average mass always uses standard weights.
+ */
+export function molecularFormula(mol: Molecule): FormulaInfo {
+  const counts = elementCounts(mol);
+  const charge = netCharge(mol);
+
+  let averageMass = 0;
+  for (const [element, count] of Object.entries(counts)) averageMass += (atomicMass(element) ?? 0) * count;
+
+  let exactMass = 0;
+  for (const atom of mol.atoms) {
+    if (atom.element !== "*") {
+      const labelled = atom.isotope !== null ? isotopeMass(atom.element, atom.isotope) ?? atom.isotope : null;
+      exactMass += labelled ?? monoisotopicMass(atom.element) ?? 0;
+    }
+    if (atom.hydrogens > 0) exactMass += atom.hydrogens * monoisotopicMass("H")!;
+  }
+  exactMass -= charge * ELECTRON_MASS;
+
+  const hill = hillFormula(counts);
+  return {
+    formula: `${hill}${formatCharge(charge)}`,
+    hillFormula: hill,
+    charge,
+    averageMass,
+    monoisotopicMass: exactMass,
+    composition: hillOrder(Object.keys(counts)).map((element) => ({
+      element,
+      count: counts[element],
+      massPercent: averageMass > 0 ? ((atomicMass(element) ?? 0) * counts[element] * 100) / averageMass : 0,
+    })),
+  };
+}
+
+// Formula info for a SMILES string, or null when it does not parse
+export function formulaFromSmiles(smiles: string): FormulaInfo | null {
+  const mol = tryParseSmiles(smiles);
+  return mol ? molecularFormula(mol) : null;
+}
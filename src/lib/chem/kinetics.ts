@@ -0,0 +1,415 @@
+import { mapReaction } from "./atomMapping";
+import { type BalanceResult, balanceReaction } from "./stoichiometry";
+
+/** Thrown for kinetic models or run settings that cannot be integrated. */
+export class KineticsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KineticsError";
+  }
+}
+
+/** Gas constant, J/(mol·K). */
+export const GAS_CONSTANT = 8.314462618;
+
+/** Arrhenius parameters: k = A·exp(−Ea/RT). */
+export interface Arrhenius {
+  /** Pre-exponential factor, in (L/mol)^(n−1)/s for a step with n reactant molecules. */
+  A: number;
+  /** Activation energy, kJ/mol. */
+  Ea: number;
+}
+
+/** One elementary step with mass-action kinetics: the coefficients are also the orders. */
+export interface ElementaryStep {
+  reactants: Record<string, number>;
+  products: Record<string, number>;
+  forward: Arrhenius;
+  /** Reverse step, for steps that reach an equilibrium. */
+  reverse?: Arrhenius;
+  /** Reaction enthalpy of the step, kJ/mol, for the energy profile. */
+  enthalpy: number;
+}
+
+export interface KineticModel {
+  /** Reactants (agents that take part included), intermediates and products, in that order. */
+  species: string[];
+  intermediates: string[];
+  steps: ElementaryStep[];
+  /** Starting concentrations, mol/L; species left out start at zero. */
+  initial: Record<string, number>;
+  /** Overall reactants and products with their balanced coefficients, for conversion and yield. */
+  overall: { reactants: Record<string, number>; products: Record<string, number> };
+  /** The reaction type the parameters were taken for ("Substitution", …). */
+  reactionType: string;
+  /** Set when no parameters exist for the reaction type and generic fallback values were used. */
+  generic?: boolean;
+}
+
+export interface SimulationSettings {
+  /** Kelvin. */
+  temperature: number;
+  /** Seconds. */
+  duration: number;
+  /** Spacing of the reported time points, seconds; the integrator picks its own steps. */
+  timeStep: number;
+  relativeTolerance?: number;
+  absoluteTolerance?: number;
+  /** Integrator steps, accepted and rejected, before the run is given up (default 200000). */
+  maxSteps?: number;
+}
+
+export interface KineticResult {
+  /** Time points in seconds, 0 to the duration in steps of the time step. */
+  times: number[];
+  /** Concentration of each species (mol/L) at each time point, in model species order. */
+  concentrations: Array<{ species: string; values: number[] }>;
+  /** Fraction of the limiting reactant consumed at the end. */
+  conversion: number;
+  /** Fraction of the theoretical amount of the first product formed at the end. */
+  yield: number;
+  /** Integrator steps accepted and rejected. */
+  accepted: number;
+  rejected: number;
+}
+
+/** A run as stored in `simulations.results` and drawn by the results charts. */
+export interface SimulationResults {
+  /** kJ/mol: reactants, then each transition state and the intermediate or products after it. */
+  energyProfile: number[];
+  intermediates: string[];
+  /** Fraction of the theoretical amount of the main product, 0–1. */
+  yieldPrediction: number;
+  reactionType?: string;
+  /** Seconds. */
+  times?: number[];
+  /** mol/L at each time point. */
+  concentrations?: Array<{ species: string; values: number[] }>;
+  /** Fraction of the limiting reactant consumed, 0–1. */
+  conversion?: number;
+}
+
+// Output points per run; more would bloat the stored results without showing anything new
+const MAX_POINTS = 2000;
+const MAX_STEPS = 200000;
+const REFERENCE_TEMPERATURE = 298.15;
+
+/**
+ * Rate parameters for the rate-limiting step by reaction type (from the atom mapping), with
+ * the overall enthalpy and, for reactions that stop at an equilibrium, K at 298 K. Values are
+ * typical orders of magnitude for solution-phase reactions, not fitted to any one system.
+ * "Redox" is the catch-all for inorganic electron transfer and, like the default, stands for
+ * no reaction class in particular.
+ */
+const TYPE_KINETICS: Record<string, Arrhenius & { enthalpy: number; K?: number; generic?: boolean }> = {
+  "Proton transfer": { A: 1e11, Ea: 10, enthalpy: -56 },
+  Substitution: { A: 1e10, Ea: 80, enthalpy: -40 },
+  "Cross-coupling": { A: 1e8, Ea: 75, enthalpy: -100 },
+  Condensation: { A: 1e5, Ea: 60, enthalpy: -4, K: 4 },
+  Hydrolysis: { A: 1e6, Ea: 65, enthalpy: 4, K: 0.25 },
+  Addition: { A: 1e7, Ea: 60, enthalpy: -70 },
+  Cycloaddition: { A: 3e6, Ea: 115, enthalpy: -165 },
+  Elimination: { A: 1e11, Ea: 95, enthalpy: 40 },
+  Fragmentation: { A: 1e13, Ea: 120, enthalpy: 60 },
+  Rearrangement: { A: 1e12, Ea: 110, enthalpy: -20 },
+  Oxidation: { A: 1e7, Ea: 55, enthalpy: -150 },
+  Reduction: { A: 1e8, Ea: 50, enthalpy: -90 },
+  Redox: { A: 1e9, Ea: 40, enthalpy: -100, generic: true },
+};
+const DEFAULT_KINETICS = { A: 1e8, Ea: 75, enthalpy: -50, generic: true };
+
+/** Rate constant at a temperature (K) from Arrhenius parameters. */
+export function rateConstant({ A, Ea }: Arrhenius, temperature: number): number {
+  return A * Math.exp((-Ea * 1000) / (GAS_CONSTANT * temperature));
+}
+
+const add = (into: Record<string, number>, species: string, count: number) => {
+  into[species] = (into[species] ?? 0) + count;
+};
+
+/**
+ * Break an overall reaction into elementary steps. Molecules meet two at a time, so with
+ * more than two reactant molecules each step adds one to the growing intermediate (I1, I2,
+ * …) and the last releases the products. The first step is rate-limiting; later ones share
+ * half its barrier. An equilibrium constant is split evenly over the steps, so their
+ * product is the overall K.
+ */
+function stepsFor(
+  reactants: Record<string, number>,
+  products: Record<string, number>,
+  kinetics: Arrhenius & { enthalpy: number; K?: number },
+): { steps: ElementaryStep[]; intermediates: string[] } {
+  const molecules = Object.entries(reactants).flatMap(([s, n]) => Array<string>(n).fill(s));
+  const groups = molecules.length <= 2 ? [molecules] : [molecules.slice(0, 2), ...molecules.slice(2).map((s) => [s])];
+  const intermediates = groups.slice(0, -1).map((_, i) => `I${i + 1}`);
+  const n = groups.length;
+  const enthalpy = kinetics.enthalpy / n;
+  const steps = groups.map((group, i): ElementaryStep => {
+    const stepReactants: Record<string, number> = {};
+    if (i > 0) add(stepReactants, intermediates[i - 1], 1);
+    for (const s of group) add(stepReactants, s, 1);
+    const forward = { A: kinetics.A, Ea: i === 0 ? kinetics.Ea : kinetics.Ea / 2 };
+    // k_forward / k_reverse is K_step at 298 K and follows van 't Hoff with the step enthalpy
+    const reverse =
+      kinetics.K === undefined
+        ? undefined
+        : {
+            A: forward.A / (Math.pow(kinetics.K, 1 / n) * Math.exp((enthalpy * 1000) / (GAS_CONSTANT * REFERENCE_TEMPERATURE))),
+            Ea: forward.Ea - enthalpy,
+          };
+    return {
+      reactants: stepReactants,
+      products: i === n - 1 ? { ...products } : { [intermediates[i]]: 1 },
+      forward,
+      reverse,
+      enthalpy,
+    };
+  });
+  return { steps, intermediates };
+}
+
+/**
+ * Kinetic model for a reaction: balanced with its coefficients (agents that take part
+ * become reactants), typed by atom mapping, and split into elementary steps with rate
+ * parameters for that type. Reactants start at `concentration` (mol/L) times their
+ * coefficient; `concentrations` overrides single species. Unbalanced reactions are taken
+ * with every coefficient 1. Types without parameters of their own are marked `generic`. A
+ * `balance` or `reactionType` already worked out for the same reaction is used as given.
+ */
+export function buildKineticModel(
+  reaction: { reactants: string[]; agents?: string[]; products: string[] },
+  {
+    concentration = 1,
+    concentrations = {},
+    reactionType,
+    balance: given,
+  }: {
+    concentration?: number;
+    concentrations?: Record<string, number>;
+    reactionType?: string;
+    balance?: BalanceResult;
+  } = {},
+): KineticModel {
+  const reactantList = reaction.reactants.map((s) => s.trim()).filter(Boolean);
+  const productList = reaction.products.map((s) => s.trim()).filter(Boolean);
+  if (reactantList.length === 0 || productList.length === 0) {
+    throw new KineticsError("A kinetic model needs at least one reactant and one product");
+  }
+  const balance = given ?? balanceReaction({ reactants: reactantList, agents: reaction.agents, products: productList });
+
+  const overall = { reactants: {} as Record<string, number>, products: {} as Record<string, number> };
+  if (balance.balanced) {
+    for (const t of balance.reactantTerms) add(overall.reactants, t.smiles, t.coefficient);
+    for (const t of balance.productTerms) add(overall.products, t.smiles, t.coefficient);
+  } else {
+    for (const s of reactantList) add(overall.reactants, s, 1);
+    for (const s of productList) add(overall.products, s, 1);
+  }
+
+  const type =
+    reactionType ?? mapReaction({ reactants: reactantList, agents: reaction.agents, products: productList, balance })?.reactionType;
+  const kinetics = (type && TYPE_KINETICS[type]) || DEFAULT_KINETICS;
+  const { steps, intermediates } = stepsFor(overall.reactants, overall.products, kinetics);
+
+  const species = [...new Set([...Object.keys(overall.reactants), ...intermediates, ...Object.keys(overall.products)])];
+  const initial: Record<string, number> = {};
+  for (const [s, n] of Object.entries(overall.reactants)) initial[s] = concentration * n;
+  for (const [s, c] of Object.entries(concentrations)) initial[s] = c;
+  return {
+    species,
+    intermediates,
+    steps,
+    initial,
+    overall,
+    reactionType: type ?? "Unknown",
+    ...(kinetics.generic ? { generic: true } : {}),
+  };
+}
+
+/**
+ * Relative energies along the reaction coordinate, kJ/mol: the reactants at 0, then each
+ * transition state and the intermediate or products after it.
+ */
+export function energyProfile(model: KineticModel): number[] {
+  const profile = [0];
+  let level = 0;
+  for (const step of model.steps) {
+    profile.push(level + step.forward.Ea);
+    level += step.enthalpy;
+    profile.push(level);
+  }
+  return profile;
+}
+
+// Mass-action rates and their Jacobian for the model at one temperature
+function rateSystem(model: KineticModel, temperature: number) {
+  const index = new Map(model.species.map((s, i) => [s, i]));
+  const terms = model.steps.flatMap((step) => {
+    const reactants = Object.entries(step.reactants).map(([s, n]) => [index.get(s)!, n] as const);
+    const products = Object.entries(step.products).map(([s, n]) => [index.get(s)!, n] as const);
+    const forward = { k: rateConstant(step.forward, temperature), from: reactants, to: products };
+    return step.reverse ? [forward, { k: rateConstant(step.reverse, temperature), from: products, to: reactants }] : [forward];
+  });
+  const n = model.species.length;
+
+  const derivative = (y: number[]): number[] => {
+    const dy = new Array<number>(n).fill(0);
+    for (const { k, from, to } of terms) {
+      const rate = from.reduce((r, [i, order]) => r * Math.pow(y[i], order), k);
+      for (const [i, nu] of from) dy[i] -= nu * rate;
+      for (const [i, nu] of to) dy[i] += nu * rate;
+    }
+    return dy;
+  };
+
+  const jacobian = (y: number[]): number[][] => {
+    const J = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+    for (const { k, from, to } of terms) {
+      for (const [j, order] of from) {
+        // ∂rate/∂y_j
+        const partial = from.reduce(
+          (r, [i, o]) => r * (i === j ? order * Math.pow(y[i], o - 1) : Math.pow(y[i], o)),
+          k,
+        );
+        for (const [i, nu] of from) J[i][j] -= nu * partial;
+        for (const [i, nu] of to) J[i][j] += nu * partial;
+      }
+    }
+    return J;
+  };
+
+  return { derivative, jacobian };
+}
+
+// LU decomposition with partial pivoting, solved in place for one right-hand side at a time
+function luFactor(M: number[][]): { lu: number[][]; pivot: number[] } {
+  const n = M.length;
+  const lu = M.map((row) => [...row]);
+  const pivot = [...Array(n).keys()];
+  for (let c = 0; c < n; c++) {
+    let p = c;
+    for (let r = c + 1; r < n; r++) if (Math.abs(lu[r][c]) > Math.abs(lu[p][c])) p = r;
+    if (lu[p][c] === 0) throw new KineticsError("Singular iteration matrix; try a smaller time step");
+    [lu[c], lu[p]] = [lu[p], lu[c]];
+    [pivot[c], pivot[p]] = [pivot[p], pivot[c]];
+    for (let r = c + 1; r < n; r++) {
+      lu[r][c] /= lu[c][c];
+      for (let k = c + 1; k < n; k++) lu[r][k] -= lu[r][c] * lu[c][k];
+    }
+  }
+  return { lu, pivot };
+}
+
+function luSolve({ lu, pivot }: { lu: number[][]; pivot: number[] }, b: number[]): number[] {
+  const n = lu.length;
+  const x = pivot.map((p) => b[p]);
+  for (let r = 0; r < n; r++) for (let k = 0; k < r; k++) x[r] -= lu[r][k] * x[k];
+  for (let r = n - 1; r >= 0; r--) {
+    for (let k = r + 1; k < n; k++) x[r] -= lu[r][k] * x[k];
+    x[r] /= lu[r][r];
+  }
+  return x;
+}
+
+/**
+ * Integrate the concentration ODEs with the Rosenbrock method of MATLAB's ode23s
+ * (Shampine & Reichelt): second order, L-stable, with a third-order error estimate for step
+ * control, so fast pre-equilibria and slow conversions can sit in one model. Output is
+ * reported on the time-step grid; the integrator lands on every grid point. Deterministic:
+ * the same model and settings always give the same numbers.
+ */
+export function simulateKinetics(model: KineticModel, settings: SimulationSettings): KineticResult {
+  const {
+    temperature,
+    duration,
+    timeStep,
+    relativeTolerance = 1e-6,
+    absoluteTolerance = 1e-10,
+    maxSteps = MAX_STEPS,
+  } = settings;
+  if (!(temperature > 0)) throw new KineticsError("Temperature must be above 0 K");
+  if (!(duration > 0) || !(timeStep > 0)) throw new KineticsError("Duration and time step must be positive");
+  const points = Math.ceil(duration / timeStep - 1e-9);
+  if (points > MAX_POINTS) throw new KineticsError(`At most ${MAX_POINTS} time points; use a larger time step`);
+
+  const { derivative, jacobian } = rateSystem(model, temperature);
+  const n = model.species.length;
+  const d = 1 / (2 + Math.SQRT2);
+  const e32 = 6 + Math.SQRT2;
+
+  let y = model.species.map((s) => model.initial[s] ?? 0);
+  const times = [0];
+  const values: number[][] = [[...y]];
+  let t = 0;
+  let h = Math.min(timeStep, duration) / 100;
+  let accepted = 0;
+  let rejected = 0;
+
+  for (let k = 1; k <= points; k++) {
+    const target = Math.min(k * timeStep, duration);
+    while (t < target - 1e-12 * target) {
+      if (accepted + rejected > maxSteps) throw new KineticsError("The integrator did not finish; the model may be too stiff");
+      const step = Math.min(h, target - t);
+      const J = jacobian(y);
+      const W = luFactor(J.map((row, i) => row.map((v, j) => (i === j ? 1 : 0) - step * d * v)));
+      const F0 = derivative(y);
+      const k1 = luSolve(W, F0);
+      const F1 = derivative(y.map((v, i) => v + 0.5 * step * k1[i]));
+      const k2 = luSolve(W, F1.map((v, i) => v - k1[i])).map((v, i) => v + k1[i]);
+      const next = y.map((v, i) => v + step * k2[i]);
+      const F2 = derivative(next);
+      const k3 = luSolve(
+        W,
+        F2.map((v, i) => v - e32 * (k2[i] - F1[i]) - 2 * (k1[i] - F0[i])),
+      );
+      let error = 0;
+      for (let i = 0; i < n; i++) {
+        const estimate = (step / 6) * Math.abs(k1[i] - 2 * k2[i] + k3[i]);
+        const scale = absoluteTolerance + relativeTolerance * Math.max(Math.abs(y[i]), Math.abs(next[i]));
+        error = Math.max(error, estimate / scale);
+      }
+      if (error <= 1 && next.every(Number.isFinite)) {
+        t += step;
+        // Round-off can leave a consumed species a hair below zero
+        y = next.map((v) => Math.max(v, 0));
+        accepted++;
+      } else {
+        rejected++;
+      }
+      const factor = error === 0 ? 5 : Math.min(5, Math.max(0.2, 0.8 * Math.pow(error, -1 / 3)));
+      h = Number.isFinite(factor) ? step * factor : step * 0.2;
+    }
+    times.push(target);
+    values.push([...y]);
+  }
+
+  // Conversion of the limiting reactant, yield of the first product against it
+  const final = values[values.length - 1];
+  const at = (s: string, row: number[]) => row[model.species.indexOf(s)];
+  const limiting = Object.entries(model.overall.reactants)
+    .filter(([s]) => (model.initial[s] ?? 0) > 0)
+    .sort(([a, na], [b, nb]) => model.initial[a] / na - model.initial[b] / nb)[0];
+  const [product, productCoefficient] = Object.entries(model.overall.products)[0];
+  const extent = limiting ? model.initial[limiting[0]] / limiting[1] : 0;
+  return {
+    times,
+    concentrations: model.species.map((species, i) => ({ species, values: values.map((row) => row[i]) })),
+    conversion: limiting ? 1 - at(limiting[0], final) / model.initial[limiting[0]] : 0,
+    yield: extent > 0 ? at(product, final) / productCoefficient / extent : 0,
+    accepted,
+    rejected,
+  };
+}
+
+/** The stored form of a run: the model's energy profile and intermediates with the integrated series. */
+export function simulationResults(model: KineticModel, result: KineticResult): SimulationResults {
+  return {
+    energyProfile: energyProfile(model),
+    intermediates: model.intermediates,
+    yieldPrediction: result.yield,
+    reactionType: model.reactionType,
+    times: result.times,
+    concentrations: result.concentrations,
+    conversion: result.conversion,
+  };
+}
@@ -0,0 +1,91 @@
+import type { MolecularDescriptors } from "./descriptors";
+import { writeSdf } from "./molfile";
+import { tryParseSmiles } from "./smiles";
+
+/** Extra SD data items kept on a library molecule, in file order. */
+export type SdField = { name: string; value: string };
+
+/** The `properties` object stored on `molecules` documents. */
+export interface MoleculeProperties {
+  molecularWeight?: number;
+  logP?: number;
+  toxicity?: string;
+  hazardLevel?: string;
+  sdFields?: SdField[];
+  descriptors?: MolecularDescriptors;
+}
+
+// SD field names (compared case-insensitively, ignoring spaces, "_" and "-") for the typed properties
+const NUMERIC_FIELDS: Record<string, "molecularWeight" | "logP"> = {
+  mw: "molecularWeight",
+  molweight: "molecularWeight",
+  molecularweight: "molecularWeight",
+  logp: "logP",
+  alogp: "logP",
+  clogp: "logP",
+  xlogp: "logP",
+  xlogp3: "logP",
+};
+const TEXT_FIELDS: Record<string, "toxicity" | "hazardLevel"> = {
+  toxicity: "toxicity",
+  hazard: "hazardLevel",
+  hazardlevel: "hazardLevel",
+};
+
+const fieldKey = (name: string) => name.toLowerCase().replace(/[\s_-]/g, "");
+
+/**
+ * Map SD data items onto molecule properties: weight, logP, toxicity and hazard fields fill
+ * the typed properties; everything else is kept as `sdFields`. Numeric fields that do not
+ * parse as numbers stay as plain SD fields.
+ */
+export function propertiesFromSdFields(fields: Record<string, string>): MoleculeProperties {
+  const properties: MoleculeProperties = {};
+  const rest: SdField[] = [];
+  for (const [name, raw] of Object.entries(fields)) {
+    const value = raw.trim();
+    const numeric = NUMERIC_FIELDS[fieldKey(name)];
+    const text = TEXT_FIELDS[fieldKey(name)];
+    if (numeric && value !== "" && Number.isFinite(Number(value)) && properties[numeric] === undefined) {
+      properties[numeric] = Number(value);
+    } else if (text && value && properties[text] === undefined) {
+      properties[text] = value;
+    } else {
+      rest.push({ name, value: raw });
+    }
+  }
+  if (rest.length > 0) properties.sdFields = rest;
+  return properties;
+}
+
+/** SD data items for a library molecule: the typed properties first, then its other fields. */
+export function sdFieldsFromProperties(properties: MoleculeProperties | undefined): Record<string, string> {
+  const fields: Record<string, string> = {};
+  if (!properties) return fields;
+  if (properties.molecularWeight !== undefined) fields.MolecularWeight = String(properties.molecularWeight);
+  if (properties.logP !== undefined) fields.LogP = String(properties.logP);
+  if (properties.toxicity) fields.Toxicity = properties.toxicity;
+  if (properties.hazardLevel) fields.HazardLevel = properties.hazardLevel;
+  for (const { name, value } of properties.sdFields ?? []) fields[name] ??= value;
+  return fields;
+}
+
+/**
+ * SD file for a list of library molecules, with the SMILES and formula as data items.
+ * Molecules whose SMILES do not parse are skipped and returned by name.
+ */
+export function librarySdf(
+  molecules: Array<{ name: string; smiles: string; formula?: string; properties?: MoleculeProperties }>,
+): { sdf: string; skipped: string[] } {
+  const skipped: string[] = [];
+  const records = molecules.flatMap((m) => {
+    const molecule = tryParseSmiles(m.smiles);
+    if (!molecule) {
+      skipped.push(m.name);
+      return [];
+    }
+    const properties = { SMILES: m.smiles, ...(m.formula ? { Formula: m.formula } : {}), ...sdFieldsFromProperties(m.properties) };
+    return [{ molecule, name: m.name, properties }];
+  });
+  return { sdf: writeSdf(records), skipped };
+}
@@ -0,0 +1,171 @@
+import { canonicalSmiles, tryCanonicalSmiles } from "./canonical";
+import { type MoleculeProperties, propertiesFromSdFields } from "./libraryFields";
+import { parseSdf } from "./molfile";
+import { validateSmiles } from "./validate";
+
+export type ImportStatus = "ready" | "invalid" | "duplicate";
+
+export interface ImportRow {
+  /** 1-based data row (CSV, after the header) or record number (SDF). */
+  row: number;
+  name: string;
+  smiles: string;
+  /** Null when the structure does not parse. */
+  canonicalSmiles: string | null;
+  properties: MoleculeProperties;
+  status: ImportStatus;
+  /** Validation errors, or why the row is a duplicate. */
+  messages: string[];
+}
+
+export interface ImportPreview {
+  format: "csv" | "sdf";
+  rows: ImportRow[];
+  /** Problem with the file as a whole (no SMILES column, nothing to read). */
+  error?: string;
+}
+
+// Header names recognised for the name and structure columns (lowercased)
+const NAME_COLUMNS = ["name", "title", "compound", "compound name", "molecule", "id"];
+const SMILES_COLUMNS = ["smiles", "canonical smiles", "canonical_smiles", "isomeric smiles", "isomeric_smiles", "structure"];
+
+/**
+ * Read a CSV or SD file into import rows with per-row validation. The format follows the
+ * file extension, falling back to sniffing for "M  END". Rows are checked with the offline
+ * validator and marked as duplicates of `existing` (canonical SMILES already in the library)
+ * or of an earlier row in the same file.
+ */
+export function previewLibraryImport(fileName: string, text: string, existing: Iterable<string> = []): ImportPreview {
+  const sdf = /\.(sdf|sd|mol)$/i.test(fileName) || (!/\.(csv|tsv|txt)$/i.test(fileName) && /^M {2}END/m.test(text));
+  const preview = sdf ? sdfRows(text) : csvRows(text);
+  if (!preview.error && preview.rows.length === 0) preview.error = "No molecules found in the file";
+  markDuplicates(preview.rows, new Set(existing));
+  return preview;
+}
+
+/**
+ * Split CSV text into rows of fields: quoted fields may contain the delimiter, newlines and
+ * doubled quotes. The delimiter (comma, semicolon or tab) is taken from the first line.
+ */
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = [",", ";", "\t"].reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best), ",");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+function csvRows(text: string): ImportPreview {
+  const [header, ...data] = parseCsv(text);
+  if (!header) return { format: "csv", rows: [] };
+  const columns = header.map((h) => h.trim().toLowerCase());
+  const smilesColumn = columns.findIndex((c) => SMILES_COLUMNS.includes(c));
+  if (smilesColumn < 0) return { format: "csv", rows: [], error: `No SMILES column found (expected one of: ${SMILES_COLUMNS.join(", ")})` };
+  const nameColumn = columns.findIndex((c) => NAME_COLUMNS.includes(c));
+
+  const rows = data.map((fields, i) => {
+    const extra: Record<string, string> = {};
+    header.forEach((h, c) => {
+      if (c !== smilesColumn && c !== nameColumn && (fields[c] ?? "").trim() !== "") extra[h.trim()] = fields[c];
+    });
+    return checkedRow(i + 1, (fields[nameColumn] ?? "").trim(), (fields[smilesColumn] ?? "").trim(), propertiesFromSdFields(extra));
+  });
+  return { format: "csv", rows };
+}
+
+function sdfRows(text: string): ImportPreview {
+  const rows = parseSdf(text).map((entry, i): ImportRow => {
+    if (!entry.ok) {
+      return { row: entry.index + 1, name: "", smiles: "", canonicalSmiles: null, properties: {}, status: "invalid", messages: [entry.error] };
+    }
+    const { name, molecule, properties } = entry.record;
+    // SMILES and name data items are covered by the structure and the title line
+    const fields = Object.fromEntries(Object.entries(properties).filter(([key]) => !["smiles", "name"].includes(key.toLowerCase())));
+    const title = name || properties.Name || properties.NAME || "";
+    let smiles = "";
+    try {
+      smiles = canonicalSmiles(molecule);
+    } catch (e) {
+      return { row: i + 1, name: title, smiles: "", canonicalSmiles: null, properties: {}, status: "invalid", messages: [e instanceof Error ? e.message : String(e)] };
+    }
+    return checkedRow(i + 1, title, smiles, propertiesFromSdFields(fields));
+  });
+  return { format: "sdf", rows };
+}
+
+function checkedRow(row: number, name: string, smiles: string, properties: MoleculeProperties): ImportRow {
+  const messages: string[] = [];
+  let canonical: string | null = null;
+  if (!smiles) {
+    messages.push("Missing SMILES");
+  } else {
+    const validation = validateSmiles(smiles);
+    if (!validation.isValid) messages.push(...validation.issues.map((issue) => issue.message));
+    canonical = tryCanonicalSmiles(smiles);
+  }
+  return {
+    row,
+    name: name || smiles,
+    smiles,
+    canonicalSmiles: canonical,
+    properties,
+    status: messages.length > 0 ? "invalid" : "ready",
+    messages,
+  };
+}
+
+function markDuplicates(rows: ImportRow[], existing: Set<string>) {
+  const seen = new Map<string, number>();
+  for (const row of rows) {
+    if (row.status !== "ready" || !row.canonicalSmiles) continue;
+    const earlier = seen.get(row.canonicalSmiles);
+    if (existing.has(row.canonicalSmiles)) {
+      row.status = "duplicate";
+      row.messages.push("Already in your library");
+    } else if (earlier !== undefined) {
+      row.status = "duplicate";
+      row.messages.push(`Same structure as row ${earlier}`);
+    } else {
+      seen.set(row.canonicalSmiles, row.row);
+    }
+  }
+}
+
+/** Split rows into batches of at most `size` for one mutation each. */
+export function batches<T>(items: T[], size: number): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += size) result.push(items.slice(i, i + size));
+  return result;
+}
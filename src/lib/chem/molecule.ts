@@ -0,0 +1,259 @@
+// Shared molecular graph types and small graph helpers used across the chem modules
+
+export type BondOrder = 1 | 2 | 3 | 4;
+
+// Directional single bonds ("/" and "\" in SMILES) used for double-bond geometry
+export type BondStereo = "up" | "down" | null;
+
+export interface Atom {
+  /** Element symbol in canonical case ("C", "Cl"), or "*" for a wildcard atom. */
+  element: string;
+  aromatic: boolean;
+  /** Mass number when an isotope was specified, e.g. 13 for [13C]. */
+  isotope: number | null;
+  charge: number;
+  /** Attached hydrogens: the bracket count, or the implicit count from the default valence. */
+  hydrogens: number;
+  /** True when the atom was written in brackets (its hydrogen count is explicit). */
+  bracket: boolean;
+  /** Raw chirality tag such as "@", "@@" or "@TH2". */
+  chirality: string | null;
+  /** Neighbour atoms in the order the chirality tag refers to; -1 stands for the implicit H. */
+  chiralNeighbors?: number[];
+  /** Atom class / atom-map number, e.g. 3 for [CH3:3]. */
+  atomClass: number | null;
+  /** Character offset of the atom in the source text (0-based). */
+  position: number;
+}
+
+export interface Bond {
+  from: number;
+  to: number;
+  /** Formal order; aromatic bonds are stored with order 1 and `aromatic: true`. */
+  order: BondOrder;
+  aromatic: boolean;
+  stereo: BondStereo;
+}
+
+export interface Molecule {
+  atoms: Atom[];
+  bonds: Bond[];
+}
+
+// Deep copy, so transformations can work on the copy without touching the parsed input
+export function cloneMolecule(mol: Molecule): Molecule {
+  return {
+    atoms: mol.atoms.map((a) => ({
+      ...a,
+      ...(a.chiralNeighbors ? { chiralNeighbors: [...a.chiralNeighbors] } : {}),
+    })),
+    bonds: mol.bonds.map((b) => ({ ...b })),
+  };
+}
+
+// Bond indices incident to each atom
+export function adjacency(mol: Molecule): number[][] {
+  const adj: number[][] = mol.atoms.map(() => []);
+  mol.bonds.forEach((b, i) => {
+    adj[b.from].push(i);
+    adj[b.to].push(i);
+  });
+  return adj;
+}
+
+export function otherAtom(bond: Bond, atom: number): number {
+  return bond.from === atom ? bond.to : bond.from;
+}
+
+// Neighbouring atom indices for each atom
+export function neighborLists(mol: Molecule): number[][] {
+  return adjacency(mol).map((bonds, i) => bonds.map((b) => otherAtom(mol.bonds[b], i)));
+}
+
+// Connected components as sorted lists of atom indices ("." separated parts in SMILES)
+export function fragments(mol: Molecule): number[][] {
+  const nbrs = neighborLists(mol);
+  const seen = new Array<boolean>(mol.atoms.length).fill(false);
+  const result: number[][] = [];
+  for (let start = 0; start < mol.atoms.length; start++) {
+    if (seen[start]) continue;
+    const component: number[] = [];
+    const stack = [start];
+    seen[start] = true;
+    while (stack.length) {
+      const a = stack.pop()!;
+      component.push(a);
+      for (const n of nbrs[a]) {
+        if (!seen[n]) {
+          seen[n] = true;
+          stack.push(n);
+        }
+      }
+    }
+    result.push(component.sort((x, y) => x - y));
+  }
+  return result;
+}
+
+// The atoms listed (in that order) and the bonds between them, as a molecule of its own
+export function subMolecule(mol: Molecule, atoms: number[]): Molecule {
+  const index = new Map(atoms.map((old, i) => [old, i]));
+  return {
+    atoms: atoms.map((i) => mol.atoms[i]),
+    bonds: mol.bonds
+      .filter((b) => index.has(b.from) && index.has(b.to))
+      .map((b) => ({ ...b, from: index.get(b.from)!, to: index.get(b.to)! })),
+  };
+}
+
+// Indices of bonds that lie on a ring (i.e. are not bridges of the graph)
+export function ringBonds(mol: Molecule): Set<number> {
+  const adj = adjacency(mol);
+  const order = new Array<number>(mol.atoms.length).fill(-1);
+  const low = new Array<number>(mol.atoms.length).fill(0);
+  const bridges = new Set<number>();
+  let counter = 0;
+
+  // Iterative Tarjan bridge search so long chains do not overflow the stack
+  for (let root = 0; root < mol.atoms.length; root++) {
+    if (order[root] !== -1) continue;
+    order[root] = low[root] = counter++;
+    const stack: Array<{ atom: number; viaBond: number; next: number }> = [
+      { atom: root, viaBond: -1, next: 0 },
+    ];
+    while (stack.length) {
+      const frame = stack[stack.length - 1];
+      if (frame.next < adj[frame.atom].length) {
+        const bondIdx = adj[frame.atom][frame.next++];
+        if (bondIdx === frame.viaBond) continue;
+        const n = otherAtom(mol.bonds[bondIdx], frame.atom);
+        if (order[n] === -1) {
+          order[n] = low[n] = counter++;
+          stack.push({ atom: n, viaBond: bondIdx, next: 0 });
+        } else {
+          low[frame.atom] = Math.min(low[frame.atom], order[n]);
+        }
+      } else {
+        stack.pop();
+        const parent = stack[stack.length - 1];
+        if (parent) {
+          low[parent.atom] = Math.min(low[parent.atom], low[frame.atom]);
+          if (low[frame.atom] > order[parent.atom]) bridges.add(frame.viaBond);
+        }
+      }
+    }
+  }
+
+  const result = new Set<number>();
+  mol.bonds.forEach((_, i) => {
+    if (!bridges.has(i)) result.add(i);
+  });
+  return result;
+}
+
+// Element counts including attached hydrogens; wildcard atoms are skipped
+export function elementCounts(mol: Molecule): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const atom of mol.atoms) {
+    if (atom.element !== "*") counts[atom.element] = (counts[atom.element] || 0) + 1;
+    if (atom.hydrogens > 0) counts.H = (counts.H || 0) + atom.hydrogens;
+  }
+  return counts;
+}
+
+export function netCharge(mol: Molecule): number {
+  return mol.atoms.reduce((sum, a) => sum + a.charge, 0);
+}
+
+// Spelling-independent summary of a graph (atom environments, sorted); not a canonical
+// identifier, but "CCO" and "OCC" give the same value.
+export function moleculeSignature(mol: Molecule): string {
+  const adj = adjacency(mol);
+  const atomKey = (i: number) => {
+    const a = mol.atoms[i];
+    return `${a.aromatic ? a.element.toLowerCase() : a.element}${a.hydrogens ? `H${a.hydrogens}` : ""}${
+      a.charge ? (a.charge > 0 ? `+${a.charge}` : `${a.charge}`) : ""
+    }`;
+  };
+  const bondKey = (b: Bond) => (b.aromatic ? ":" : ["", "-", "=", "#", "$"][b.order]);
+  return mol.atoms
+    .map((_, i) => {
+      const env = adj[i].map((b) => bondKey(mol.bonds[b]) + atomKey(otherAtom(mol.bonds[b], i)));
+      return `${atomKey(i)}(${env.sort().join(",")})`;
+    })
+    .sort()
+    .join(";");
+}
+
+/**
+ * Fold explicit hydrogen atoms ("[H]O[H]") into their heavy neighbour's hydrogen count.
+ * Isotopic, charged, mapped or multiply bonded hydrogens, and H2 itself, are kept as atoms.
+ */
+export function foldExplicitHydrogens(mol: Molecule): Molecule {
+  const nbrs = neighborLists(mol);
+  const removable = mol.atoms.map(
+    (a, i) =>
+      a.element === "H" &&
+      a.isotope === null &&
+      a.charge === 0 &&
+      a.atomClass === null &&
+      a.hydrogens === 0 &&
+      nbrs[i].length === 1 &&
+      mol.atoms[nbrs[i][0]].element !== "H" &&
+      mol.bonds.some((b) => (b.from === i || b.to === i) && b.order === 1 && !b.aromatic),
+  );
+  if (!removable.some(Boolean)) return mol;
+
+  const result = cloneMolecule(mol);
+  const newIndex: number[] = [];
+  let next = 0;
+  result.atoms.forEach((_, i) => {
+    newIndex[i] = removable[i] ? -1 : next++;
+  });
+  removable.forEach((remove, i) => {
+    if (!remove) return;
+    const heavy = result.atoms[nbrs[i][0]];
+    heavy.hydrogens += 1;
+    heavy.bracket = true;
+  });
+  for (const atom of result.atoms) {
+    if (atom.chiralNeighbors) atom.chiralNeighbors = atom.chiralNeighbors.map((n) => (n === -1 ? -1 : newIndex[n]));
+  }
+  return {
+    atoms: result.atoms.filter((_, i) => !removable[i]),
+    bonds: result.bonds
+      .filter((b) => !removable[b.from] && !removable[b.to])
+      .map((b) => ({ ...b, from: newIndex[b.from], to: newIndex[b.to] })),
+  };
+}
+
+/**
+ * Turn every atom's hydrogen count into explicit H atoms, appended after the existing atoms
+ * in atom order. Chirality references to the implicit H point at the new atom.
+ */
+export function addExplicitHydrogens(mol: Molecule): Molecule {
+  const result = cloneMolecule(mol);
+  mol.atoms.forEach((atom, i) => {
+    for (let k = 0; k < atom.hydrogens; k++) {
+      const h = result.atoms.length;
+      result.atoms.push({
+        element: "H",
+        aromatic: false,
+        isotope: null,
+        charge: 0,
+        hydrogens: 0,
+        bracket: true,
+        chirality: null,
+        atomClass: null,
+        position: atom.position,
+      });
+      result.bonds.push({ from: i, to: h, order: 1, aromatic: false, stereo: null });
+      const heavy = result.atoms[i];
+      if (k === 0 && heavy.chiralNeighbors) {
+        heavy.chiralNeighbors = heavy.chiralNeighbors.map((n) => (n === -1 ? h : n));
+      }
+    }
+    result.atoms[i].hydrogens = 0;
+  });
+  return result;
+}
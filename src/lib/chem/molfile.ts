@@ -0,0 +1,527 @@
+import { kekulize } from "./aromaticity";
+import { symmetryClasses } from "./canonical";
+import type { Point3D } from "./conformer";
+import { depictMolecule } from "./depict";
+import { atomicMass, isElementSymbol } from "./elements";
+import { adjacency, type Atom, type BondOrder, type Molecule, otherAtom, ringBonds } from "./molecule";
+import { implicitHydrogenCount } from "./smiles";
+import { DOWN, sideSign, UP } from "./stereo";
+
+/**
+ * Thrown for malformed molfiles. `line` is the 1-based line within the record; the message
+ * includes it so it can be shown to users as-is.
+ */
+export class MolfileParseError extends Error {
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line})`);
+    this.name = "MolfileParseError";
+    this.line = line;
+  }
+}
+
+export interface MolRecord {
+  /** First header line of the molfile. */
+  name: string;
+  molecule: Molecule;
+  /** Coordinates as written in the file, one per atom (z is 0 for 2D files). */
+  coordinates: Point3D[];
+  /** SD data items in file order ("> <MW>" becomes key "MW"). */
+  properties: Record<string, string>;
+}
+
+export type SdfEntry = { ok: true; record: MolRecord } | { ok: false; index: number; error: string };
+
+export type MolfileVersion = "V2000" | "V3000";
+
+export interface MolfileWriteOptions {
+  name?: string;
+  /** Defaults to V2000, switching to V3000 above the V2000 limit of 999 atoms or bonds. */
+  version?: MolfileVersion;
+}
+
+export interface SdfWriteRecord {
+  molecule: Molecule;
+  name?: string;
+  properties?: Record<string, string>;
+}
+
+// Drawing coordinates are in bond lengths; molfiles conventionally use ~1.5 Å bonds
+const BOND_LENGTH = 1.5;
+const PROGRAM = "VRLab";
+
+// V2000 atom-block charge codes (4 is a doublet radical, which carries no charge)
+const CHARGE_CODES: Record<number, number> = { 0: 0, 1: 3, 2: 2, 3: 1, 4: 0, 5: -1, 6: -2, 7: -3 };
+
+// Query and pseudo-atoms we read as wildcards
+const WILDCARDS = new Set(["*", "A", "Q", "L", "R", "R#", "LP"]);
+
+// Bond stereo as read: 1 wedge (up), 6 / V3000 CFG=3 hash (down)
+type WedgeMark = { from: number; bond: number; up: boolean };
+
+type AtomDraft = { element: string; isotope: number | null; charge: number; radical: number; atomClass: number | null; point: Point3D };
+type BondDraft = { from: number; to: number; type: number; stereo: number };
+
+/** Parse one molfile (V2000 or V3000); any SD data items after "M  END" become properties. */
+export function parseMolfile(text: string): MolRecord {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  if (lines.length < 4) throw new MolfileParseError("Molfile is missing its header or counts line", lines.length);
+  const name = lines[0].trim();
+  const threeD = lines[1].slice(20, 22) === "3D";
+  const counts = lines[3];
+  const { atoms, bonds, end } = counts.includes("V3000") ? readV3000(lines) : readV2000(lines);
+  const molecule = buildMolecule(atoms, bonds, threeD);
+  return {
+    name,
+    molecule,
+    coordinates: atoms.map((a) => a.point),
+    properties: readDataItems(lines.slice(end + 1)),
+  };
+}
+
+/**
+ * Parse a multi-record SD file. Records are separated by "$$$$"; each one parses on its own,
+ * so a malformed record is reported with its 0-based index and the rest still load.
+ */
+export function parseSdf(text: string): SdfEntry[] {
+  const chunks = text.replace(/\r\n?/g, "\n").split(/^\$\$\$\$[^\n]*$/m);
+  const entries: SdfEntry[] = [];
+  chunks.forEach((chunk, index) => {
+    const body = chunk.replace(/^\n/, "");
+    if (!body.trim()) return;
+    try {
+      entries.push({ ok: true, record: parseMolfile(body) });
+    } catch (e) {
+      entries.push({ ok: false, index, error: e instanceof Error ? e.message : String(e) });
+    }
+  });
+  return entries;
+}
+
+const int = (text: string | undefined, fallback = 0) => {
+  const value = parseInt(text ?? "", 10);
+  return Number.isNaN(value) ? fallback : value;
+};
+
+function readV2000(lines: string[]): { atoms: AtomDraft[]; bonds: BondDraft[]; end: number } {
+  const counts = lines[3];
+  const atomCount = int(counts.slice(0, 3), -1);
+  const bondCount = int(counts.slice(3, 6), -1);
+  if (atomCount < 0 || bondCount < 0) throw new MolfileParseError("Bad counts line", 4);
+  if (lines.length < 4 + atomCount + bondCount) throw new MolfileParseError("Molfile ends inside the atom or bond block", lines.length);
+
+  const atoms: AtomDraft[] = [];
+  for (let i = 0; i < atomCount; i++) {
+    const line = lines[4 + i];
+    // Fixed columns, with a whitespace-split fallback for writers that do not pad them
+    let fields = [line.slice(0, 10), line.slice(10, 20), line.slice(20, 30), line.slice(31, 34), line.slice(34, 36), line.slice(36, 39)];
+    if (!fields[3].trim() || fields.slice(0, 3).some((f) => Number.isNaN(parseFloat(f)))) fields = line.trim().split(/\s+/);
+    const [x, y, z] = fields.slice(0, 3).map(parseFloat);
+    if ([x, y, z].some(Number.isNaN)) throw new MolfileParseError("Bad atom coordinates", 5 + i);
+    const { element, isotope } = readSymbol(fields[3]?.trim() ?? "", 5 + i);
+    const massDiff = int(fields[4]);
+    const code = int(fields[5]);
+    atoms.push({
+      element,
+      isotope: isotope ?? (massDiff !== 0 ? Math.round(atomicMass(element) ?? 0) + massDiff : null),
+      charge: CHARGE_CODES[code] ?? 0,
+      radical: code === 4 ? 2 : 0,
+      atomClass: int(line.slice(60, 63)) || null,
+      point: { x, y, z },
+    });
+  }
+
+  const bonds: BondDraft[] = [];
+  for (let i = 0; i < bondCount; i++) {
+    const line = lines[4 + atomCount + i];
+    let fields = [line.slice(0, 3), line.slice(3, 6), line.slice(6, 9), line.slice(9, 12)];
+    if (fields.slice(0, 3).some((f) => !f.trim())) fields = line.trim().split(/\s+/);
+    const [from, to, type, stereo] = fields.map((f) => int(f));
+    if (from < 1 || to < 1 || from > atomCount || to > atomCount) throw new MolfileParseError("Bond refers to a missing atom", 5 + atomCount + i);
+    bonds.push({ from: from - 1, to: to - 1, type, stereo });
+  }
+
+  // Properties block; CHG/RAD and ISO lines replace the atom-block values
+  let end = lines.length - 1;
+  let chargesReset = false;
+  let isotopesReset = false;
+  for (let i = 4 + atomCount + bondCount; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.startsWith("M  END")) {
+      end = i;
+      break;
+    }
+    const tag = line.slice(3, 6);
+    if (!line.startsWith("M  ") || !["CHG", "RAD", "ISO"].includes(tag)) continue;
+    if ((tag === "CHG" || tag === "RAD") && !chargesReset) {
+      for (const a of atoms) {
+        a.charge = 0;
+        a.radical = 0;
+      }
+      chargesReset = true;
+    }
+    if (tag === "ISO" && !isotopesReset) {
+      for (const a of atoms) a.isotope = null;
+      isotopesReset = true;
+    }
+    const values = line.slice(6).trim().split(/\s+/).map((v) => int(v));
+    for (let k = 0; k < values[0]; k++) {
+      const atom = atoms[values[1 + 2 * k] - 1];
+      const value = values[2 + 2 * k];
+      if (!atom || value === undefined) throw new MolfileParseError(`Bad M  ${tag} line`, i + 1);
+      if (tag === "CHG") atom.charge = value;
+      else if (tag === "RAD") atom.radical = value;
+      else atom.isotope = value;
+    }
+  }
+  return { atoms, bonds, end };
+}
+
+function readV3000(lines: string[]): { atoms: AtomDraft[]; bonds: BondDraft[]; end: number } {
+  // Join "M  V30" lines, following "-" continuations
+  const entries: Array<{ text: string; line: number }> = [];
+  let end = lines.length - 1;
+  let pending: { text: string; line: number } | null = null;
+  for (let i = 4; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.startsWith("M  END")) {
+      end = i;
+      break;
+    }
+    if (!line.startsWith("M  V30 ")) continue;
+    const text = line.slice(7);
+    const joined: { text: string; line: number } = pending ? { text: pending.text + text, line: pending.line } : { text, line: i + 1 };
+    if (joined.text.endsWith("-")) {
+      pending = { text: joined.text.slice(0, -1), line: joined.line };
+      continue;
+    }
+    pending = null;
+    entries.push({ text: joined.text.trim(), line: joined.line });
+  }
+
+  const atoms: AtomDraft[] = [];
+  const bonds: BondDraft[] = [];
+  const ids = new Map<number, number>();
+  let section = "";
+  for (const { text, line } of entries) {
+    if (text.startsWith("BEGIN ")) {
+      section = text.slice(6).trim();
+      continue;
+    }
+    if (text.startsWith("END ")) {
+      section = "";
+      continue;
+    }
+    const tokens = text.match(/"[^"]*"|\([^)]*\)|\S+/g) ?? [];
+    const options = new Map<string, string>();
+    for (const token of tokens) {
+      const eq = token.indexOf("=");
+      if (eq > 0) options.set(token.slice(0, eq).toUpperCase(), token.slice(eq + 1));
+    }
+    if (section === "ATOM") {
+      const [id, symbol = "", x, y, z, aamap] = tokens;
+      const point = { x: parseFloat(x), y: parseFloat(y), z: parseFloat(z) };
+      if (Object.values(point).some(Number.isNaN)) throw new MolfileParseError("Bad V3000 atom line", line);
+      const { element, isotope } = readSymbol(symbol.replace(/"/g, "").startsWith("[") ? "*" : symbol.replace(/"/g, ""), line);
+      ids.set(int(id), atoms.length);
+      atoms.push({
+        element,
+        isotope: options.has("MASS") ? int(options.get("MASS")) : isotope,
+        charge: int(options.get("CHG")),
+        radical: int(options.get("RAD")),
+        atomClass: int(aamap) || null,
+        point,
+      });
+    } else if (section === "BOND") {
+      const [, type, a, b] = tokens;
+      const from = ids.get(int(a));
+      const to = ids.get(int(b));
+      if (from === undefined || to === undefined) throw new MolfileParseError("Bond refers to a missing atom", line);
+      // CFG=1 wedge, 3 hash, 2 either; stored with the V2000 codes
+      const cfg = int(options.get("CFG"));
+      bonds.push({ from, to, type: int(type), stereo: cfg === 1 ? 1 : cfg === 3 ? 6 : cfg === 2 ? 4 : 0 });
+    }
+  }
+  return { atoms, bonds, end };
+}
+
+function readSymbol(symbol: string, line: number): { element: string; isotope: number | null } {
+  if (symbol === "D") return { element: "H", isotope: 2 };
+  if (symbol === "T") return { element: "H", isotope: 3 };
+  if (WILDCARDS.has(symbol)) return { element: "*", isotope: null };
+  if (!isElementSymbol(symbol)) throw new MolfileParseError(`Unknown element "${symbol}"`, line);
+  return { element: symbol, isotope: null };
+}
+
+// "> <NAME>" / ">  <NAME> (12)" headers, each followed by value lines up to a blank line
+function readDataItems(lines: string[]): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (let i = 0; i < lines.length; i++) {
+    const header = /^>.*?<([^>]+)>/.exec(lines[i]);
+    if (!header) continue;
+    const values: string[] = [];
+    while (i + 1 < lines.length && lines[i + 1].trim() !== "") values.push(lines[++i]);
+    properties[header[1]] = values.join("\n");
+  }
+  return properties;
+}
+
+function buildMolecule(drafts: AtomDraft[], bondDrafts: BondDraft[], threeD: boolean): Molecule {
+  const mol: Molecule = {
+    atoms: drafts.map(
+      (d): Atom => ({
+        element: d.element,
+        aromatic: false,
+        isotope: d.isotope,
+        charge: d.charge,
+        hydrogens: 0,
+        bracket: false,
+        chirality: null,
+        atomClass: d.atomClass,
+        position: 0,
+      }),
+    ),
+    bonds: bondDrafts.map((b) => ({
+      from: b.from,
+      to: b.to,
+      // Type 4 is aromatic; query types (any, single-or-double, ...) are read as single
+      order: (b.type >= 1 && b.type <= 3 ? b.type : 1) as BondOrder,
+      aromatic: b.type === 4,
+      stereo: null,
+    })),
+  };
+  for (const bond of mol.bonds) {
+    if (!bond.aromatic) continue;
+    mol.atoms[bond.from].aromatic = true;
+    mol.atoms[bond.to].aromatic = true;
+  }
+
+  // Molfiles carry no implicit hydrogens: fill them from valence, less one per unpaired electron
+  const adj = adjacency(mol);
+  mol.atoms.forEach((atom, a) => {
+    const used = adj[a].reduce((sum, b) => sum + (mol.bonds[b].aromatic ? 1 : mol.bonds[b].order), 0);
+    const radical = drafts[a].radical;
+    const unpaired = radical === 2 ? 1 : radical === 1 || radical === 3 ? 2 : 0;
+    atom.hydrogens = Math.max(0, implicitHydrogenCount(atom.element, atom.charge, atom.aromatic, used) - unpaired);
+    atom.bracket = unpaired > 0 || atom.charge !== 0 || atom.isotope !== null || implicitHydrogenCount(atom.element, 0, false, 0) === 0;
+  });
+
+  const points = drafts.map((d) => d.point);
+  const wedges: WedgeMark[] = [];
+  bondDrafts.forEach((b, i) => {
+    if (mol.bonds[i].order === 1 && !mol.bonds[i].aromatic && (b.stereo === 1 || b.stereo === 6)) {
+      wedges.push({ from: b.from, bond: i, up: b.stereo === 1 });
+    }
+  });
+  const classes = symmetryClasses(mol);
+  assignChirality(mol, adj, classes, points, wedges, threeD);
+  assignDoubleBondStereo(mol, adj, classes, points, bondDrafts);
+  return mol;
+}
+
+type Vector = [number, number, number];
+const sub = (p: Point3D, q: Point3D): Vector => [p.x - q.x, p.y - q.y, p.z - q.z];
+const dot = (a: Vector, b: Vector) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const triple = (a: Vector, b: Vector, c: Vector) =>
+  a[0] * (b[1] * c[2] - b[2] * c[1]) + a[1] * (b[2] * c[0] - b[0] * c[2]) + a[2] * (b[0] * c[1] - b[1] * c[0]);
+
+/**
+ * Tetrahedral centres from wedge/hash bonds (2D files) or from the coordinates themselves
+ * (3D files). Neighbours are lifted out of the plane by their wedges, an implicit H goes
+ * opposite the others, and the sign of the signed volume gives "@@" (positive) or "@".
+ * Only centres whose substituents are all different are tagged.
+ */
+function assignChirality(mol: Molecule, adj: number[][], classes: number[], points: Point3D[], wedges: WedgeMark[], threeD: boolean) {
+  mol.atoms.forEach((atom, centre) => {
+    const neighbours = adj[centre].map((b) => otherAtom(mol.bonds[b], centre));
+    if (neighbours.length + atom.hydrogens !== 4 || neighbours.length < 3) return;
+    const marks = wedges.filter((w) => w.from === centre);
+    if (!threeD && marks.length === 0) return;
+    if (new Set(neighbours.map((n) => classes[n])).size !== neighbours.length) return;
+
+    const c = points[centre];
+    const lifted = neighbours.map((n, k): Point3D => {
+      if (threeD) return points[n];
+      const mark = marks.find((w) => w.bond === adj[centre][k]);
+      return { x: points[n].x, y: points[n].y, z: mark ? (mark.up ? 1 : -1) : 0 };
+    });
+    const vectors = lifted.map((p) => sub(p, c));
+    if (neighbours.length === 3) {
+      const sum = vectors.reduce((acc, v) => [acc[0] + v[0], acc[1] + v[1], acc[2] + v[2]] as Vector, [0, 0, 0] as Vector);
+      vectors.push([-sum[0], -sum[1], -sum[2]]);
+    }
+    const volume = triple(sub3(vectors[1], vectors[0]), sub3(vectors[2], vectors[0]), sub3(vectors[3], vectors[0]));
+    if (Math.abs(volume) < 1e-6) return;
+    atom.chirality = volume > 0 ? "@@" : "@";
+    atom.chiralNeighbors = neighbours.length === 3 ? [...neighbours, -1] : neighbours;
+  });
+}
+
+const sub3 = (a: Vector, b: Vector): Vector => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+
+// E/Z from coordinates for acyclic double bonds not marked "either" (stereo 3), written as
+// "/" "\" marks on one substituent bond at each end
+function assignDoubleBondStereo(mol: Molecule, adj: number[][], classes: number[], points: Point3D[], drafts: BondDraft[]) {
+  const rings = ringBonds(mol);
+  mol.bonds.forEach((bond, index) => {
+    if (bond.order !== 2 || bond.aromatic || rings.has(index) || drafts[index].stereo === 3) return;
+    const refs: number[] = [];
+    for (const end of [bond.from, bond.to]) {
+      const others = adj[end].filter((b) => b !== index);
+      if (others.length === 0 || others.length > 2 || others.some((b) => mol.bonds[b].order !== 1 || mol.bonds[b].aromatic)) return;
+      if (others.length === 2 && classes[otherAtom(mol.bonds[others[0]], end)] === classes[otherAtom(mol.bonds[others[1]], end)]) return;
+      refs.push(others[0]);
+    }
+    const axis = sub(points[bond.to], points[bond.from]);
+    const perpendicular = (v: Vector): Vector => {
+      const t = dot(v, axis) / (dot(axis, axis) || 1);
+      return [v[0] - t * axis[0], v[1] - t * axis[1], v[2] - t * axis[2]];
+    };
+    const u = perpendicular(sub(points[otherAtom(mol.bonds[refs[0]], bond.from)], points[bond.from]));
+    const w = perpendicular(sub(points[otherAtom(mol.bonds[refs[1]], bond.to)], points[bond.to]));
+    const side = dot(u, w);
+    if (Math.abs(side) < 1e-6) return;
+    // A conjugated neighbour may already have marked the shared single bond; build on its side
+    const first = mol.bonds[refs[0]];
+    const second = mol.bonds[refs[1]];
+    const firstSide = first.stereo ? sideSign(first, bond.from, first.stereo === "up" ? UP : DOWN) : 1;
+    const secondSide = side < 0 ? -firstSide : firstSide;
+    if (second.stereo && sideSign(second, bond.to, second.stereo === "up" ? UP : DOWN) !== secondSide) return;
+    // sideSign(bond, centre, dir) is ±dir, so the same expression turns a side back into a mark
+    first.stereo = sideSign(first, bond.from, firstSide) === UP ? "up" : "down";
+    second.stereo = sideSign(second, bond.to, secondSide) === UP ? "up" : "down";
+  });
+}
+
+type Prepared = {
+  elements: string[];
+  points: Point3D[];
+  charges: number[];
+  isotopes: Array<number | null>;
+  radicals: number[];
+  classes: Array<number | null>;
+  /** [from, to, type, stereo] with V2000 codes; wedge bonds start at their stereocentre. */
+  bonds: Array<[number, number, number, number]>;
+};
+
+// Kekulé bonds, 2D layout with wedges, radicals for missing hydrogens and explicit H atoms
+// where the valence model would give too few
+function prepare(mol: Molecule): Prepared {
+  const depiction = depictMolecule(mol);
+  const kekule = mol.bonds.some((b) => b.aromatic) ? kekulize(mol) : null;
+  const orders = mol.bonds.map((b, i) => (kekule?.ok ? kekule.orders[i] : b.order));
+  const aromaticLeft = (i: number) => mol.bonds[i].aromatic && !kekule?.ok;
+  const wedgeOf = new Map(depiction.wedges.map((w) => [w.bond, w]));
+
+  const prepared: Prepared = {
+    elements: mol.atoms.map((a) => a.element),
+    points: depiction.coordinates.map((p) => ({ x: p.x * BOND_LENGTH, y: -p.y * BOND_LENGTH, z: 0 })),
+    charges: mol.atoms.map((a) => a.charge),
+    isotopes: mol.atoms.map((a) => a.isotope),
+    radicals: mol.atoms.map(() => 0),
+    classes: mol.atoms.map((a) => a.atomClass),
+    bonds: mol.bonds.map((b, i) => {
+      const wedge = wedgeOf.get(i);
+      const from = wedge ? wedge.from : b.from;
+      const stereo = wedge ? (wedge.kind === "wedge" ? 1 : 6) : 0;
+      return [from, otherAtom(b, from), aromaticLeft(i) ? 4 : orders[i], stereo];
+    }),
+  };
+
+  const adj = adjacency(mol);
+  mol.atoms.forEach((atom, a) => {
+    const used = adj[a].reduce((sum, b) => sum + (aromaticLeft(b) ? 1 : orders[b]), 0);
+    const expected = implicitHydrogenCount(atom.element, atom.charge, adj[a].some(aromaticLeft), used);
+    if (atom.hydrogens < expected) {
+      // One missing H is a doublet, two a triplet; larger gaps cannot be expressed
+      prepared.radicals[a] = expected - atom.hydrogens === 1 ? 2 : 3;
+    }
+    const extra = atom.hydrogens - expected;
+    for (let k = 0; k < extra; k++) {
+      const angle = -Math.PI / 2 + (2 * Math.PI * k) / extra + 0.4;
+      const p = prepared.points[a];
+      prepared.elements.push("H");
+      prepared.points.push({ x: p.x + 0.8 * BOND_LENGTH * Math.cos(angle), y: p.y + 0.8 * BOND_LENGTH * Math.sin(angle), z: 0 });
+      prepared.charges.push(0);
+      prepared.isotopes.push(null);
+      prepared.radicals.push(0);
+      prepared.classes.push(null);
+      prepared.bonds.push([a, prepared.elements.length - 1, 1, 0]);
+    }
+  });
+  return prepared;
+}
+
+const pad = (value: number | string, width: number) => String(value).padStart(width);
+const coordinate = (value: number) => pad(value.toFixed(4), 10);
+const CODE_FOR_CHARGE: Record<number, number> = { 3: 1, 2: 2, 1: 3, 0: 0, [-1]: 5, [-2]: 6, [-3]: 7 };
+
+/**
+ * Write a molecule as an MDL molfile with a generated 2D layout. Aromatic rings are written in
+ * Kekulé form, stereocentres as wedge/hash bonds and E/Z double bonds by their geometry.
+ * Charges, isotopes and radicals go in M  CHG / M  ISO / M  RAD lines (V2000) or atom options (V3000).
+ */
+export function writeMolfile(mol: Molecule, options: MolfileWriteOptions = {}): string {
+  const p = prepare(mol);
+  const large = p.elements.length > 999 || p.bonds.length > 999;
+  const version = large ? "V3000" : (options.version ?? "V2000");
+  const header = [(options.name ?? "").split("\n")[0], `  ${PROGRAM.padEnd(8)}${" ".repeat(10)}2D`, ""];
+  return [...header, ...(version === "V3000" ? v3000Body(p) : v2000Body(p)), "M  END"].join("\n") + "\n";
+}
+
+function v2000Body(p: Prepared): string[] {
+  const lines = [`${pad(p.elements.length, 3)}${pad(p.bonds.length, 3)}  0  0  0  0  0  0  0  0999 V2000`];
+  p.elements.forEach((element, a) => {
+    const { x, y, z } = p.points[a];
+    const code = CODE_FOR_CHARGE[p.charges[a]] ?? 0;
+    lines.push(
+      `${coordinate(x)}${coordinate(y)}${coordinate(z)} ${element.padEnd(3)} 0${pad(code, 3)}  0  0  0  0  0  0  0${pad(p.classes[a] ?? 0, 3)}  0  0`,
+    );
+  });
+  for (const [from, to, type, stereo] of p.bonds) lines.push(`${pad(from + 1, 3)}${pad(to + 1, 3)}${pad(type, 3)}${pad(stereo, 3)}`);
+
+  const propertyLines = (tag: string, values: Array<number | null>, skip: number | null) => {
+    const entries = values.flatMap((v, a) => (v !== null && v !== skip ? [[a + 1, v]] : []));
+    for (let i = 0; i < entries.length; i += 8) {
+      const chunk = entries.slice(i, i + 8);
+      lines.push(`M  ${tag}${pad(chunk.length, 3)}${chunk.map(([a, v]) => ` ${pad(a, 3)} ${pad(v, 3)}`).join("")}`);
+    }
+  };
+  propertyLines("CHG", p.charges, 0);
+  propertyLines("RAD", p.radicals, 0);
+  propertyLines("ISO", p.isotopes, null);
+  return lines;
+}
+
+function v3000Body(p: Prepared): string[] {
+  const lines = ["  0  0  0     0  0            999 V3000", "M  V30 BEGIN CTAB", `M  V30 COUNTS ${p.elements.length} ${p.bonds.length} 0 0 0`, "M  V30 BEGIN ATOM"];
+  p.elements.forEach((element, a) => {
+    const { x, y, z } = p.points[a];
+    const extras = [
+      p.charges[a] ? `CHG=${p.charges[a]}` : "",
+      p.radicals[a] ? `RAD=${p.radicals[a]}` : "",
+      p.isotopes[a] !== null ? `MASS=${p.isotopes[a]}` : "",
+    ].filter(Boolean);
+    lines.push(`M  V30 ${a + 1} ${element} ${x.toFixed(4)} ${y.toFixed(4)} ${z.toFixed(4)} ${p.classes[a] ?? 0}${extras.map((e) => ` ${e}`).join("")}`);
+  });
+  lines.push("M  V30 END ATOM", "M  V30 BEGIN BOND");
+  p.bonds.forEach(([from, to, type, stereo], i) => {
+    const cfg = stereo === 1 ? " CFG=1" : stereo === 6 ? " CFG=3" : "";
+    lines.push(`M  V30 ${i + 1} ${type} ${from + 1} ${to + 1}${cfg}`);
+  });
+  lines.push("M  V30 END BOND", "M  V30 END CTAB");
+  return lines;
+}
+
+/** Write records as an SD file: each molfile followed by its data items and "$$$$". */
+export function writeSdf(records: SdfWriteRecord[], version?: MolfileVersion): string {
+  return records
+    .map((record) => {
+      const data = Object.entries(record.properties ?? {})
+        .map(([key, value]) => `> <${key}>\n${value.replace(/\n\s*\n/g, "\n")}\n\n`)
+        .join("");
+      return `${writeMolfile(record.molecule, { name: record.name, version })}${data}$$$$\n`;
+    })
+    .join("");
+}
@@ -0,0 +1,288 @@
+import type { FunctionalGroup, ReactionTemplate, ReagentOption } from "./reactionTemplates";
+
+/**
+ * Version of the catalogue below. Bump it whenever an entry is added or removed or its
+ * pattern, conditions or products change, so saved predictions can tell which rules made them.
+ */
+export const REACTION_LIBRARY_VERSION = 2;
+
+// Reagents as listed in the simulator's common solutes (name and SMILES)
+const SULFURIC_ACID: ReagentOption = { name: "Sulfuric Acid", smiles: "O=S(=O)(O)O" };
+const HYDROCHLORIC_ACID: ReagentOption = { name: "Hydrochloric Acid", smiles: "Cl" };
+const SODIUM_HYDROXIDE: ReagentOption = { name: "Sodium Hydroxide", smiles: "[Na+].[OH-]" };
+const POTASSIUM_CARBONATE: ReagentOption = { name: "Potassium Carbonate", smiles: "[K+].[K+].[O-]C(=O)[O-]" };
+const POTASSIUM_TERT_BUTOXIDE: ReagentOption = { name: "Potassium tert-Butoxide", smiles: "[K+].CC(C)(C)[O-]" };
+const SODIUM_HYDRIDE: ReagentOption = { name: "Sodium Hydride", smiles: "[Na+].[H-]" };
+const SODIUM_CYANIDE: ReagentOption = { name: "Sodium Cyanide", smiles: "[Na+].[C-]#N" };
+const LITHIUM_ALUMINUM_HYDRIDE: ReagentOption = { name: "Lithium Aluminum Hydride", smiles: "[Li+].[AlH4-]" };
+const SODIUM_BOROHYDRIDE: ReagentOption = { name: "Sodium Borohydride", smiles: "[Na+].[BH4-]" };
+const SODIUM_CYANOBOROHYDRIDE: ReagentOption = { name: "Sodium Cyanoborohydride", smiles: "[Na+].[BH3-]C#N" };
+const POTASSIUM_PERMANGANATE: ReagentOption = { name: "Potassium Permanganate", smiles: "[K+].[O-][Mn](=O)(=O)=O" };
+const PCC: ReagentOption = { name: "Pyridinium Chlorochromate", smiles: "c1cc[nH+]cc1.[O-][Cr](=O)(=O)Cl" };
+const PALLADIUM_ACETATE: ReagentOption = { name: "Palladium(II) Acetate", smiles: "CC(=O)[O-].CC(=O)[O-].[Pd+2]" };
+
+const ACID_CATALYST = { label: "an acid catalyst", anyOf: [SULFURIC_ACID, HYDROCHLORIC_ACID] };
+const CONCENTRATED_ACID = { label: "concentrated sulfuric acid", anyOf: [SULFURIC_ACID] };
+
+const PROTIC_GROUPS: FunctionalGroup = { label: "O–H, N–H or S–H group", smarts: "[OX2H,NX3;!H0,SX2H]" };
+const CARBOXYLIC_ACID: FunctionalGroup = { label: "carboxylic acid", smarts: "[CX3](=O)[OX2H1]" };
+const BASIC_AMINE: FunctionalGroup = { label: "basic amine", smarts: "[NX3;!$(NC=[O,S]);!$(N-a);!$(N-[#7,#8])]" };
+const ARYL_AMINE: FunctionalGroup = { label: "aryl amine", smarts: "[NX3;H2,H1]-a" };
+
+const ETHEREAL = ["ether", "thf", "dioxane"];
+const POLAR_APROTIC = ["dmso", "dmf", "acetone", "acetonitrile"];
+const ALCOHOLS = ["methanol", "ethanol", "isopropanol"];
+
+/**
+ * The named-reaction catalogue, most specific first: when several entries fire, the first
+ * gives the main outcome. Solvents are SOLVENT_OPTIONS keys; temperatures are in K.
+ */
+export const NAMED_REACTIONS: ReactionTemplate[] = [
+  {
+    id: "acid_base_neutralization",
+    name: "Acid–base neutralization",
+    category: "Acid–base",
+    smirks: "[CX3:1](=[O:2])[OH:3].[OH-:4]>>[C:1](=[O:2])[O-:3].[OH2+0:4]",
+    reactants: ["carboxylic acid", "hydroxide"],
+  },
+  {
+    id: "fischer_esterification",
+    name: "Fischer esterification",
+    category: "Condensation",
+    smirks: "[CX3:1](=[O:2])[OH:3].[OH:4][CX4:5]>>[C:1](=[O:2])[O:4][C:5].[O:3]",
+    reactants: ["carboxylic acid", "alcohol"],
+    incompatible: [BASIC_AMINE],
+    reagents: [ACID_CATALYST],
+    solvents: [...ALCOHOLS, "toluene", "benzene", "xylene"],
+    temperature: { min: 298, max: 423 },
+  },
+  {
+    id: "ester_hydrolysis",
+    name: "Ester hydrolysis",
+    category: "Hydrolysis",
+    smirks: "[CX3:1](=[O:2])[OX2:3][#6:4].[OH2:5]>>[C:1](=[O:2])[O:5].[O:3][#6:4]",
+    reactants: ["ester", "water"],
+    reagents: [{ label: "an acid or base", anyOf: [SULFURIC_ACID, HYDROCHLORIC_ACID, SODIUM_HYDROXIDE] }],
+    solvents: ["water", ...ALCOHOLS, "thf", "dioxane"],
+    temperature: { min: 298, max: 393 },
+  },
+  {
+    id: "amide_condensation",
+    name: "Thermal amide condensation",
+    category: "Condensation",
+    smirks: "[CX3:1](=[O:2])[OH:3].[NX3;H2,H1;!$(NC=O);!$(N[#7,#8]):4]>>[C:1](=[O:2])[N:4].[O:3]",
+    reactants: ["carboxylic acid", "primary or secondary amine"],
+    solvents: ["toluene", "xylene", "dmf", "dmso"],
+    temperature: { min: 423, max: 523 },
+  },
+  {
+    id: "williamson_ether_synthesis",
+    name: "Williamson ether synthesis",
+    category: "Substitution",
+    smirks: "[OX2H:1][CX4,c:2].[CX4;H2,H3:3][Cl,Br,I:4]>>[*:2][O:1][C:3].[*:4]",
+    reactants: ["alcohol or phenol", "primary alkyl halide"],
+    incompatible: [CARBOXYLIC_ACID],
+    reagents: [{ label: "a base", anyOf: [SODIUM_HYDRIDE, POTASSIUM_CARBONATE, SODIUM_HYDROXIDE] }],
+    solvents: [...POLAR_APROTIC, "thf"],
+    temperature: { min: 273, max: 373 },
+  },
+  {
+    id: "sn2_substitution",
+    name: "SN2 substitution",
+    category: "Substitution",
+    smirks: "[CX4;H2,H3:1][Cl,Br,I:2].[OH-,C-:3]>>[C:1][*+0:3].[*-:2]",
+    reactants: ["primary alkyl halide", "hydroxide or cyanide"],
+    reagents: [{ label: "a nucleophile", anyOf: [SODIUM_HYDROXIDE, SODIUM_CYANIDE] }],
+    solvents: [...POLAR_APROTIC, "water", ...ALCOHOLS],
+    temperature: { min: 273, max: 353 },
+  },
+  {
+    id: "e2_elimination",
+    name: "E2 elimination",
+    category: "Elimination",
+    smirks: "[CX4;!H0:1][CX4:2][Cl,Br,I:3].[O-:4]>>[C:1]=[C:2].[*-:3].[O+0:4]",
+    reactants: ["alkyl halide with a β-hydrogen", "alkoxide or hydroxide"],
+    reagents: [{ label: "a strong base", anyOf: [POTASSIUM_TERT_BUTOXIDE, SODIUM_HYDROXIDE] }],
+    solvents: [...ALCOHOLS, "thf", "dmso"],
+    temperature: { min: 323, max: 423 },
+  },
+  {
+    id: "alcohol_dehydration",
+    name: "Acid-catalysed dehydration to an alkene",
+    category: "Elimination",
+    smirks: "[CX4;!H0:1][CX4:2][OH:3]>>[C:1]=[C:2].[O:3]",
+    reactants: ["alcohol with a β-hydrogen"],
+    reagents: [CONCENTRATED_ACID],
+    temperature: { min: 433, max: 473 },
+  },
+  {
+    id: "ether_formation",
+    name: "Acid-catalysed ether formation",
+    category: "Condensation",
+    smirks: "[CX4;H2,H3:1][OH:2].[OH:3][CX4;H2,H3:4]>>[C:1][O:3][C:4].[O:2]",
+    reactants: ["primary alcohol", "primary alcohol"],
+    reagents: [CONCENTRATED_ACID],
+    temperature: { min: 393, max: 433 },
+  },
+  {
+    id: "aldol_addition",
+    name: "Aldol addition",
+    category: "C–C bond formation",
+    smirks: "[CX3:1](=[O:2])[CX4;!H0:3].[CX3;H1,H2:4]=[O:5]>>[C:1](=[O:2])[C:3][C:4][O:5]",
+    reactants: ["enolisable aldehyde or ketone", "aldehyde"],
+    reagents: [{ label: "a base", anyOf: [SODIUM_HYDROXIDE] }],
+    solvents: ["water", ...ALCOHOLS],
+    temperature: { min: 263, max: 313 },
+  },
+  {
+    id: "grignard_addition",
+    name: "Grignard addition",
+    category: "C–C bond formation",
+    smirks: "[#6:1][Mg:2][Cl,Br,I:3].[CX3;!$(C-[O,N]):4]=[O:5]>>[*:1][C:4][OH1:5].[*:3][Mg:2][OH]",
+    reactants: ["Grignard reagent", "aldehyde or ketone"],
+    incompatible: [PROTIC_GROUPS],
+    solvents: ETHEREAL,
+    temperature: { min: 195, max: 340 },
+  },
+  {
+    id: "diels_alder",
+    name: "Diels–Alder cycloaddition",
+    category: "Cycloaddition",
+    smirks: "[CX3:1]=[CX3:2][CX3:3]=[CX3:4].[CX3:5]=[CX3:6]>>[C:1]1[C:2]=[C:3][C:4][C:6][C:5]1",
+    reactants: ["conjugated diene", "dienophile"],
+    temperature: { min: 298, max: 473 },
+  },
+  {
+    id: "reductive_amination",
+    name: "Reductive amination",
+    category: "Reduction",
+    smirks: "[CX3;!$(C-[O,N]):1]=[O:2].[NX3;H2,H1;!$(NC=O):3]>>[C:1][N:3].[O:2]",
+    reactants: ["aldehyde or ketone", "primary or secondary amine"],
+    reagents: [{ label: "a mild hydride", anyOf: [SODIUM_CYANOBOROHYDRIDE, SODIUM_BOROHYDRIDE] }],
+    solvents: [...ALCOHOLS, "dichloromethane", "thf"],
+    temperature: { min: 273, max: 333 },
+  },
+  {
+    id: "suzuki_coupling",
+    name: "Suzuki coupling",
+    category: "C–C bond formation",
+    smirks: "[c:1][Br,I:2].[c:3][B:4]([OH:5])[OH:6]>>[c:1]-[c:3].[*:2][B:4]([O:5])[O:6]",
+    reactants: ["aryl bromide or iodide", "arylboronic acid"],
+    reagents: [
+      { label: "a palladium catalyst", anyOf: [PALLADIUM_ACETATE] },
+      { label: "a base", anyOf: [POTASSIUM_CARBONATE, SODIUM_HYDROXIDE] },
+    ],
+    solvents: ["thf", "dioxane", "toluene", "dmf", "water", "ethanol"],
+    temperature: { min: 323, max: 393 },
+  },
+  {
+    id: "alkene_hydrohalogenation",
+    name: "Markovnikov hydrohalogenation",
+    category: "Addition",
+    smirks: "[CH2:1]=[CX3:2].[Cl,Br,I;H1:3]>>[C:1][C:2][*:3]",
+    reactants: ["terminal alkene", "hydrogen halide"],
+    temperature: { max: 373 },
+  },
+  {
+    id: "alkene_hydration",
+    name: "Acid-catalysed hydration",
+    category: "Addition",
+    smirks: "[CH2:1]=[CX3:2].[OH2:3]>>[C:1][C:2][O:3]",
+    reactants: ["terminal alkene", "water"],
+    reagents: [CONCENTRATED_ACID],
+  },
+  {
+    id: "aromatic_nitration",
+    name: "Electrophilic aromatic nitration",
+    category: "Aromatic substitution",
+    smirks: "[cH:1].[OH:2][N+:3](=[O:4])[O-:5]>>[c:1][N+:3](=[O:4])[O-:5].[O:2]",
+    reactants: ["arene", "nitric acid"],
+    incompatible: [ARYL_AMINE],
+    reagents: [CONCENTRATED_ACID],
+    temperature: { max: 333 },
+  },
+  {
+    id: "aromatic_bromination",
+    name: "Electrophilic aromatic bromination",
+    category: "Aromatic substitution",
+    smirks: "[cH:1].[Br:2][Br:3]>>[c:1][Br:2].[Br:3]",
+    reactants: ["arene", "bromine"],
+    temperature: { max: 353 },
+  },
+  {
+    id: "alcohol_oxidation_aldehyde",
+    name: "PCC oxidation to an aldehyde",
+    category: "Oxidation",
+    smirks: "[CX4;H2,H3:1][OH:2]>>[C:1]=[O:2]",
+    reactants: ["primary alcohol"],
+    reagents: [{ label: "PCC", anyOf: [PCC] }],
+    solvents: ["dichloromethane", "chloroform"],
+    temperature: { max: 313 },
+  },
+  {
+    id: "alcohol_oxidation_acid",
+    name: "Permanganate oxidation to a carboxylic acid",
+    category: "Oxidation",
+    smirks: "[CX4;H2,H3:1][OH:2]>>[C:1](=[O:2])[OH]",
+    reactants: ["primary alcohol"],
+    reagents: [{ label: "a strong oxidant", anyOf: [POTASSIUM_PERMANGANATE] }],
+    solvents: ["water", "acetone"],
+  },
+  {
+    id: "aldehyde_oxidation",
+    name: "Aldehyde oxidation",
+    category: "Oxidation",
+    smirks: "[CX3H1:1](=[O:2])[#6:3]>>[C:1](=[O:2])([#6:3])[OH]",
+    reactants: ["aldehyde"],
+    reagents: [{ label: "a strong oxidant", anyOf: [POTASSIUM_PERMANGANATE] }],
+    solvents: ["water", "acetone"],
+  },
+  {
+    id: "secondary_alcohol_oxidation",
+    name: "Oxidation to a ketone",
+    category: "Oxidation",
+    smirks: "[CX4H1:1]([#6:3])([#6:4])[OH:2]>>[C:1]([#6:3])([#6:4])=[O:2]",
+    reactants: ["secondary alcohol"],
+    reagents: [{ label: "an oxidant", anyOf: [PCC, POTASSIUM_PERMANGANATE] }],
+  },
+  {
+    id: "carbonyl_reduction_borohydride",
+    name: "Borohydride reduction of a carbonyl",
+    category: "Reduction",
+    smirks: "[CX3;!$(C-[O,N]):1]=[O:2]>>[C:1][O:2]",
+    reactants: ["aldehyde or ketone"],
+    reagents: [{ label: "sodium borohydride", anyOf: [SODIUM_BOROHYDRIDE] }],
+    solvents: [...ALCOHOLS, "water", "thf"],
+    temperature: { max: 323 },
+  },
+  {
+    id: "carbonyl_reduction_lah",
+    name: "Hydride reduction of a carbonyl",
+    category: "Reduction",
+    smirks: "[CX3;!$(C-[O,N]):1]=[O:2]>>[C:1][O:2]",
+    reactants: ["aldehyde or ketone"],
+    reagents: [{ label: "lithium aluminium hydride", anyOf: [LITHIUM_ALUMINUM_HYDRIDE] }],
+    solvents: ETHEREAL,
+    temperature: { max: 340 },
+  },
+  {
+    id: "acid_reduction_lah",
+    name: "Hydride reduction of a carboxylic acid",
+    category: "Reduction",
+    smirks: "[CX3:1](=[O:2])[OH:3]>>[C:1][O:2].[O:3]",
+    reactants: ["carboxylic acid"],
+    reagents: [{ label: "lithium aluminium hydride", anyOf: [LITHIUM_ALUMINUM_HYDRIDE] }],
+    solvents: ETHEREAL,
+    temperature: { max: 340 },
+  },
+  {
+    id: "ester_reduction_lah",
+    name: "Hydride reduction of an ester",
+    category: "Reduction",
+    smirks: "[CX3:1](=[O:2])[OX2:3][#6:4]>>[C:1][O:2].[O:3][#6:4]",
+    reactants: ["ester"],
+    reagents: [{ label: "lithium aluminium hydride", anyOf: [LITHIUM_ALUMINUM_HYDRIDE] }],
+    solvents: ETHEREAL,
+    temperature: { max: 340 },
+  },
+];
@@ -0,0 +1,190 @@
+import { canonicalSmiles } from "./canonical";
+import { parseSmiles, SmilesParseError } from "./smiles";
+
+/**
+ * Thrown for malformed reaction SMILES. `position` is the 0-based character offset of the
+ * problem in the whole string; the message reports it 1-based, as SmilesParseError does.
+ */
+export class ReactionSmilesError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position + 1}`);
+    this.name = "ReactionSmilesError";
+    this.position = position;
+  }
+}
+
+/**
+ * A reaction as "reactants>agents>products". Each entry is one component: a molecule, or a
+ * salt or mixture whose "."-separated fragments belong together ("[Na+].[OH-]"). Atom maps
+ * (`[CH3:1]`) are kept as written.
+ */
+export interface ReactionSmiles {
+  reactants: string[];
+  agents: string[];
+  products: string[];
+}
+
+type Role = keyof ReactionSmiles;
+const ROLES: Role[] = ["reactants", "agents", "products"];
+const ROLE_NAMES: Record<Role, string> = { reactants: "reactant", agents: "agent", products: "product" };
+
+interface Fragment {
+  smiles: string;
+  position: number;
+}
+
+// Split at top-level "." (outside brackets and parentheses), keeping each part's offset
+function splitDots(text: string, offset: number): Fragment[] {
+  const parts: Fragment[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i <= text.length; i++) {
+    const ch = text[i];
+    if (ch === "[" || ch === "(") depth++;
+    else if (ch === "]" || ch === ")") depth--;
+    else if (i === text.length || (ch === "." && depth === 0)) {
+      if (i > start) parts.push({ smiles: text.slice(start, i), position: offset + start });
+      start = i + 1;
+    }
+  }
+  return parts;
+}
+
+// The f: field of a CXSMILES extension ("|f:0.1,3.4|"): groups of fragment indices
+function fragmentGroups(extension: string, position: number): number[][] {
+  const fields = extension.split(",");
+  const start = fields.findIndex((f) => f.startsWith("f:"));
+  if (start < 0) return [];
+  const groups: number[][] = [];
+  for (let i = start; i < fields.length; i++) {
+    const field = i === start ? fields[i].slice(2) : fields[i];
+    if (!/^\d+(\.\d+)*$/.test(field)) {
+      if (i === start) throw new ReactionSmilesError("Malformed fragment grouping", position);
+      break;
+    }
+    groups.push(field.split(".").map(Number));
+  }
+  return groups;
+}
+
+/**
+ * Parse a reaction SMILES: "reactants>agents>products" (">>" when there are no agents). Each
+ * side lists components separated by "."; fragments of one component are grouped either with
+ * component-level parentheses ("(C(=O)[O-].[Na+])") or with a CXSMILES "|f:i.j,…|" extension,
+ * whose fragment indices count across the whole reaction. Text after the extension (a title)
+ * is ignored. Every fragment must parse as SMILES, and a map number may appear only once per side.
+ */
+export function parseReactionSmiles(text: string): ReactionSmiles {
+  const leading = text.length - text.trimStart().length;
+  const trimmed = text.trim();
+  const space = trimmed.search(/\s/);
+  const body = space < 0 ? trimmed : trimmed.slice(0, space);
+  const rest = space < 0 ? "" : trimmed.slice(space).trimStart();
+  const restStart = leading + trimmed.length - rest.length;
+
+  const sides = body.split(">");
+  if (sides.length !== 3) {
+    throw new ReactionSmilesError('A reaction SMILES needs the form "reactants>agents>products"', leading);
+  }
+
+  // Every fragment in reading order, and the components it is grouped into per side
+  const fragments: Array<Fragment & { role: Role }> = [];
+  const components: number[][] = [];
+  const componentRole: Role[] = [];
+  let offset = leading;
+  sides.forEach((side, s) => {
+    const role = ROLES[s];
+    for (const part of splitDots(side, offset)) {
+      const grouped = part.smiles.startsWith("(") && part.smiles.endsWith(")");
+      const inner = grouped ? splitDots(part.smiles.slice(1, -1), part.position + 1) : [part];
+      if (inner.length === 0) throw new ReactionSmilesError("Empty component group", part.position);
+      components.push(inner.map((f) => fragments.push({ ...f, role }) - 1));
+      componentRole.push(role);
+    }
+    offset += side.length + 1;
+  });
+
+  if (rest.startsWith("|")) {
+    const end = rest.indexOf("|", 1);
+    if (end < 0) throw new ReactionSmilesError("Unterminated CXSMILES extension", restStart);
+    for (const group of fragmentGroups(rest.slice(1, end), restStart + 1)) {
+      const owners = [...new Set(group.map((f) => components.findIndex((c) => c.includes(f))))];
+      if (owners.includes(-1)) throw new ReactionSmilesError("Fragment grouping refers to a missing fragment", restStart);
+      if (new Set(owners.map((c) => componentRole[c])).size > 1) {
+        throw new ReactionSmilesError("Fragment grouping spans two sides of the reaction", restStart);
+      }
+      // Merge into the first owner; the others are emptied and dropped below
+      const [target, ...others] = owners.sort((a, b) => a - b);
+      for (const c of others) {
+        components[target].push(...components[c]);
+        components[c] = [];
+      }
+      components[target].sort((a, b) => a - b);
+    }
+  }
+
+  const seenMaps: Record<Role, Set<number>> = { reactants: new Set(), agents: new Set(), products: new Set() };
+  for (const fragment of fragments) {
+    let mol;
+    try {
+      mol = parseSmiles(fragment.smiles);
+    } catch (e) {
+      if (!(e instanceof SmilesParseError)) throw e;
+      const message = e.message.replace(/ at position \d+$/, "");
+      throw new ReactionSmilesError(`${message} in ${ROLE_NAMES[fragment.role]} "${fragment.smiles}"`, fragment.position + e.position);
+    }
+    for (const atom of mol.atoms) {
+      if (atom.atomClass === null || atom.atomClass === 0) continue;
+      if (seenMaps[fragment.role].has(atom.atomClass)) {
+        throw new ReactionSmilesError(
+          `Map number ${atom.atomClass} is used twice among the ${fragment.role}`,
+          fragment.position + atom.position,
+        );
+      }
+      seenMaps[fragment.role].add(atom.atomClass);
+    }
+  }
+
+  const reaction: ReactionSmiles = { reactants: [], agents: [], products: [] };
+  components.forEach((members, c) => {
+    if (members.length > 0) reaction[componentRole[c]].push(members.map((f) => fragments[f].smiles).join("."));
+  });
+  return reaction;
+}
+
+/** Remove atom map numbers (`[CH3:1]` → `[CH3]`); the structure is unchanged. */
+export function stripAtomMaps(smiles: string): string {
+  return smiles.replace(/:\d+\]/g, "]");
+}
+
+/**
+ * Write a reaction SMILES. Multi-fragment components (salts) are kept together with a
+ * CXSMILES "|f:…|" extension, which RDKit, ChemAxon and most reaction databases read back.
+ * `canonical` rewrites every component as canonical SMILES; `atomMaps: false` drops map numbers.
+ */
+export function writeReactionSmiles(
+  reaction: ReactionSmiles,
+  { canonical = false, atomMaps = true }: { canonical?: boolean; atomMaps?: boolean } = {},
+): string {
+  const groups: string[] = [];
+  let index = 0;
+  const sides = ROLES.map((role) => {
+    const written = reaction[role]
+      .map((component) => {
+        let smiles = component.trim();
+        if (!atomMaps) smiles = stripAtomMaps(smiles);
+        return canonical && smiles ? canonicalSmiles(smiles) : smiles;
+      })
+      .filter(Boolean);
+    for (const component of written) {
+      const count = splitDots(component, 0).length;
+      if (count > 1) groups.push(Array.from({ length: count }, (_, i) => index + i).join("."));
+      index += count;
+    }
+    return written.join(".");
+  });
+  const text = sides.join(">");
+  return groups.length > 0 ? `${text} |f:${groups.join(",")}|` : text;
+}
@@ -0,0 +1,334 @@
+import { canonicalSmiles, standardizeMolecule, tryCanonicalSmiles } from "./canonical";
+import { fragments, type Molecule, subMolecule } from "./molecule";
+import { NAMED_REACTIONS } from "./namedReactions";
+import { hasSubstructure, parseSmarts, type PreparedMolecule, prepareMolecule, type SmartsQuery } from "./smarts";
+import { applyReaction, parseSmirks, type ReactionRule } from "./smirks";
+import { tryParseSmiles } from "./smiles";
+
+export { NAMED_REACTIONS, REACTION_LIBRARY_VERSION } from "./namedReactions";
+
+/** A solute that can supply a reagent: its name in the simulator's common solutes and SMILES. */
+export interface ReagentOption {
+  name: string;
+  smiles: string;
+}
+
+/** A substructure described by SMARTS, with a label for explanations. */
+export interface FunctionalGroup {
+  label: string;
+  smarts: string;
+}
+
+/** A named transformation with the conditions it needs. */
+export interface ReactionTemplate {
+  id: string;
+  name: string;
+  /** Reaction class for grouping, e.g. "Substitution". */
+  category: string;
+  smirks: string;
+  /** What each SMIRKS reactant is, in template order ("carboxylic acid"). */
+  reactants: string[];
+  /** Groups on a reactant that spoil the reaction (an amine is protonated before it esterifies). */
+  incompatible?: FunctionalGroup[];
+  /** Every requirement must be met by one of its options among the solutes (compared canonically). */
+  reagents?: Array<{ label: string; anyOf: ReagentOption[] }>;
+  /** Solvent keys the reaction is run in; any solvent when omitted. */
+  solvents?: string[];
+  /** Temperature window in K. */
+  temperature?: { min?: number; max?: number };
+}
+
+/** What is in the flask: SMILES for reactants and solutes, the solvent key and its SMILES. */
+export interface ReactionSetup {
+  reactants: string[];
+  solutes: string[];
+  solvent: string;
+  solventSmiles?: string;
+  /** Kelvin. */
+  temperature: number;
+}
+
+/** One way the setup can react: the template that fired and the canonical SMILES it gives. */
+export interface ReactionOutcome {
+  templateId: string;
+  templateName: string;
+  /** The species the template consumed, in template order. */
+  reactants: string[];
+  products: string[];
+  byproducts: string[];
+}
+
+/** Built-in templates: the named-reaction catalogue, most specific first. */
+export const REACTION_TEMPLATES: ReactionTemplate[] = NAMED_REACTIONS;
+
+/** One requirement of a template, checked against a setup. */
+export interface TemplateCheck {
+  kind: "temperature" | "solvent" | "reagent" | "reactant" | "incompatible" | "product";
+  ok: boolean;
+  message: string;
+}
+
+/** Whether a template applies to a setup, every check behind that answer and what it gives. */
+export interface TemplateExplanation {
+  id: string;
+  name: string;
+  category: string;
+  applies: boolean;
+  checks: TemplateCheck[];
+  outcomes: ReactionOutcome[];
+}
+
+type Source = "reactant" | "solute" | "solvent";
+
+interface Species {
+  smiles: string;
+  molecule: Molecule;
+  prepared: PreparedMolecule;
+  source: Source;
+}
+
+// Each "." part of every entry is a separate species; the same structure is listed once
+function speciesPool(setup: ReactionSetup): Species[] {
+  const pool = new Map<string, Species>();
+  const add = (smiles: string, source: Source) => {
+    const mol = tryParseSmiles(smiles.trim());
+    if (!mol) return;
+    for (const part of fragments(mol)) {
+      const molecule = subMolecule(mol, part);
+      const key = canonicalSmiles(molecule);
+      if (!pool.has(key)) pool.set(key, { smiles: key, molecule, prepared: prepareMolecule(standardizeMolecule(molecule)), source });
+    }
+  };
+  setup.reactants.forEach((r) => add(r, "reactant"));
+  setup.solutes.forEach((s) => add(s, "solute"));
+  if (setup.solventSmiles) add(setup.solventSmiles, "solvent");
+  return [...pool.values()];
+}
+
+const temperatureWindow = ({ min, max }: { min?: number; max?: number }) =>
+  min !== undefined && max !== undefined
+    ? `Runs at ${min}–${max} K`
+    : min !== undefined
+      ? `Needs at least ${min} K`
+      : `Runs at or below ${max} K`;
+
+const orList = (items: string[]) =>
+  items.length < 2 ? items.join("") : `${items.slice(0, -1).join(", ")} or ${items[items.length - 1]}`;
+
+// Temperature, solvent and reagent checks; these need no structure matching
+function conditionChecks(
+  template: ReactionTemplate,
+  setup: ReactionSetup,
+  solventLabel: (key: string) => string = (key) => key,
+): TemplateCheck[] {
+  const checks: TemplateCheck[] = [];
+  if (template.temperature) {
+    const { min, max } = template.temperature;
+    const ok = (min === undefined || setup.temperature >= min) && (max === undefined || setup.temperature <= max);
+    checks.push({ kind: "temperature", ok, message: `${temperatureWindow(template.temperature)}; currently ${setup.temperature} K` });
+  }
+  if (template.solvents) {
+    const ok = template.solvents.includes(setup.solvent);
+    checks.push({
+      kind: "solvent",
+      ok,
+      message: ok
+        ? `Runs in ${solventLabel(setup.solvent)}`
+        : `Needs ${orList(template.solvents.map(solventLabel))}; currently ${solventLabel(setup.solvent)}`,
+    });
+  }
+  if (template.reagents) {
+    const solutes = new Set(setup.solutes.flatMap((s) => tryCanonicalSmiles(s.trim()) ?? []));
+    for (const requirement of template.reagents) {
+      const found = requirement.anyOf.find((option) => solutes.has(canonicalSmiles(option.smiles)));
+      checks.push({
+        kind: "reagent",
+        ok: found !== undefined,
+        message: found
+          ? `${found.name} as ${requirement.label}`
+          : `Needs ${requirement.label}: ${orList(requirement.anyOf.map((option) => option.name))}`,
+      });
+    }
+  }
+  return checks;
+}
+
+/** Whether the template's reagent, solvent and temperature requirements are met. */
+export function conditionsMet(template: ReactionTemplate, setup: ReactionSetup): boolean {
+  return conditionChecks(template, setup).every((check) => check.ok);
+}
+
+const compiled = new Map<string, ReactionRule>();
+const groups = new Map<string, SmartsQuery>();
+
+function rule(template: ReactionTemplate): ReactionRule {
+  let parsed = compiled.get(template.smirks);
+  if (!parsed) {
+    parsed = parseSmirks(template.smirks);
+    compiled.set(template.smirks, parsed);
+  }
+  return parsed;
+}
+
+function group(smarts: string): SmartsQuery {
+  let parsed = groups.get(smarts);
+  if (!parsed) {
+    parsed = parseSmarts(smarts);
+    groups.set(smarts, parsed);
+  }
+  return parsed;
+}
+
+// How many different user reactants a combination of species consumes
+const reactantsUsed = (smiles: string[], pool: Species[]) =>
+  new Set(smiles.filter((s) => pool.find((p) => p.smiles === s)?.source === "reactant")).size;
+
+// Check one template against the pool and, when everything passes, apply it
+function evaluate(
+  template: ReactionTemplate,
+  setup: ReactionSetup,
+  pool: Species[],
+  maxOutcomes: number,
+  solventLabel?: (key: string) => string,
+): { checks: TemplateCheck[]; outcomes: ReactionOutcome[] } {
+  const checks = conditionChecks(template, setup, solventLabel);
+  const parsed = rule(template);
+  const label = (slot: number) => template.reactants[slot] ?? `reactant ${slot + 1}`;
+
+  // Candidates for each template slot; a species may fill several, since it is a substance
+  const candidates = parsed.reactants.map((query, slot) => {
+    const matching = pool.filter((s) => hasSubstructure(s.prepared, query));
+    checks.push({
+      kind: "reactant",
+      ok: matching.length > 0,
+      message:
+        matching.length > 0
+          ? `${label(slot)}: ${matching.map((s) => s.smiles).join(", ")}`
+          : `No ${label(slot)} among the reactants, solutes or solvent`,
+    });
+    return matching;
+  });
+  const taking = candidates.flat().find((s) => s.source === "reactant");
+  checks.push({
+    kind: "reactant",
+    ok: taking !== undefined,
+    message: taking
+      ? `Reactant ${taking.smiles} takes part`
+      : `No reactant fits the template (${parsed.reactants.map((_, slot) => label(slot)).join(" + ")})`,
+  });
+
+  for (const incompatible of template.incompatible ?? []) {
+    const query = group(incompatible.smarts);
+    const offender = pool.find((s) => s.source === "reactant" && hasSubstructure(s.prepared, query));
+    checks.push({
+      kind: "incompatible",
+      ok: offender === undefined,
+      message: offender
+        ? `${offender.smiles} carries a ${incompatible.label}, which the reaction does not tolerate`
+        : `No reactant carries a ${incompatible.label}`,
+    });
+  }
+
+  const outcomes: ReactionOutcome[] = [];
+  if (!checks.every((check) => check.ok)) return { checks, outcomes };
+
+  const assignments: Species[][] = [];
+  const assign = (chosen: Species[]) => {
+    if (chosen.length < candidates.length) {
+      for (const species of candidates[chosen.length]) assign([...chosen, species]);
+    } else if (chosen.some((s) => s.source === "reactant")) {
+      assignments.push(chosen);
+    }
+  };
+  assign([]);
+  // Crossed reactions before self-reactions and solvent or solute partners; stable otherwise
+  assignments.sort((a, b) => reactantsUsed(b.map((s) => s.smiles), pool) - reactantsUsed(a.map((s) => s.smiles), pool));
+
+  const seen = new Set<string>();
+  for (const chosen of assignments) {
+    if (outcomes.length >= maxOutcomes) break;
+    for (const products of applyReaction(parsed, chosen.map((s) => s.molecule))) {
+      const outcome: ReactionOutcome = {
+        templateId: template.id,
+        templateName: template.name,
+        reactants: chosen.map((s) => s.smiles),
+        products: products.filter((p) => p.component === 0).map((p) => p.smiles),
+        byproducts: products.filter((p) => p.component > 0).map((p) => p.smiles),
+      };
+      const key = `${outcome.products.join(".")}|${outcome.byproducts.join(".")}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      outcomes.push(outcome);
+      if (outcomes.length >= maxOutcomes) break;
+    }
+  }
+  checks.push({
+    kind: "product",
+    ok: outcomes.length > 0,
+    message:
+      outcomes.length > 0
+        ? `Gives ${outcomes[0].products.join(" + ")}${outcomes.length > 1 ? ` (${outcomes.length} outcomes)` : ""}`
+        : "The patterns match, but no valid product can be formed",
+  });
+  return { checks, outcomes };
+}
+
+/**
+ * Every outcome of applying the templates to the setup. Reactants, solutes and the solvent can
+ * all take part (water hydrolyses, an alcohol solvent esterifies), but each outcome uses at
+ * least one reactant. A species may fill several template slots, since it is a substance
+ * rather than a single molecule. Outcomes that consume more distinct reactants come first, so
+ * a crossed reaction outranks either reactant reacting with itself or with the solvent; ties
+ * keep template order. Outcomes are deduplicated.
+ */
+export function predictReactions(
+  setup: ReactionSetup,
+  templates: ReactionTemplate[] = REACTION_TEMPLATES,
+  { maxOutcomes = 20 }: { maxOutcomes?: number } = {},
+): ReactionOutcome[] {
+  const pool = speciesPool(setup);
+  const outcomes: ReactionOutcome[] = [];
+  // Later templates cannot outrank enough outcomes that already use every reactant
+  const allReactants = pool.filter((s) => s.source === "reactant").length;
+  let complete = 0;
+  for (const template of templates) {
+    if (complete >= maxOutcomes) break;
+    if (!conditionsMet(template, setup)) continue;
+    const found = evaluate(template, setup, pool, maxOutcomes).outcomes;
+    outcomes.push(...found);
+    complete += found.filter((o) => reactantsUsed(o.reactants, pool) === allReactants).length;
+  }
+  return outcomes
+    .map((outcome, i) => ({ outcome, i, used: reactantsUsed(outcome.reactants, pool) }))
+    .sort((a, b) => b.used - a.used || a.i - b.i)
+    .slice(0, maxOutcomes)
+    .map(({ outcome }) => outcome);
+}
+
+/**
+ * Why each template does or does not apply to the setup: its condition, reactant and
+ * incompatible-group checks, and what it gives when all of them pass. `solventLabels` maps
+ * solvent keys to display names.
+ */
+export function explainReactions(
+  setup: ReactionSetup,
+  {
+    templates = REACTION_TEMPLATES,
+    solventLabels = {},
+    maxOutcomes = 20,
+  }: { templates?: ReactionTemplate[]; solventLabels?: Record<string, string>; maxOutcomes?: number } = {},
+): TemplateExplanation[] {
+  const pool = speciesPool(setup);
+  const solventLabel = (key: string) => solventLabels[key] ?? key;
+  return templates.map((template) => {
+    const { checks, outcomes } = evaluate(template, setup, pool, maxOutcomes, solventLabel);
+    return {
+      id: template.id,
+      name: template.name,
+      category: template.category,
+      applies: outcomes.length > 0,
+      checks,
+      outcomes,
+    };
+  });
+}
@@ -0,0 +1,194 @@
+import { GAS_CONSTANT, type KineticModel, rateConstant, simulateKinetics } from "./kinetics";
+
+export interface ReactionTimeEstimate {
+  /** Seconds to the target conversion; null when nothing appreciable happens within the horizon. */
+  seconds: number | null;
+  /** One standard uncertainty of the rate constant either way, seconds. */
+  low: number | null;
+  high: number | null;
+  /** Conversion of the limiting reactant the time refers to, 0–1. */
+  targetConversion: number;
+  /** Where an equilibrium stops the reaction below the requested target, 0–1. */
+  equilibriumConversion?: number;
+  /** Plain-language statements of what the estimate rests on. */
+  assumptions: string[];
+  /** Why no time is given although the reaction may well go: the rate parameters are generic. */
+  withheld?: string;
+}
+
+/**
+ * Normalised Reichardt polarity E_T^N by solvent key (water 1, tetramethylsilane 0), from
+ * Reichardt, Solvents and Solvent Effects in Organic Chemistry.
+ */
+export const SOLVENT_POLARITY: Record<string, number> = {
+  water: 1.0,
+  methanol: 0.762,
+  ethanol: 0.654,
+  isopropanol: 0.546,
+  acetonitrile: 0.46,
+  dmso: 0.444,
+  dmf: 0.386,
+  acetone: 0.355,
+  dichloromethane: 0.309,
+  chloroform: 0.259,
+  thf: 0.207,
+  dioxane: 0.164,
+  ether: 0.117,
+  benzene: 0.111,
+  toluene: 0.099,
+  xylene: 0.074,
+  heptane: 0.012,
+  hexane: 0.009,
+};
+
+// Polarity the type parameters in the kinetics module stand for (between acetone and DMSO)
+const REFERENCE_POLARITY = 0.4;
+
+/**
+ * Change of log10 k per unit E_T^N by reaction type: positive where the transition state is
+ * more polar than the reactants (ionisation, proton and charge transfer), near zero for
+ * concerted pericyclic reactions.
+ */
+const POLARITY_SENSITIVITY: Record<string, number> = {
+  Substitution: 2,
+  Hydrolysis: 2,
+  Redox: 1.5,
+  Condensation: 1,
+  Elimination: 1,
+  Addition: 1,
+  Oxidation: 1,
+  Reduction: 0.5,
+  "Cross-coupling": 0.5,
+  Rearrangement: 0.5,
+  Fragmentation: 0.5,
+  Cycloaddition: 0,
+  "Proton transfer": 0,
+};
+const DEFAULT_SENSITIVITY = 0.5;
+
+// Standard uncertainty of the type parameters: Ea in kJ/mol, A in decades
+const EA_UNCERTAINTY = 5;
+const LOG_A_UNCERTAINTY = 0.5;
+
+// First run length, growth factor and longest run searched, seconds (the horizon is about 30 years)
+const FIRST_RUN = 60;
+const RUN_GROWTH = 10;
+const HORIZON = 1e9;
+const RUN_POINTS = 200;
+// An equilibrium holds when the second half of a run adds under 1% of the conversion
+const PLATEAU = 0.01;
+// Time to this share of an equilibrium conversion that falls short of the target
+const EQUILIBRIUM_SHARE = 0.95;
+
+/**
+ * Time for a kinetic model to reach a target conversion of its limiting reactant at a
+ * temperature (K): the model is integrated over ever longer runs until the conversion
+ * passes the target. Solvent polarity scales every rate constant by 10^(s·ΔE_T^N) with a
+ * sensitivity s for the reaction type, which rescales time by the same factor. When an
+ * equilibrium stops short of the target, the time to 95% of the equilibrium conversion is
+ * given instead. The range comes from the uncertainty of the rate-limiting Ea and A, where the
+ * rate-limiting step is the slowest at the starting concentrations (intermediates taken at the
+ * limiting reactant's). Models with generic rate parameters get no time, only the reason.
+ */
+export function estimateReactionTime(
+  model: KineticModel,
+  {
+    temperature,
+    solvent,
+    solventLabel = solvent,
+    targetConversion = 0.9,
+  }: { temperature: number; solvent: string; solventLabel?: string; targetConversion?: number },
+): ReactionTimeEstimate {
+  const limiting = Object.entries(model.overall.reactants)
+    .filter(([s]) => (model.initial[s] ?? 0) > 0)
+    .sort(([a, na], [b, nb]) => model.initial[a] / na - model.initial[b] / nb)[0];
+  const start = limiting ? model.initial[limiting[0]] : 0;
+  const stepRate = (step: KineticModel["steps"][number]) =>
+    Object.entries(step.reactants).reduce(
+      (rate, [s, n]) => rate * Math.pow(model.intermediates.includes(s) ? start : (model.initial[s] ?? 0), n),
+      rateConstant(step.forward, temperature),
+    );
+  const slowest = model.steps.reduce<number>((best, step, i) => (stepRate(step) < stepRate(model.steps[best]) ? i : best), 0);
+  const rateLimiting = model.steps[slowest]?.forward;
+
+  const polarity = SOLVENT_POLARITY[solvent];
+  const sensitivity = POLARITY_SENSITIVITY[model.reactionType] ?? DEFAULT_SENSITIVITY;
+  const speedUp = polarity === undefined ? 1 : Math.pow(10, sensitivity * (polarity - REFERENCE_POLARITY));
+  const spread = Math.sqrt(
+    ((EA_UNCERTAINTY * 1000) / (GAS_CONSTANT * temperature)) ** 2 + (LOG_A_UNCERTAINTY * Math.LN10) ** 2,
+  );
+
+  const assumptions = [
+    rateLimiting
+      ? `${model.reactionType} kinetics: rate-limiting step${model.steps.length > 1 ? ` ${slowest + 1} of ${model.steps.length}` : ""} with Ea ${rateLimiting.Ea} kJ/mol and A ${rateLimiting.A.toExponential(0)} at ${temperature.toFixed(0)} K (typical values for the reaction type)`
+      : `${model.reactionType} kinetics at ${temperature.toFixed(0)} K`,
+    limiting
+      ? `Reactants fed in balanced amounts, limiting reactant at ${Number(model.initial[limiting[0]].toPrecision(3))} mol/L`
+      : "No reactant present",
+    polarity === undefined
+      ? `No polarity value for ${solventLabel}; rates as in a mid-polarity solvent`
+      : `${solventLabel} (E_T^N ${polarity.toFixed(2)}): rates ×${Number(speedUp.toPrecision(2))} against a mid-polarity solvent for this reaction type`,
+    "Pressure has no effect on these solution-phase rates",
+    `Range: ±${EA_UNCERTAINTY} kJ/mol in Ea and ±${LOG_A_UNCERTAINTY} decades in A`,
+  ];
+  const none = (target: number): ReactionTimeEstimate => ({
+    seconds: null,
+    low: null,
+    high: null,
+    targetConversion: target,
+    assumptions,
+  });
+  if (!limiting || !rateLimiting) return none(targetConversion);
+  if (model.generic) {
+    return {
+      ...none(targetConversion),
+      withheld: `no rate parameters for ${model.reactionType === "Unknown" ? "an unclassified reaction" : `${model.reactionType} reactions`}; generic values would give a meaningless time`,
+    };
+  }
+
+  const index = model.species.indexOf(limiting[0]);
+  const conversions = (duration: number) => {
+    const run = simulateKinetics(model, { temperature, duration, timeStep: duration / RUN_POINTS });
+    return { times: run.times, conversion: run.concentrations[index].values.map((c) => 1 - c / start) };
+  };
+  // Linear interpolation, after a second run up to the crossing when it came early in a long run
+  const timeTo = (target: number, times: number[], conversion: number[], refine = true): number | null => {
+    const k = conversion.findIndex((c) => c >= target);
+    if (k <= 0) return k === 0 ? 0 : null;
+    if (refine && k < RUN_POINTS / 2) {
+      const finer = conversions(times[k]);
+      return timeTo(target, finer.times, finer.conversion, false);
+    }
+    const f = (target - conversion[k - 1]) / (conversion[k] - conversion[k - 1]);
+    return times[k - 1] + f * (times[k] - times[k - 1]);
+  };
+  const result = (seconds: number, target: number, equilibriumConversion?: number): ReactionTimeEstimate => {
+    const scaled = seconds / speedUp;
+    return {
+      seconds: scaled,
+      low: scaled * Math.exp(-spread),
+      high: scaled * Math.exp(spread),
+      targetConversion: target,
+      ...(equilibriumConversion !== undefined ? { equilibriumConversion } : {}),
+      assumptions,
+    };
+  };
+
+  // Model time: the polarity factor is applied afterwards, so the horizon is in model time too
+  for (let duration = FIRST_RUN; duration <= HORIZON * speedUp; duration *= RUN_GROWTH) {
+    const { times, conversion } = conversions(duration);
+    const reached = timeTo(targetConversion, times, conversion);
+    if (reached !== null) return result(reached, targetConversion);
+
+    const end = conversion[conversion.length - 1];
+    const middle = conversion[Math.floor(conversion.length / 2)];
+    if (end > 0 && end - middle <= PLATEAU * end) {
+      const target = EQUILIBRIUM_SHARE * end;
+      assumptions.push(
+        `Equilibrium stops at ${(end * 100).toFixed(1)}% conversion; time given to ${(target * 100).toFixed(1)}%`,
+      );
+      return result(timeTo(target, times, conversion) ?? duration, target, end);
+    }
+  }
+  return none(targetConversion);
+}
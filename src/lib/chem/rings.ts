@@ -0,0 +1,103 @@
+import { adjacency, fragments, type Molecule, otherAtom, ringBonds } from "./molecule";
+
+export interface Ring {
+  /** Ring atoms in cyclic order. */
+  atoms: number[];
+  /** Ring bonds; bonds[i] joins atoms[i] and atoms[(i + 1) % n]. */
+  bonds: number[];
+}
+
+/**
+ * Smallest set of smallest rings. Candidates are the shortest cycle through each ring bond;
+ * the smallest linearly independent ones (over GF(2) bond vectors) are kept until the count
+ * matches the cyclomatic number. Rings are returned smallest first, in a deterministic order.
+ */
+export function smallestRings(mol: Molecule): Ring[] {
+  const inRing = ringBonds(mol);
+  if (inRing.size === 0) return [];
+  const adj = adjacency(mol);
+  const cyclomatic = mol.bonds.length - mol.atoms.length + fragments(mol).length;
+
+  const candidates = new Map<string, Ring>();
+  for (const bondIdx of [...inRing].sort((a, b) => a - b)) {
+    const ring = shortestCycleThrough(mol, adj, inRing, bondIdx);
+    if (!ring) continue;
+    const key = [...ring.bonds].sort((a, b) => a - b).join(",");
+    if (!candidates.has(key)) candidates.set(key, ring);
+  }
+
+  const sorted = [...candidates.values()].sort(
+    (a, b) => a.atoms.length - b.atoms.length || compareLists([...a.atoms].sort(byNumber), [...b.atoms].sort(byNumber)),
+  );
+
+  // Gaussian elimination over GF(2): keep a ring only if it is independent of those kept so far
+  const basis: bigint[] = [];
+  const chosen: Ring[] = [];
+  for (const ring of sorted) {
+    if (chosen.length >= cyclomatic) break;
+    let vec = ring.bonds.reduce((acc, b) => acc | (1n << BigInt(b)), 0n);
+    for (const row of basis) {
+      const pivot = highestBit(row);
+      if ((vec >> pivot) & 1n) vec ^= row;
+    }
+    if (vec === 0n) continue;
+    basis.push(vec);
+    basis.sort((a, b) => (highestBit(b) > highestBit(a) ? 1 : highestBit(b) < highestBit(a) ? -1 : 0));
+    chosen.push(ring);
+  }
+  return chosen;
+}
+
+// Ring sizes each atom belongs to (empty for acyclic atoms)
+export function atomRingSizes(mol: Molecule, rings = smallestRings(mol)): number[][] {
+  const sizes: number[][] = mol.atoms.map(() => []);
+  for (const ring of rings) for (const a of ring.atoms) sizes[a].push(ring.atoms.length);
+  return sizes;
+}
+
+const byNumber = (a: number, b: number) => a - b;
+
+function compareLists(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) if (a[i] !== b[i]) return a[i] - b[i];
+  return a.length - b.length;
+}
+
+function highestBit(v: bigint): bigint {
+  let bit = -1n;
+  while (v > 0n) {
+    v >>= 1n;
+    bit++;
+  }
+  return bit;
+}
+
+// BFS from one end of the bond to the other without using the bond itself
+function shortestCycleThrough(mol: Molecule, adj: number[][], inRing: Set<number>, bondIdx: number): Ring | null {
+  const { from, to } = mol.bonds[bondIdx];
+  const parentBond = new Map<number, number>([[from, -1]]);
+  const queue = [from];
+  for (let head = 0; head < queue.length && !parentBond.has(to); head++) {
+    const a = queue[head];
+    for (const b of [...adj[a]].sort(byNumber)) {
+      if (b === bondIdx || !inRing.has(b)) continue;
+      const n = otherAtom(mol.bonds[b], a);
+      if (parentBond.has(n)) continue;
+      parentBond.set(n, b);
+      queue.push(n);
+    }
+  }
+  if (!parentBond.has(to)) return null;
+
+  const atoms: number[] = [];
+  const bonds: number[] = [];
+  let cur = to;
+  while (cur !== from) {
+    const b = parentBond.get(cur)!;
+    atoms.push(cur);
+    bonds.push(b);
+    cur = otherAtom(mol.bonds[b], cur);
+  }
+  atoms.push(from);
+  bonds.push(bondIdx);
+  return { atoms, bonds };
+}
@@ -0,0 +1,334 @@
+import { kekulize } from "./aromaticity";
+import { canonicalSmiles } from "./canonical";
+import { depictMolecule, type Point2D, spreadInGap } from "./depict";
+import { adjacency, type Atom, type BondOrder, type Molecule, otherAtom } from "./molecule";
+import { implicitHydrogenCount, parseSmiles } from "./smiles";
+
+/**
+ * An editable drawing: a molecular graph plus one 2D point per atom, in bond-length units.
+ * Bonds are always kept in Kekulé form; aromaticity is perceived again when writing SMILES.
+ * Atoms with `bracket: true` keep the hydrogen count they were imported with until edited;
+ * every other atom gets hydrogens from its valence.
+ */
+export interface Sketch {
+  molecule: Molecule;
+  coordinates: Point2D[];
+}
+
+export type RingAnchor = { kind: "point"; at: Point2D } | { kind: "atom"; atom: number } | { kind: "bond"; bond: number };
+
+// Two atoms closer than this (in bond lengths) are treated as the same position when rings are added
+const MERGE_DISTANCE = 0.3;
+
+export function emptySketch(): Sketch {
+  return { molecule: { atoms: [], bonds: [] }, coordinates: [] };
+}
+
+/** Open a SMILES string for editing. Throws SmilesParseError for malformed input. */
+export function sketchFromSmiles(smiles: string): Sketch {
+  const molecule = parseSmiles(smiles);
+  const { coordinates } = depictMolecule(molecule);
+  const kekule = kekulize(molecule);
+  if (kekule.ok) {
+    molecule.bonds.forEach((bond, b) => {
+      bond.order = kekule.orders[b];
+      bond.aromatic = false;
+    });
+    for (const atom of molecule.atoms) atom.aromatic = false;
+  }
+  return { molecule, coordinates };
+}
+
+/** The same drawing translated so the centre of its bounding box sits at `centre`. */
+export function centreSketch(sketch: Sketch, centre: Point2D): Sketch {
+  if (sketch.coordinates.length === 0) return sketch;
+  const xs = sketch.coordinates.map((p) => p.x);
+  const ys = sketch.coordinates.map((p) => p.y);
+  const dx = centre.x - (Math.min(...xs) + Math.max(...xs)) / 2;
+  const dy = centre.y - (Math.min(...ys) + Math.max(...ys)) / 2;
+  return { ...sketch, coordinates: sketch.coordinates.map((p) => ({ x: p.x + dx, y: p.y + dy })) };
+}
+
+/** Canonical SMILES of the drawing ("" when it is empty). */
+export function sketchToSmiles(sketch: Sketch): string {
+  return canonicalSmiles(withHydrogens(sketch.molecule));
+}
+
+/** Copy of the graph with hydrogen counts filled in for every atom that is not fixed. */
+export function withHydrogens(mol: Molecule): Molecule {
+  const adj = adjacency(mol);
+  return {
+    atoms: mol.atoms.map((atom, a) => {
+      if (atom.bracket) return { ...atom };
+      const used = adj[a].reduce((sum, b) => sum + mol.bonds[b].order, 0);
+      return { ...atom, hydrogens: implicitHydrogenCount(atom.element, atom.charge, false, used) };
+    }),
+    bonds: mol.bonds.map((b) => ({ ...b })),
+  };
+}
+
+function copy(sketch: Sketch): Sketch {
+  return {
+    molecule: {
+      atoms: sketch.molecule.atoms.map((a) => ({ ...a, ...(a.chiralNeighbors ? { chiralNeighbors: [...a.chiralNeighbors] } : {}) })),
+      bonds: sketch.molecule.bonds.map((b) => ({ ...b })),
+    },
+    coordinates: sketch.coordinates.map((p) => ({ ...p })),
+  };
+}
+
+function newAtom(element: string): Atom {
+  return { element, aromatic: false, isotope: null, charge: 0, hydrogens: 0, bracket: false, chirality: null, atomClass: null, position: 0 };
+}
+
+// An edited atom loses imported stereo and fixed hydrogen counts
+function touch(atom: Atom) {
+  atom.bracket = false;
+  atom.chirality = null;
+  delete atom.chiralNeighbors;
+}
+
+function pushAtom(sketch: Sketch, element: string, at: Point2D): number {
+  sketch.molecule.atoms.push(newAtom(element));
+  sketch.coordinates.push({ ...at });
+  return sketch.molecule.atoms.length - 1;
+}
+
+export function findBond(mol: Molecule, a: number, b: number): number {
+  return mol.bonds.findIndex((bond) => (bond.from === a && bond.to === b) || (bond.from === b && bond.to === a));
+}
+
+function link(sketch: Sketch, a: number, b: number, order: BondOrder) {
+  const existing = findBond(sketch.molecule, a, b);
+  if (existing >= 0) {
+    sketch.molecule.bonds[existing] = { ...sketch.molecule.bonds[existing], order, aromatic: false, stereo: null };
+  } else {
+    sketch.molecule.bonds.push({ from: a, to: b, order, aromatic: false, stereo: null });
+  }
+  touch(sketch.molecule.atoms[a]);
+  touch(sketch.molecule.atoms[b]);
+}
+
+export function addAtom(sketch: Sketch, element: string, at: Point2D): Sketch {
+  const next = copy(sketch);
+  pushAtom(next, element, at);
+  return next;
+}
+
+/** Direction (radians) for a new bond from `atom` that points into the free space around it. */
+export function freeDirection(sketch: Sketch, atom: number): number {
+  const origin = sketch.coordinates[atom];
+  const mol = sketch.molecule;
+  const angles = mol.bonds
+    .filter((b) => b.from === atom || b.to === atom)
+    .map((b) => {
+      const p = sketch.coordinates[otherAtom(b, atom)];
+      return Math.atan2(p.y - origin.y, p.x - origin.x);
+    });
+  if (angles.length === 0) return -Math.PI / 6;
+  if (angles.length === 1) {
+    // Zigzag: of the two 120° options take the one with more room
+    const options = [angles[0] + (2 * Math.PI) / 3, angles[0] - (2 * Math.PI) / 3];
+    const room = (angle: number) => {
+      const p = { x: origin.x + Math.cos(angle), y: origin.y + Math.sin(angle) };
+      return Math.min(Infinity, ...sketch.coordinates.map((q, i) => (i === atom ? Infinity : Math.hypot(p.x - q.x, p.y - q.y))));
+    };
+    return room(options[0]) >= room(options[1]) - 1e-9 ? options[0] : options[1];
+  }
+  return spreadInGap(angles, 1)[0];
+}
+
+/** Add a new atom bonded to `from`, placed in the free space around it. */
+export function growAtom(sketch: Sketch, from: number, element: string, order: BondOrder = 1): Sketch {
+  const next = copy(sketch);
+  const angle = freeDirection(sketch, from);
+  const origin = sketch.coordinates[from];
+  const atom = pushAtom(next, element, { x: origin.x + Math.cos(angle), y: origin.y + Math.sin(angle) });
+  link(next, from, atom, order);
+  return next;
+}
+
+/** Bond two atoms with the given order, replacing any existing bond between them. */
+export function connectAtoms(sketch: Sketch, a: number, b: number, order: BondOrder): Sketch {
+  if (a === b) return sketch;
+  const next = copy(sketch);
+  link(next, a, b, order);
+  return next;
+}
+
+/** Add a new atom at `at` bonded to `from`. */
+export function growAtomTo(sketch: Sketch, from: number, at: Point2D, element: string, order: BondOrder = 1): Sketch {
+  const next = copy(sketch);
+  const atom = pushAtom(next, element, at);
+  link(next, from, atom, order);
+  return next;
+}
+
+export function setBondOrder(sketch: Sketch, bond: number, order: BondOrder): Sketch {
+  const { from, to } = sketch.molecule.bonds[bond];
+  return connectAtoms(sketch, from, to, order);
+}
+
+export function setElement(sketch: Sketch, atom: number, element: string): Sketch {
+  const next = copy(sketch);
+  next.molecule.atoms[atom].element = element;
+  next.molecule.atoms[atom].isotope = null;
+  touch(next.molecule.atoms[atom]);
+  return next;
+}
+
+export function adjustCharge(sketch: Sketch, atom: number, delta: number): Sketch {
+  const next = copy(sketch);
+  next.molecule.atoms[atom].charge += delta;
+  touch(next.molecule.atoms[atom]);
+  return next;
+}
+
+export function removeBond(sketch: Sketch, bond: number): Sketch {
+  const next = copy(sketch);
+  const [removed] = next.molecule.bonds.splice(bond, 1);
+  touch(next.molecule.atoms[removed.from]);
+  touch(next.molecule.atoms[removed.to]);
+  return next;
+}
+
+export function removeAtom(sketch: Sketch, atom: number): Sketch {
+  const next = copy(sketch);
+  const mol = next.molecule;
+  for (const b of mol.bonds) if (b.from === atom || b.to === atom) touch(mol.atoms[otherAtom(b, atom)]);
+  const shift = (i: number) => (i > atom ? i - 1 : i);
+  mol.bonds = mol.bonds.filter((b) => b.from !== atom && b.to !== atom).map((b) => ({ ...b, from: shift(b.from), to: shift(b.to) }));
+  mol.atoms.splice(atom, 1);
+  next.coordinates.splice(atom, 1);
+  for (const a of mol.atoms) {
+    if (a.chiralNeighbors) a.chiralNeighbors = a.chiralNeighbors.map((n) => (n === -1 ? -1 : shift(n)));
+  }
+  return next;
+}
+
+/**
+ * Apply a ring template of `size` atoms: free-standing at a point, spiro on an atom (or
+ * hanging off it when it has no neighbours), or fused onto a bond on the side away from the
+ * bond's other substituents. Ring positions that coincide with existing atoms reuse them.
+ * Aromatic templates are drawn as alternating double bonds, skipping atoms that already carry one.
+ */
+export function addRing(sketch: Sketch, size: number, aromatic: boolean, anchor: RingAnchor): Sketch {
+  const next = copy(sketch);
+  const radius = 1 / (2 * Math.sin(Math.PI / size));
+  const step = (2 * Math.PI) / size;
+  let positions: Point2D[];
+  const fixed: number[] = [];
+
+  if (anchor.kind === "point") {
+    positions = Array.from({ length: size }, (_, k) => ({
+      x: anchor.at.x + radius * Math.cos(-Math.PI / 2 + k * step),
+      y: anchor.at.y + radius * Math.sin(-Math.PI / 2 + k * step),
+    }));
+  } else if (anchor.kind === "atom") {
+    const p = sketch.coordinates[anchor.atom];
+    const direction = freeDirection(sketch, anchor.atom);
+    const centre = { x: p.x + radius * Math.cos(direction), y: p.y + radius * Math.sin(direction) };
+    positions = Array.from({ length: size }, (_, k) => ({
+      x: centre.x + radius * Math.cos(direction + Math.PI + k * step),
+      y: centre.y + radius * Math.sin(direction + Math.PI + k * step),
+    }));
+    fixed.push(anchor.atom);
+  } else {
+    const { from, to } = sketch.molecule.bonds[anchor.bond];
+    const p = sketch.coordinates[from];
+    const q = sketch.coordinates[to];
+    const mid = { x: (p.x + q.x) / 2, y: (p.y + q.y) / 2 };
+    const length = Math.hypot(q.x - p.x, q.y - p.y) || 1;
+    let normal = { x: -(q.y - p.y) / length, y: (q.x - p.x) / length };
+    // Put the new ring on the emptier side of the bond
+    let side = 0;
+    sketch.molecule.bonds.forEach((b, i) => {
+      if (i === anchor.bond) return;
+      for (const end of [from, to]) {
+        if (b.from !== end && b.to !== end) continue;
+        const n = sketch.coordinates[otherAtom(b, end)];
+        side += Math.sign((n.x - mid.x) * normal.x + (n.y - mid.y) * normal.y);
+      }
+    });
+    if (side > 0) normal = { x: -normal.x, y: -normal.y };
+    const apothem = radius * Math.cos(Math.PI / size);
+    const centre = { x: mid.x + normal.x * apothem, y: mid.y + normal.y * apothem };
+    const start = Math.atan2(p.y - centre.y, p.x - centre.x);
+    // Walk from `from` away from `to`, so the last ring atom is `to`
+    const towardTo = Math.atan2(q.y - centre.y, q.x - centre.x);
+    const direction = Math.abs(normalizeAngle(towardTo - start - step)) < 1e-6 ? -1 : 1;
+    positions = Array.from({ length: size }, (_, k) => ({
+      x: centre.x + radius * Math.cos(start + direction * k * step),
+      y: centre.y + radius * Math.sin(start + direction * k * step),
+    }));
+    fixed.push(from);
+    positions[size - 1] = { ...q };
+  }
+
+  const ring = positions.map((at, k) => {
+    if (k === 0 && fixed.length > 0) return fixed[0];
+    const existing = next.coordinates.findIndex((c) => Math.hypot(c.x - at.x, c.y - at.y) < MERGE_DISTANCE);
+    return existing >= 0 ? existing : pushAtom(next, "C", at);
+  });
+
+  const edges = ring.map((a, k) => [a, ring[(k + 1) % size]] as const);
+  const doubles = aromatic ? alternatingDoubles(next.molecule, edges) : new Set<number>();
+  edges.forEach(([a, b], k) => {
+    if (findBond(next.molecule, a, b) >= 0) return;
+    link(next, a, b, doubles.has(k) ? 2 : 1);
+  });
+  return next;
+}
+
+const normalizeAngle = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+// Choose every other new ring edge as a double bond, avoiding atoms that already have one
+function alternatingDoubles(mol: Molecule, edges: ReadonlyArray<readonly [number, number]>): Set<number> {
+  const hasDouble = (a: number) => mol.bonds.some((b) => (b.from === a || b.to === a) && b.order >= 2);
+  let best = new Set<number>();
+  for (const parity of [0, 1]) {
+    const chosen = new Set<number>();
+    const taken = new Set<number>();
+    edges.forEach(([a, b], k) => {
+      if (k % 2 !== parity || findBond(mol, a, b) >= 0) return;
+      if (hasDouble(a) || hasDouble(b) || taken.has(a) || taken.has(b)) return;
+      chosen.add(k);
+      taken.add(a);
+      taken.add(b);
+    });
+    if (chosen.size > best.size) best = chosen;
+  }
+  return best;
+}
+
+/** Nearest atom within `radius` of a point, or -1. */
+export function atomAt(sketch: Sketch, point: Point2D, radius = 0.3): number {
+  let best = -1;
+  let bestDistance = radius;
+  sketch.coordinates.forEach((p, a) => {
+    const d = Math.hypot(p.x - point.x, p.y - point.y);
+    if (d <= bestDistance) {
+      best = a;
+      bestDistance = d;
+    }
+  });
+  return best;
+}
+
+/** Nearest bond whose segment passes within `tolerance` of a point, or -1. */
+export function bondAt(sketch: Sketch, point: Point2D, tolerance = 0.2): number {
+  let best = -1;
+  let bestDistance = tolerance;
+  sketch.molecule.bonds.forEach((bond, b) => {
+    const p = sketch.coordinates[bond.from];
+    const q = sketch.coordinates[bond.to];
+    const lengthSq = (q.x - p.x) ** 2 + (q.y - p.y) ** 2 || 1;
+    const t = Math.max(0, Math.min(1, ((point.x - p.x) * (q.x - p.x) + (point.y - p.y) * (q.y - p.y)) / lengthSq));
+    const d = Math.hypot(point.x - (p.x + t * (q.x - p.x)), point.y - (p.y + t * (q.y - p.y)));
+    if (d <= bestDistance) {
+      best = b;
+      bestDistance = d;
+    }
+  });
+  return best;
+}
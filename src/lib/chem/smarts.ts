@@ -0,0 +1,624 @@
+import { normalizeAromaticity } from "./aromaticity";
+import { atomicNumber, isElementSymbol } from "./elements";
+import { adjacency, type Bond, type Molecule, otherAtom, ringBonds } from "./molecule";
+import { smallestRings } from "./rings";
+import { parseSmiles } from "./smiles";
+
+/**
+ * Thrown for malformed SMARTS. Like SmilesParseError, `position` is 0-based and the message
+ * reports it 1-based.
+ */
+export class SmartsParseError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position + 1}`);
+    this.name = "SmartsParseError";
+    this.position = position;
+  }
+}
+
+export type AtomPrimitive =
+  | { kind: "any" }
+  | { kind: "aromatic"; aromatic: boolean }
+  | { kind: "element"; element: string; aromatic: boolean | null }
+  | { kind: "atomicNumber"; value: number }
+  | { kind: "isotope"; value: number }
+  | { kind: "charge"; value: number }
+  | { kind: "degree"; value: number }
+  | { kind: "connectivity"; value: number }
+  | { kind: "totalH"; value: number }
+  | { kind: "implicitH"; value: number | null }
+  | { kind: "valence"; value: number }
+  | { kind: "ringCount"; value: number | null }
+  | { kind: "ringSize"; value: number | null }
+  | { kind: "ringConnectivity"; value: number | null }
+  | { kind: "recursive"; query: SmartsQuery };
+
+export type BondPrimitive = { kind: "any" | "single" | "double" | "triple" | "aromatic" | "ring" };
+
+/** Boolean expression tree over primitives; "and" covers both "&" and ";" once parsed. */
+export type Expr<P> = P | { op: "not"; arg: Expr<P> } | { op: "and" | "or"; args: Array<Expr<P>> };
+
+export interface QueryAtom {
+  expr: Expr<AtomPrimitive>;
+  atomClass: number | null;
+  position: number;
+}
+
+export interface QueryBond {
+  from: number;
+  to: number;
+  /** Null for an unwritten bond, which matches single or aromatic bonds. */
+  expr: Expr<BondPrimitive> | null;
+}
+
+export interface SmartsQuery {
+  atoms: QueryAtom[];
+  bonds: QueryBond[];
+}
+
+const ORGANIC = ["Cl", "Br", "B", "C", "N", "O", "P", "S", "F", "I"];
+const AROMATIC = ["se", "as", "te", "b", "c", "n", "o", "p", "s"];
+const BOND_CHARS = "-=#:~@/\\!&,;";
+const BOND_PRIMITIVES: Record<string, BondPrimitive["kind"]> = {
+  "-": "single",
+  "/": "single",
+  "\\": "single",
+  "=": "double",
+  "#": "triple",
+  ":": "aromatic",
+  "~": "any",
+  "@": "ring",
+};
+
+const COUNTED_PRIMITIVES: Record<string, "degree" | "connectivity" | "totalH" | "valence"> = {
+  D: "degree",
+  X: "connectivity",
+  H: "totalH",
+  v: "valence",
+};
+const OPTIONAL_COUNT_PRIMITIVES: Record<string, "implicitH" | "ringCount" | "ringSize" | "ringConnectivity"> = {
+  h: "implicitH",
+  R: "ringCount",
+  r: "ringSize",
+  x: "ringConnectivity",
+};
+
+const isDigit = (ch: string | undefined) => ch !== undefined && ch >= "0" && ch <= "9";
+
+/**
+ * Parse a SMARTS pattern: organic-subset and bracket atoms with element, aromaticity (a/A),
+ * #n, isotope, charge, D, X, H, h, v, R, r and x primitives, recursive $(...) environments,
+ * bond primitives (- = # : ~ @), the logical operators ! & , ; and branches, ring closures
+ * and "." as in SMILES. Chirality marks are accepted but not matched.
+ */
+export function parseSmarts(smarts: string): SmartsQuery {
+  if (!smarts.trim()) throw new SmartsParseError("Empty SMARTS", 0);
+  return parseQuery(smarts, 0);
+}
+
+function parseQuery(text: string, offset: number): SmartsQuery {
+  const atoms: QueryAtom[] = [];
+  const bonds: QueryBond[] = [];
+  const branchStack: Array<{ atom: number; position: number }> = [];
+  const rings = new Map<number, { atom: number; expr: Expr<BondPrimitive> | null; position: number }>();
+  let prev: number | null = null;
+  let pending: { expr: Expr<BondPrimitive>; position: number } | null = null;
+  let i = 0;
+
+  const addBond = (from: number, to: number, expr: Expr<BondPrimitive> | null, position: number) => {
+    if (from === to || bonds.some((b) => (b.from === from && b.to === to) || (b.from === to && b.to === from))) {
+      throw new SmartsParseError("Duplicate bond between the same two atoms", position);
+    }
+    bonds.push({ from, to, expr });
+  };
+
+  const attach = (atom: QueryAtom) => {
+    atoms.push(atom);
+    const idx = atoms.length - 1;
+    if (prev !== null) addBond(prev, idx, pending?.expr ?? null, atom.position);
+    prev = idx;
+    pending = null;
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+    const at = offset + i;
+
+    if (ch === "[") {
+      const close = matchingBracket(text, i);
+      if (close === -1) throw new SmartsParseError('Unclosed bracket atom "["', at);
+      attach(parseBracketAtom(text.slice(i + 1, close), at + 1));
+      i = close + 1;
+      continue;
+    }
+    if (ch === "]") throw new SmartsParseError('Unmatched "]"', at);
+
+    const organic = ORGANIC.find((s) => text.startsWith(s, i));
+    if (organic) {
+      attach({ expr: { kind: "element", element: organic, aromatic: false }, atomClass: null, position: at });
+      i += organic.length;
+      continue;
+    }
+    if ("bcnops".includes(ch)) {
+      attach({ expr: { kind: "element", element: ch.toUpperCase(), aromatic: true }, atomClass: null, position: at });
+      i++;
+      continue;
+    }
+    if (ch === "*" || ch === "a" || ch === "A") {
+      const expr: AtomPrimitive = ch === "*" ? { kind: "any" } : { kind: "aromatic", aromatic: ch === "a" };
+      attach({ expr, atomClass: null, position: at });
+      i++;
+      continue;
+    }
+
+    if (BOND_CHARS.includes(ch)) {
+      if (prev === null) throw new SmartsParseError(`Bond "${ch}" has no preceding atom`, at);
+      if (pending) throw new SmartsParseError("Two bond expressions in a row", at);
+      let end = i;
+      while (end < text.length && BOND_CHARS.includes(text[end])) end++;
+      pending = { expr: parseExpression(text.slice(i, end), offset + i, bondPrimitive), position: at };
+      i = end;
+      continue;
+    }
+
+    if (ch === "(") {
+      if (prev === null) throw new SmartsParseError('Branch "(" has no preceding atom', at);
+      if (pending) throw new SmartsParseError("Bond expression before a branch", pending.position);
+      branchStack.push({ atom: prev, position: at });
+      i++;
+      continue;
+    }
+    if (ch === ")") {
+      const open = branchStack.pop();
+      if (!open) throw new SmartsParseError('Unmatched ")"', at);
+      if (pending) throw new SmartsParseError("Bond expression with no following atom", pending.position);
+      prev = open.atom;
+      i++;
+      continue;
+    }
+    if (ch === ".") {
+      if (prev === null || pending || branchStack.length) throw new SmartsParseError('Misplaced "."', at);
+      prev = null;
+      i++;
+      continue;
+    }
+
+    if (isDigit(ch) || ch === "%") {
+      let ringNumber: number;
+      if (ch === "%") {
+        if (!isDigit(text[i + 1]) || !isDigit(text[i + 2])) {
+          throw new SmartsParseError('Ring closure "%" must be followed by two digits', at);
+        }
+        ringNumber = Number(text.slice(i + 1, i + 3));
+        i += 3;
+      } else {
+        ringNumber = Number(ch);
+        i++;
+      }
+      if (prev === null) throw new SmartsParseError(`Ring bond ${ringNumber} has no preceding atom`, at);
+      const opening = rings.get(ringNumber);
+      const expr: Expr<BondPrimitive> | null = (pending as { expr: Expr<BondPrimitive> } | null)?.expr ?? null;
+      if (!opening) {
+        rings.set(ringNumber, { atom: prev, expr, position: at });
+      } else {
+        addBond(opening.atom, prev, expr ?? opening.expr, at);
+        rings.delete(ringNumber);
+      }
+      pending = null;
+      continue;
+    }
+
+    throw new SmartsParseError(`Unexpected character "${ch}"`, at);
+  }
+
+  if (pending) throw new SmartsParseError("Bond expression with no following atom", (pending as { position: number }).position);
+  if (branchStack.length) {
+    throw new SmartsParseError('Unclosed branch "("', branchStack[branchStack.length - 1].position);
+  }
+  if (rings.size) {
+    const [num, open] = [...rings.entries()].sort((x, y) => x[1].position - y[1].position)[0];
+    throw new SmartsParseError(`Unclosed ring bond ${num}`, open.position);
+  }
+  return { atoms, bonds };
+}
+
+// Index of the "]" closing the bracket at `start`, skipping brackets inside $(...)
+function matchingBracket(text: string, start: number): number {
+  let depth = 0;
+  for (let j = start; j < text.length; j++) {
+    if (text[j] === "[") depth++;
+    else if (text[j] === "]" && --depth === 0) return j;
+  }
+  return -1;
+}
+
+function parseBracketAtom(body: string, offset: number): QueryAtom {
+  if (!body) throw new SmartsParseError("Empty bracket atom", offset - 1);
+  let atomClass: number | null = null;
+  const classMatch = /:(\d+)$/.exec(body);
+  if (classMatch) {
+    atomClass = Number(classMatch[1]);
+    body = body.slice(0, classMatch.index);
+  }
+  // A lone H (with optional isotope and charge) is a hydrogen atom rather than an H count
+  if (/^\d*H([+-]\d*)?$/.test(body)) {
+    const [, isotope, charge] = /^(\d*)H([+-]\d*)?$/.exec(body)!;
+    const args: AtomPrimitive[] = [{ kind: "element", element: "H", aromatic: false }];
+    if (isotope) args.push({ kind: "isotope", value: Number(isotope) });
+    if (charge) args.push({ kind: "charge", value: chargeValue(charge) });
+    return { expr: args.length === 1 ? args[0] : { op: "and", args }, atomClass, position: offset - 1 };
+  }
+  return { expr: parseExpression(body, offset, atomPrimitive), atomClass, position: offset - 1 };
+}
+
+const chargeValue = (text: string) => {
+  const sign = text[0] === "+" ? 1 : -1;
+  return sign * (text.length === 1 ? 1 : isDigit(text[1]) ? Number(text.slice(1)) : text.length);
+};
+
+type PrimitiveReader<P> = (text: string, j: number, offset: number) => { primitive: P; end: number };
+
+/**
+ * Parse an atom or bond expression with SMARTS precedence: "!" binds tightest, then "&" (or
+ * two primitives written next to each other), then ",", then the low-precedence ";".
+ */
+function parseExpression<P>(text: string, offset: number, read: PrimitiveReader<P>): Expr<P> {
+  let j = 0;
+
+  const unary = (): Expr<P> => {
+    if (text[j] === "!") {
+      j++;
+      return { op: "not", arg: unary() };
+    }
+    if (j >= text.length) throw new SmartsParseError("Missing primitive", offset + j);
+    const { primitive, end } = read(text, j, offset);
+    j = end;
+    return primitive;
+  };
+  const and = (): Expr<P> => {
+    const args = [unary()];
+    while (j < text.length && !",;".includes(text[j])) {
+      if (text[j] === "&") j++;
+      args.push(unary());
+    }
+    return args.length === 1 ? args[0] : { op: "and", args };
+  };
+  const or = (): Expr<P> => {
+    const args = [and()];
+    while (text[j] === ",") {
+      j++;
+      args.push(and());
+    }
+    return args.length === 1 ? args[0] : { op: "or", args };
+  };
+  const args = [or()];
+  while (text[j] === ";") {
+    j++;
+    args.push(or());
+  }
+  return args.length === 1 ? args[0] : { op: "and", args };
+}
+
+function bondPrimitive(text: string, j: number, offset: number): { primitive: BondPrimitive; end: number } {
+  const kind = BOND_PRIMITIVES[text[j]];
+  if (!kind) throw new SmartsParseError(`Unexpected "${text[j]}" in bond expression`, offset + j);
+  return { primitive: { kind }, end: j + 1 };
+}
+
+// Number written after a primitive letter; null when there is none
+function count(text: string, j: number): { value: number | null; end: number } {
+  const m = /^\d+/.exec(text.slice(j));
+  return m ? { value: Number(m[0]), end: j + m[0].length } : { value: null, end: j };
+}
+
+function atomPrimitive(text: string, j: number, offset: number): { primitive: AtomPrimitive; end: number } {
+  const ch = text[j];
+  const at = offset + j;
+
+  if (text.startsWith("$(", j)) {
+    let depth = 0;
+    let close = -1;
+    for (let k = j + 1; k < text.length; k++) {
+      if (text[k] === "(") depth++;
+      else if (text[k] === ")" && --depth === 0) {
+        close = k;
+        break;
+      }
+    }
+    if (close === -1) throw new SmartsParseError('Unclosed recursive SMARTS "$("', at);
+    if (close === j + 2) throw new SmartsParseError("Empty recursive SMARTS", at);
+    return { primitive: { kind: "recursive", query: parseQuery(text.slice(j + 2, close), at + 2) }, end: close + 1 };
+  }
+  if (isDigit(ch)) {
+    const { value, end } = count(text, j);
+    return { primitive: { kind: "isotope", value: value! }, end };
+  }
+  if (ch === "#") {
+    const { value, end } = count(text, j + 1);
+    if (value === null) throw new SmartsParseError('"#" must be followed by an atomic number', at);
+    return { primitive: { kind: "atomicNumber", value }, end };
+  }
+  if (ch === "+" || ch === "-") {
+    let end = j + 1;
+    if (isDigit(text[end])) end = count(text, end).end;
+    else while (text[end] === ch) end++;
+    return { primitive: { kind: "charge", value: chargeValue(text.slice(j, end)) }, end };
+  }
+  if (ch === "@") {
+    // Chirality is parsed for compatibility but matches any configuration
+    let end = j + 1;
+    if (text[end] === "@") end++;
+    if (text[end] === "?") end++;
+    return { primitive: { kind: "any" }, end };
+  }
+  if (ch === "*") return { primitive: { kind: "any" }, end: j + 1 };
+
+  const two = text.slice(j, j + 2);
+  if (/^[A-Z][a-z]$/.test(two) && isElementSymbol(two) && two !== "Nh") {
+    return { primitive: { kind: "element", element: two, aromatic: false }, end: j + 2 };
+  }
+  const aromatic = AROMATIC.find((s) => text.startsWith(s, j));
+  if (aromatic) {
+    const element = aromatic[0].toUpperCase() + aromatic.slice(1);
+    return { primitive: { kind: "element", element, aromatic: true }, end: j + aromatic.length };
+  }
+
+  // D, X, H and v default to 1; h, R, r and x without a number mean "at least one"
+  const counted = COUNTED_PRIMITIVES[ch];
+  if (counted) {
+    const { value, end } = count(text, j + 1);
+    return { primitive: { kind: counted, value: value ?? 1 }, end };
+  }
+  const optional = OPTIONAL_COUNT_PRIMITIVES[ch];
+  if (optional) {
+    const { value, end } = count(text, j + 1);
+    return { primitive: { kind: optional, value }, end };
+  }
+  if (ch === "a" || ch === "A") return { primitive: { kind: "aromatic", aromatic: ch === "a" }, end: j + 1 };
+  if (/[A-Z]/.test(ch) && isElementSymbol(ch)) {
+    return { primitive: { kind: "element", element: ch, aromatic: false }, end: j + 1 };
+  }
+  throw new SmartsParseError(`Unexpected "${ch}" in bracket atom`, at);
+}
+
+/**
+ * A molecule with the per-atom properties the primitives test (aromaticity, ring sizes, H
+ * counts) worked out once, for running many patterns against the same structure.
+ */
+export interface PreparedMolecule {
+  mol: Molecule;
+  adj: number[][];
+  inRing: Set<number>;
+  totalH: number[];
+  degree: number[];
+  valence: number[];
+  ringCount: number[];
+  ringSizes: number[][];
+  ringConnectivity: number[];
+  recursive: Map<SmartsQuery, Map<number, boolean>>;
+}
+
+export function prepareMolecule(input: Molecule): PreparedMolecule {
+  // Same aromaticity model as canonical SMILES, without renumbering atoms
+  const mol = normalizeAromaticity(input);
+  const adj = adjacency(mol);
+  const inRing = ringBonds(mol);
+  const rings = smallestRings(mol);
+  const ringSizes: number[][] = mol.atoms.map(() => []);
+  for (const ring of rings) for (const a of ring.atoms) ringSizes[a].push(ring.atoms.length);
+  const explicitH = mol.atoms.map((_, i) => adj[i].filter((b) => mol.atoms[otherAtom(mol.bonds[b], i)].element === "H").length);
+  return {
+    mol,
+    adj,
+    inRing,
+    totalH: mol.atoms.map((a, i) => a.hydrogens + explicitH[i]),
+    degree: adj.map((bonds) => bonds.length),
+    valence: mol.atoms.map(
+      (a, i) => Math.round(adj[i].reduce((sum, b) => sum + (mol.bonds[b].aromatic ? 1.5 : mol.bonds[b].order), 0)) + a.hydrogens,
+    ),
+    ringCount: ringSizes.map((sizes) => sizes.length),
+    ringSizes,
+    ringConnectivity: adj.map((bonds) => bonds.filter((b) => inRing.has(b)).length),
+    recursive: new Map(),
+  };
+}
+
+function evaluate<P extends object>(expr: Expr<P>, test: (primitive: P) => boolean): boolean {
+  if (!("op" in expr)) return test(expr);
+  if (expr.op === "not") return !evaluate(expr.arg, test);
+  return expr.op === "and" ? expr.args.every((e) => evaluate(e, test)) : expr.args.some((e) => evaluate(e, test));
+}
+
+function atomMatches(target: PreparedMolecule, expr: Expr<AtomPrimitive>, idx: number): boolean {
+  const atom = target.mol.atoms[idx];
+  return evaluate(expr, (p) => {
+    switch (p.kind) {
+      case "any":
+        return true;
+      case "aromatic":
+        return atom.aromatic === p.aromatic;
+      case "element":
+        return atom.element === p.element && (p.aromatic === null || atom.aromatic === p.aromatic);
+      case "atomicNumber":
+        return atom.element !== "*" && atomicNumber(atom.element) === p.value;
+      case "isotope":
+        return atom.isotope === p.value;
+      case "charge":
+        return atom.charge === p.value;
+      case "degree":
+        return target.degree[idx] === p.value;
+      case "connectivity":
+        return target.degree[idx] + atom.hydrogens === p.value;
+      case "totalH":
+        return target.totalH[idx] === p.value;
+      case "implicitH":
+        return p.value === null ? atom.hydrogens > 0 : atom.hydrogens === p.value;
+      case "valence":
+        return target.valence[idx] === p.value;
+      case "ringCount":
+        return p.value === null ? target.ringCount[idx] > 0 : target.ringCount[idx] === p.value;
+      case "ringSize":
+        return p.value === null ? target.ringCount[idx] > 0 : target.ringSizes[idx].includes(p.value);
+      case "ringConnectivity":
+        return p.value === null ? target.ringConnectivity[idx] > 0 : target.ringConnectivity[idx] === p.value;
+      case "recursive": {
+        let cache = target.recursive.get(p.query);
+        if (!cache) target.recursive.set(p.query, (cache = new Map()));
+        let hit = cache.get(idx);
+        if (hit === undefined) {
+          hit = search(target, p.query, 1, idx).length > 0;
+          cache.set(idx, hit);
+        }
+        return hit;
+      }
+    }
+  });
+}
+
+function bondMatches(target: PreparedMolecule, expr: Expr<BondPrimitive> | null, idx: number): boolean {
+  const bond: Bond = target.mol.bonds[idx];
+  if (expr === null) return bond.aromatic || bond.order === 1;
+  return evaluate(expr, (p) => {
+    switch (p.kind) {
+      case "any":
+        return true;
+      case "single":
+        return bond.order === 1 && !bond.aromatic;
+      case "double":
+        return bond.order === 2 && !bond.aromatic;
+      case "triple":
+        return bond.order === 3 && !bond.aromatic;
+      case "aromatic":
+        return bond.aromatic;
+      case "ring":
+        return target.inRing.has(idx);
+    }
+  });
+}
+
+// Backtracking subgraph isomorphism; query atoms are visited so each one after the first of
+// its component is bonded to an atom already placed, which keeps the candidate lists short.
+function search(target: PreparedMolecule, query: SmartsQuery, limit: number, anchor: number | null = null): number[][] {
+  const n = query.atoms.length;
+  const qAdj: Array<Array<{ other: number; bond: QueryBond }>> = query.atoms.map(() => []);
+  for (const bond of query.bonds) {
+    qAdj[bond.from].push({ other: bond.to, bond });
+    qAdj[bond.to].push({ other: bond.from, bond });
+  }
+  const order: number[] = [];
+  const parent: number[] = new Array<number>(n).fill(-1);
+  const placed = new Array<boolean>(n).fill(false);
+  for (let root = 0; root < n; root++) {
+    if (placed[root]) continue;
+    placed[root] = true;
+    const stack = [root];
+    while (stack.length) {
+      const q = stack.pop()!;
+      order.push(q);
+      for (const { other } of [...qAdj[q]].reverse()) {
+        if (placed[other]) continue;
+        placed[other] = true;
+        parent[other] = q;
+        stack.push(other);
+      }
+    }
+  }
+
+  const mapping = new Array<number>(n).fill(-1);
+  const used = new Set<number>();
+  const results: number[][] = [];
+  const targetBond = (a: number, b: number) =>
+    target.adj[a].find((bond) => otherAtom(target.mol.bonds[bond], a) === b);
+
+  const extend = (k: number) => {
+    if (results.length >= limit) return;
+    if (k === n) {
+      results.push([...mapping]);
+      return;
+    }
+    const q = order[k];
+    const candidates =
+      k === 0 && anchor !== null
+        ? [anchor]
+        : parent[q] >= 0
+          ? target.adj[mapping[parent[q]]].map((b) => otherAtom(target.mol.bonds[b], mapping[parent[q]]))
+          : target.mol.atoms.map((_, i) => i);
+    for (const t of candidates) {
+      if (used.has(t) || !atomMatches(target, query.atoms[q].expr, t)) continue;
+      const bondsOk = qAdj[q].every(({ other, bond }) => {
+        if (mapping[other] < 0) return true;
+        const tb = targetBond(t, mapping[other]);
+        return tb !== undefined && bondMatches(target, bond.expr, tb);
+      });
+      if (!bondsOk) continue;
+      mapping[q] = t;
+      used.add(t);
+      extend(k + 1);
+      used.delete(t);
+      mapping[q] = -1;
+      if (results.length >= limit) return;
+    }
+  };
+  extend(0);
+  return results;
+}
+
+export interface MatchOptions {
+  /** Stop after this many matches (default 1000). */
+  maxMatches?: number;
+  /** Report each set of target atoms once, however many symmetric mappings cover it (default true). */
+  uniquify?: boolean;
+}
+
+/**
+ * All matches of a SMARTS pattern in a molecule. Each match lists the target atom index for
+ * every query atom, in query order; indices refer to the molecule as parsed, so they can be
+ * used directly to highlight a depiction of the same SMILES.
+ */
+export function substructureMatches(
+  target: Molecule | PreparedMolecule | string,
+  query: SmartsQuery | string,
+  { maxMatches = 1000, uniquify = true }: MatchOptions = {},
+): number[][] {
+  const prepared = asPrepared(target);
+  const pattern = typeof query === "string" ? parseSmarts(query) : query;
+  if (pattern.atoms.length === 0 || prepared.mol.atoms.length === 0) return [];
+  if (!uniquify) return search(prepared, pattern, maxMatches);
+
+  const seen = new Set<string>();
+  const unique: number[][] = [];
+  // Symmetric mappings of one atom set can be numerous, so search wider than the limit
+  for (const match of search(prepared, pattern, maxMatches * 10)) {
+    const key = [...match].sort((a, b) => a - b).join(",");
+    if (seen.has(key)) continue;
+    seen.add(key);
+    unique.push(match);
+    if (unique.length >= maxMatches) break;
+  }
+  return unique;
+}
+
+/** Whether the molecule contains the pattern at least once. */
+export function hasSubstructure(target: Molecule | PreparedMolecule | string, query: SmartsQuery | string): boolean {
+  const pattern = typeof query === "string" ? parseSmarts(query) : query;
+  if (pattern.atoms.length === 0) return true;
+  return search(asPrepared(target), pattern, 1).length > 0;
+}
+
+/**
+ * Atoms that the pattern's first atom can sit on, i.e. the atoms `[$(pattern)]` would match.
+ * Used for atom typing, where each atom takes the first pattern that fits it.
+ */
+export function anchoredAtoms(target: Molecule | PreparedMolecule | string, query: SmartsQuery | string): number[] {
+  const mol = asPrepared(target);
+  const pattern = typeof query === "string" ? parseSmarts(query) : query;
+  if (pattern.atoms.length === 0) return [];
+  return mol.mol.atoms.flatMap((_, i) => (atomMatches(mol, { kind: "recursive", query: pattern }, i) ? [i] : []));
+}
+
+function asPrepared(target: Molecule | PreparedMolecule | string): PreparedMolecule {
+  if (typeof target === "string") return prepareMolecule(parseSmiles(target));
+  return "recursive" in target ? target : prepareMolecule(target);
+}
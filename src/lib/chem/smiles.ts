@@ -0,0 +1,367 @@
+import { allowedValences, isElementSymbol, ORGANIC_VALENCES } from "./elements";
+import { type Atom, type BondOrder, type BondStereo, type Molecule, ringBonds } from "./molecule";
+
+/**
+ * Thrown for malformed SMILES. `position` is the 0-based character offset of the problem;
+ * the message reports it 1-based so it can be shown to users as-is.
+ */
+export class SmilesParseError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position + 1}`);
+    this.name = "SmilesParseError";
+    this.position = position;
+  }
+}
+
+type PendingBond = { order: BondOrder; aromatic: boolean; stereo: BondStereo; position: number };
+type RingOpening = { atom: number; bond: PendingBond | null; position: number; slot: number };
+
+const AROMATIC_ORGANIC = new Set(["b", "c", "n", "o", "p", "s"]);
+const AROMATIC_BRACKET = new Set(["b", "c", "n", "o", "p", "s", "se", "as", "te"]);
+
+const BOND_SYMBOLS: Record<string, Omit<PendingBond, "position">> = {
+  "-": { order: 1, aromatic: false, stereo: null },
+  "=": { order: 2, aromatic: false, stereo: null },
+  "#": { order: 3, aromatic: false, stereo: null },
+  $: { order: 4, aromatic: false, stereo: null },
+  ":": { order: 1, aromatic: true, stereo: null },
+  "/": { order: 1, aromatic: false, stereo: "up" },
+  "\\": { order: 1, aromatic: false, stereo: "down" },
+};
+
+const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+const isDigit = (ch: string | undefined) => ch !== undefined && ch >= "0" && ch <= "9";
+
+/**
+ * Parse a SMILES string (OpenSMILES subset: organic and bracket atoms, bonds, branches,
+ * ring closures incl. %nn, aromatic atoms, isotopes, charges, chirality tags, atom classes
+ * and "." disconnections) into a molecular graph with implicit hydrogens filled in.
+ */
+export function parseSmiles(smiles: string): Molecule {
+  const atoms: Atom[] = [];
+  const bonds: Molecule["bonds"] = [];
+  const branchStack: Array<{ atom: number; position: number }> = [];
+  const rings = new Map<number, RingOpening>();
+  // Neighbour order as written, which is what chirality tags refer to
+  const nbrOrder: number[][] = [];
+
+  let prev: number | null = null;
+  let pending: PendingBond | null = null;
+  let afterDot = false;
+  let i = 0;
+
+  if (!smiles.trim()) throw new SmilesParseError("Empty SMILES", 0);
+
+  const addBond = (from: number, to: number, bond: PendingBond | null) => {
+    if (from === to) throw new SmilesParseError("Atom bonded to itself", bond?.position ?? atoms[to].position);
+    if (bonds.some((b) => (b.from === from && b.to === to) || (b.from === to && b.to === from))) {
+      throw new SmilesParseError("Duplicate bond between the same two atoms", bond?.position ?? atoms[to].position);
+    }
+    const aromatic = bond ? bond.aromatic : atoms[from].aromatic && atoms[to].aromatic;
+    bonds.push({ from, to, order: bond?.order ?? 1, aromatic, stereo: bond?.stereo ?? null });
+  };
+
+  const attachAtom = (atom: Atom) => {
+    atoms.push(atom);
+    const idx = atoms.length - 1;
+    nbrOrder.push(prev !== null ? [prev] : []);
+    if (atom.chirality && atom.hydrogens === 1) nbrOrder[idx].push(-1);
+    if (prev !== null) {
+      addBond(prev, idx, pending);
+      nbrOrder[prev].push(idx);
+    }
+    prev = idx;
+    pending = null;
+    afterDot = false;
+  };
+
+  while (i < smiles.length) {
+    const ch = smiles[i];
+    const start = i;
+
+    if (ch === "[") {
+      const close = smiles.indexOf("]", i);
+      if (close === -1) throw new SmilesParseError('Unclosed bracket atom "["', i);
+      attachAtom(parseBracketAtom(smiles.slice(i + 1, close), i));
+      i = close + 1;
+      continue;
+    }
+
+    if (ch === "]") throw new SmilesParseError('Unmatched "]"', i);
+
+    // Organic subset (two-letter halogens first)
+    const two = smiles.slice(i, i + 2);
+    if (two === "Cl" || two === "Br") {
+      attachAtom(organicAtom(two, false, start));
+      i += 2;
+      continue;
+    }
+    if ("BCNOPSFI".includes(ch)) {
+      attachAtom(organicAtom(ch, false, start));
+      i++;
+      continue;
+    }
+    if (AROMATIC_ORGANIC.has(ch)) {
+      attachAtom(organicAtom(ch.toUpperCase(), true, start));
+      i++;
+      continue;
+    }
+    if (ch === "*") {
+      attachAtom(organicAtom("*", false, start));
+      i++;
+      continue;
+    }
+
+    if (ch in BOND_SYMBOLS) {
+      if (prev === null) throw new SmilesParseError(`Bond "${ch}" has no preceding atom`, i);
+      if (pending) throw new SmilesParseError(`Two bond symbols in a row`, i);
+      pending = { ...BOND_SYMBOLS[ch], position: i };
+      i++;
+      continue;
+    }
+
+    if (ch === "(") {
+      if (prev === null) throw new SmilesParseError('Branch "(" has no preceding atom', i);
+      if (pending) throw new SmilesParseError("Bond symbol before a branch", pending.position);
+      if (smiles[i + 1] === ")") throw new SmilesParseError("Empty branch", i);
+      branchStack.push({ atom: prev, position: i });
+      i++;
+      continue;
+    }
+
+    if (ch === ")") {
+      const open = branchStack.pop();
+      if (!open) throw new SmilesParseError('Unmatched ")"', i);
+      if (pending) throw new SmilesParseError("Bond symbol with no following atom", pending.position);
+      prev = open.atom;
+      i++;
+      continue;
+    }
+
+    if (ch === ".") {
+      if (prev === null || afterDot) throw new SmilesParseError('Misplaced "."', i);
+      if (pending) throw new SmilesParseError("Bond symbol with no following atom", pending.position);
+      if (branchStack.length) throw new SmilesParseError('"." inside an open branch', i);
+      prev = null;
+      afterDot = true;
+      i++;
+      continue;
+    }
+
+    if (isDigit(ch) || ch === "%") {
+      let ringNumber: number;
+      if (ch === "%") {
+        if (!isDigit(smiles[i + 1]) || !isDigit(smiles[i + 2])) {
+          throw new SmilesParseError('Ring closure "%" must be followed by two digits', i);
+        }
+        ringNumber = Number(smiles.slice(i + 1, i + 3));
+        i += 3;
+      } else {
+        ringNumber = Number(ch);
+        i++;
+      }
+      if (prev === null) throw new SmilesParseError(`Ring bond ${ringNumber} has no preceding atom`, start);
+      const opening = rings.get(ringNumber);
+      if (!opening) {
+        rings.set(ringNumber, { atom: prev, bond: pending, position: start, slot: nbrOrder[prev].length });
+        nbrOrder[prev].push(-1);
+      } else {
+        const a: PendingBond | null = opening.bond;
+        const b: PendingBond | null = pending;
+        if (a && b && (a.order !== b.order || a.aromatic !== b.aromatic)) {
+          throw new SmilesParseError(`Conflicting bond orders for ring bond ${ringNumber}`, start);
+        }
+        // Store the bond in the direction its symbol was written ("/" and "\" depend on it)
+        if (b) addBond(prev, opening.atom, b);
+        else addBond(opening.atom, prev, a);
+        nbrOrder[opening.atom][opening.slot] = prev;
+        nbrOrder[prev].push(opening.atom);
+        rings.delete(ringNumber);
+      }
+      pending = null;
+      continue;
+    }
+
+    throw new SmilesParseError(`Unexpected character "${ch}"`, i);
+  }
+
+  if (pending) throw new SmilesParseError("Bond symbol with no following atom", (pending as PendingBond).position);
+  if (afterDot) throw new SmilesParseError('Trailing "."', smiles.length - 1);
+  if (branchStack.length) {
+    throw new SmilesParseError('Unclosed branch "("', branchStack[branchStack.length - 1].position);
+  }
+  if (rings.size) {
+    const [num, open] = [...rings.entries()].sort((x, y) => x[1].position - y[1].position)[0];
+    throw new SmilesParseError(`Unclosed ring bond ${num}`, open.position);
+  }
+
+  atoms.forEach((atom, idx) => {
+    if (atom.chirality) atom.chiralNeighbors = nbrOrder[idx];
+  });
+
+  const mol: Molecule = { atoms, bonds };
+  demoteAcyclicAromaticBonds(mol);
+  assignImplicitHydrogens(mol);
+  return mol;
+}
+
+// Like parseSmiles, but returns null instead of throwing on malformed input
+export function tryParseSmiles(smiles: string): Molecule | null {
+  try {
+    return parseSmiles(smiles);
+  } catch (e) {
+    if (e instanceof SmilesParseError) return null;
+    throw e;
+  }
+}
+
+function organicAtom(element: string, aromatic: boolean, position: number): Atom {
+  return {
+    element,
+    aromatic,
+    isotope: null,
+    charge: 0,
+    hydrogens: 0,
+    bracket: false,
+    chirality: null,
+    atomClass: null,
+    position,
+  };
+}
+
+// Parse the text between "[" and "]": isotope? symbol chirality? hcount? charge? class?
+function parseBracketAtom(body: string, offset: number): Atom {
+  let j = 0;
+  const at = () => offset + 1 + j;
+  if (!body) throw new SmilesParseError("Empty bracket atom", offset);
+
+  let isotope: number | null = null;
+  const isoMatch = /^\d+/.exec(body);
+  if (isoMatch) {
+    isotope = Number(isoMatch[0]);
+    j += isoMatch[0].length;
+  }
+
+  let element: string | null = null;
+  let aromatic = false;
+  const rest = body.slice(j);
+  if (rest.startsWith("*")) {
+    element = "*";
+    j += 1;
+  } else {
+    const two = rest.slice(0, 2);
+    if (/^[A-Z][a-z]$/.test(two) && isElementSymbol(two)) {
+      element = two;
+      j += 2;
+    } else if (two.length === 2 && AROMATIC_BRACKET.has(two)) {
+      element = capitalize(two);
+      aromatic = true;
+      j += 2;
+    } else if (/^[A-Z]/.test(rest) && isElementSymbol(rest[0])) {
+      element = rest[0];
+      j += 1;
+    } else if (AROMATIC_BRACKET.has(rest[0])) {
+      element = rest[0].toUpperCase();
+      aromatic = true;
+      j += 1;
+    }
+  }
+  if (!element) {
+    const token = /^[A-Za-z]{1,2}/.exec(rest)?.[0] ?? rest[0];
+    throw new SmilesParseError(`Unknown element "${token}"`, at());
+  }
+
+  let chirality: string | null = null;
+  const chiralMatch = /^@(?:@|TH[12]|AL[12]|SP[1-3]|TB\d{1,2}|OH\d{1,2})?/.exec(body.slice(j));
+  if (chiralMatch) {
+    chirality = chiralMatch[0];
+    j += chiralMatch[0].length;
+  }
+
+  let hydrogens = 0;
+  if (body[j] === "H") {
+    j++;
+    const hMatch = /^\d+/.exec(body.slice(j));
+    hydrogens = hMatch ? Number(hMatch[0]) : 1;
+    if (hMatch) j += hMatch[0].length;
+  }
+
+  let charge = 0;
+  if (body[j] === "+" || body[j] === "-") {
+    const sign = body[j] === "+" ? 1 : -1;
+    const chargeMatch = /^([+-])(\d+|\1*)/.exec(body.slice(j))!;
+    const magnitude = /^\d+$/.test(chargeMatch[2]) ? Number(chargeMatch[2]) : chargeMatch[2].length + 1;
+    charge = sign * magnitude;
+    j += chargeMatch[0].length;
+  }
+
+  let atomClass: number | null = null;
+  if (body[j] === ":") {
+    const classMatch = /^:(\d+)/.exec(body.slice(j));
+    if (!classMatch) throw new SmilesParseError("Atom class must be a number", at());
+    atomClass = Number(classMatch[1]);
+    j += classMatch[0].length;
+  }
+
+  if (j < body.length) throw new SmilesParseError(`Unexpected "${body[j]}" in bracket atom`, at());
+
+  return {
+    element,
+    aromatic,
+    isotope,
+    charge,
+    hydrogens,
+    bracket: true,
+    chirality,
+    atomClass,
+    position: offset,
+  };
+}
+
+// An implicit bond between two aromatic atoms is only aromatic inside a ring (e.g. biphenyl's link is single)
+function demoteAcyclicAromaticBonds(mol: Molecule) {
+  const inRing = ringBonds(mol);
+  mol.bonds.forEach((b, idx) => {
+    if (b.aromatic && !inRing.has(idx)) b.aromatic = false;
+  });
+}
+
+/**
+ * Implicit hydrogen count for an unbracketed organic-subset atom: the lowest default valence
+ * that fits its bonds (aromatic bonds counted as 1). Aromatic atoms use one extra valence for
+ * their share of the pi system when that valence has room for it. Returns null outside the organic subset.
+ */
+export function defaultHydrogenCount(element: string, aromatic: boolean, bondOrderSum: number): number | null {
+  const valences = ORGANIC_VALENCES[element];
+  if (!valences) return null;
+  let used = bondOrderSum;
+  if (aromatic && (valences.find((v) => v >= used) ?? 0) > used) used += 1;
+  const target = valences.find((v) => v >= used);
+  return target === undefined ? 0 : target - used;
+}
+
+/**
+ * Hydrogens for an atom whose count is not written (a sketch or molfile atom): the default
+ * count for neutral organic-subset atoms, the charge-adjusted valence for charged ones and
+ * none for everything else.
+ */
+export function implicitHydrogenCount(element: string, charge: number, aromatic: boolean, bondOrderSum: number): number {
+  if (!ORGANIC_VALENCES[element]) return 0;
+  if (charge === 0) return defaultHydrogenCount(element, aromatic, bondOrderSum) ?? 0;
+  const target = (allowedValences(element, charge) ?? []).find((v) => v >= bondOrderSum);
+  return target === undefined ? 0 : target - bondOrderSum;
+}
+
+function assignImplicitHydrogens(mol: Molecule) {
+  const bondSum = new Array<number>(mol.atoms.length).fill(0);
+  for (const b of mol.bonds) {
+    bondSum[b.from] += b.order;
+    bondSum[b.to] += b.order;
+  }
+  mol.atoms.forEach((atom, idx) => {
+    if (atom.bracket) return;
+    atom.hydrogens = defaultHydrogenCount(atom.element, atom.aromatic, bondSum[idx]) ?? 0;
+  });
+}
@@ -0,0 +1,205 @@
+import { adjacency, type Molecule, otherAtom } from "./molecule";
+import { defaultHydrogenCount } from "./smiles";
+import { doubleBondConfigs, isSingle, sideSign, UP } from "./stereo";
+
+type Traversal = {
+  /** Atoms in pre-order (the order they are written). */
+  order: number[];
+  parentBond: number[];
+  children: number[][];
+  /** Ring bonds whose digit opens at / closes at each atom. */
+  ringOpen: number[][];
+  ringClose: number[][];
+};
+
+/**
+ * Write a molecule as SMILES. Traversal starts each fragment at its lowest-ranked atom and
+ * visits neighbours in rank order, so passing canonical ranks gives a canonical string.
+ * Chirality tags are re-derived for the written neighbour order and E/Z double bonds get
+ * fresh "/" "\" marks; aromatic atoms and bonds are written in lowercase/implicit form.
+ */
+export function writeSmiles(mol: Molecule, ranks: number[] = mol.atoms.map((_, i) => i)): string {
+  const adj = adjacency(mol);
+  const t = traverse(mol, adj, ranks);
+  const ringPartnersInOrder = (a: number) => [...t.ringClose[a], ...t.ringOpen[a]];
+  const directional = assignDirectionalBonds(mol, adj, t);
+
+  const bondSymbol = (b: number, writtenFrom: number) => {
+    const bond = mol.bonds[b];
+    const bothAromatic = mol.atoms[bond.from].aromatic && mol.atoms[bond.to].aromatic;
+    if (bond.aromatic) return bothAromatic ? "" : ":";
+    if (bond.order === 2) return "=";
+    if (bond.order === 3) return "#";
+    if (bond.order === 4) return "$";
+    const sym = directional.get(b);
+    if (sym !== undefined) {
+      // `sym` is relative to the written direction recorded during assignment
+      return sym.from === writtenFrom ? (sym.dir === UP ? "/" : "\\") : sym.dir === UP ? "\\" : "/";
+    }
+    return bothAromatic ? "-" : "";
+  };
+
+  const digitOf = new Map<number, number>();
+  const inUse = new Set<number>();
+  const digitText = (d: number) => (d < 10 ? String(d) : `%${d}`);
+
+  const emit = (a: number): string => {
+    let out = atomSymbol(mol, adj, a, chiralTag(mol, t, a, ringPartnersInOrder(a)));
+    const toFree: number[] = [];
+    for (const b of t.ringClose[a]) {
+      const d = digitOf.get(b)!;
+      out += bondSymbol(b, a) + digitText(d);
+      toFree.push(d);
+    }
+    for (const b of t.ringOpen[a]) {
+      let d = 1;
+      while (inUse.has(d) || toFree.includes(d)) d++;
+      inUse.add(d);
+      digitOf.set(b, d);
+      out += digitText(d);
+    }
+    toFree.forEach((d) => inUse.delete(d));
+    const kids = t.children[a];
+    kids.forEach((b, k) => {
+      const child = otherAtom(mol.bonds[b], a);
+      const text = bondSymbol(b, a) + emit(child);
+      out += k < kids.length - 1 ? `(${text})` : text;
+    });
+    return out;
+  };
+
+  const roots = t.order.filter((a) => t.parentBond[a] === -1);
+  return roots.map(emit).join(".");
+}
+
+function traverse(mol: Molecule, adj: number[][], ranks: number[]): Traversal {
+  const n = mol.atoms.length;
+  const t: Traversal = {
+    order: [],
+    parentBond: new Array<number>(n).fill(-1),
+    children: mol.atoms.map(() => []),
+    ringOpen: mol.atoms.map(() => []),
+    ringClose: mol.atoms.map(() => []),
+  };
+  const visited = new Array<boolean>(n).fill(false);
+  const ringSeen = new Set<number>();
+
+  const visit = (a: number) => {
+    visited[a] = true;
+    t.order.push(a);
+    const nbrBonds = adj[a]
+      .filter((b) => b !== t.parentBond[a])
+      .sort((x, y) => ranks[otherAtom(mol.bonds[x], a)] - ranks[otherAtom(mol.bonds[y], a)]);
+    // Visited neighbours (other than the parent) are ancestors: close a ring to them here
+    for (const b of nbrBonds) {
+      const other = otherAtom(mol.bonds[b], a);
+      if (visited[other] && !ringSeen.has(b)) {
+        ringSeen.add(b);
+        t.ringClose[a].push(b);
+        t.ringOpen[other].push(b);
+      }
+    }
+    // Neighbours reached through an earlier child are skipped; they closed their ring to `a`
+    for (const b of nbrBonds) {
+      const other = otherAtom(mol.bonds[b], a);
+      if (visited[other]) continue;
+      t.parentBond[other] = b;
+      t.children[a].push(b);
+      visit(other);
+    }
+  };
+
+  const starts = mol.atoms.map((_, i) => i).sort((x, y) => ranks[x] - ranks[y]);
+  for (const s of starts) if (!visited[s]) visit(s);
+  return t;
+}
+
+function atomSymbol(mol: Molecule, adj: number[][], a: number, chirality: string | null): string {
+  const atom = mol.atoms[a];
+  const symbol = atom.aromatic ? atom.element.toLowerCase() : atom.element;
+  const bondSum = adj[a].reduce((sum, b) => sum + (mol.bonds[b].aromatic ? 1 : mol.bonds[b].order), 0);
+  const implicit = atom.element === "*" ? 0 : defaultHydrogenCount(atom.element, atom.aromatic, bondSum);
+  const organic = atom.element === "*" || (implicit !== null && (!atom.aromatic || "bcnops".includes(symbol)));
+  const plain =
+    organic && !chirality && atom.isotope === null && atom.charge === 0 && atom.atomClass === null && implicit === atom.hydrogens;
+  if (plain) return symbol;
+
+  const h = atom.hydrogens ? `H${atom.hydrogens > 1 ? atom.hydrogens : ""}` : "";
+  const magnitude = Math.abs(atom.charge);
+  const charge = atom.charge ? `${atom.charge > 0 ? "+" : "-"}${magnitude > 1 ? magnitude : ""}` : "";
+  const cls = atom.atomClass !== null ? `:${atom.atomClass}` : "";
+  return `[${atom.isotope ?? ""}${symbol}${chirality ?? ""}${h}${charge}${cls}]`;
+}
+
+// Re-express a tetrahedral tag for the written neighbour order (odd permutation flips @/@@)
+function chiralTag(mol: Molecule, t: Traversal, a: number, ringBondsInOrder: number[]): string | null {
+  const atom = mol.atoms[a];
+  const input = atom.chiralNeighbors;
+  if (!atom.chirality || !input) return null;
+  const clockwise = atom.chirality === "@@" || atom.chirality === "@TH2";
+  if (!clockwise && atom.chirality !== "@" && atom.chirality !== "@TH1") return null;
+
+  const written: number[] = [];
+  if (t.parentBond[a] !== -1) written.push(otherAtom(mol.bonds[t.parentBond[a]], a));
+  if (atom.hydrogens === 1) written.push(-1);
+  for (const b of ringBondsInOrder) written.push(otherAtom(mol.bonds[b], a));
+  for (const b of t.children[a]) written.push(otherAtom(mol.bonds[b], a));
+
+  if (written.length !== input.length || written.some((n) => !input.includes(n))) return null;
+  const perm = written.map((n) => input.indexOf(n));
+  let inversions = 0;
+  for (let i = 0; i < perm.length; i++) for (let j = i + 1; j < perm.length; j++) if (perm[i] > perm[j]) inversions++;
+  const outClockwise = inversions % 2 === 0 ? clockwise : !clockwise;
+  return outClockwise ? "@@" : "@";
+}
+
+// Choose "/" "\" for the written form so each stereo double bond keeps its E/Z relation
+function assignDirectionalBonds(mol: Molecule, adj: number[][], t: Traversal) {
+  const result = new Map<number, { from: number; dir: number }>();
+  const position = new Map(t.order.map((a, i) => [a, i]));
+  const writtenFrom = (b: number): number => {
+    const bond = mol.bonds[b];
+    if (t.parentBond[bond.to] === b) return bond.from;
+    if (t.parentBond[bond.from] === b) return bond.to;
+    // Ring bonds are written at the closing atom, pointing back to the opening atom
+    return t.ringClose[bond.from].includes(b) ? bond.from : bond.to;
+  };
+  const configs = doubleBondConfigs(mol, adj).sort(
+    (x, y) =>
+      Math.min(position.get(mol.bonds[x.bond].from)!, position.get(mol.bonds[x.bond].to)!) -
+      Math.min(position.get(mol.bonds[y.bond].from)!, position.get(mol.bonds[y.bond].to)!),
+  );
+
+  for (const config of configs) {
+    const d = mol.bonds[config.bond];
+    const [p, q] = position.get(d.from)! < position.get(d.to)! ? [d.from, d.to] : [d.to, d.from];
+    const candidates = (center: number) =>
+      adj[center]
+        .filter((b) => b !== config.bond && isSingle(mol.bonds[b]))
+        .sort((x, y) => Number(result.has(y)) - Number(result.has(x)) || (x === t.parentBond[center] ? -1 : y === t.parentBond[center] ? 1 : 0));
+
+    const refP = candidates(p)[0];
+    if (refP === undefined) continue;
+    if (!result.has(refP)) {
+      const from = writtenFrom(refP);
+      result.set(refP, { from, dir: sideSign(mol.bonds[refP], p, 1, from) });
+    }
+    const sp = sideSign(mol.bonds[refP], p, result.get(refP)!.dir, result.get(refP)!.from);
+    const refPAtom = otherAtom(mol.bonds[refP], p);
+
+    for (const refQ of candidates(q)) {
+      const refQAtom = otherAtom(mol.bonds[refQ], q);
+      const trans = config.trans !== (refPAtom !== config.refs.get(p)) !== (refQAtom !== config.refs.get(q));
+      const wanted = trans ? -sp : sp;
+      const existing = result.get(refQ);
+      if (existing) {
+        if (sideSign(mol.bonds[refQ], q, existing.dir, existing.from) === wanted) break;
+        continue;
+      }
+      const from = writtenFrom(refQ);
+      result.set(refQ, { from, dir: sideSign(mol.bonds[refQ], q, 1, from) * wanted });
+      break;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,312 @@
+import { canonicalSmiles, standardizeMolecule } from "./canonical";
+import { type Atom, type Bond, type BondOrder, fragments, type Molecule, subMolecule } from "./molecule";
+import {
+  type AtomPrimitive,
+  type BondPrimitive,
+  type Expr,
+  parseSmarts,
+  prepareMolecule,
+  type SmartsQuery,
+  substructureMatches,
+} from "./smarts";
+import { implicitHydrogenCount } from "./smiles";
+
+/** Thrown for SMIRKS that parse as SMARTS but do not describe a usable transformation. */
+export class SmirksError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SmirksError";
+  }
+}
+
+/**
+ * A parsed SMIRKS transformation: one SMARTS query per reactant and per product component.
+ * Atoms carrying the same map number (`[C:1]`) on both sides are the same atom.
+ */
+export interface ReactionRule {
+  smirks: string;
+  reactants: SmartsQuery[];
+  products: SmartsQuery[];
+}
+
+/** A product fragment, with the product template component it came from (0 = main product). */
+export interface ReactionProduct {
+  molecule: Molecule;
+  smiles: string;
+  component: number;
+}
+
+// Split a SMARTS side into its "."-separated components, ignoring dots inside brackets and $()
+function splitComponents(side: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < side.length; i++) {
+    const ch = side[i];
+    if (ch === "[" || ch === "(") depth++;
+    else if (ch === "]" || ch === ")") depth--;
+    else if (ch === "." && depth === 0) {
+      parts.push(side.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(side.slice(start));
+  return parts.filter((p) => p.length > 0);
+}
+
+const mapNumbers = (queries: SmartsQuery[]) =>
+  queries.flatMap((q) => q.atoms.flatMap((a) => (a.atomClass ? [a.atomClass] : [])));
+
+/**
+ * Parse "reactants>>products" (or "reactants>agents>products"; agents are ignored). Each
+ * "."-separated reactant is matched against its own molecule. Mapped atoms keep their
+ * identity; unmapped reactant atoms are removed and unmapped product atoms are created.
+ */
+export function parseSmirks(smirks: string): ReactionRule {
+  const sides = smirks.split(">");
+  if (sides.length !== 3) throw new SmirksError('A SMIRKS needs the form "reactants>>products"');
+  const reactants = splitComponents(sides[0]).map(parseSmarts);
+  const products = splitComponents(sides[2]).map(parseSmarts);
+  if (reactants.length === 0 || products.length === 0) throw new SmirksError("A SMIRKS needs reactants and products");
+
+  for (const [side, maps] of [["reactant", mapNumbers(reactants)], ["product", mapNumbers(products)]] as const) {
+    const duplicate = maps.find((m, i) => maps.indexOf(m) !== i);
+    if (duplicate !== undefined) throw new SmirksError(`Map number ${duplicate} is used twice on the ${side} side`);
+  }
+  const reactantMaps = new Set(mapNumbers(reactants));
+  for (const product of products) {
+    for (const atom of product.atoms) {
+      if (atom.atomClass && !reactantMaps.has(atom.atomClass)) {
+        throw new SmirksError(`Product map number ${atom.atomClass} does not appear among the reactants`);
+      }
+      if (!atom.atomClass && atomSpec(atom.expr).element === undefined) {
+        throw new SmirksError(`Unmapped product atom at position ${atom.position + 1} needs an element`);
+      }
+    }
+  }
+  return { smirks, reactants, products };
+}
+
+interface AtomSpec {
+  element?: string;
+  aromatic?: boolean;
+  charge?: number;
+  hydrogens?: number;
+}
+
+// The properties a product template atom sets; only plain primitives joined by "&"/";" count
+function atomSpec(expr: Expr<AtomPrimitive>): AtomSpec {
+  const spec: AtomSpec = {};
+  const visit = (e: Expr<AtomPrimitive>) => {
+    if ("op" in e) {
+      if (e.op === "and") e.args.forEach(visit);
+      return;
+    }
+    if (e.kind === "element") {
+      spec.element = e.element;
+      if (e.aromatic !== null) spec.aromatic = e.aromatic;
+    } else if (e.kind === "charge") {
+      spec.charge = e.value;
+    } else if (e.kind === "totalH") {
+      spec.hydrogens = e.value;
+    }
+  };
+  visit(expr);
+  return spec;
+}
+
+function bondSpec(expr: Expr<BondPrimitive> | null): { order: BondOrder; aromatic: boolean } | null {
+  if (!expr || "op" in expr) return null;
+  switch (expr.kind) {
+    case "double":
+      return { order: 2, aromatic: false };
+    case "triple":
+      return { order: 3, aromatic: false };
+    case "aromatic":
+      return { order: 1, aromatic: true };
+    case "single":
+      return { order: 1, aromatic: false };
+    default:
+      return null;
+  }
+}
+
+// Valence a charge adds or takes away: carbocations and carbanions lose one, onium ions gain one
+const chargeShift = (element: string, charge: number) =>
+  element === "C" || element === "B" || element === "Si" ? -Math.abs(charge) : charge;
+
+const bondKey = (a: number, b: number) => (a < b ? `${a}-${b}` : `${b}-${a}`);
+
+// Apply one set of reactant matches to copies of the reactants; null when the edit is not possible
+function transform(rule: ReactionRule, reactants: Molecule[], matches: number[][]): ReactionProduct[] | null {
+  const atoms: Atom[] = [];
+  const bonds = new Map<string, Bond>();
+  const mapped = new Map<number, number>();
+  const matched = new Set<number>();
+  const removedBonds = new Map<string, Bond>();
+
+  const offsets = reactants.map((mol) => {
+    const offset = atoms.length;
+    atoms.push(...mol.atoms.map((a) => ({ ...a, atomClass: null })));
+    for (const b of mol.bonds) {
+      bonds.set(bondKey(b.from + offset, b.to + offset), { ...b, from: b.from + offset, to: b.to + offset });
+    }
+    return offset;
+  });
+  const bondSum = (i: number) => {
+    let sum = 0;
+    for (const b of bonds.values()) if (b.from === i || b.to === i) sum += b.order;
+    return sum;
+  };
+  const before = atoms.map((_, i) => bondSum(i));
+
+  offsets.forEach((offset, r) => {
+    const query = rule.reactants[r];
+    matches[r].forEach((target, q) => {
+      matched.add(target + offset);
+      const map = query.atoms[q].atomClass;
+      if (map) mapped.set(map, target + offset);
+    });
+    // Bonds the template spells out are rebuilt from the product side
+    for (const qb of query.bonds) {
+      const key = bondKey(matches[r][qb.from] + offset, matches[r][qb.to] + offset);
+      const bond = bonds.get(key);
+      if (bond) {
+        removedBonds.set(key, bond);
+        bonds.delete(key);
+      }
+    }
+  });
+
+  const productMaps = new Set(mapNumbers(rule.products));
+  const kept = new Set([...mapped].filter(([map]) => productMaps.has(map)).map(([, atom]) => atom));
+  const deleted = new Set([...matched].filter((i) => !kept.has(i)));
+
+  // Product atoms: mapped ones are updated in place, unmapped ones are appended
+  const component = new Map<number, number>();
+  const fixedH = new Set<number>();
+  const created: number[] = [];
+  const original = atoms.map((a) => ({ element: a.element, charge: a.charge, hydrogens: a.hydrogens }));
+  for (const [c, product] of rule.products.entries()) {
+    const indices = product.atoms.map((qa) => {
+      const spec = atomSpec(qa.expr);
+      let index: number;
+      if (qa.atomClass) {
+        index = mapped.get(qa.atomClass)!;
+      } else {
+        index = atoms.length;
+        atoms.push({
+          element: spec.element!,
+          aromatic: false,
+          isotope: null,
+          charge: 0,
+          hydrogens: 0,
+          bracket: true,
+          chirality: null,
+          atomClass: null,
+          position: 0,
+        });
+        created.push(index);
+      }
+      const atom = atoms[index];
+      if (spec.element !== undefined) atom.element = spec.element;
+      if (spec.aromatic !== undefined) atom.aromatic = spec.aromatic;
+      if (spec.charge !== undefined) atom.charge = spec.charge;
+      if (spec.hydrogens !== undefined) {
+        atom.hydrogens = spec.hydrogens;
+        fixedH.add(index);
+      }
+      if (!component.has(index)) component.set(index, c);
+      return index;
+    });
+    for (const qb of product.bonds) {
+      const [from, to] = [indices[qb.from], indices[qb.to]];
+      const key = bondKey(from, to);
+      const previous = removedBonds.get(key);
+      if (qb.expr === null) {
+        // An unwritten bond is single, or aromatic between aromatic atoms, as in SMILES
+        const aromatic = atoms[from].aromatic && atoms[to].aromatic;
+        bonds.set(key, aromatic && previous?.aromatic ? previous : { from, to, order: 1, aromatic, stereo: null });
+      } else {
+        // Query bonds such as "~" keep whatever the reactant had
+        const spec = bondSpec(qb.expr);
+        bonds.set(key, spec ? { from, to, ...spec, stereo: null } : (previous ?? { from, to, order: 1, aromatic: false, stereo: null }));
+      }
+    }
+  }
+
+  for (const i of deleted) {
+    for (const [key, b] of bonds) if (b.from === i || b.to === i) bonds.delete(key);
+  }
+
+  // Hydrogens follow the change in bonding and charge unless the template fixes them
+  for (let i = 0; i < atoms.length; i++) {
+    if (deleted.has(i) || fixedH.has(i)) continue;
+    const atom = atoms[i];
+    const sum = bondSum(i);
+    if (created.includes(i)) {
+      atom.hydrogens = implicitHydrogenCount(atom.element, atom.charge, atom.aromatic, sum);
+      continue;
+    }
+    if (!matched.has(i) && sum === before[i]) continue;
+    const shift = chargeShift(atom.element, atom.charge) - chargeShift(original[i].element, original[i].charge);
+    const hydrogens = original[i].hydrogens - (sum - before[i]) + shift;
+    if (hydrogens < 0) return null;
+    if (hydrogens !== atom.hydrogens || sum !== before[i]) {
+      atom.hydrogens = hydrogens;
+      atom.chirality = null;
+      delete atom.chiralNeighbors;
+    }
+  }
+
+  // Renumber without the deleted atoms and split into product molecules
+  const keep = atoms.map((_, i) => i).filter((i) => !deleted.has(i));
+  const result = subMolecule({ atoms, bonds: [...bonds.values()] }, keep);
+  return fragments(result).map((part) => {
+    const molecule = subMolecule(result, part);
+    const components = part.flatMap((i) => component.get(keep[i]) ?? []);
+    return {
+      molecule,
+      smiles: canonicalSmiles(molecule),
+      component: components.length > 0 ? Math.min(...components) : rule.products.length,
+    };
+  });
+}
+
+/**
+ * Apply a reaction rule to reactants given in template order, one molecule per reactant
+ * template. Every combination of matches is tried; product sets that give the same canonical
+ * SMILES are reported once, main products (first product component) first.
+ */
+export function applyReaction(
+  rule: ReactionRule | string,
+  reactants: Molecule[],
+  { maxOutcomes = 50 }: { maxOutcomes?: number } = {},
+): ReactionProduct[][] {
+  const parsed = typeof rule === "string" ? parseSmirks(rule) : rule;
+  if (reactants.length !== parsed.reactants.length) return [];
+  const molecules = reactants.map((m) => prepareMolecule(standardizeMolecule(m)).mol);
+  const matchLists = molecules.map((mol, i) =>
+    substructureMatches(mol, parsed.reactants[i], { maxMatches: 100, uniquify: false }),
+  );
+  if (matchLists.some((list) => list.length === 0)) return [];
+
+  const outcomes: ReactionProduct[][] = [];
+  const seen = new Set<string>();
+  const choose = (r: number, chosen: number[][]) => {
+    if (outcomes.length >= maxOutcomes) return;
+    if (r === molecules.length) {
+      const products = transform(parsed, molecules, chosen);
+      if (!products) return;
+      products.sort((a, b) => a.component - b.component || a.smiles.localeCompare(b.smiles));
+      const key = products.map((p) => `${p.component}:${p.smiles}`).join(".");
+      if (seen.has(key)) return;
+      seen.add(key);
+      outcomes.push(products);
+      return;
+    }
+    for (const match of matchLists[r]) choose(r + 1, [...chosen, match]);
+  };
+  choose(0, []);
+  return outcomes;
+}
@@ -0,0 +1,42 @@
+import { type Bond, type Molecule, otherAtom } from "./molecule";
+
+// Directional bond marks: "up" (/) and "down" (\) as signs
+export const UP = 1;
+export const DOWN = -1;
+
+/**
+ * A stereo double bond: `refs` maps each end atom to the substituent its "/" "\" mark was
+ * written on, and `trans` says whether those two substituents are on opposite sides.
+ */
+export type DoubleBondConfig = { bond: number; refs: Map<number, number>; trans: boolean };
+
+// Which side of the double bond a directional bond puts its substituent on, seen from `center`
+export function sideSign(bond: Bond, center: number, dir: number, writtenFrom = bond.from): number {
+  const writtenTo = writtenFrom === bond.from ? bond.to : bond.from;
+  return (writtenTo === center ? 1 : -1) * dir;
+}
+
+export const isSingle = (bond: Bond) => bond.order === 1 && !bond.aromatic;
+
+export function doubleBondConfigs(mol: Molecule, adj: number[][]): DoubleBondConfig[] {
+  const configs: DoubleBondConfig[] = [];
+  mol.bonds.forEach((d, idx) => {
+    if (d.order !== 2 || d.aromatic) return;
+    const refFor = (center: number) =>
+      adj[center].find((b) => b !== idx && isSingle(mol.bonds[b]) && mol.bonds[b].stereo !== null);
+    const ba = refFor(d.from);
+    const bb = refFor(d.to);
+    if (ba === undefined || bb === undefined) return;
+    const sa = sideSign(mol.bonds[ba], d.from, mol.bonds[ba].stereo === "up" ? UP : DOWN);
+    const sb = sideSign(mol.bonds[bb], d.to, mol.bonds[bb].stereo === "up" ? UP : DOWN);
+    configs.push({
+      bond: idx,
+      refs: new Map([
+        [d.from, otherAtom(mol.bonds[ba], d.from)],
+        [d.to, otherAtom(mol.bonds[bb], d.to)],
+      ]),
+      trans: sa !== sb,
+    });
+  });
+  return configs;
+}
@@ -0,0 +1,253 @@
+import { canonicalSmiles } from "./canonical";
+import { formatCharge, hillFormula } from "./formula";
+import { elementCounts, fragments, netCharge, subMolecule } from "./molecule";
+import { tryParseSmiles } from "./smiles";
+
+/** One species in a balanced equation. */
+export interface StoichiometricTerm {
+  smiles: string;
+  /** Hill formula with charge ("C2H6O", "OH-"). */
+  formula: string;
+  coefficient: number;
+  /** An agent (solute, reagent or solvent) that turned out to take part. */
+  agent: boolean;
+}
+
+export interface BalanceResult {
+  balanced: boolean;
+  /** Coefficients in input order; all zero when the reaction cannot be balanced. */
+  reactantCoefficients: number[];
+  productCoefficients: number[];
+  /** The balanced equation, agents that take part included; empty when unbalanced. */
+  reactantTerms: StoichiometricTerm[];
+  productTerms: StoichiometricTerm[];
+  /** False when the species allow several independent balanced equations; the smallest is given. */
+  unique: boolean;
+  /** Formula equation ("C2H4O2 + C2H6O → C4H8O2 + H2O"), or why the reaction cannot be balanced. */
+  equation: string;
+  /** Element (or "charge") totals per side with every coefficient 1, for the ones that differ. */
+  imbalance: Array<{ element: string; reactants: number; products: number }>;
+}
+
+interface Species {
+  smiles: string;
+  /** Canonical SMILES, to recognise an agent that is already listed. */
+  key: string;
+  formula: string;
+  counts: Record<string, number>;
+}
+
+// Largest coefficient tried for each free species; beyond this the equation is reported unbalanced
+const MAX_COEFFICIENT = 12;
+// Agent fragments considered as extra reactants, and independent equations searched; more would be too slow
+const MAX_AGENT_FRAGMENTS = 6;
+const MAX_FREE = 3;
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+// Exact rationals as [numerator, denominator] with a positive denominator
+type Rational = [number, number];
+const rational = (n: number, d = 1): Rational => {
+  const g = gcd(n, d) || 1;
+  return d < 0 ? [-n / g, -d / g] : [n / g, d / g];
+};
+const sub = (a: Rational, b: Rational) => rational(a[0] * b[1] - b[0] * a[1], a[1] * b[1]);
+const mul = (a: Rational, b: Rational) => rational(a[0] * b[0], a[1] * b[1]);
+const div = (a: Rational, b: Rational) => rational(a[0] * b[1], a[1] * b[0]);
+
+function species(smiles: string, mol = tryParseSmiles(smiles.trim())): Species | null {
+  if (!mol || mol.atoms.length === 0) return null;
+  const counts = elementCounts(mol);
+  const charge = netCharge(mol);
+  const formula = `${hillFormula(counts)}${formatCharge(charge)}`;
+  if (charge !== 0) counts.charge = charge;
+  return { smiles: smiles.trim(), key: canonicalSmiles(mol), formula, counts };
+}
+
+/**
+ * Smallest positive integer solution of the conservation equations, where reactant columns
+ * count positive and product columns negative. Reduced row echelon form gives the pivot
+ * coefficients in terms of the free ones; free coefficients are tried smallest total first.
+ */
+function solve(columns: Species[], sides: number[]): { coefficients: number[]; unique: boolean } | null {
+  const keys = [...new Set(columns.flatMap((s) => Object.keys(s.counts)))];
+  const n = columns.length;
+  const rows: Rational[][] = keys.map((k) => columns.map((s, j) => rational((s.counts[k] ?? 0) * sides[j])));
+
+  const pivots: number[] = [];
+  let r = 0;
+  for (let c = 0; c < n && r < rows.length; c++) {
+    const p = rows.findIndex((row, i) => i >= r && row[c][0] !== 0);
+    if (p < 0) continue;
+    [rows[r], rows[p]] = [rows[p], rows[r]];
+    const lead = rows[r][c];
+    rows[r] = rows[r].map((x) => div(x, lead));
+    for (let i = 0; i < rows.length; i++) {
+      if (i === r || rows[i][c][0] === 0) continue;
+      const factor = rows[i][c];
+      rows[i] = rows[i].map((x, j) => sub(x, mul(factor, rows[r][j])));
+    }
+    pivots.push(c);
+    r++;
+  }
+  const free = [...Array(n).keys()].filter((c) => !pivots.includes(c));
+  if (free.length === 0 || free.length > MAX_FREE) return null;
+
+  // Free coefficient vectors in order of increasing sum, each entry 1..MAX_COEFFICIENT
+  for (let total = free.length; total <= MAX_COEFFICIENT * free.length; total++) {
+    const found = tryTotal(free.length, total, (values) => {
+      const x: Rational[] = Array(n).fill(rational(0));
+      free.forEach((c, i) => (x[c] = rational(values[i])));
+      pivots.forEach((c, row) => {
+        let value = rational(0);
+        for (const f of free) value = sub(value, mul(rows[row][f], x[f]));
+        x[c] = value;
+      });
+      if (x.some((v) => v[0] <= 0)) return null;
+      const scale = x.reduce((l, v) => (l * v[1]) / gcd(l, v[1]), 1);
+      const ints = x.map((v) => (v[0] * scale) / v[1]);
+      const g = ints.reduce(gcd);
+      return ints.map((v) => v / g);
+    });
+    if (found) return { coefficients: found, unique: free.length === 1 };
+  }
+  return null;
+}
+
+// Call test on every vector of `length` integers in 1..MAX_COEFFICIENT summing to `total`
+function tryTotal(length: number, total: number, test: (values: number[]) => number[] | null): number[] | null {
+  const values: number[] = [];
+  const step = (remaining: number): number[] | null => {
+    if (values.length === length - 1) {
+      if (remaining < 1 || remaining > MAX_COEFFICIENT) return null;
+      return test([...values, remaining]);
+    }
+    for (let v = 1; v <= Math.min(MAX_COEFFICIENT, remaining - (length - values.length - 1)); v++) {
+      values.push(v);
+      const result = step(remaining - v);
+      values.pop();
+      if (result) return result;
+    }
+    return null;
+  };
+  return step(total);
+}
+
+const term = (s: Species, coefficient: number, agent: boolean): StoichiometricTerm => ({
+  smiles: s.smiles,
+  formula: s.formula,
+  coefficient,
+  agent,
+});
+
+/** "2 H2 + O2 → 2 H2O" from balanced terms; a coefficient of 1 is left out. */
+export function formatEquation(reactants: StoichiometricTerm[], products: StoichiometricTerm[]): string {
+  const side = (terms: StoichiometricTerm[]) =>
+    terms.map((t) => `${t.coefficient === 1 ? "" : `${t.coefficient} `}${t.formula}`).join(" + ");
+  return `${side(reactants)} → ${side(products)}`;
+}
+
+/**
+ * Balance a reaction with the smallest integer coefficients that conserve every element and
+ * the net charge. Reactants and products must all take part. Agents (solutes, reagents, the
+ * solvent) may: each of their "." fragments is tried as an extra reactant, fewest first, so
+ * water from an aqueous solvent or hydroxide from NaOH can close the balance while spectator
+ * ions stay out.
+ */
+export function balanceReaction({
+  reactants,
+  agents = [],
+  products,
+}: {
+  reactants: string[];
+  agents?: string[];
+  products: string[];
+}): BalanceResult {
+  const left = reactants.map((s) => species(s));
+  const right = products.map((s) => species(s));
+  const unbalanced = (equation: string, imbalance: BalanceResult["imbalance"] = []): BalanceResult => ({
+    balanced: false,
+    reactantCoefficients: reactants.map(() => 0),
+    productCoefficients: products.map(() => 0),
+    reactantTerms: [],
+    productTerms: [],
+    unique: false,
+    equation,
+    imbalance,
+  });
+
+  const invalid = [...reactants, ...products].find((_, i) => [...left, ...right][i] === null);
+  if (invalid !== undefined) return unbalanced(`Cannot balance: "${invalid}" is not a valid structure`);
+  if (left.length === 0 || right.length === 0) return unbalanced("Cannot balance: a reaction needs reactants and products");
+  const reactantSpecies = left as Species[];
+  const productSpecies = right as Species[];
+
+  // Agent fragments not already listed, each once
+  const listed = new Set([...reactantSpecies, ...productSpecies].map((s) => s.key));
+  const agentSpecies: Species[] = [];
+  for (const agent of agents) {
+    const mol = tryParseSmiles(agent.trim());
+    if (!mol) continue;
+    for (const part of fragments(mol)) {
+      const fragment = subMolecule(mol, part);
+      const s = species(canonicalSmiles(fragment), fragment);
+      if (s && !listed.has(s.key)) {
+        listed.add(s.key);
+        agentSpecies.push(s);
+      }
+    }
+  }
+  const candidates = agentSpecies.slice(0, MAX_AGENT_FRAGMENTS);
+
+  const subsets: number[][] = [[]];
+  for (let i = 0; i < candidates.length; i++) subsets.push(...subsets.map((s) => [...s, i]));
+  subsets.sort((a, b) => a.length - b.length);
+
+  for (const subset of subsets) {
+    const extra = subset.map((i) => candidates[i]);
+    const columns = [...reactantSpecies, ...extra, ...productSpecies];
+    const sides = columns.map((_, j) => (j < reactantSpecies.length + extra.length ? 1 : -1));
+    const solution = solve(columns, sides);
+    if (!solution) continue;
+    const { coefficients, unique } = solution;
+    const reactantCoefficients = coefficients.slice(0, reactantSpecies.length);
+    const agentCoefficients = coefficients.slice(reactantSpecies.length, reactantSpecies.length + extra.length);
+    const productCoefficients = coefficients.slice(reactantSpecies.length + extra.length);
+    const reactantTerms = [
+      ...reactantSpecies.map((s, i) => term(s, reactantCoefficients[i], false)),
+      ...extra.map((s, i) => term(s, agentCoefficients[i], true)),
+    ];
+    const productTerms = productSpecies.map((s, i) => term(s, productCoefficients[i], false));
+    return {
+      balanced: true,
+      reactantCoefficients,
+      productCoefficients,
+      reactantTerms,
+      productTerms,
+      unique,
+      equation: formatEquation(reactantTerms, productTerms),
+      imbalance: [],
+    };
+  }
+
+  // Explain with unit coefficients: which totals differ, and what exists on one side only
+  const totals = (list: Species[]) => {
+    const sum: Record<string, number> = {};
+    for (const s of list) for (const [k, v] of Object.entries(s.counts)) sum[k] = (sum[k] ?? 0) + v;
+    return sum;
+  };
+  const before = totals(reactantSpecies);
+  const after = totals(productSpecies);
+  const imbalance = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter((k) => (before[k] ?? 0) !== (after[k] ?? 0))
+    .map((element) => ({ element, reactants: before[element] ?? 0, products: after[element] ?? 0 }));
+  const available = totals([...reactantSpecies, ...candidates]);
+  const missing = Object.keys(after).filter((k) => k !== "charge" && !(k in available));
+  const lost = Object.keys(before).filter((k) => k !== "charge" && !(k in after));
+  const reason = missing.length
+    ? `${missing.join(", ")} appear${missing.length === 1 ? "s" : ""} only among the products`
+    : lost.length
+      ? `${lost.join(", ")} appear${lost.length === 1 ? "s" : ""} only among the reactants`
+      : `no positive coefficients conserve ${imbalance.map((i) => i.element).join(", ") || "every element"}`;
+  return unbalanced(`Cannot balance: ${reason}`, imbalance);
+}
@@ -0,0 +1,501 @@
+import { canonicalSmiles, standardizeMolecule } from "./canonical";
+import { formulaFromSmiles } from "./formula";
+import { GAS_CONSTANT } from "./kinetics";
+import { adjacency, fragments, type Molecule, otherAtom, subMolecule } from "./molecule";
+import { smallestRings } from "./rings";
+import { tryParseSmiles } from "./smiles";
+import { type BalanceResult, balanceReaction } from "./stoichiometry";
+
+/** Standard thermochemistry of one species at 298.15 K and 1 bar. */
+export interface SpeciesThermo {
+  smiles: string;
+  /** Standard enthalpy of formation, kJ/mol. */
+  enthalpy: number;
+  /** Standard entropy, J/(mol·K). */
+  entropy: number;
+  /** Heat capacity at 298 K, J/(mol·K). */
+  heatCapacity: number;
+  /** Cp(T) = a + b·T in J/(mol·K), fitted through the 300 K and 800 K values. */
+  cp: { a: number; b: number };
+  /** "reference" for tabulated small molecules and ions, "groups" for group additivity. */
+  source: "reference" | "groups";
+  /** Benson groups and corrections with their counts; empty for reference values. */
+  groups: Array<{ group: string; count: number }>;
+}
+
+/** Heat release class from the adiabatic temperature rise, after Stoessel's severity scale. */
+export type ExothermSeverity = "endothermic" | "low" | "medium" | "high";
+
+export interface ReactionThermo {
+  /** False when the equation does not balance and every coefficient was taken as 1. */
+  balanced: boolean;
+  /** Kelvin. */
+  temperature: number;
+  /** Reaction enthalpy at the temperature, kJ per mole of reaction as balanced. */
+  enthalpy: number;
+  /** Reaction entropy at the temperature, J/(mol·K). */
+  entropy: number;
+  /** Reaction Gibbs energy at the temperature, kJ/mol. */
+  gibbs: number;
+  /** Heat released per kilogram of reaction mass, kJ/kg; negative for endothermic reactions. */
+  specificEnergy: number;
+  /** Temperature rise if the heat stays in the reaction mass, K. */
+  adiabaticRise: number;
+  /** mol/L per unit coefficient the reaction mass is taken at. */
+  concentration: number;
+  severity: ExothermSeverity;
+  species: Array<SpeciesThermo & { coefficient: number; side: "reactant" | "product" }>;
+}
+
+const REFERENCE_TEMPERATURE = 298.15;
+const CALORIE = 4.184;
+// Specific heat (J/(g·K)) and density (kg/L) of an organic reaction solution, for the adiabatic temperature rise
+const REACTION_MASS_CP = 1.8;
+const SOLUTION_DENSITY = 0.9;
+// Stoessel's severity limits on the adiabatic temperature rise, K
+const MEDIUM_RISE = 50;
+const HIGH_RISE = 200;
+
+/**
+ * Benson group values as tabulated: ΔHf° (kcal/mol), S° (cal/(mol·K)) and Cp at 300 K and
+ * 800 K (cal/(mol·K)). A group is its centre atom and the neighbours other than the partner
+ * of its double or triple bond: C sp3 carbon, Cd alkene, Ct alkyne, Cb aromatic carbon, CO
+ * carbonyl carbon (its =O included), CN nitrile carbon (its ≡N included).
+ */
+const GROUPS: Record<string, [number, number, number, number]> = {
+  "C-(C)(H)3": [-10.2, 30.41, 6.19, 13.02],
+  "C-(C)2(H)2": [-4.93, 9.42, 5.5, 11.07],
+  "C-(C)3(H)": [-1.9, -12.07, 4.54, 9.31],
+  "C-(C)4": [0.5, -35.1, 4.37, 8.77],
+  "C-(Cd)(C)(H)2": [-4.76, 9.8, 5.12, 10.94],
+  "C-(Cb)(C)(H)2": [-4.86, 9.34, 5.84, 11.5],
+  "C-(CO)(C)(H)2": [-5.2, 9.6, 6.2, 11.5],
+  "Cd-(H)2": [6.26, 27.61, 5.1, 10.07],
+  "Cd-(C)(H)": [8.59, 7.97, 4.16, 7.65],
+  "Cd-(C)2": [10.34, -12.7, 4.1, 5.8],
+  "Cd-(Cd)(H)": [6.78, 6.38, 4.46, 8.35],
+  "Cd-(Cb)(H)": [6.78, 6.38, 4.46, 8.35],
+  "Cd-(CO)(H)": [5.0, 6.38, 4.46, 8.35],
+  "Cd-(Cl)(H)": [-1.2, 35.5, 7.9, 10.5],
+  "Ct-(H)": [26.93, 24.7, 5.27, 7.47],
+  "Ct-(C)": [27.55, 6.35, 3.13, 4.6],
+  "Cb-(H)": [3.3, 11.53, 3.24, 7.54],
+  "Cb-(C)": [5.51, -7.69, 2.67, 4.96],
+  "Cb-(Cd)": [5.68, -7.8, 3.59, 5.2],
+  "Cb-(Cb)": [4.96, -8.64, 3.33, 5.4],
+  "Cb-(CO)": [3.7, -7.7, 2.67, 4.96],
+  "Cb-(O)": [-0.9, -10.2, 3.9, 5.6],
+  "Cb-(N)": [-0.5, -9.69, 3.95, 5.4],
+  "Cb-(F)": [-42.8, 16.1, 6.3, 8.5],
+  "Cb-(Cl)": [-3.8, 18.9, 7.4, 8.9],
+  "Cb-(Br)": [10.7, 21.6, 7.5, 9.0],
+  "Cb-(I)": [24.0, 23.7, 7.7, 9.0],
+  Cbf: [1.2, -5.0, 3.0, 4.6],
+  // Pyridine-type aromatic nitrogen
+  Nb: [16.7, 10.8, 2.0, 3.9],
+  "O-(C)(H)": [-37.9, 29.07, 4.3, 6.02],
+  "O-(C)2": [-23.2, 8.68, 3.4, 4.4],
+  "O-(CO)(H)": [-58.1, 24.52, 3.81, 7.19],
+  "O-(CO)(C)": [-43.1, 8.39, 3.9, 5.0],
+  "O-(O)(H)": [-16.27, 27.85, 5.21, 7.6],
+  "O-(O)(C)": [-4.5, 9.4, 3.7, 5.0],
+  "C-(O)(H)3": [-10.08, 30.41, 6.19, 13.02],
+  "C-(O)(C)(H)2": [-8.1, 9.8, 4.99, 11.11],
+  "C-(O)(C)2(H)": [-7.2, -11.0, 4.8, 9.81],
+  "C-(O)(C)3": [-6.6, -33.56, 4.33, 8.1],
+  "CO-(C)(H)": [-29.1, 34.9, 7.03, 11.2],
+  "CO-(C)2": [-31.4, 15.0, 5.6, 8.9],
+  "CO-(O)(C)": [-35.1, 14.78, 5.97, 8.87],
+  "CO-(O)(H)": [-32.1, 34.9, 7.03, 11.2],
+  "CO-(N)(H)": [-29.6, 34.93, 7.03, 11.2],
+  "CO-(N)(C)": [-32.8, 16.2, 5.37, 8.9],
+  "CN-(C)": [27.9, 30.4, 6.3, 7.2],
+  "N-(C)(H)2": [4.8, 29.71, 5.72, 9.41],
+  "N-(C)2(H)": [15.4, 8.94, 4.2, 7.9],
+  "N-(C)3": [24.4, -13.46, 3.48, 5.5],
+  "N-(CO)(H)2": [-14.9, 24.69, 4.07, 7.5],
+  "N-(CO)(C)(H)": [-4.4, 4.8, 3.9, 6.0],
+  "C-(N)(H)3": [-10.08, 30.41, 6.19, 13.02],
+  "C-(N)(C)(H)2": [-6.6, 9.8, 5.25, 11.0],
+  "C-(N)(C)2(H)": [-5.2, -11.7, 4.67, 9.7],
+  "C-(N)(C)3": [-3.2, -34.1, 4.35, 8.5],
+  "C-(F)(C)(H)2": [-51.8, 35.4, 8.1, 13.5],
+  "C-(F)3(C)": [-158.4, 42.5, 12.7, 19.6],
+  "C-(Cl)(H)3": [-19.6, 58.2, 9.74, 14.1],
+  "C-(Cl)(C)(H)2": [-15.6, 37.8, 8.9, 14.3],
+  "C-(Cl)(C)2(H)": [-14.8, 17.6, 8.6, 12.4],
+  "C-(Cl)(C)3": [-12.9, -5.4, 9.0, 11.0],
+  "C-(Br)(H)3": [-8.5, 61.0, 10.1, 14.6],
+  "C-(Br)(C)(H)2": [-5.4, 40.8, 9.0, 14.5],
+  "C-(Br)(C)2(H)": [-3.4, 19.8, 8.9, 12.5],
+  "C-(Br)(C)3": [-0.4, -2.0, 9.3, 11.2],
+  "C-(I)(H)3": [3.4, 62.9, 10.5, 14.8],
+  "C-(I)(C)(H)2": [8.0, 43.0, 9.2, 14.6],
+};
+
+/** Ring strain corrections, ΔH (kcal/mol) and S (cal/(mol·K)), by ring size; aromatic rings need none. */
+const RING_CORRECTIONS: Record<number, [number, number]> = {
+  3: [27.6, 32.1],
+  4: [26.2, 29.8],
+  5: [6.3, 27.3],
+  6: [0, 18.8],
+  7: [6.4, 15.9],
+  8: [9.9, 16.9],
+};
+const UNSATURATED_RING_CORRECTIONS: Record<number, [number, number]> = {
+  3: [53.7, 33.6],
+  4: [29.8, 29.0],
+  5: [5.9, 25.8],
+  6: [1.4, 21.5],
+};
+
+/**
+ * Tabulated species that group additivity does not cover: ΔHf° (kJ/mol), S° (J/(mol·K)) and
+ * Cp at 298 K and 800 K (J/(mol·K)). Molecules are ideal gases; ions are the aqueous standard
+ * values (H+ = 0), so their Cp is taken as constant.
+ */
+const REFERENCE_SPECIES: Array<[string, number, number, number, number]> = [
+  ["[H][H]", 0, 130.68, 28.84, 29.62],
+  ["O=O", 0, 205.15, 29.38, 33.74],
+  ["N#N", 0, 191.61, 29.12, 31.43],
+  ["ClCl", 0, 223.08, 33.95, 37.0],
+  ["BrBr", 30.91, 245.47, 36.05, 37.7],
+  ["II", 62.42, 260.69, 36.89, 38.0],
+  ["O", -241.83, 188.84, 33.59, 38.74],
+  ["OO", -136.11, 232.99, 43.22, 54.0],
+  ["C", -74.6, 186.25, 35.69, 63.2],
+  ["N", -45.94, 192.77, 35.63, 48.2],
+  ["S", -20.6, 205.81, 34.19, 42.0],
+  ["Cl", -92.31, 186.9, 29.14, 30.5],
+  ["Br", -36.29, 198.7, 29.14, 31.3],
+  ["I", 26.5, 206.59, 29.16, 31.7],
+  ["F", -273.3, 173.78, 29.14, 29.9],
+  ["C#N", 135.1, 201.8, 35.9, 44.0],
+  ["C=O", -108.6, 218.95, 35.39, 52.3],
+  ["O=CO", -378.6, 248.7, 45.2, 70.0],
+  ["CO", -201.0, 239.9, 44.1, 76.4],
+  ["O=C=O", -393.51, 213.79, 37.12, 51.43],
+  ["[C-]#[O+]", -110.53, 197.66, 29.14, 31.9],
+  ["O=S=O", -296.84, 248.22, 39.87, 51.1],
+  ["O=S(=O)(O)O", -735.13, 298.8, 83.7, 120.0],
+  ["O=[N+]([O-])O", -134.3, 266.9, 53.4, 80.0],
+  ["[H+]", 0, 0, 0, 0],
+  ["[OH-]", -230.0, -10.9, -148.5, -148.5],
+  ["[Li+]", -278.5, 13.4, 68.6, 68.6],
+  ["[Na+]", -240.1, 59.0, 46.4, 46.4],
+  ["[K+]", -252.4, 102.5, 21.8, 21.8],
+  ["[NH4+]", -132.5, 113.4, 79.9, 79.9],
+  ["[F-]", -332.6, -13.8, -106.7, -106.7],
+  ["[Cl-]", -167.2, 56.5, -136.4, -136.4],
+  ["[Br-]", -121.6, 82.4, -141.8, -141.8],
+  ["[I-]", -55.2, 111.3, -142.3, -142.3],
+  ["[C-]#N", 150.6, 94.1, 0, 0],
+  ["CC(=O)[O-]", -486.0, 86.6, -6.3, -6.3],
+  ["O=C([O-])[O-]", -677.1, -56.9, 0, 0],
+  ["O=C([O-])O", -692.0, 91.2, 0, 0],
+  ["[O-]S(=O)(=O)[O-]", -909.3, 20.1, -293.0, -293.0],
+  ["[O-][N+](=O)[O-]", -207.4, 146.4, -86.6, -86.6],
+  ["[Fe+2]", -89.1, -137.7, 0, 0],
+  ["[Fe+3]", -48.5, -315.9, 0, 0],
+  ["[Cu+2]", 64.8, -99.6, 0, 0],
+  ["[Zn+2]", -153.9, -112.1, 46.0, 46.0],
+  ["[Mn+2]", -220.8, -73.6, 50.0, 50.0],
+  ["[O-][Mn](=O)(=O)=O", -541.4, 191.2, -82.0, -82.0],
+];
+
+// Two-point linear fit of Cp(T)
+const linearCp = (cp300: number, cp800: number, low = 300) => {
+  const b = (cp800 - cp300) / (800 - low);
+  return { a: cp300 - b * low, b };
+};
+
+let referenceTable: Map<string, SpeciesThermo> | null = null;
+
+function references(): Map<string, SpeciesThermo> {
+  referenceTable ??= new Map(
+    REFERENCE_SPECIES.map(([smiles, enthalpy, entropy, cp298, cp800]) => {
+      const key = canonicalSmiles(smiles);
+      return [
+        key,
+        { smiles: key, enthalpy, entropy, heatCapacity: cp298, cp: linearCp(cp298, cp800, 298), source: "reference", groups: [] },
+      ];
+    }),
+  );
+  return referenceTable;
+}
+
+const HALOGENS = new Set(["F", "Cl", "Br", "I"]);
+// Neighbour order in group names, heteroatoms first as in Benson's tables
+const LABEL_ORDER = ["F", "Cl", "Br", "I", "O", "N", "S", "CO", "CN", "Cd", "Ct", "Cb", "C", "H"];
+
+/**
+ * Benson group names for each polyvalent atom of one connected molecule, plus the ring
+ * corrections; atoms that fit no group get a name the table does not have, so the caller
+ * can report it.
+ */
+function groupsOf(mol: Molecule): string[] {
+  const adj = adjacency(mol);
+  const bondsOf = (a: number) => adj[a].map((b) => ({ bond: mol.bonds[b], other: otherAtom(mol.bonds[b], a) }));
+
+  // Oxygen doubly bonded to a carbon, or nitrogen triply bonded to one, belongs to that carbon's group
+  const absorbed = new Set<number>();
+  const label = mol.atoms.map((atom, a) => {
+    const multiple = bondsOf(a).filter(({ bond }) => bond.order > 1 && !bond.aromatic);
+    if (atom.element !== "C") {
+      // Aromatic heteroatoms are Nb, Ob, …; of those only pyridine-type Nb has values, as do
+      // none of the charged or multiply bonded heteroatoms
+      if (atom.charge !== 0) return `${atom.element}${atom.charge > 0 ? "+" : "-"}`;
+      if (atom.aromatic) return `${atom.element}b`;
+      return multiple.length > 0 ? `${atom.element}d` : atom.element;
+    }
+    if (atom.charge !== 0) return "C*";
+    if (atom.aromatic) return "Cb";
+    for (const { bond, other } of multiple) {
+      const element = mol.atoms[other].element;
+      if (bond.order === 2 && element === "O") {
+        absorbed.add(other);
+        return "CO";
+      }
+      if (bond.order === 3 && element === "N") {
+        absorbed.add(other);
+        return "CN";
+      }
+    }
+    if (multiple.some(({ other }) => mol.atoms[other].element !== "C")) return "C=X";
+    if (multiple.some(({ bond }) => bond.order === 3)) return "Ct";
+    if (multiple.length > 0) return "Cd";
+    return "C";
+  });
+
+  const groups: string[] = [];
+  mol.atoms.forEach((atom, a) => {
+    if (HALOGENS.has(atom.element) || absorbed.has(a)) return;
+    const neighbours: string[] = [];
+    for (const { bond, other } of bondsOf(a)) {
+      if (absorbed.has(other)) continue;
+      // The double or triple bond partner is implied by the centre's own label
+      if (bond.order > 1 && !bond.aromatic) continue;
+      if (atom.aromatic && bond.aromatic) continue;
+      neighbours.push(label[other]);
+    }
+    for (let h = 0; h < atom.hydrogens; h++) neighbours.push("H");
+    // A ring-fusion carbon of a polycyclic aromatic, or a pyridine-type nitrogen, has only aromatic neighbours
+    if (neighbours.length === 0 && atom.aromatic) groups.push(label[a] === "Cb" ? "Cbf" : label[a]);
+    else groups.push(`${label[a]}-${groupSuffix(neighbours)}`);
+  });
+
+  for (const ring of smallestRings(mol)) {
+    if (ring.atoms.every((a) => mol.atoms[a].aromatic)) continue;
+    const unsaturated = ring.bonds.some((b) => mol.bonds[b].order === 2);
+    groups.push(`${unsaturated ? "ring-ene" : "ring"}-${ring.atoms.length}`);
+  }
+  return groups;
+}
+
+function groupSuffix(neighbours: string[]): string {
+  const counts = new Map<string, number>();
+  for (const n of neighbours) counts.set(n, (counts.get(n) ?? 0) + 1);
+  const rank = (l: string) => (LABEL_ORDER.includes(l) ? LABEL_ORDER.indexOf(l) : LABEL_ORDER.length);
+  return [...counts.entries()]
+    .sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b))
+    .map(([l, n]) => `(${l})${n > 1 ? n : ""}`)
+    .join("");
+}
+
+/**
+ * Values for a group: exact when tabulated, else with unsaturated and aromatic carbon
+ * neighbours read as sp3 carbon (Benson's own approximation for C-(Cd)(H)3 and the like;
+ * carbonyl neighbours only next to an sp3 carbon, where it holds too). Ring corrections in
+ * kcal/cal with no Cp part. Null for a group without values.
+ */
+function groupValues(group: string): [number, number, number, number] | null {
+  const ring = /^ring(-ene)?-(\d+)$/.exec(group);
+  if (ring) {
+    const values = (ring[1] ? UNSATURATED_RING_CORRECTIONS : RING_CORRECTIONS)[Number(ring[2])] ?? RING_CORRECTIONS[Number(ring[2])];
+    return values ? [values[0], values[1], 0, 0] : null;
+  }
+  if (GROUPS[group]) return GROUPS[group];
+  const dash = group.indexOf("-");
+  const centre = group.slice(0, dash);
+  const like = new Set(centre === "C" ? ["Cd", "Ct", "Cb", "CO", "CN"] : ["Cd", "Ct", "Cb"]);
+  const neighbours = [...group.slice(dash + 1).matchAll(/\(([^)]+)\)(\d*)/g)].flatMap(([, l, n]) =>
+    Array<string>(Number(n || 1)).fill(l),
+  );
+  const generic = `${centre}-${groupSuffix(neighbours.map((l) => (like.has(l) ? "C" : l)))}`;
+  return GROUPS[generic] ?? null;
+}
+
+// Internal rotors with threefold symmetry: sp3 centres with three identical terminal substituents
+function rotorSymmetry(mol: Molecule): number {
+  const adj = adjacency(mol);
+  let sigma = 1;
+  mol.atoms.forEach((atom, a) => {
+    if (atom.element !== "C" || atom.aromatic || adj[a].some((b) => mol.bonds[b].order > 1)) return;
+    const heavy = adj[a].map((b) => mol.atoms[otherAtom(mol.bonds[b], a)]);
+    if (heavy.length !== 1 && heavy.length !== 4) return;
+    const terminal = [...Array<string>(atom.hydrogens).fill("H"), ...heavy.filter((n) => HALOGENS.has(n.element)).map((n) => n.element)];
+    if (terminal.length >= 3 && new Set(terminal).size === 1) sigma *= 3;
+  });
+  return sigma;
+}
+
+function fragmentThermo(mol: Molecule): SpeciesThermo | null {
+  const smiles = canonicalSmiles(mol);
+  const reference = references().get(smiles);
+  if (reference) return reference;
+
+  const counts = new Map<string, number>();
+  for (const g of groupsOf(mol)) counts.set(g, (counts.get(g) ?? 0) + 1);
+  if (counts.size === 0) return null;
+  let [enthalpy, entropy, cp300, cp800] = [0, 0, 0, 0];
+  for (const [group, n] of counts) {
+    const values = groupValues(group);
+    if (!values) return null;
+    enthalpy += n * values[0];
+    entropy += n * values[1];
+    cp300 += n * values[2];
+    cp800 += n * values[3];
+  }
+  const sigma = rotorSymmetry(mol);
+  const groups = [...counts.entries()].map(([group, count]) => ({ group, count }));
+  if (sigma > 1) groups.push({ group: `symmetry σ=${sigma}`, count: 1 });
+  return {
+    smiles,
+    enthalpy: enthalpy * CALORIE,
+    entropy: entropy * CALORIE - GAS_CONSTANT * Math.log(sigma),
+    heatCapacity: cp300 * CALORIE,
+    cp: linearCp(cp300 * CALORIE, cp800 * CALORIE),
+    source: "groups",
+    groups,
+  };
+}
+
+/**
+ * Standard ΔHf°, S° and Cp of a species: tabulated values for small molecules and ions,
+ * otherwise Benson group additivity with ring strain and methyl-rotor symmetry corrections
+ * (external symmetry and optical isomers are not counted). Salts and mixtures sum their
+ * "." parts. Null when the SMILES does not parse or a group has no tabulated values.
+ */
+export function estimateThermo(smiles: string): SpeciesThermo | null {
+  const parsed = tryParseSmiles(smiles.trim());
+  if (!parsed || parsed.atoms.length === 0) return null;
+  const mol = standardizeMolecule(parsed);
+  const parts = fragments(mol).map((atoms) => fragmentThermo(subMolecule(mol, atoms)));
+  if (parts.some((p) => p === null)) return null;
+  const list = parts as SpeciesThermo[];
+  if (list.length === 1) return { ...list[0], smiles: canonicalSmiles(mol) };
+  return {
+    smiles: canonicalSmiles(mol),
+    enthalpy: list.reduce((s, p) => s + p.enthalpy, 0),
+    entropy: list.reduce((s, p) => s + p.entropy, 0),
+    heatCapacity: list.reduce((s, p) => s + p.heatCapacity, 0),
+    cp: { a: list.reduce((s, p) => s + p.cp.a, 0), b: list.reduce((s, p) => s + p.cp.b, 0) },
+    source: list.every((p) => p.source === "reference") ? "reference" : "groups",
+    groups: list.flatMap((p) => p.groups),
+  };
+}
+
+/**
+ * Benson groups of a species that have no tabulated values, so the UI can say why
+ * estimateThermo gave up; empty when the SMILES does not parse or every group is covered.
+ */
+export function missingThermoGroups(smiles: string): string[] {
+  const parsed = tryParseSmiles(smiles.trim());
+  if (!parsed) return [];
+  const mol = standardizeMolecule(parsed);
+  const missing = new Set<string>();
+  for (const atoms of fragments(mol)) {
+    const part = subMolecule(mol, atoms);
+    if (references().has(canonicalSmiles(part))) continue;
+    for (const group of groupsOf(part)) if (!groupValues(group)) missing.add(group);
+  }
+  return [...missing];
+}
+
+/**
+ * Standard enthalpy (kJ/mol), entropy (J/(mol·K)) and Gibbs energy (kJ/mol) of a species at a
+ * temperature (K), with its Cp integrated from 298.15 K.
+ */
+export function thermoAt(
+  { enthalpy, entropy, cp: { a, b } }: SpeciesThermo,
+  temperature: number,
+): { enthalpy: number; entropy: number; gibbs: number } {
+  const T = temperature;
+  const T0 = REFERENCE_TEMPERATURE;
+  const H = enthalpy + (a * (T - T0) + (b / 2) * (T * T - T0 * T0)) / 1000;
+  const S = entropy + a * Math.log(T / T0) + b * (T - T0);
+  return { enthalpy: H, entropy: S, gibbs: H - (T * S) / 1000 };
+}
+
+/** Severity of a reaction's heat release from its adiabatic temperature rise. */
+export function exothermSeverity(adiabaticRise: number): ExothermSeverity {
+  if (adiabaticRise <= 0) return "endothermic";
+  if (adiabaticRise < MEDIUM_RISE) return "low";
+  if (adiabaticRise < HIGH_RISE) return "medium";
+  return "high";
+}
+
+/**
+ * Reaction enthalpy, entropy and Gibbs energy at a temperature (K) from the species'
+ * formation values, with ΔCp integrated from 298.15 K. Species take their balanced
+ * coefficients, agents that take part included; an unbalanced reaction is taken once each
+ * and flagged. The heat release per kilogram of reaction mass (the reactants dissolved at
+ * `concentration` mol/L per unit coefficient, or neat when that is less) gives the
+ * adiabatic temperature rise and its severity. Null when a structure does not parse, a side
+ * is empty, or a species has no estimate.
+ */
+export function reactionThermo({
+  reactants,
+  agents = [],
+  products,
+  temperature,
+  concentration = 1,
+  balance = balanceReaction({ reactants, agents, products }),
+}: {
+  reactants: string[];
+  agents?: string[];
+  products: string[];
+  temperature: number;
+  concentration?: number;
+  balance?: BalanceResult;
+}): ReactionThermo | null {
+  const once = (list: string[]) => list.map((smiles) => ({ smiles, coefficient: 1 }));
+  const left = balance.balanced ? balance.reactantTerms : once(reactants);
+  const right = balance.balanced ? balance.productTerms : once(products);
+  if (left.length === 0 || right.length === 0) return null;
+
+  const species: ReactionThermo["species"] = [];
+  let mass = 0;
+  for (const [side, list] of [["reactant", left], ["product", right]] as const) {
+    for (const { smiles, coefficient } of list) {
+      const thermo = estimateThermo(smiles);
+      if (!thermo) return null;
+      species.push({ ...thermo, coefficient, side });
+      if (side === "reactant") mass += coefficient * (formulaFromSmiles(smiles)?.averageMass ?? 0);
+    }
+  }
+
+  const at = species.map((s) => thermoAt(s, temperature));
+  const delta = (value: (s: ReturnType<typeof thermoAt>) => number) =>
+    species.reduce((sum, s, i) => sum + (s.side === "product" ? 1 : -1) * s.coefficient * value(at[i]), 0);
+  const enthalpy = delta((s) => s.enthalpy);
+  const entropy = delta((s) => s.entropy);
+  const gibbs = delta((s) => s.gibbs);
+  // Grams per mole of reaction: the solution holding it, never less than the reactants themselves
+  const reactionMass = Math.max(mass, (SOLUTION_DENSITY * 1000) / concentration);
+  const specificEnergy = reactionMass > 0 ? (-enthalpy / reactionMass) * 1000 : 0;
+  const adiabaticRise = specificEnergy / REACTION_MASS_CP;
+
+  return {
+    balanced: balance.balanced,
+    temperature,
+    enthalpy,
+    entropy,
+    gibbs,
+    specificEnergy,
+    adiabaticRise,
+    concentration,
+    severity: exothermSeverity(adiabaticRise),
+    species,
+  };
+}
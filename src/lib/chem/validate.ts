@@ -0,0 +1,96 @@
+import { kekulize } from "./aromaticity";
+import { allowedValences } from "./elements";
+import { adjacency, type Atom, fragments, type Molecule } from "./molecule";
+import { parseSmiles, SmilesParseError } from "./smiles";
+
+export type ValidationIssueKind = "syntax" | "valence" | "aromaticity" | "charge";
+
+export interface ValidationIssue {
+  kind: ValidationIssueKind;
+  message: string;
+  /** 0-based character offset in the input, when the issue can be pinned to one. */
+  position: number | null;
+}
+
+// Same shape as the FastAPI /validate response, plus the individual issues
+export interface StructureValidation {
+  isValid: boolean;
+  message?: string;
+  issues: ValidationIssue[];
+}
+
+const atomLabel = (atom: Atom) => {
+  if (!atom.charge) return atom.element;
+  const sign = atom.charge > 0 ? "+" : "-";
+  return `${atom.element}${Math.abs(atom.charge) > 1 ? Math.abs(atom.charge) : ""}${sign}`;
+};
+
+/**
+ * Offline structure check for a SMILES string: syntax (unbalanced brackets/branches,
+ * unclosed rings), valence, aromaticity (kekulizability) and unbalanced charges across
+ * disconnected fragments. Messages quote 1-based positions in the input.
+ */
+export function validateSmiles(smiles: string): StructureValidation {
+  let mol: Molecule;
+  try {
+    mol = parseSmiles(smiles);
+  } catch (e) {
+    if (!(e instanceof SmilesParseError)) throw e;
+    const issue: ValidationIssue = { kind: "syntax", message: e.message, position: e.position };
+    return { isValid: false, message: issue.message, issues: [issue] };
+  }
+
+  const issues: ValidationIssue[] = [];
+
+  const kekule = kekulize(mol);
+  if (!kekule.ok) {
+    const first = mol.atoms[kekule.atoms[0]];
+    const hint = kekule.atoms.some((i) => mol.atoms[i].element === "N" && !mol.atoms[i].bracket)
+      ? " (a pyrrole-type nitrogen must be written as [nH])"
+      : "";
+    issues.push({
+      kind: "aromaticity",
+      message: `Aromatic system starting at position ${first.position + 1} cannot be kekulized${hint}`,
+      position: first.position,
+    });
+  }
+
+  const adj = adjacency(mol);
+  mol.atoms.forEach((atom, i) => {
+    const allowed = allowedValences(atom.element, atom.charge);
+    if (!allowed) return;
+    // Aromatic bonds count by their Kekulé order (as single if kekulization failed)
+    let valence = atom.hydrogens;
+    for (const b of adj[i]) {
+      const bond = mol.bonds[b];
+      valence += kekule.ok ? kekule.orders[b] : bond.order;
+    }
+    const max = allowed.length ? Math.max(...allowed) : 0;
+    if (valence > max) {
+      issues.push({
+        kind: "valence",
+        message: `${atomLabel(atom)} at position ${atom.position + 1} has valence ${valence} (maximum ${max})`,
+        position: atom.position,
+      });
+    }
+  });
+
+  const parts = fragments(mol);
+  if (parts.length > 1) {
+    const charge = mol.atoms.reduce((sum, a) => sum + a.charge, 0);
+    if (charge !== 0) {
+      const culprit = mol.atoms.find((a) => Math.sign(a.charge) === Math.sign(charge))!;
+      issues.push({
+        kind: "charge",
+        message: `Disconnected fragments leave a net charge of ${charge > 0 ? "+" : ""}${charge}; ${atomLabel(
+          culprit,
+        )} at position ${culprit.position + 1} has no matching counter-ion`,
+        position: culprit.position,
+      });
+    }
+  }
+
+  return issues.length
+    ? { isValid: false, message: issues.map((i) => i.message).join("; "), issues }
+    : { isValid: true, issues };
+}
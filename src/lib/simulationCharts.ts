@@ -0,0 +1,75 @@
+import { formulaFromSmiles } from "./chem/formula";
+import type { SimulationResults } from "./chem/kinetics";
+
+export interface EnergyPoint {
+  label: string;
+  energy: number;
+  kind: "minimum" | "transition";
+}
+
+export type CsvTable = { header: string[]; rows: Array<Array<string | number>> };
+
+/** Hill formula for a SMILES species; intermediates ("I1") and unreadable names stay as they are. */
+export function speciesLabel(species: string): string {
+  return /^I\d+$/.test(species) ? species : (formulaFromSmiles(species)?.formula ?? species);
+}
+
+/**
+ * Label the points of an energy profile: reactants, TS1, the first intermediate, TS2, …,
+ * products. Intermediates take their stored names; missing names are numbered.
+ */
+export function energyDiagramPoints(energyProfile: number[], intermediates: string[] = []): EnergyPoint[] {
+  const last = energyProfile.length - 1;
+  return energyProfile.map((energy, i) => {
+    if (i === 0) return { label: "Reactants", energy, kind: "minimum" };
+    if (i === last) return { label: "Products", energy, kind: "minimum" };
+    const step = Math.ceil(i / 2);
+    return i % 2 === 1
+      ? { label: `TS${step}`, energy, kind: "transition" }
+      : { label: intermediates[step - 1] ?? `I${step}`, energy, kind: "minimum" };
+  });
+}
+
+/** Concentrations by time, one column per species; empty when the run stored no series. */
+export function concentrationTable(results: SimulationResults): CsvTable {
+  const series = results.concentrations ?? [];
+  return {
+    header: ["time_s", ...series.map((s) => s.species)],
+    rows: (results.times ?? []).map((t, i) => [t, ...series.map((s) => s.values[i])]),
+  };
+}
+
+export function energyTable(results: SimulationResults): CsvTable {
+  return {
+    header: ["point", "kind", "energy_kj_mol"],
+    rows: energyDiagramPoints(results.energyProfile, results.intermediates).map((p) => [p.label, p.kind, p.energy]),
+  };
+}
+
+export function summaryTable(results: SimulationResults): CsvTable {
+  return {
+    header: ["quantity", "percent"],
+    rows: [
+      ...(results.conversion !== undefined ? [["conversion", round(results.conversion * 100)]] : []),
+      ["yield", round(results.yieldPrediction * 100)],
+    ],
+  };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** RFC 4180 CSV: fields with commas, quotes or line breaks are quoted, quotes doubled. */
+export function toCsv({ header, rows }: CsvTable): string {
+  const field = (value: string | number) => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [header, ...rows].map((row) => row.map(field).join(",")).join("\r\n") + "\r\n";
+}
+
+/** A time axis unit that keeps the numbers readable: seconds, minutes or hours. */
+export function timeUnit(duration: number): { label: string; factor: number } {
+  if (duration >= 3 * 3600) return { label: "h", factor: 3600 };
+  if (duration >= 3 * 60) return { label: "min", factor: 60 };
+  return { label: "s", factor: 1 };
+}
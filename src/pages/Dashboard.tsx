@@ -3,53 +3,136 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/hooks/use-auth";
 import { motion } from "framer-motion";
-import { Beaker, FileText, History, LogOut, FlaskConical, Plus, User } from "lucide-react";
+import { Beaker, Download, FileText, History, LogOut, FlaskConical, Plus, User } from "lucide-react";
 import { useNavigate } from "react-router";
 import { ReactionSimulator } from "@/components/ReactionSimulator";
-import { useEffect, useState } from "react";
-import { useAction, useQuery } from "convex/react";
+import { LibraryImportDialog } from "@/components/LibraryImportDialog";
+import { StructureDiagram } from "@/components/StructureDiagram";
+import { SimulationResultsView } from "@/components/simulator/SimulationResults";
+import { SubstructureSearch } from "@/components/SubstructureSearch";
+import { DrugLikenessFilter } from "@/components/DrugLikenessFilter";
+import { DrugLikenessPanel } from "@/components/DrugLikenessPanel";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useAction, useMutation, useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { toast } from "sonner";
+import { type DrugLikenessFilterId, drugLikenessFromSmiles, meetsDrugLikenessFilters } from "@/lib/chem/druglikeness";
+import { FINGERPRINT_VERSION } from "@/lib/chem/fingerprint";
+import { librarySdf } from "@/lib/chem/libraryFields";
+import { parseSmarts } from "@/lib/chem/smarts";
 
 export default function Dashboard() {
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
   const validateStructure = useAction(api.cheminfo.validateStructure);
-  const [showCheminfoWarning, setShowCheminfoWarning] = useState(false);
-  const molecules = useQuery(api.molecules.getUserMolecules) ?? [];
+  const engineStatus = useAction(api.cheminfo.engineStatus);
+  // Which engine answers cheminformatics calls: the built-in library, or a configured FastAPI backend
+  const [cheminfoEngine, setCheminfoEngine] = useState<"local" | "fastapi" | null>(null);
+  const savedMolecules = useQuery(api.molecules.getUserMolecules);
+  const simulations = useQuery(api.simulations.getUserSimulations) ?? [];
+  const [openSimulation, setOpenSimulation] = useState<string | null>(null);
+  const molecules = useMemo(() => savedMolecules ?? [], [savedMolecules]);
+  const [importOpen, setImportOpen] = useState(false);
+  const [smarts, setSmarts] = useState("");
 
+  // Patterns are checked locally so only valid SMARTS reach the search query
+  const smartsError = useMemo(() => {
+    if (!smarts.trim()) return null;
+    try {
+      parseSmarts(smarts.trim());
+      return null;
+    } catch (e) {
+      return e instanceof Error ? e.message : "Invalid SMARTS pattern";
+    }
+  }, [smarts]);
+  const activeSmarts = smarts.trim() && !smartsError ? smarts.trim() : null;
+  const searchResults = useQuery(api.molecules.searchMolecules, activeSmarts ? { smarts: activeSmarts } : "skip");
+  const matchedAtoms = new Map(searchResults?.map((r) => [r._id, r.matches.flat()]));
+
+  // Rule sets and structural alerts are evaluated locally for every library entry
+  const [drugFilters, setDrugFilters] = useState<DrugLikenessFilterId[]>([]);
+  const [alertHighlight, setAlertHighlight] = useState<{ id: string; atoms: number[] } | null>(null);
+  const drugLikeness = useMemo(
+    () => new Map(molecules.map((m) => [m._id, drugLikenessFromSmiles(m.smiles)])),
+    [molecules],
+  );
+  const passingMolecules = molecules.filter((m) => {
+    const profile = drugLikeness.get(m._id);
+    return drugFilters.length === 0 || (!!profile && meetsDrugLikenessFilters(profile, drugFilters));
+  });
+  const shownMolecules = activeSmarts ? passingMolecules.filter((m) => matchedAtoms.has(m._id)) : passingMolecules;
+
+  // Molecules saved before canonical SMILES, fingerprints and descriptors existed get them
+  // stored, a page at a time and once per visit (unparseable SMILES stay stale, and a failure
+  // is not retried)
+  const backfillComputedProperties = useMutation(api.molecules.backfillComputedProperties);
+  const backfillStarted = useRef(false);
+  const staleProperties = molecules.some(
+    (m) => !m.canonicalSmiles || m.fingerprints?.version !== FINGERPRINT_VERSION || !m.properties?.descriptors,
+  );
   useEffect(() => {
-    let mounted = true;
+    if (!staleProperties || backfillStarted.current) return;
+    backfillStarted.current = true;
     (async () => {
-      try {
-        // quick ping to detect missing FASTAPI env setup
-        await validateStructure({ structure: "C" });
-      } catch (e: any) {
-        const msg = String(e?.message || e);
-        if (mounted && msg.includes("FASTAPI_CHEM_BASE_URL")) {
-          setShowCheminfoWarning(true);
-        }
+      let cursor: string | null = null;
+      for (;;) {
+        const page: { continueCursor: string; isDone: boolean } = await backfillComputedProperties({ cursor });
+        if (page.isDone) break;
+        cursor = page.continueCursor;
       }
-    })();
+    })().catch((e) => {
+      toast.error(`Could not store computed properties: ${e instanceof Error ? e.message : String(e)}`);
+    });
+  }, [staleProperties, backfillComputedProperties]);
+
+  // Download the library as an SD file (SMILES, formula and properties as data items)
+  const exportLibrary = () => {
+    const { sdf, skipped } = librarySdf(molecules);
+    const url = URL.createObjectURL(new Blob([sdf], { type: "chemical/x-mdl-sdfile" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "molecule-library.sdf";
+    link.click();
+    URL.revokeObjectURL(url);
+    if (skipped.length > 0) {
+      toast.warning(`Skipped ${skipped.length} molecule(s) with unreadable SMILES: ${skipped.join(", ")}`);
+    } else {
+      toast.success(`Exported ${molecules.length} molecule(s) to SDF`);
+    }
+  };
+
+  useEffect(() => {
+    let mounted = true;
+    engineStatus({})
+      .then(({ engine }) => {
+        if (mounted) setCheminfoEngine(engine);
+      })
+      // Without a status no banner is shown; the cheminfo actions still answer
+      .catch(() => {});
     return () => {
       mounted = false;
     };
-  }, [validateStructure]);
+  }, [engineStatus]);
 
   const handleSignOut = async () => {
     await signOut();
     navigate("/");
   };
 
-  // Add: quick test button to validate FastAPI config
+  // Check which engine answers and, with FastAPI configured, that it answers itself
   const testCheminfoConnection = async () => {
     try {
-      await validateStructure({ structure: "C" });
-      toast.success("FastAPI Cheminformatics connected!");
-      setShowCheminfoWarning(false);
-    } catch (e: any) {
-      const msg = String(e?.message || e);
-      toast.error(msg.includes("FASTAPI_CHEM_BASE_URL") ? "FASTAPI_CHEM_BASE_URL is not set." : `Cheminfo error: ${msg}`);
+      const { engine } = await engineStatus({});
+      setCheminfoEngine(engine);
+      if (engine === "local") {
+        toast.info("No FastAPI backend is configured; the built-in engine handles cheminformatics.");
+        return;
+      }
+      const res = await validateStructure({ structure: "C" });
+      if (res.engine === "fastapi") toast.success("FastAPI Cheminformatics connected!");
+      else toast.warning("FastAPI is configured but did not answer; the built-in engine answered instead.");
+    } catch (e) {
+      toast.error(`Cheminfo error: ${e instanceof Error ? e.message : String(e)}`);
     }
   };
 
@@ -83,13 +166,14 @@ export default function Dashboard() {
       </header>
 
       <div className="max-w-7xl mx-auto px-6 py-8">
-        {/* Add: Cheminformatics env setup banner */}
-        {showCheminfoWarning && (
-          <div className="mb-6 rounded-lg border border-yellow-300 bg-yellow-50 text-yellow-900 p-4">
-            <div className="font-medium">FastAPI Cheminformatics backend not configured</div>
-            <p className="text-sm mt-1">
-              Set FASTAPI_CHEM_BASE_URL (and optional FASTAPI_CHEM_API_KEY) in Integrations to enable Cheminfo features.
-              After saving, reload the app and use the "Cheminfo: Validate" and "Cheminfo: Normalize" buttons in the Simulator.
+        {/* Which cheminformatics engine is in use; local mode is fully working */}
+        {cheminfoEngine === "local" && (
+          <div className="mb-6 rounded-lg border bg-muted/40 p-4">
+            <div className="font-medium">Cheminformatics: built-in engine</div>
+            <p className="text-sm mt-1 text-muted-foreground">
+              Validation, canonical SMILES, 2D and 3D coordinates, descriptors and product prediction run on the
+              built-in chemistry library. To use a FastAPI backend instead, set FASTAPI_CHEM_BASE_URL (and optional
+              FASTAPI_CHEM_API_KEY) in Integrations; the built-in engine still answers whenever it is unreachable.
             </p>
             <div className="mt-3">
               <Button variant="outline" size="sm" onClick={testCheminfoConnection}>
@@ -146,11 +230,34 @@ export default function Dashboard() {
                       Manage your saved molecules and their properties
                     </p>
                   </div>
-                  <Button>
-                    <Plus className="h-4 w-4 mr-2" />
-                    Add Molecule
-                  </Button>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" onClick={exportLibrary} disabled={molecules.length === 0}>
+                      <Download className="h-4 w-4 mr-2" />
+                      Export SDF
+                    </Button>
+                    <Button onClick={() => setImportOpen(true)}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Molecule
+                    </Button>
+                  </div>
                 </div>
+                <LibraryImportDialog open={importOpen} onOpenChange={setImportOpen} molecules={molecules} />
+
+                {molecules.length > 0 && (
+                  <SubstructureSearch
+                    value={smarts}
+                    onChange={setSmarts}
+                    error={smartsError}
+                    matchCount={activeSmarts && searchResults ? searchResults.length : undefined}
+                  />
+                )}
+                {molecules.length > 0 && (
+                  <DrugLikenessFilter
+                    value={drugFilters}
+                    onChange={setDrugFilters}
+                    matchCount={passingMolecules.length}
+                  />
+                )}
 
                 {/* Render user molecules */}
                 {molecules.length === 0 ? (
@@ -159,42 +266,95 @@ export default function Dashboard() {
                       No molecules yet. Use "Add Molecule" or save from the simulator.
                     </div>
                   </Card>
+                ) : activeSmarts && shownMolecules.length === 0 ? (
+                  <Card className="p-6">
+                    <div className="text-sm text-muted-foreground">
+                      {!searchResults
+                        ? "Searching…"
+                        : drugFilters.length > 0
+                          ? "No molecules in your library contain this substructure and pass the selected filters."
+                          : "No molecules in your library contain this substructure."}
+                    </div>
+                  </Card>
+                ) : shownMolecules.length === 0 ? (
+                  <Card className="p-6">
+                    <div className="text-sm text-muted-foreground">
+                      No molecules in your library pass the selected drug-likeness filters.
+                    </div>
+                  </Card>
                 ) : (
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                    {molecules.map((m) => (
-                      <Card key={m._id} className="cursor-pointer hover:shadow-md transition-shadow">
-                        <CardHeader>
-                          <CardTitle className="text-lg">{m.name}</CardTitle>
-                          <CardDescription>{m.formula}</CardDescription>
-                        </CardHeader>
-                        <CardContent>
-                          <div className="space-y-2 text-sm">
-                            {m.properties?.molecularWeight !== undefined && (
+                    {shownMolecules.map((m) => {
+                      const profile = drugLikeness.get(m._id);
+                      return (
+                        <Card key={m._id} className="cursor-pointer hover:shadow-md transition-shadow">
+                          <CardHeader>
+                            <CardTitle className="text-lg">{m.name}</CardTitle>
+                            <CardDescription>{m.formula}</CardDescription>
+                          </CardHeader>
+                          <CardContent>
+                            <StructureDiagram
+                              smiles={m.smiles}
+                              height={140}
+                              highlightAtoms={
+                                alertHighlight?.id === m._id ? alertHighlight.atoms : matchedAtoms.get(m._id)
+                              }
+                              className="mx-auto mb-3 w-full text-foreground"
+                            />
+                            <div className="space-y-2 text-sm">
+                              {m.properties?.molecularWeight !== undefined && (
+                                <div className="flex justify-between">
+                                  <span>Molecular Weight:</span>
+                                  <span>{m.properties.molecularWeight} g/mol</span>
+                                </div>
+                              )}
+                              {m.properties?.logP !== undefined && (
+                                <div className="flex justify-between">
+                                  <span>LogP:</span>
+                                  <span>{m.properties.logP.toFixed(2)}</span>
+                                </div>
+                              )}
+                              {m.properties?.descriptors && (
+                                <div className="grid grid-cols-3 gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                                  <span title="Topological polar surface area">TPSA {m.properties.descriptors.tpsa.toFixed(1)}</span>
+                                  <span title="H-bond donors / acceptors">
+                                    HBD/HBA {m.properties.descriptors.hBondDonors}/{m.properties.descriptors.hBondAcceptors}
+                                  </span>
+                                  <span title="Rotatable bonds">RotB {m.properties.descriptors.rotatableBonds}</span>
+                                  <span title="Heavy atoms">Heavy {m.properties.descriptors.heavyAtoms}</span>
+                                  <span title="Fraction of sp3 carbons">Fsp3 {m.properties.descriptors.fractionCsp3.toFixed(2)}</span>
+                                  <span title="Rings (aromatic)">
+                                    Rings {m.properties.descriptors.rings} ({m.properties.descriptors.aromaticRings})
+                                  </span>
+                                </div>
+                              )}
+                              {m.properties?.toxicity && (
+                                <div className="flex justify-between">
+                                  <span>Toxicity:</span>
+                                  <span className="text-green-600">{m.properties.toxicity}</span>
+                                </div>
+                              )}
+                              {m.properties?.hazardLevel && (
+                                <div className="flex justify-between">
+                                  <span>Hazard:</span>
+                                  <span className="text-yellow-700">{m.properties.hazardLevel}</span>
+                                </div>
+                              )}
                               <div className="flex justify-between">
-                                <span>Molecular Weight:</span>
-                                <span>{m.properties.molecularWeight} g/mol</span>
+                                <span>SMILES:</span>
+                                <span className="font-mono truncate max-w-[10rem]" title={m.smiles}>{m.smiles}</span>
                               </div>
-                            )}
-                            {m.properties?.toxicity && (
-                              <div className="flex justify-between">
-                                <span>Toxicity:</span>
-                                <span className="text-green-600">{m.properties.toxicity}</span>
-                              </div>
-                            )}
-                            {m.properties?.hazardLevel && (
-                              <div className="flex justify-between">
-                                <span>Hazard:</span>
-                                <span className="text-yellow-700">{m.properties.hazardLevel}</span>
-                              </div>
-                            )}
-                            <div className="flex justify-between">
-                              <span>SMILES:</span>
-                              <span className="font-mono truncate max-w-[10rem]" title={m.smiles}>{m.smiles}</span>
+                              {profile && (
+                                <DrugLikenessPanel
+                                  profile={profile}
+                                  onHighlight={(atoms) => setAlertHighlight(atoms ? { id: m._id, atoms } : null)}
+                                />
+                              )}
                             </div>
-                          </div>
-                        </CardContent>
-                      </Card>
-                    ))}
+                          </CardContent>
+                        </Card>
+                      );
+                    })}
                   </div>
                 )}
               </div>
@@ -210,28 +370,53 @@ export default function Dashboard() {
                 </div>
                 
                 <div className="space-y-4">
-                  {[1, 2, 3].map((i) => (
-                    <Card key={i}>
-                      <CardContent className="p-6">
+                  {simulations.length === 0 && (
+                    <Card>
+                      <CardContent className="p-6 text-sm text-muted-foreground">
+                        No simulations yet. Saving a reaction in the simulator runs its kinetics and records the run here.
+                      </CardContent>
+                    </Card>
+                  )}
+                  {simulations.map((s) => (
+                    <Card key={s._id}>
+                      <CardContent className="p-6 space-y-4">
                         <div className="flex items-center justify-between">
                           <div className="space-y-1">
-                            <h3 className="font-medium">Ethanol Oxidation Reaction</h3>
+                            <h3 className="font-medium">{s.name}</h3>
                             <p className="text-sm text-muted-foreground">
-                              CCO + [O] → CH₃CHO + H₂O
+                              {s.parameters.temperature} K, {s.parameters.pressure} atm, {s.parameters.duration / 60} min
+                              {s.results?.conversion !== undefined && ` · ${(s.results.conversion * 100).toFixed(0)}% conversion`}
                             </p>
                             <p className="text-xs text-muted-foreground">
-                              Simulated 2 hours ago
+                              Simulated {new Date(s._creationTime).toLocaleString()}
                             </p>
+                            {s.error && <p className="text-xs text-red-600">{s.error}</p>}
                           </div>
                           <div className="flex items-center gap-2">
-                            <span className="text-sm bg-green-100 text-green-800 px-2 py-1 rounded">
-                              Completed
+                            <span
+                              className={`text-sm px-2 py-1 rounded ${
+                                s.status === "completed"
+                                  ? "bg-green-100 text-green-800"
+                                  : s.status === "failed"
+                                    ? "bg-red-100 text-red-800"
+                                    : "bg-amber-100 text-amber-800"
+                              }`}
+                            >
+                              {s.status.charAt(0).toUpperCase() + s.status.slice(1)}
                             </span>
-                            <Button variant="outline" size="sm">
-                              View Details
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={!s.results}
+                              onClick={() => setOpenSimulation(openSimulation === s._id ? null : s._id)}
+                            >
+                              {openSimulation === s._id ? "Hide Details" : "View Details"}
                             </Button>
                           </div>
                         </div>
+                        {openSimulation === s._id && s.results && (
+                          <SimulationResultsView results={s.results} fileName={`simulation-${s._id}`} />
+                        )}
                       </CardContent>
                     </Card>
                   ))}